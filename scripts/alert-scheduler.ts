@@ -0,0 +1,53 @@
+/**
+ * Re-run the scan for every symbol with an alert rule and fire new events.
+ *
+ * Usage:
+ *   npm run alerts                 # every ALERT_INTERVAL_MINUTES (default 5)
+ *   npm run alerts -- --once       # a single check, e.g. from cron
+ *
+ * Events are stored in AlertEvent (the dashboard shows them as toasts) and
+ * sent to each rule's webhook/email channels. An event fires at most once per
+ * rule and session.
+ */
+import { db } from "@/lib/db";
+import { runAlertCheck } from "@/lib/trading/alert-engine";
+import { loadInstrumentRegistry } from "@/lib/trading/instrument-store";
+
+const INTERVAL_MS =
+  Math.max(1, Number(process.env.ALERT_INTERVAL_MINUTES ?? 5) || 5) * 60_000;
+
+async function check(): Promise<boolean> {
+  try {
+    await loadInstrumentRegistry();
+    const { session, symbols, fired } = await runAlertCheck();
+    console.log(
+      `${new Date().toISOString()} checked ${symbols.length} symbol(s)` +
+        (session ? ` for ${session}` : "") +
+        `, ${fired.length} new alert(s)`,
+    );
+    for (const event of fired) {
+      console.log(`  ${event.symbol}: ${event.message}`);
+    }
+    return true;
+  } catch (err) {
+    console.error("Alert check failed:", err);
+    return false;
+  }
+}
+
+async function main() {
+  if (process.argv.includes("--once")) {
+    const ok = await check();
+    await db.$disconnect();
+    process.exit(ok ? 0 : 1);
+  }
+
+  // Wait for each check to finish before scheduling the next one
+  const loop = async () => {
+    await check();
+    setTimeout(loop, INTERVAL_MS);
+  };
+  loop();
+}
+
+main();
@@ -0,0 +1,103 @@
+/**
+ * Import broker CSV exports into the Prisma `OhlcBar` table.
+ *
+ * Usage:
+ *   npm run db:import-ohlc                       # every registered instrument's daily CSV
+ *   npm run db:import-ohlc -- --timeframe H4     # every instrument's <SYMBOL>_H4.csv
+ *   npm run db:import-ohlc -- data/XAUUSD_Daily.csv
+ *   npm run db:import-ohlc -- --symbol XAUUSD ~/exports/gold.csv
+ *
+ * Without --symbol the symbol is taken from the file name prefix
+ * (e.g. "EURUSD_Daily.csv" → EURUSD). Without --timeframe a file named
+ * "<SYMBOL>_H4.csv" / "<SYMBOL>_H1.csv" is imported as that timeframe,
+ * anything else as D1.
+ */
+import { readFileSync } from "fs";
+import { basename } from "path";
+import { db } from "@/lib/db";
+import { parseBrokerCsv } from "@/lib/trading/broker-csv";
+import { brokerCsvPath } from "@/lib/trading/data-provider";
+import { upsertOhlcBars } from "@/lib/trading/ohlc-store";
+import { TIMEFRAMES, type Timeframe } from "@/lib/trading/types";
+import { isKnownSymbol, listInstruments } from "@/lib/trading/instruments";
+import { loadInstrumentRegistry } from "@/lib/trading/instrument-store";
+
+function isTimeframe(value: string): value is Timeframe {
+  return (TIMEFRAMES as readonly string[]).includes(value);
+}
+
+function parseArgs(argv: string[]): {
+  symbol?: string;
+  timeframe?: Timeframe;
+  files: string[];
+} {
+  const files: string[] = [];
+  let symbol: string | undefined;
+  let timeframe: Timeframe | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--symbol") {
+      symbol = argv[++i]?.toUpperCase();
+    } else if (argv[i] === "--timeframe") {
+      const value = argv[++i]?.toUpperCase() ?? "";
+      if (!isTimeframe(value)) {
+        throw new Error(`--timeframe must be one of ${TIMEFRAMES.join(", ")}`);
+      }
+      timeframe = value;
+    } else {
+      files.push(argv[i]);
+    }
+  }
+
+  return { symbol, timeframe, files };
+}
+
+function timeframeFromFileName(file: string): Timeframe {
+  const suffix = basename(file).split(/[_.]/)[1]?.toUpperCase() ?? "";
+  return suffix !== "D1" && isTimeframe(suffix) ? suffix : "D1";
+}
+
+async function main() {
+  const { symbol, timeframe, files } = parseArgs(process.argv.slice(2));
+  await loadInstrumentRegistry();
+
+  const jobs: { symbol: string; timeframe: Timeframe; file: string }[] =
+    files.length > 0
+      ? files.map((file) => ({
+          symbol: symbol ?? basename(file).split(/[_.]/)[0].toUpperCase(),
+          timeframe: timeframe ?? timeframeFromFileName(file),
+          file,
+        }))
+      : listInstruments().map(({ symbol: s }) => ({
+          symbol: s,
+          timeframe: timeframe ?? "D1",
+          file: brokerCsvPath(s, timeframe),
+        }));
+
+  let failed = false;
+
+  for (const job of jobs) {
+    if (!isKnownSymbol(job.symbol)) {
+      console.error(`Skipping ${job.file}: unknown symbol "${job.symbol}"`);
+      failed = true;
+      continue;
+    }
+
+    try {
+      const bars = parseBrokerCsv(readFileSync(job.file, "utf-8"), job.timeframe);
+      const result = await upsertOhlcBars(job.symbol, bars, job.timeframe);
+      console.log(
+        `${result.symbol} ${result.timeframe}: ${result.received} bars (${result.firstDate} → ${result.lastDate}), ` +
+          `${result.inserted} inserted, ${result.updated} updated`,
+      );
+    } catch (err) {
+      console.error(`Failed to import ${job.file}:`, err);
+      failed = true;
+    }
+  }
+
+  await db.$disconnect();
+  process.exit(failed ? 1 : 0);
+}
+
+main();
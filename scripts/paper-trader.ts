@@ -0,0 +1,61 @@
+/**
+ * Run the paper broker: update simulated orders and place new ones from a
+ * fresh scan.
+ *
+ * Usage:
+ *   npm run paper                  # every PAPER_INTERVAL_MINUTES (default 5)
+ *   npm run paper -- --once        # a single cycle, e.g. from cron
+ *
+ * Start the paper account from the dashboard (or PUT /api/paper) first; a
+ * cycle does nothing while it is missing or paused. Each cycle records an
+ * equity snapshot.
+ */
+import { db } from "@/lib/db";
+import { runPaperTradingCycle } from "@/lib/trading/paper-engine";
+import { loadInstrumentRegistry } from "@/lib/trading/instrument-store";
+
+const INTERVAL_MS =
+  Math.max(1, Number(process.env.PAPER_INTERVAL_MINUTES ?? 5) || 5) * 60_000;
+
+async function cycle(): Promise<boolean> {
+  try {
+    await loadInstrumentRegistry();
+    const { session, placed, changed, account } = await runPaperTradingCycle();
+    if (!account?.enabled) {
+      console.log(`${new Date().toISOString()} paper trading is not enabled`);
+      return true;
+    }
+    console.log(
+      `${new Date().toISOString()} ${session ? `${session}: ` : ""}` +
+        `${placed.length} placed, ${changed.length} updated, ` +
+        `equity ${account.equity.toFixed(2)} ${account.currency}`,
+    );
+    for (const order of [...placed, ...changed]) {
+      console.log(
+        `  ${order.symbol} ${order.model} ${order.direction} ${order.status}` +
+          (order.exitReason ? ` (${order.exitReason})` : ""),
+      );
+    }
+    return true;
+  } catch (err) {
+    console.error("Paper trading cycle failed:", err);
+    return false;
+  }
+}
+
+async function main() {
+  if (process.argv.includes("--once")) {
+    const ok = await cycle();
+    await db.$disconnect();
+    process.exit(ok ? 0 : 1);
+  }
+
+  // Wait for each cycle to finish before scheduling the next one
+  const loop = async () => {
+    await cycle();
+    setTimeout(loop, INTERVAL_MS);
+  };
+  loop();
+}
+
+main();
@@ -0,0 +1,132 @@
+/**
+ * Socket.IO price stream for the dashboard.
+ *
+ * Usage:
+ *   npm run price-stream
+ *
+ * Dashboards emit `subscribe` with the symbols they show and receive a `tick`
+ * whenever a symbol's quote changes. Quotes come from `getCurrentPrice`
+ * (FX_API_URL / FX_API_KEY), polled every PRICE_STREAM_INTERVAL_MS (default
+ * 5000) for symbols with at least one subscriber. Listens on PRICE_STREAM_PORT
+ * (default 3003); the browser reaches it through the gateway as
+ * `/?XTransformPort=3003`. The instrument registry is reloaded every minute.
+ */
+import { createServer } from "http";
+import { Server } from "socket.io";
+import { z } from "zod";
+import { getCurrentPrice } from "@/lib/trading/live-prices";
+import { isKnownSymbol } from "@/lib/trading/instruments";
+import { loadInstrumentRegistry } from "@/lib/trading/instrument-store";
+import {
+  PRICE_STREAM_PATH,
+  PRICE_STREAM_PORT,
+  type PriceStreamClientEvents,
+  type PriceStreamServerEvents,
+  type PriceTick,
+} from "@/lib/trading/price-stream";
+
+const POLL_INTERVAL_MS = Math.max(
+  1000,
+  Number(process.env.PRICE_STREAM_INTERVAL_MS ?? 5000) || 5000,
+);
+
+// Instruments added on the dashboard become subscribable after a refresh
+const REGISTRY_REFRESH_MS = 60_000;
+
+const subscribeSchema = z
+  .object({
+    symbols: z.array(z.string().trim().toUpperCase()).max(50),
+  })
+  .strict();
+
+const httpServer = createServer();
+const io = new Server<PriceStreamClientEvents, PriceStreamServerEvents>(
+  httpServer,
+  {
+    path: PRICE_STREAM_PATH,
+    cors: { origin: "*", methods: ["GET", "POST"] },
+    pingTimeout: 60000,
+    pingInterval: 25000,
+  },
+);
+
+// Last tick per symbol, replayed to new subscribers and used to skip repeats
+const lastTicks = new Map<string, PriceTick>();
+
+function subscribedSymbols(): string[] {
+  return [...io.sockets.adapter.rooms.keys()].filter(isKnownSymbol);
+}
+
+async function fetchTick(symbol: string): Promise<PriceTick> {
+  const at = new Date().toISOString();
+  try {
+    return { symbol, at, ...(await getCurrentPrice(symbol)) };
+  } catch (err) {
+    console.error("Failed to fetch live price for", symbol, err);
+    return {
+      symbol,
+      at,
+      spot: null,
+      error: { code: "HTTP_ERROR", message: String(err) },
+    };
+  }
+}
+
+async function poll() {
+  const ticks = await Promise.all(subscribedSymbols().map(fetchTick));
+
+  for (const tick of ticks) {
+    const previous = lastTicks.get(tick.symbol);
+    lastTicks.set(tick.symbol, tick);
+    if (
+      previous &&
+      previous.spot === tick.spot &&
+      previous.error?.code === tick.error?.code
+    ) {
+      continue;
+    }
+    io.to(tick.symbol).emit("tick", tick);
+  }
+
+  setTimeout(poll, POLL_INTERVAL_MS);
+}
+
+io.on("connection", (socket) => {
+  socket.on("subscribe", (payload) => {
+    const parsed = subscribeSchema.safeParse(payload);
+    if (!parsed.success) return;
+
+    const symbols = parsed.data.symbols.filter(isKnownSymbol);
+
+    for (const room of socket.rooms) {
+      if (room !== socket.id && !symbols.includes(room)) socket.leave(room);
+    }
+    for (const symbol of symbols) {
+      socket.join(symbol);
+      const last = lastTicks.get(symbol);
+      if (last) socket.emit("tick", last);
+    }
+  });
+});
+
+async function refreshRegistry() {
+  try {
+    await loadInstrumentRegistry();
+  } catch (err) {
+    console.error("Failed to refresh the instrument registry:", err);
+  }
+  setTimeout(refreshRegistry, REGISTRY_REFRESH_MS);
+}
+
+async function main() {
+  await loadInstrumentRegistry();
+  setTimeout(refreshRegistry, REGISTRY_REFRESH_MS);
+  httpServer.listen(PRICE_STREAM_PORT, () => {
+    console.log(
+      `Price stream listening on :${PRICE_STREAM_PORT} (polling every ${POLL_INTERVAL_MS} ms)`,
+    );
+  });
+  poll();
+}
+
+main();
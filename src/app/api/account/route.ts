@@ -0,0 +1,60 @@
+// src/app/api/account/route.ts
+import { NextResponse } from "next/server";
+import { accountProfileSchema } from "@/lib/trading/position-sizing";
+import {
+  loadAccountProfile,
+  saveAccountProfile,
+} from "@/lib/trading/account-store";
+
+/**
+ * GET /api/account
+ *  - Returns { account: AccountProfile } (defaults until one is saved).
+ */
+export async function GET() {
+  try {
+    const account = await loadAccountProfile();
+    return NextResponse.json({ account });
+  } catch (err) {
+    console.error("Error in GET /api/account:", err);
+    return NextResponse.json(
+      { error: "Failed to load account profile" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * PUT /api/account
+ *  - Replaces the account profile used to size scan candidates.
+ *  - Returns { account: AccountProfile }.
+ */
+export async function PUT(req: Request) {
+  try {
+    const raw = await req.text();
+    const body = raw ? JSON.parse(raw) : {};
+
+    const parsed = accountProfileSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.flatten() },
+        { status: 400 },
+      );
+    }
+
+    const account = await saveAccountProfile(parsed.data);
+    return NextResponse.json({ account });
+  } catch (err) {
+    if (err instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: "Invalid JSON body" },
+        { status: 400 },
+      );
+    }
+
+    console.error("Error in PUT /api/account:", err);
+    return NextResponse.json(
+      { error: "Failed to save account profile" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,31 @@
+// src/app/api/alerts/[id]/route.ts
+import { NextResponse } from "next/server";
+import { deleteAlertRule } from "@/lib/trading/alert-store";
+
+/**
+ * DELETE /api/alerts/:id
+ *  - Removes a rule together with its fired events.
+ */
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const removed = await deleteAlertRule(id);
+    if (!removed) {
+      return NextResponse.json(
+        { error: "Alert rule not found" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    console.error("Error in DELETE /api/alerts/[id]:", err);
+    return NextResponse.json(
+      { error: "Failed to delete alert rule" },
+      { status: 500 },
+    );
+  }
+}
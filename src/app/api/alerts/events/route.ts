@@ -0,0 +1,93 @@
+// src/app/api/alerts/events/route.ts
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  listAlertEvents,
+  markAlertEventsRead,
+} from "@/lib/trading/alert-store";
+
+const listQuerySchema = z
+  .object({
+    since: z.iso.datetime({ message: "since must be an ISO timestamp" }).optional(),
+    unread: z
+      .enum(["true", "false"], { message: "unread must be true or false" })
+      .transform((value) => value === "true")
+      .optional(),
+    limit: z.coerce
+      .number({ message: "limit must be a number" })
+      .int()
+      .min(1)
+      .max(500)
+      .optional(),
+  })
+  .strict();
+
+const markReadSchema = z
+  .object({
+    ids: z.array(z.string().min(1)).nonempty().max(500),
+  })
+  .strict();
+
+/**
+ * GET /api/alerts/events?since=2025-06-30T08:00:00Z&unread=true&limit=50
+ *  - Returns { events: AlertEventRecord[] }, newest first.
+ */
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const parsed = listQuerySchema.safeParse(
+      Object.fromEntries(searchParams.entries()),
+    );
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.flatten() },
+        { status: 400 },
+      );
+    }
+
+    const events = await listAlertEvents(parsed.data);
+    return NextResponse.json({ events });
+  } catch (err) {
+    console.error("Error in GET /api/alerts/events:", err);
+    return NextResponse.json(
+      { error: "Failed to load alerts" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * PATCH /api/alerts/events
+ *  - Body { ids: string[] } marks those events as read.
+ *  - Returns { updated: number }.
+ */
+export async function PATCH(req: Request) {
+  try {
+    const raw = await req.text();
+    const body = raw ? JSON.parse(raw) : {};
+
+    const parsed = markReadSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.flatten() },
+        { status: 400 },
+      );
+    }
+
+    const updated = await markAlertEventsRead(parsed.data.ids);
+    return NextResponse.json({ updated });
+  } catch (err) {
+    if (err instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: "Invalid JSON body" },
+        { status: 400 },
+      );
+    }
+
+    console.error("Error in PATCH /api/alerts/events:", err);
+    return NextResponse.json(
+      { error: "Failed to update alerts" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,59 @@
+// src/app/api/alerts/route.ts
+import { NextResponse } from "next/server";
+import { alertRuleSchema } from "@/lib/trading/alerts";
+import { listAlertRules, saveAlertRule } from "@/lib/trading/alert-store";
+import { loadInstrumentRegistry } from "@/lib/trading/instrument-store";
+
+/**
+ * GET /api/alerts
+ *  - Returns { rules: AlertRule[] }.
+ */
+export async function GET() {
+  try {
+    const rules = await listAlertRules();
+    return NextResponse.json({ rules });
+  } catch (err) {
+    console.error("Error in GET /api/alerts:", err);
+    return NextResponse.json(
+      { error: "Failed to load alert rules" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/alerts
+ *  - Creates a rule, or updates the rule with the given `id`.
+ *  - Returns { rule: AlertRule }.
+ */
+export async function POST(req: Request) {
+  try {
+    const raw = await req.text();
+    const body = raw ? JSON.parse(raw) : {};
+
+    await loadInstrumentRegistry();
+    const parsed = alertRuleSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.flatten() },
+        { status: 400 },
+      );
+    }
+
+    const rule = await saveAlertRule(parsed.data);
+    return NextResponse.json({ rule });
+  } catch (err) {
+    if (err instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: "Invalid JSON body" },
+        { status: 400 },
+      );
+    }
+
+    console.error("Error in POST /api/alerts:", err);
+    return NextResponse.json(
+      { error: "Failed to save alert rule" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,23 @@
+// src/app/api/alerts/run/route.ts
+import { NextResponse } from "next/server";
+import { runAlertCheck } from "@/lib/trading/alert-engine";
+import { loadInstrumentRegistry } from "@/lib/trading/instrument-store";
+
+/**
+ * POST /api/alerts/run
+ *  - Runs one alert check now (the scheduler does this periodically).
+ *  - Returns { result: AlertCheckResult }.
+ */
+export async function POST() {
+  try {
+    await loadInstrumentRegistry();
+    const result = await runAlertCheck();
+    return NextResponse.json({ result });
+  } catch (err) {
+    console.error("Error in POST /api/alerts/run:", err);
+    return NextResponse.json(
+      { error: "Alert check failed" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,99 @@
+// src/app/api/analytics/route.ts
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { runPerformanceAnalytics } from "@/lib/trading/analytics";
+import {
+  backtestRequestSchema,
+  hasValidBacktestRange,
+  toBacktestOptions,
+} from "@/lib/trading/backtest";
+import {
+  knownSymbolSchema,
+  listEnabledSymbols,
+} from "@/lib/trading/instruments";
+import { loadInstrumentRegistry } from "@/lib/trading/instrument-store";
+
+const analyticsPayloadSchema = backtestRequestSchema
+  .extend({
+    symbols: z
+      .array(knownSymbolSchema)
+      .nonempty({ message: "At least one symbol is required" })
+      .optional(),
+  })
+  .strict()
+  .refine(hasValidBacktestRange, {
+    message: "from must not be after to",
+    path: ["from"],
+  });
+
+async function handleAnalytics(body: unknown) {
+  await loadInstrumentRegistry();
+  const parsed = analyticsPayloadSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const symbols = parsed.data.symbols ?? listEnabledSymbols();
+  const report = await runPerformanceAnalytics(
+    [...new Set(symbols)],
+    toBacktestOptions(parsed.data),
+  );
+  return NextResponse.json({ report });
+}
+
+/**
+ * GET /api/analytics?symbols=EURUSD,GBPUSD&from=2025-01-01
+ *  - Replays the history of each symbol (default: those scanned by default)
+ *    and returns { report: PerformanceReport }.
+ */
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const body: Record<string, unknown> = {};
+    const symbols = searchParams.get("symbols");
+    if (symbols) body.symbols = symbols.split(",").filter(Boolean);
+    for (const key of ["from", "to", "sameBarPolicy"]) {
+      const value = searchParams.get(key);
+      if (value) body[key] = value;
+    }
+    for (const key of ["entryExpiryBars", "maxHoldBars"]) {
+      const value = searchParams.get(key);
+      if (value) body[key] = Number(value);
+    }
+
+    return await handleAnalytics(body);
+  } catch (err) {
+    console.error("Error in GET /api/analytics:", err);
+    return NextResponse.json(
+      { error: "Analytics failed" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/analytics – same as GET, with scan filters/params in the body.
+ */
+export async function POST(req: Request) {
+  try {
+    const raw = await req.text();
+    const body = raw ? JSON.parse(raw) : {};
+    return await handleAnalytics(body);
+  } catch (err) {
+    if (err instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: "Invalid JSON body" },
+        { status: 400 },
+      );
+    }
+
+    console.error("Error in POST /api/analytics:", err);
+    return NextResponse.json(
+      { error: "Analytics failed" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,85 @@
+// src/app/api/backtest/route.ts
+import { NextResponse } from "next/server";
+import {
+  backtestRequestSchema,
+  hasValidBacktestRange,
+  runBacktest,
+  toBacktestOptions,
+} from "@/lib/trading/backtest";
+import { knownSymbolSchema } from "@/lib/trading/instruments";
+import { loadInstrumentRegistry } from "@/lib/trading/instrument-store";
+
+const backtestPayloadSchema = backtestRequestSchema
+  .extend({ symbol: knownSymbolSchema })
+  .strict()
+  .refine(hasValidBacktestRange, {
+    message: "from must not be after to",
+    path: ["from"],
+  });
+
+async function handleBacktest(body: unknown) {
+  await loadInstrumentRegistry();
+  const parsed = backtestPayloadSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const report = await runBacktest(
+    parsed.data.symbol,
+    toBacktestOptions(parsed.data),
+  );
+  return NextResponse.json({ report });
+}
+
+/**
+ * GET /api/backtest?symbol=XAUUSD&from=2025-03-01&to=2025-09-30
+ */
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const body: Record<string, unknown> = {};
+    for (const key of ["symbol", "from", "to", "sameBarPolicy"]) {
+      const value = searchParams.get(key);
+      if (value) body[key] = value;
+    }
+    for (const key of ["entryExpiryBars", "maxHoldBars"]) {
+      const value = searchParams.get(key);
+      if (value) body[key] = Number(value);
+    }
+
+    return await handleBacktest(body);
+  } catch (err) {
+    console.error("Error in GET /api/backtest:", err);
+    return NextResponse.json(
+      { error: "Backtest failed" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/backtest – same as GET, with scan filters/params in the body.
+ */
+export async function POST(req: Request) {
+  try {
+    const raw = await req.text();
+    const body = raw ? JSON.parse(raw) : {};
+    return await handleBacktest(body);
+  } catch (err) {
+    if (err instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: "Invalid JSON body" },
+        { status: 400 },
+      );
+    }
+
+    console.error("Error in POST /api/backtest:", err);
+    return NextResponse.json(
+      { error: "Backtest failed" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,91 @@
+// src/app/api/data/import/route.ts
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { parseBrokerCsv } from "@/lib/trading/broker-csv";
+import { upsertOhlcBars } from "@/lib/trading/ohlc-store";
+import { knownSymbolSchema } from "@/lib/trading/instruments";
+import { loadInstrumentRegistry } from "@/lib/trading/instrument-store";
+import { TIMEFRAMES } from "@/lib/trading/types";
+
+const timeframeSchema = z
+  .enum(TIMEFRAMES, { message: `timeframe must be one of ${TIMEFRAMES.join(", ")}` })
+  .default("D1");
+
+/**
+ * POST /api/data/import
+ *  - multipart/form-data with `symbol`, optional `timeframe` and a broker
+ *    CSV `file`, or
+ *  - a raw CSV body with `?symbol=XAUUSD&timeframe=H4` in the query string.
+ * Timeframe defaults to D1. Upserts the bars into the OhlcBar table by
+ * (symbol, timeframe, date).
+ */
+export async function POST(req: Request) {
+  try {
+    const contentType = req.headers.get("content-type") ?? "";
+    let symbolInput: unknown;
+    let timeframeInput: unknown;
+    let csv: string;
+
+    if (contentType.includes("multipart/form-data")) {
+      const form = await req.formData();
+      const file = form.get("file");
+      if (!file || typeof file === "string") {
+        return NextResponse.json(
+          { error: "A CSV file is required in the `file` field" },
+          { status: 400 },
+        );
+      }
+      symbolInput = form.get("symbol") ?? undefined;
+      timeframeInput = form.get("timeframe") ?? undefined;
+      csv = await file.text();
+    } else {
+      const params = new URL(req.url).searchParams;
+      symbolInput = params.get("symbol") ?? undefined;
+      timeframeInput = params.get("timeframe") ?? undefined;
+      csv = await req.text();
+    }
+
+    await loadInstrumentRegistry();
+    const symbol = knownSymbolSchema.safeParse(symbolInput);
+    if (!symbol.success) {
+      return NextResponse.json(
+        { error: symbol.error.flatten() },
+        { status: 400 },
+      );
+    }
+
+    const timeframe = timeframeSchema.safeParse(timeframeInput);
+    if (!timeframe.success) {
+      return NextResponse.json(
+        { error: timeframe.error.flatten() },
+        { status: 400 },
+      );
+    }
+
+    let bars;
+    try {
+      bars = parseBrokerCsv(csv, timeframe.data);
+    } catch (err) {
+      return NextResponse.json(
+        { error: err instanceof Error ? err.message : "Invalid CSV" },
+        { status: 400 },
+      );
+    }
+
+    if (bars.length === 0) {
+      return NextResponse.json(
+        { error: "No valid bars found in the CSV" },
+        { status: 400 },
+      );
+    }
+
+    const result = await upsertOhlcBars(symbol.data, bars, timeframe.data);
+    return NextResponse.json({ result });
+  } catch (err) {
+    console.error("Error in POST /api/data/import:", err);
+    return NextResponse.json(
+      { error: "Import failed" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,81 @@
+// src/app/api/journal/[id]/route.ts
+import { NextResponse } from "next/server";
+import { journalUpdateSchema } from "@/lib/trading/journal";
+import {
+  deleteJournalEntry,
+  updateJournalEntry,
+} from "@/lib/trading/journal-store";
+
+/**
+ * PATCH /api/journal/:id
+ *  - Records fills, exits, outcome, notes or screenshots.
+ *  - Returns { entry: JournalEntry }.
+ */
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const raw = await req.text();
+    const body = raw ? JSON.parse(raw) : {};
+
+    const parsed = journalUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.flatten() },
+        { status: 400 },
+      );
+    }
+
+    const entry = await updateJournalEntry(id, parsed.data);
+    if (!entry) {
+      return NextResponse.json(
+        { error: "Journal entry not found" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ entry });
+  } catch (err) {
+    if (err instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: "Invalid JSON body" },
+        { status: 400 },
+      );
+    }
+
+    console.error("Error in PATCH /api/journal/[id]:", err);
+    return NextResponse.json(
+      { error: "Failed to update journal entry" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/journal/:id
+ */
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const removed = await deleteJournalEntry(id);
+    if (!removed) {
+      return NextResponse.json(
+        { error: "Journal entry not found" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    console.error("Error in DELETE /api/journal/[id]:", err);
+    return NextResponse.json(
+      { error: "Failed to delete journal entry" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,76 @@
+// src/app/api/journal/route.ts
+import { NextResponse } from "next/server";
+import {
+  journalCreateSchema,
+  journalFilterSchema,
+} from "@/lib/trading/journal";
+import {
+  createJournalEntry,
+  listJournalEntries,
+} from "@/lib/trading/journal-store";
+import { loadInstrumentRegistry } from "@/lib/trading/instrument-store";
+
+/**
+ * GET /api/journal?model=D&symbol=EURUSD&scenario=Bull|Bull|Aligned&status=closed
+ *  - Returns { entries: JournalEntry[] }, newest first.
+ */
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const parsed = journalFilterSchema.safeParse(
+      Object.fromEntries(searchParams.entries()),
+    );
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.flatten() },
+        { status: 400 },
+      );
+    }
+
+    const entries = await listJournalEntries(parsed.data);
+    return NextResponse.json({ entries });
+  } catch (err) {
+    console.error("Error in GET /api/journal:", err);
+    return NextResponse.json(
+      { error: "Failed to load journal" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/journal
+ *  - Creates an entry, usually prefilled from a Signals row.
+ *  - Returns { entry: JournalEntry }.
+ */
+export async function POST(req: Request) {
+  try {
+    const raw = await req.text();
+    const body = raw ? JSON.parse(raw) : {};
+
+    await loadInstrumentRegistry();
+    const parsed = journalCreateSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.flatten() },
+        { status: 400 },
+      );
+    }
+
+    const entry = await createJournalEntry(parsed.data);
+    return NextResponse.json({ entry });
+  } catch (err) {
+    if (err instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: "Invalid JSON body" },
+        { status: 400 },
+      );
+    }
+
+    console.error("Error in POST /api/journal:", err);
+    return NextResponse.json(
+      { error: "Failed to save journal entry" },
+      { status: 500 },
+    );
+  }
+}
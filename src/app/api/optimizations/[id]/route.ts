@@ -0,0 +1,63 @@
+// src/app/api/optimizations/[id]/route.ts
+import { NextResponse } from "next/server";
+import {
+  cancelOptimizationJob,
+  getOptimizationJob,
+} from "@/lib/trading/optimizer-store";
+
+/**
+ * GET /api/optimizations/:id
+ *  - Returns { job: OptimizationJob } with its progress, and the result once
+ *    it completed.
+ */
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const job = await getOptimizationJob(id);
+    if (!job) {
+      return NextResponse.json(
+        { error: "Optimization job not found" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ job });
+  } catch (err) {
+    console.error("Error in GET /api/optimizations/[id]:", err);
+    return NextResponse.json(
+      { error: "Failed to load optimization job" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/optimizations/:id
+ *  - Cancels a running job; it stops after the current replay.
+ */
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const job = await cancelOptimizationJob(id);
+    if (!job) {
+      return NextResponse.json(
+        { error: "Optimization job not found" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ job });
+  } catch (err) {
+    console.error("Error in DELETE /api/optimizations/[id]:", err);
+    return NextResponse.json(
+      { error: "Failed to cancel optimization job" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,77 @@
+// src/app/api/optimizations/route.ts
+import { NextResponse } from "next/server";
+import { listEnabledSymbols } from "@/lib/trading/instruments";
+import { loadInstrumentRegistry } from "@/lib/trading/instrument-store";
+import { optimizationRequestSchema } from "@/lib/trading/optimizer";
+import {
+  findRunningOptimizationJob,
+  listOptimizationJobs,
+  startOptimizationJob,
+} from "@/lib/trading/optimizer-store";
+
+/**
+ * GET /api/optimizations
+ *  - Returns { jobs: OptimizationJob[] }, newest first, without results.
+ */
+export async function GET() {
+  try {
+    const jobs = await listOptimizationJobs();
+    return NextResponse.json({ jobs });
+  } catch (err) {
+    console.error("Error in GET /api/optimizations:", err);
+    return NextResponse.json(
+      { error: "Failed to load optimization jobs" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/optimizations
+ *  - Body: backtest settings, base filters/params, `grid` and search options.
+ *  - Starts the sweep in the background and returns { job } (202).
+ *  - 409 while another sweep is running.
+ */
+export async function POST(req: Request) {
+  try {
+    const raw = await req.text();
+    const body = raw ? JSON.parse(raw) : {};
+
+    await loadInstrumentRegistry();
+    const parsed = optimizationRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.flatten() },
+        { status: 400 },
+      );
+    }
+
+    const running = await findRunningOptimizationJob();
+    if (running) {
+      return NextResponse.json(
+        { error: "Another optimization is still running", job: running },
+        { status: 409 },
+      );
+    }
+
+    const symbols = parsed.data.symbols ?? listEnabledSymbols();
+    const job = await startOptimizationJob({
+      ...parsed.data,
+      symbols: [...new Set(symbols)],
+    });
+    return NextResponse.json({ job }, { status: 202 });
+  } catch (err) {
+    if (err instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: "Invalid JSON body" },
+        { status: 400 },
+      );
+    }
+
+    console.error("Error in POST /api/optimizations:", err);
+    return NextResponse.json(
+      { error: "Failed to start optimization" },
+      { status: 500 },
+    );
+  }
+}
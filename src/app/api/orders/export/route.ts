@@ -0,0 +1,72 @@
+// src/app/api/orders/export/route.ts
+import { NextResponse } from "next/server";
+import {
+  buildMtOrders,
+  conversionCurrencyMismatches,
+  orderExportRequestSchema,
+  renderOrderExport,
+} from "@/lib/trading/order-export";
+import { loadAccountProfile } from "@/lib/trading/account-store";
+import { loadInstrumentRegistry } from "@/lib/trading/instrument-store";
+
+/**
+ * POST /api/orders/export
+ *  - Body: { format: "csv" | "mq4" | "mq5", orders: OrderInput[], riskPercent?,
+ *    symbolSuffix?, expiry?, serverUtcOffset?, magic?, commentPrefix? }
+ *  - Sizes the selected candidates for the stored account profile and
+ *    renders them for MetaTrader; 400 when a conversion rate was computed
+ *    for another account currency.
+ *  - Returns { filename, content, orders: MtOrder[], skipped: SkippedOrder[] };
+ *    422 when none of the candidates could be turned into an order.
+ */
+export async function POST(req: Request) {
+  try {
+    const raw = await req.text();
+    const body = raw ? JSON.parse(raw) : {};
+
+    await loadInstrumentRegistry();
+    const parsed = orderExportRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.flatten() },
+        { status: 400 },
+      );
+    }
+
+    const { format, ...request } = parsed.data;
+    const account = await loadAccountProfile();
+    const mismatches = conversionCurrencyMismatches(request.orders, account.currency);
+    if (mismatches.length > 0) {
+      return NextResponse.json(
+        { error: mismatches.join("; ") },
+        { status: 400 },
+      );
+    }
+
+    const now = new Date();
+    const { orders, skipped } = buildMtOrders(request, account, now);
+
+    if (orders.length === 0) {
+      return NextResponse.json(
+        { error: "None of the candidates could be exported", skipped },
+        { status: 422 },
+      );
+    }
+
+    const { filename, content } = renderOrderExport(format, orders, now);
+    return NextResponse.json({ filename, content, orders, skipped });
+  } catch (err) {
+    if (err instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: "Invalid JSON body" },
+        { status: 400 },
+      );
+    }
+
+    console.error("Error in POST /api/orders/export:", err);
+    return NextResponse.json(
+      { error: "Order export failed" },
+      { status: 500 },
+    );
+  }
+}
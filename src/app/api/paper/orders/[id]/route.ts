@@ -0,0 +1,47 @@
+// src/app/api/paper/orders/[id]/route.ts
+import { NextResponse } from "next/server";
+import { getPaperOrder, savePaperOrder } from "@/lib/trading/paper-store";
+import { cancelPaperOrder, closePaperOrder } from "@/lib/trading/paper-trading";
+
+/**
+ * DELETE /api/paper/orders/:id
+ *  - Cancels a pending order, or closes an open position at its last price.
+ *  - Returns { order: PaperOrder }.
+ */
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const order = await getPaperOrder(id);
+    if (!order) {
+      return NextResponse.json(
+        { error: "Paper order not found" },
+        { status: 404 },
+      );
+    }
+
+    const now = new Date().toISOString();
+    if (order.status === "pending") {
+      const cancelled = await savePaperOrder(cancelPaperOrder(order, now, "manual"));
+      return NextResponse.json({ order: cancelled });
+    }
+    if (order.status === "open") {
+      const exit = order.lastPrice ?? order.fillPrice ?? order.entry;
+      const closed = await savePaperOrder(closePaperOrder(order, exit, now, "manual"));
+      return NextResponse.json({ order: closed });
+    }
+
+    return NextResponse.json(
+      { error: "Paper order is already closed" },
+      { status: 409 },
+    );
+  } catch (err) {
+    console.error("Error in DELETE /api/paper/orders/[id]:", err);
+    return NextResponse.json(
+      { error: "Failed to close paper order" },
+      { status: 500 },
+    );
+  }
+}
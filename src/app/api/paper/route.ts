@@ -0,0 +1,89 @@
+// src/app/api/paper/route.ts
+import { NextResponse } from "next/server";
+import { loadAccountProfile } from "@/lib/trading/account-store";
+import {
+  listPaperEquity,
+  listPaperOrders,
+  loadPaperAccount,
+  resetPaperAccount,
+  setPaperTradingEnabled,
+} from "@/lib/trading/paper-store";
+import {
+  paperAccountUpdateSchema,
+  summarizePaperAccount,
+} from "@/lib/trading/paper-trading";
+
+async function loadPaperState() {
+  const [account, orders, equity] = await Promise.all([
+    loadPaperAccount(),
+    listPaperOrders(),
+    listPaperEquity(),
+  ]);
+  return {
+    account: account ? summarizePaperAccount(account, orders) : null,
+    orders,
+    equity,
+  };
+}
+
+/**
+ * GET /api/paper
+ *  - Returns { account: PaperAccountSummary | null, orders: PaperOrder[],
+ *    equity: PaperEquityPoint[] }; account is null until paper trading starts.
+ */
+export async function GET() {
+  try {
+    return NextResponse.json(await loadPaperState());
+  } catch (err) {
+    console.error("Error in GET /api/paper:", err);
+    return NextResponse.json(
+      { error: "Failed to load paper account" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * PUT /api/paper
+ *  - { reset: true, startingBalance? } starts over (the first update always
+ *    does), in the account profile's currency and balance by default.
+ *  - { enabled } pauses or resumes placing and updating orders.
+ *  - Returns the same shape as GET.
+ */
+export async function PUT(req: Request) {
+  try {
+    const raw = await req.text();
+    const body = raw ? JSON.parse(raw) : {};
+
+    const parsed = paperAccountUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.flatten() },
+        { status: 400 },
+      );
+    }
+
+    const { reset, startingBalance, enabled } = parsed.data;
+    if (reset || !(await loadPaperAccount())) {
+      await resetPaperAccount(await loadAccountProfile(), startingBalance);
+    }
+    if (enabled !== undefined) {
+      await setPaperTradingEnabled(enabled);
+    }
+
+    return NextResponse.json(await loadPaperState());
+  } catch (err) {
+    if (err instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: "Invalid JSON body" },
+        { status: 400 },
+      );
+    }
+
+    console.error("Error in PUT /api/paper:", err);
+    return NextResponse.json(
+      { error: "Failed to update paper account" },
+      { status: 500 },
+    );
+  }
+}
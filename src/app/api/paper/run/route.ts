@@ -0,0 +1,23 @@
+// src/app/api/paper/run/route.ts
+import { NextResponse } from "next/server";
+import { runPaperTradingCycle } from "@/lib/trading/paper-engine";
+import { loadInstrumentRegistry } from "@/lib/trading/instrument-store";
+
+/**
+ * POST /api/paper/run
+ *  - Runs one paper broker cycle now (the paper trader does this periodically).
+ *  - Returns { result: PaperCycleResult }.
+ */
+export async function POST() {
+  try {
+    await loadInstrumentRegistry();
+    const result = await runPaperTradingCycle();
+    return NextResponse.json({ result });
+  } catch (err) {
+    console.error("Error in POST /api/paper/run:", err);
+    return NextResponse.json(
+      { error: "Paper trading cycle failed" },
+      { status: 500 },
+    );
+  }
+}
@@ -1,23 +1,26 @@
 // src/app/api/scan/route.ts
 import { NextResponse } from "next/server";
 import { z } from "zod";
-import { scanMarket } from "@/lib/trading/engine";
-import type {
-  ScanOptions,
-  ScanResponse,
-  SymbolCode,
-} from "@/lib/trading/types";
-import { isSymbolScanError } from "@/lib/trading/types";
-import { buildCandidateDiagnostics } from "@/lib/trading/buildCandidateDiagnostics";
-import { getCurrentPrice } from "@/lib/trading/live-prices";
-import { computeNearestZoneInfo } from "@/lib/trading/nearest-zone";
-
-const SUPPORTED_SYMBOLS: SymbolCode[] = [
-  "XAUUSD",
-  "EURUSD",
-  "GBPUSD",
-  "GBPJPY",
-];
+import type { ScanOptions, ScanResponse } from "@/lib/trading/types";
+import { TIMEFRAMES, isHistoricalScan } from "@/lib/trading/types";
+import {
+  guardCorrelatedRisk,
+  scanWithLivePrices,
+  sizeScanPositions,
+} from "@/lib/trading/live-scan";
+import { loadAccountProfile } from "@/lib/trading/account-store";
+import { saveScanRun } from "@/lib/trading/scan-history";
+import { isKnownSymbol, knownSymbolSchema } from "@/lib/trading/instruments";
+import { loadInstrumentRegistry } from "@/lib/trading/instrument-store";
+import { macroTrendParamsShape } from "@/lib/trading/trend-analysis";
+import { liquidityParamsShape } from "@/lib/trading/liquidity";
+import { zoneParamsShape } from "@/lib/trading/zone-lifecycle";
+import { zoneScoreParamsShape } from "@/lib/trading/zones";
+import { listTrackedZones, saveTrackedZones } from "@/lib/trading/zone-store";
+import { newsFilterShape } from "@/lib/trading/economic-calendar";
+import { sessionFilterShape, sessionParamsShape } from "@/lib/trading/sessions";
+import { correlationFilterShape } from "@/lib/trading/correlation";
+import { placePaperOrders } from "@/lib/trading/paper-engine";
 
 const manualCloseSchema = z
   .object({
@@ -39,15 +42,20 @@ const manualCloseSchema = z
     }
   });
 
-const manualClosesShape = SUPPORTED_SYMBOLS.reduce(
-  (acc, symbol) => {
-    acc[symbol] = manualCloseSchema.optional();
-    return acc;
-  },
-  {} as Record<SymbolCode, z.ZodTypeAny>,
-);
-
-const manualClosesSchema = z.object(manualClosesShape).partial();
+// Keyed by symbol; keys are checked against the instrument registry
+const manualClosesSchema = z
+  .record(z.string(), manualCloseSchema)
+  .superRefine((value, ctx) => {
+    for (const symbol of Object.keys(value)) {
+      if (!isKnownSymbol(symbol)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Unknown symbol ${symbol}`,
+          path: [symbol],
+        });
+      }
+    }
+  });
 
 const scanPayloadSchema = z
   .object({
@@ -59,11 +67,29 @@ const scanPayloadSchema = z
       })
       .optional(),
     symbols: z
-      .array(
-        z.enum(SUPPORTED_SYMBOLS, { invalid_type_error: "Invalid symbol" }),
-      )
+      .array(knownSymbolSchema)
       .nonempty({ message: "At least one symbol is required" })
       .optional(),
+    timeframe: z.enum(TIMEFRAMES, { message: "Invalid timeframe" }).optional(),
+    timeframes: z
+      .record(
+        z.string(),
+        z
+          .array(z.enum(TIMEFRAMES, { message: "Invalid timeframe" }))
+          .nonempty({ message: "At least one timeframe is required" }),
+      )
+      .superRefine((value, ctx) => {
+        for (const symbol of Object.keys(value)) {
+          if (!isKnownSymbol(symbol)) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: `Unknown symbol ${symbol}`,
+              path: [symbol],
+            });
+          }
+        }
+      })
+      .optional(),
     filters: z
       .object({
         minRr: z
@@ -74,6 +100,9 @@ const scanPayloadSchema = z
           .number({ invalid_type_error: "spreadCap must be a number" })
           .finite()
           .optional(),
+        ...newsFilterShape,
+        ...sessionFilterShape,
+        ...correlationFilterShape,
       })
       .strict()
       .optional(),
@@ -97,6 +126,11 @@ const scanPayloadSchema = z
           .number({ invalid_type_error: "pullbackWindow must be a number" })
           .finite()
           .optional(),
+        ...macroTrendParamsShape,
+        ...liquidityParamsShape,
+        ...zoneParamsShape,
+        ...zoneScoreParamsShape,
+        ...sessionParamsShape,
       })
       .strict()
       .optional(),
@@ -136,6 +170,14 @@ function normalizeScanOptions(
     options.symbols = payload.symbols;
   }
 
+  if (payload.timeframe) {
+    options.timeframe = payload.timeframe;
+  }
+
+  if (payload.timeframes) {
+    options.timeframes = { ...payload.timeframes };
+  }
+
   if (payload.filters) {
     options.filters = { ...payload.filters };
   }
@@ -156,112 +198,65 @@ function normalizeScanOptions(
  *  - Runs the existing structural scan (scanMarket).
  *  - Fetches live prices for each symbol.
  *  - Computes nearest zone vs spot and attaches it to each SymbolScanResult.
+ *  - Blocks or downgrades candidates around high-impact calendar releases.
+ *  - Sizes every candidate for the stored account profile.
+ *  - Flags or filters candidates that stack correlated risk across symbols
+ *    and totals the net currency exposure.
+ *  - Stores the run and its candidates as an audit trail.
+ *  - Carries the stored zone lifecycles forward (latest-session scans,
+ *    including one dated today; an as-of scan of a past session must not
+ *    see or rewrite later zone history).
+ *  - Hands the VALID candidates of a default scan (no date, symbols,
+ *    filters, params or manual closes) to the paper broker when paper
+ *    trading is enabled; ad-hoc and what-if scans never place orders.
  */
 async function runScanWithLivePrices(
   options?: ScanOptions,
 ): Promise<ScanResponse> {
-  // 1) Run the existing engine scan (no changes to engine.ts)
-  const scan = await scanMarket(options); // expected to return ScanResponse shape
-
-  const symbols = Object.keys(scan.symbols) as SymbolCode[];
-  const symbolsNeedingPrices = symbols.filter((symbol) => {
-    const entry = scan.symbols[symbol];
-    return entry && !isSymbolScanError(entry);
-  });
-
-  if (symbolsNeedingPrices.length === 0) {
-    return scan;
+  const account = await loadAccountProfile();
+  const tracksZones = !isHistoricalScan(options);
+  const feedsPaperBroker = !options || Object.keys(options).length === 0;
+
+  let trackedZones: ScanOptions["trackedZones"];
+  if (tracksZones) {
+    try {
+      trackedZones = await listTrackedZones({ symbols: options?.symbols });
+    } catch (err) {
+      console.error("Failed to load tracked zones:", err);
+    }
   }
 
-  // 2) Fetch current prices in parallel
-  const manualCloses = options?.manualCloses ?? {};
-
-  const prices = await Promise.all(
-    symbolsNeedingPrices.map(async (symbol) => {
-      const manual = manualCloses[symbol];
-      const manualEnabled =
-        manual?.enabled &&
-        typeof manual.close === "number" &&
-        Number.isFinite(manual.close);
-
-      if (manualEnabled) {
-        return { spot: manual.close, source: "manual" as const };
-      }
-
-      try {
-        const p = await getCurrentPrice(symbol);
-        return p;
-      } catch (err) {
-        console.error("Failed to fetch live price for", symbol, err);
-        return {
-          spot: null,
-          error: { code: "HTTP_ERROR", message: String(err) },
-        };
-      }
-    }),
+  const scan = await guardCorrelatedRisk(
+    await sizeScanPositions(
+      await scanWithLivePrices({ ...options, trackedZones }),
+      account,
+    ),
+    account,
+    options?.filters,
   );
 
-  // 3) Attach livePrice + nearestZone per symbol
-  symbolsNeedingPrices.forEach((symbol, idx) => {
-    const entry = scan.symbols[symbol];
-    const rawPrice = prices[idx];
+  // Persistence must never fail the scan itself
+  try {
+    scan.runId = await saveScanRun(scan, options);
+  } catch (err) {
+    console.error("Failed to persist scan run:", err);
+  }
 
-    if (!entry || isSymbolScanError(entry)) {
-      return;
+  if (tracksZones) {
+    try {
+      await saveTrackedZones(scan);
+    } catch (err) {
+      console.error("Failed to persist tracked zones:", err);
     }
+  }
 
-    const symbolResult = entry;
-
-    const hasLiveQuote =
-      typeof rawPrice?.spot === "number" && Number.isFinite(rawPrice.spot);
-    const hasFallback =
-      !hasLiveQuote &&
-      typeof symbolResult.lastClose === "number" &&
-      Number.isFinite(symbolResult.lastClose);
-
-    const livePrice =
-      hasLiveQuote
-        ? { ...rawPrice, source: rawPrice?.source ?? "live" }
-        : hasFallback
-          ? {
-              spot: symbolResult.lastClose,
-              source: "fallback" as const,
-              error:
-                rawPrice?.error ??
-                ({
-                  code: "ENV_MISSING" as const,
-                  message:
-                    "Live prices are not configured; using last daily close as fallback",
-                } satisfies Awaited<ReturnType<typeof getCurrentPrice>>["error"]),
-            }
-          : rawPrice;
-
-    const nearestZone =
-      typeof livePrice?.spot === "number" && Number.isFinite(livePrice.spot)
-        ? computeNearestZoneInfo(
-            symbolResult.zones ?? [],
-            livePrice.spot,
-            symbolResult.atr20 ?? null,
-          )
-        : null;
-
-    const candidateDiagnostics = buildCandidateDiagnostics({
-      trend: symbolResult.trend,
-      location: symbolResult.location,
-      nearestZone,
-      pullback: symbolResult.pullback,
-      hasModelSignal: Array.isArray(symbolResult.trades)
-        ? symbolResult.trades.length > 0
-        : false,
-    });
-
-    scan.symbols[symbol] = {
-      ...symbolResult,
-      livePrice,
-      nearestZone,
-      candidateDiagnostics,
-    };
-  });
+  if (feedsPaperBroker) {
+    try {
+      await placePaperOrders(scan);
+    } catch (err) {
+      console.error("Failed to place paper orders:", err);
+    }
+  }
 
   return scan;
 }
@@ -277,6 +272,7 @@ export async function GET() {
       console.warn(config.message);
     }
 
+    await loadInstrumentRegistry();
     const scan = await runScanWithLivePrices();
     return NextResponse.json({ signals: [scan] });
   } catch (err) {
@@ -297,6 +293,7 @@ export async function POST(req: Request) {
     const raw = await req.text();
     const body = raw ? JSON.parse(raw) : {};
 
+    await loadInstrumentRegistry();
     const parsed = scanPayloadSchema.safeParse(body);
     if (!parsed.success) {
       return NextResponse.json(
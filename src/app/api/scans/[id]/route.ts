@@ -0,0 +1,31 @@
+// src/app/api/scans/[id]/route.ts
+import { NextResponse } from "next/server";
+import { getScanRun } from "@/lib/trading/scan-history";
+
+/**
+ * GET /api/scans/:id
+ *  - Returns { run: ScanRunDetail } including the stored ScanResponse.
+ */
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const run = await getScanRun(id);
+    if (!run) {
+      return NextResponse.json(
+        { error: "Scan run not found" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ run });
+  } catch (err) {
+    console.error("Error in GET /api/scans/[id]:", err);
+    return NextResponse.json(
+      { error: "Failed to load scan run" },
+      { status: 500 },
+    );
+  }
+}
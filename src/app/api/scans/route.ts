@@ -0,0 +1,45 @@
+// src/app/api/scans/route.ts
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { listScanRuns } from "@/lib/trading/scan-history";
+
+const listQuerySchema = z
+  .object({
+    limit: z.coerce
+      .number({ message: "limit must be a number" })
+      .int()
+      .min(1)
+      .max(500)
+      .optional(),
+    // Not checked against the registry: history may hold removed instruments
+    symbol: z.string().trim().toUpperCase().min(1).optional(),
+  })
+  .strict();
+
+/**
+ * GET /api/scans?limit=50&symbol=XAUUSD
+ *  - Returns { runs: ScanRunSummary[] }, newest first.
+ */
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const parsed = listQuerySchema.safeParse(
+      Object.fromEntries(searchParams.entries()),
+    );
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.flatten() },
+        { status: 400 },
+      );
+    }
+
+    const runs = await listScanRuns(parsed.data);
+    return NextResponse.json({ runs });
+  } catch (err) {
+    console.error("Error in GET /api/scans:", err);
+    return NextResponse.json(
+      { error: "Failed to load scan history" },
+      { status: 500 },
+    );
+  }
+}
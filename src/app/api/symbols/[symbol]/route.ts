@@ -0,0 +1,31 @@
+// src/app/api/symbols/[symbol]/route.ts
+import { NextResponse } from "next/server";
+import { deleteInstrument } from "@/lib/trading/instrument-store";
+
+/**
+ * DELETE /api/symbols/:symbol
+ *  - Removes a stored instrument; built-ins revert to their defaults.
+ */
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ symbol: string }> },
+) {
+  try {
+    const { symbol } = await params;
+    const removed = await deleteInstrument(symbol.toUpperCase());
+    if (!removed) {
+      return NextResponse.json(
+        { error: "No stored instrument for this symbol" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    console.error("Error in DELETE /api/symbols/[symbol]:", err);
+    return NextResponse.json(
+      { error: "Failed to delete instrument" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,60 @@
+// src/app/api/symbols/route.ts
+import { NextResponse } from "next/server";
+import { instrumentSpecSchema } from "@/lib/trading/instruments";
+import {
+  loadInstrumentRegistry,
+  saveInstrument,
+} from "@/lib/trading/instrument-store";
+
+/**
+ * GET /api/symbols
+ *  - Returns { instruments: InstrumentSpec[] } (built-ins merged with stored ones).
+ */
+export async function GET() {
+  try {
+    const instruments = await loadInstrumentRegistry();
+    return NextResponse.json({ instruments });
+  } catch (err) {
+    console.error("Error in GET /api/symbols:", err);
+    return NextResponse.json(
+      { error: "Failed to load instruments" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/symbols
+ *  - Adds an instrument, or overrides a built-in one with the same symbol.
+ *  - Returns { instrument: InstrumentSpec }.
+ */
+export async function POST(req: Request) {
+  try {
+    const raw = await req.text();
+    const body = raw ? JSON.parse(raw) : {};
+
+    const parsed = instrumentSpecSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.flatten() },
+        { status: 400 },
+      );
+    }
+
+    const instrument = await saveInstrument(parsed.data);
+    return NextResponse.json({ instrument });
+  } catch (err) {
+    if (err instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: "Invalid JSON body" },
+        { status: 400 },
+      );
+    }
+
+    console.error("Error in POST /api/symbols:", err);
+    return NextResponse.json(
+      { error: "Failed to save instrument" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,52 @@
+// src/app/api/zones/route.ts
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { TIMEFRAMES } from "@/lib/trading/types";
+import { knownSymbolSchema } from "@/lib/trading/instruments";
+import { loadInstrumentRegistry } from "@/lib/trading/instrument-store";
+import { listTrackedZones } from "@/lib/trading/zone-store";
+
+const zonesQuerySchema = z
+  .object({
+    symbols: z.array(knownSymbolSchema).optional(),
+    timeframe: z
+      .enum(TIMEFRAMES, {
+        message: `timeframe must be one of ${TIMEFRAMES.join(", ")}`,
+      })
+      .optional(),
+  })
+  .strict();
+
+/**
+ * GET /api/zones?symbols=EURUSD,GBPUSD&timeframe=D1
+ *  - Returns { zones: TrackedZone[] }: the zones followed by latest-session
+ *    scans, with their state, touches and event history.
+ */
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const query: Record<string, unknown> = {};
+    const symbols = searchParams.get("symbols");
+    if (symbols) query.symbols = symbols.split(",").filter(Boolean);
+    const timeframe = searchParams.get("timeframe");
+    if (timeframe) query.timeframe = timeframe;
+
+    await loadInstrumentRegistry();
+    const parsed = zonesQuerySchema.safeParse(query);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.flatten() },
+        { status: 400 },
+      );
+    }
+
+    const zones = await listTrackedZones(parsed.data);
+    return NextResponse.json({ zones });
+  } catch (err) {
+    console.error("Error in GET /api/zones:", err);
+    return NextResponse.json(
+      { error: "Failed to load zones" },
+      { status: 500 },
+    );
+  }
+}
@@ -1,14 +1,36 @@
 "use client";
 
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import type {
+  CorrelationMode,
+  LiquidityLevel,
+  LiquidityMode,
+  MacroDominanceRule,
+  MacroTrendClassifier,
+  NewsFilterMode,
   ScanResponse,
   SymbolCode,
   TradeCandidate,
   SymbolScanResult,
+  Timeframe,
+  TradingSession,
+  ZoneScoreWeights,
 } from "@/lib/trading/types";
-import { SYMBOLS, isSymbolScanError } from "@/lib/trading/types";
+import {
+  isSymbolScanError,
+  MACRO_TREND_CLASSIFIER_LABELS,
+  MACRO_TREND_CLASSIFIERS,
+  TIMEFRAMES,
+  TRADING_SESSION_LABELS,
+  TRADING_SESSIONS,
+  ZONE_SCORE_COMPONENT_LABELS,
+  ZONE_SCORE_COMPONENTS,
+} from "@/lib/trading/types";
+import {
+  BUILTIN_INSTRUMENTS,
+  type InstrumentSpec,
+} from "@/lib/trading/instruments";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -18,12 +40,32 @@ import {
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Slider } from "@/components/ui/slider";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { SymbolCard } from "@/components/trading/symbol-card";
+import { ClassifierComparison } from "@/components/trading/classifier-comparison";
+import { BacktestPanel } from "@/components/trading/backtest-panel";
+import { AnalyticsPanel } from "@/components/trading/analytics-panel";
+import { OptimizationPanel } from "@/components/trading/optimization-panel";
+import { ScanHistoryPanel } from "@/components/trading/scan-history-panel";
+import { ZonesPanel } from "@/components/trading/zones-panel";
+import { InstrumentsPanel } from "@/components/trading/instruments-panel";
+import { AccountPanel } from "@/components/trading/account-panel";
+import { AlertsPanel } from "@/components/trading/alerts-panel";
+import { JournalPanel } from "@/components/trading/journal-panel";
+import { PaperTradingPanel } from "@/components/trading/paper-trading-panel";
+import { ExposurePanel } from "@/components/trading/exposure-panel";
+import { OrderExportBar } from "@/components/trading/order-export-bar";
 import { cn } from "@/lib/utils";
+import { usePriceStream } from "@/hooks/use-price-stream";
+import { useAlertNotifications } from "@/hooks/use-alert-notifications";
+import { toast } from "@/hooks/use-toast";
+import { journalDraftFromCandidate } from "@/lib/trading/journal";
+import { describeLiquidityLevel } from "@/lib/trading/liquidity";
+import { applyPriceTickToScan, type PriceTick } from "@/lib/trading/price-stream";
 import type {
   CandidateStatus,
   LocationBucket,
@@ -32,23 +74,9 @@ import type {
   ZoneProximityLabel,
 } from "@/types/trading";
 
-const DECIMALS: Record<string, number> = {
-  XAUUSD: 2,
-  EURUSD: 5,
-  GBPUSD: 5,
-  GBPJPY: 3,
-};
-
-const SYMBOLS_LIST = SYMBOLS;
-
-function formatPrice(
-  symbol: string | SymbolCode,
-  price: number | null | undefined,
-) {
-  if (price == null || Number.isNaN(price)) return "-";
-  const d = DECIMALS[String(symbol)] ?? 5;
-  return price.toFixed(d);
-}
+const DEFAULT_SYMBOLS = BUILTIN_INSTRUMENTS.filter((spec) => spec.enabled).map(
+  (spec) => spec.symbol,
+);
 
 function mapTrendDirection(
   macroTrend: SymbolScanResult["macroTrend"],
@@ -119,8 +147,45 @@ function mapCandidateStatus(trades: TradeCandidate[]): CandidateStatus {
   return "watch";
 }
 
-type ViewKey = "dashboard" | "signals" | "settings";
-const VIEW_KEYS: ViewKey[] = ["dashboard", "signals", "settings"];
+type ViewKey =
+  | "dashboard"
+  | "signals"
+  | "history"
+  | "zones"
+  | "backtest"
+  | "analytics"
+  | "optimize"
+  | "journal"
+  | "paper"
+  | "alerts"
+  | "settings";
+const VIEW_KEYS: ViewKey[] = [
+  "dashboard",
+  "signals",
+  "history",
+  "zones",
+  "backtest",
+  "analytics",
+  "optimize",
+  "journal",
+  "paper",
+  "alerts",
+  "settings",
+];
+
+const VIEW_LABELS: Record<ViewKey, string> = {
+  dashboard: "Dashboard",
+  signals: "Signals",
+  history: "History",
+  zones: "Zones",
+  backtest: "Backtest",
+  analytics: "Analytics",
+  optimize: "Optimize",
+  journal: "Journal",
+  paper: "Paper",
+  alerts: "Alerts",
+  settings: "Settings",
+};
 
 function parseViewParam(value: string | null): ViewKey | null {
   if (!value) return null;
@@ -130,10 +195,38 @@ function parseViewParam(value: string | null): ViewKey | null {
 
 type ScanSettings = {
   symbols: Record<SymbolCode, boolean>;
+  /** Timeframes per symbol, first one primary; missing means D1 only */
+  timeframes: Partial<Record<SymbolCode, Timeframe[]>>;
   minRr: number;
   spreadCap: number;
+  newsMode: NewsFilterMode;
+  /** Minutes around a high-impact release that count as news risk */
+  newsMinutesBefore: number;
+  newsMinutesAfter: number;
+  /** Sessions candidates stay VALID in; empty for any time */
+  sessions: TradingSession[];
+  correlationMode: CorrelationMode;
+  /** Direction-adjusted return correlation from which risk counts as stacked */
+  maxCorrelation: number;
+  /** Broker server time in hours from UTC; null for the New York close convention */
+  serverUtcOffset: number | null;
   atrWindow: number;
   structureLookback: number;
+  /** Sessions in the macro-trend window */
+  trendLookback: number;
+  macroBullThreshold: number;
+  macroBearThreshold: number;
+  macroDominance: MacroDominanceRule;
+  macroClassifier: MacroTrendClassifier;
+  liquidityMode: LiquidityMode;
+  swingLeft: number;
+  swingRight: number;
+  preferFreshZones: boolean;
+  zoneWeights: ZoneScoreWeights;
+  /** Sessions after which a zone touch counts half */
+  zoneRecencyHalfLife: number;
+  /** yyyy-mm-dd session to scan as of; empty for the latest bar */
+  asOfDate: string;
 };
 
 type ManualCloseState = Record<SymbolCode, { enabled: boolean; value: string }>;
@@ -145,6 +238,34 @@ interface FlattenedTradeRow {
   trade: TradeCandidate;
 }
 
+/** Identifies a Signals row across price ticks of the same scan */
+function candidateKey(row: FlattenedTradeRow): string {
+  return `${row.symbol}:${row.trade.model}:${row.trade.direction}:${row.trade.entry}`;
+}
+
+function formatMoney(
+  amount: number | null | undefined,
+  currency: string | undefined,
+): string {
+  if (amount == null || !Number.isFinite(amount) || !currency) return "-";
+  return new Intl.NumberFormat(undefined, {
+    style: "currency",
+    currency,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+/** Where a stop or target came from, under its price in the trade tables */
+function LevelSource({ level, fallback }: { level?: LiquidityLevel; fallback?: string }) {
+  const text = level ? describeLiquidityLevel(level) : fallback;
+  if (!text) return null;
+  return (
+    <div className="whitespace-nowrap text-[10px] font-normal text-slate-400">
+      {text}
+    </div>
+  );
+}
+
 function navItemClasses(isActive: boolean): string {
   return [
     "w-full text-left rounded-lg px-3 py-2 text-sm",
@@ -164,6 +285,7 @@ export default function TradingDashboard() {
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [activeView, setActiveView] = useState<ViewKey>("dashboard");
   const [cardDensity, setCardDensity] = useState<"compact" | "detailed">("compact");
+  const [compareClassifiers, setCompareClassifiers] = useState(false);
   const [sortKey, setSortKey] = useState<
     "symbol" | "direction" | "rr" | "trend" | "status"
   >("symbol");
@@ -175,23 +297,107 @@ export default function TradingDashboard() {
   const [trendFilter, setTrendFilter] = useState<string | "all">("all");
   const [statusFilter, setStatusFilter] = useState<string | "all">("all");
   const [scanSettings, setScanSettings] = useState<ScanSettings>(() => ({
-    symbols: SYMBOLS_LIST.reduce(
+    symbols: DEFAULT_SYMBOLS.reduce(
       (acc, symbol) => ({ ...acc, [symbol]: true }),
       {} as Record<SymbolCode, boolean>,
     ),
+    timeframes: {},
     minRr: 2.0,
     spreadCap: 1.0,
+    newsMode: "block",
+    newsMinutesBefore: 30,
+    newsMinutesAfter: 30,
+    sessions: [],
+    correlationMode: "flag",
+    maxCorrelation: 0.7,
+    serverUtcOffset: null,
     atrWindow: 20,
     structureLookback: 60,
+    trendLookback: 20,
+    macroBullThreshold: 0.25,
+    macroBearThreshold: -0.25,
+    macroDominance: "window",
+    macroClassifier: "breakout",
+    liquidityMode: "raw",
+    swingLeft: 2,
+    swingRight: 2,
+    preferFreshZones: false,
+    zoneWeights: {
+      touches: 1,
+      volume: 0,
+      recency: 0,
+      rejection: 0,
+      confluence: 0,
+    },
+    zoneRecencyHalfLife: 5,
+    asOfDate: "",
   }));
   const [manualCloses, setManualCloses] = useState<ManualCloseState>(() =>
-    SYMBOLS_LIST.reduce(
+    DEFAULT_SYMBOLS.reduce(
       (acc, symbol) => ({ ...acc, [symbol]: { enabled: false, value: "" } }),
       {} as ManualCloseState,
     ),
   );
 
-  const symbolsList = useMemo(() => SYMBOLS_LIST, []);
+  const [instruments, setInstruments] = useState<InstrumentSpec[]>(() => [
+    ...BUILTIN_INSTRUMENTS,
+  ]);
+
+  const symbolsList = useMemo(
+    () => instruments.map((spec) => spec.symbol),
+    [instruments],
+  );
+
+  const formatPrice = useCallback(
+    (symbol: SymbolCode, price: number | null | undefined) => {
+      if (price == null || Number.isNaN(price)) return "-";
+      const digits =
+        instruments.find((spec) => spec.symbol === symbol)?.digits ?? 5;
+      return price.toFixed(digits);
+    },
+    [instruments],
+  );
+
+  useEffect(() => {
+    fetch("/api/symbols")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (Array.isArray(data?.instruments)) setInstruments(data.instruments);
+      })
+      .catch((err) => console.error("Error loading instruments:", err));
+  }, []);
+
+  // New instruments (or ones whose "scan by default" flag changed) take the
+  // registry's toggle, others keep the user's; removed ones drop out
+  const previousInstruments = useRef<InstrumentSpec[]>(instruments);
+  useEffect(() => {
+    const before = previousInstruments.current;
+    previousInstruments.current = instruments;
+
+    setScanSettings((prev) => ({
+      ...prev,
+      symbols: Object.fromEntries(
+        instruments.map((spec) => {
+          const known = before.find((b) => b.symbol === spec.symbol);
+          const current = prev.symbols[spec.symbol];
+          return [
+            spec.symbol,
+            known?.enabled === spec.enabled && current !== undefined
+              ? current
+              : spec.enabled,
+          ];
+        }),
+      ),
+    }));
+    setManualCloses((prev) =>
+      Object.fromEntries(
+        instruments.map((spec) => [
+          spec.symbol,
+          prev[spec.symbol] ?? { enabled: false, value: "" },
+        ]),
+      ),
+    );
+  }, [instruments]);
   const manualClosePayload = useMemo(() => {
     const payload: Partial<Record<SymbolCode, { enabled: boolean; close: number }>> = {};
 
@@ -210,34 +416,99 @@ export default function TradingDashboard() {
 
   const scanPayload = useMemo(() => {
     const payload: {
+      date?: string;
       symbols: SymbolCode[];
-      filters: { minRr: number; spreadCap: number };
+      filters: {
+        minRr: number;
+        spreadCap: number;
+        newsMode: NewsFilterMode;
+        newsMinutesBefore: number;
+        newsMinutesAfter: number;
+        sessions: TradingSession[];
+        correlationMode: CorrelationMode;
+        maxCorrelation: number;
+      };
       params: {
         atrWindow: number;
         structureLookback: number;
+        trendLookback: number;
+        macroBullThreshold: number;
+        macroBearThreshold: number;
+        macroDominance: MacroDominanceRule;
+        macroClassifier: MacroTrendClassifier;
+        liquidityMode: LiquidityMode;
+        swingLeft: number;
+        swingRight: number;
+        preferFreshZones: boolean;
+        zoneWeights: ZoneScoreWeights;
+        zoneRecencyHalfLife: number;
+        serverUtcOffset: number | null;
       };
       manualCloses?: Partial<
         Record<SymbolCode, { enabled: boolean; close: number }>
       >;
+      timeframes?: Partial<Record<SymbolCode, Timeframe[]>>;
     } = {
       symbols: symbolsList.filter((symbol) => scanSettings.symbols[symbol]),
       filters: {
         minRr: scanSettings.minRr,
         spreadCap: scanSettings.spreadCap,
+        newsMode: scanSettings.newsMode,
+        newsMinutesBefore: scanSettings.newsMinutesBefore,
+        newsMinutesAfter: scanSettings.newsMinutesAfter,
+        sessions: scanSettings.sessions,
+        correlationMode: scanSettings.correlationMode,
+        maxCorrelation: scanSettings.maxCorrelation,
       },
       params: {
         atrWindow: scanSettings.atrWindow,
         structureLookback: scanSettings.structureLookback,
+        trendLookback: scanSettings.trendLookback,
+        macroBullThreshold: scanSettings.macroBullThreshold,
+        macroBearThreshold: scanSettings.macroBearThreshold,
+        macroDominance: scanSettings.macroDominance,
+        macroClassifier: scanSettings.macroClassifier,
+        liquidityMode: scanSettings.liquidityMode,
+        swingLeft: scanSettings.swingLeft,
+        swingRight: scanSettings.swingRight,
+        preferFreshZones: scanSettings.preferFreshZones,
+        zoneWeights: scanSettings.zoneWeights,
+        zoneRecencyHalfLife: scanSettings.zoneRecencyHalfLife,
+        serverUtcOffset: scanSettings.serverUtcOffset,
       },
     };
 
+    if (scanSettings.asOfDate) {
+      payload.date = scanSettings.asOfDate;
+    }
+
     if (Object.keys(manualClosePayload).length > 0) {
       payload.manualCloses = manualClosePayload;
     }
 
+    const timeframes = Object.fromEntries(
+      payload.symbols
+        .map((symbol) => [symbol, scanSettings.timeframes[symbol]] as const)
+        .filter(
+          ([, list]) => list && list.length > 0 && !(list.length === 1 && list[0] === "D1"),
+        ),
+    );
+    if (Object.keys(timeframes).length > 0) {
+      payload.timeframes = timeframes;
+    }
+
     return payload;
   }, [manualClosePayload, scanSettings, symbolsList]);
 
+  // Replays have no calendar, so they only take the price filters
+  const replayFilters = useMemo(
+    () => ({
+      minRr: scanPayload.filters.minRr,
+      spreadCap: scanPayload.filters.spreadCap,
+    }),
+    [scanPayload.filters.minRr, scanPayload.filters.spreadCap],
+  );
+
   async function fetchScan() {
     if (!scanPayload.symbols.length) {
       setErrorMessage("Select at least one symbol before scanning.");
@@ -332,12 +603,92 @@ export default function TradingDashboard() {
   const latestScan = signals && signals.length > 0 ? signals[0] : null;
   const lastScanDate = latestScan?.date ?? null;
 
+  // Stream quotes into the latest scan unless it is an as-of scan of a past
+  // session; symbols with a manual close keep their manual price
+  const streamSymbols = useMemo(() => {
+    if (!latestScan) return [];
+    const today = new Date().toISOString().split("T")[0];
+    if (latestScan.date < today) return [];
+    return (Object.keys(latestScan.symbols) as SymbolCode[]).filter(
+      (symbol) => !manualCloses[symbol]?.enabled,
+    );
+  }, [latestScan?.date, latestScan?.symbols, manualCloses]);
+
+  const handleTick = useCallback((tick: PriceTick) => {
+    setSignals((prev) =>
+      prev && prev.length > 0
+        ? [applyPriceTickToScan(prev[0], tick), ...prev.slice(1)]
+        : prev,
+    );
+  }, []);
+
+  const streamConnected = usePriceStream(streamSymbols, handleTick);
+
+  useAlertNotifications();
+
+  const [journalRefreshKey, setJournalRefreshKey] = useState(0);
+
+  // Signals rows picked for the MetaTrader export; a new scan starts afresh
+  const [exportKeys, setExportKeys] = useState<Set<string>>(() => new Set());
+  useEffect(() => {
+    setExportKeys(new Set());
+  }, [latestScan?.runId, latestScan?.date]);
+
+  const toggleExport = (key: string, checked: boolean) => {
+    setExportKeys((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+  };
+
+  const addToJournal = async (row: FlattenedTradeRow) => {
+    const result = latestScan?.symbols[row.symbol];
+    if (!latestScan || !result || isSymbolScanError(result)) return;
+
+    try {
+      const res = await fetch("/api/journal", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          journalDraftFromCandidate(result, row.trade, latestScan),
+        ),
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      setJournalRefreshKey((key) => key + 1);
+      toast({
+        title: "Added to journal",
+        description: `${row.symbol} ${row.trade.model} ${row.trade.direction} @ ${formatPrice(row.symbol, row.trade.entry)}`,
+      });
+    } catch (err) {
+      console.error("Error adding journal entry:", err);
+      toast({
+        title: "Could not add to journal",
+        description: String(err),
+        variant: "destructive",
+      });
+    }
+  };
+
   const hasAnyTrades =
     !!latestScan &&
     Object.values(latestScan.symbols).some(
       (entry) => entry && !isSymbolScanError(entry) && entry.trades?.length,
     );
 
+  // Symbols scanned on invented bars – flagged above every view
+  const syntheticSymbols = latestScan
+    ? (Object.keys(latestScan.symbols) as SymbolCode[]).filter((symbol) => {
+        const entry = latestScan.symbols[symbol];
+        return (
+          !!entry &&
+          !isSymbolScanError(entry) &&
+          entry.dataSource?.provider === "synthetic"
+        );
+      })
+    : [];
+
   // Flatten all trades across symbols for the Signals view
   const allTrades = useMemo<FlattenedTradeRow[]>(() => {
     if (!latestScan) return [];
@@ -360,6 +711,11 @@ export default function TradingDashboard() {
     return rows;
   }, [latestScan]);
 
+  const exportSelection = useMemo(
+    () => allTrades.filter((row) => exportKeys.has(candidateKey(row))),
+    [allTrades, exportKeys],
+  );
+
   const symbolOptions = useMemo(() => {
     const options = new Set<SymbolCode>();
     allTrades.forEach((row) => options.add(row.symbol));
@@ -482,6 +838,70 @@ export default function TradingDashboard() {
           >
             Signals
           </button>
+          <button
+            type="button"
+            className={navItemClasses(activeView === "history")}
+            onClick={() => handleViewChange("history")}
+            disabled={loading}
+          >
+            History
+          </button>
+          <button
+            type="button"
+            className={navItemClasses(activeView === "zones")}
+            onClick={() => handleViewChange("zones")}
+            disabled={loading}
+          >
+            Zones
+          </button>
+          <button
+            type="button"
+            className={navItemClasses(activeView === "backtest")}
+            onClick={() => handleViewChange("backtest")}
+            disabled={loading}
+          >
+            Backtest
+          </button>
+          <button
+            type="button"
+            className={navItemClasses(activeView === "analytics")}
+            onClick={() => handleViewChange("analytics")}
+            disabled={loading}
+          >
+            Analytics
+          </button>
+          <button
+            type="button"
+            className={navItemClasses(activeView === "optimize")}
+            onClick={() => handleViewChange("optimize")}
+            disabled={loading}
+          >
+            Optimize
+          </button>
+          <button
+            type="button"
+            className={navItemClasses(activeView === "journal")}
+            onClick={() => handleViewChange("journal")}
+            disabled={loading}
+          >
+            Journal
+          </button>
+          <button
+            type="button"
+            className={navItemClasses(activeView === "paper")}
+            onClick={() => handleViewChange("paper")}
+            disabled={loading}
+          >
+            Paper
+          </button>
+          <button
+            type="button"
+            className={navItemClasses(activeView === "alerts")}
+            onClick={() => handleViewChange("alerts")}
+            disabled={loading}
+          >
+            Alerts
+          </button>
           <button
             type="button"
             className={navItemClasses(activeView === "settings")}
@@ -515,6 +935,24 @@ export default function TradingDashboard() {
                 Last scan: {lastScanDate}
               </span>
             )}
+            {streamSymbols.length > 0 && (
+              <Badge
+                variant="outline"
+                className={cn(
+                  "hidden sm:inline-flex text-[10px] uppercase tracking-wide",
+                  streamConnected
+                    ? "border-emerald-500/60 text-emerald-200"
+                    : "border-slate-600 text-slate-400",
+                )}
+                title={
+                  streamConnected
+                    ? "Quotes stream in from the price service"
+                    : "Price stream not connected; prices update on each scan"
+                }
+              >
+                {streamConnected ? "Live" : "Stream offline"}
+              </Badge>
+            )}
             <ToggleGroup
               type="single"
               value={cardDensity}
@@ -547,7 +985,7 @@ export default function TradingDashboard() {
         {/* Mobile nav (simple pills) */}
         <div className="md:hidden sticky top-0 z-10 bg-[#050816] px-4 pt-3 pb-3">
           <div className="flex gap-2 text-xs">
-            {(["dashboard", "signals", "settings"] as ViewKey[]).map(
+            {VIEW_KEYS.map(
               (view) => (
                 <button
                   key={view}
@@ -564,11 +1002,7 @@ export default function TradingDashboard() {
                     .join(" ")}
                   disabled={loading}
                 >
-                  {view === "dashboard"
-                    ? "Dashboard"
-                    : view === "signals"
-                    ? "Signals"
-                    : "Settings"}
+                  {VIEW_LABELS[view]}
                 </button>
               ),
             )}
@@ -584,19 +1018,45 @@ export default function TradingDashboard() {
             </div>
           )}
 
+          {syntheticSymbols.length > 0 && (
+            <div
+              role="alert"
+              className="rounded-lg border border-rose-600 bg-rose-900/50 px-4 py-3 text-sm text-rose-100"
+            >
+              Synthetic demo data in use for {syntheticSymbols.join(", ")}. Zones
+              and trade candidates for these symbols are not based on real prices.
+            </div>
+          )}
+
           {/* DASHBOARD VIEW */}
           {activeView === "dashboard" && (
             <>
               {/* Market Scan intro */}
               <section className="space-y-1">
                 <h2 className="text-lg font-semibold">Market Scan</h2>
-                <p className="text-xs md:text-sm text-slate-400">
-                  Run a structural scan across all configured symbols.
-                  Results include trend, location, and model-based trade
-                  candidates.
-                </p>
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <p className="text-xs md:text-sm text-slate-400">
+                    Run a structural scan across all configured symbols.
+                    Results include trend, location, and model-based trade
+                    candidates.
+                  </p>
+                  <div className="flex items-center gap-2 text-xs text-slate-300">
+                    <Switch
+                      id="compare-classifiers"
+                      checked={compareClassifiers}
+                      onCheckedChange={setCompareClassifiers}
+                    />
+                    <Label htmlFor="compare-classifiers" className="text-xs">
+                      Compare trend classifiers
+                    </Label>
+                  </div>
+                </div>
               </section>
 
+              {compareClassifiers && latestScan && (
+                <ClassifierComparison scan={latestScan} symbols={symbolsList} />
+              )}
+
               {/* Empty state */}
               {!errorMessage &&
                 !loading &&
@@ -610,187 +1070,220 @@ export default function TradingDashboard() {
               {/* Symbol cards */}
               {latestScan && (
                 <section className="grid gap-4 md:gap-6 md:grid-cols-2">
-                  {symbolsList.map((symbol) => {
-                    const symbolResult = latestScan.symbols[symbol];
-                    if (!symbolResult) return null;
+                  {symbolsList.flatMap((symbol) =>
+                    [
+                      latestScan.symbols[symbol],
+                      ...(latestScan.stacked?.[symbol] ?? []),
+                    ].map((symbolResult) => {
+                      if (!symbolResult) return null;
+                      const timeframe = symbolResult.timeframe ?? "D1";
+                      const cardKey = `${symbol}-${timeframe}`;
+
+                      if (isSymbolScanError(symbolResult)) {
+                        return (
+                          <Card
+                            key={cardKey}
+                            className="border border-rose-700 bg-rose-950/40 shadow-[0_0_0_1px_rgba(127,29,29,0.5)]"
+                          >
+                            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+                              <div>
+                            <CardTitle className="text-sm font-semibold text-sky-100">
+                              {symbol}
+                              {timeframe !== "D1" && ` · ${timeframe}`}
+                            </CardTitle>
+                                <p className="text-xs text-rose-200/80">
+                                  Scan failed for this symbol.
+                                </p>
+                              </div>
+                              <span className="inline-flex items-center rounded-full border border-rose-700 px-2 py-0.5 text-[10px] font-medium uppercase tracking-wide text-rose-100">
+                                Error
+                              </span>
+                            </CardHeader>
+                            <CardContent className="pt-0">
+                              <div className="rounded-lg border border-rose-800 bg-rose-900/50 px-3 py-3 text-xs text-rose-100">
+                                {symbolResult.error || "Unknown error"}
+                              </div>
+                            </CardContent>
+                          </Card>
+                        );
+                      }
+
+                      const macroTrend = symbolResult.macroTrend;
+                      const trendDay = symbolResult.trendDay;
+                      const alignment = symbolResult.alignment;
+                      const trend = macroTrend;
+                      const location = symbolResult.location;
+                      const trades = symbolResult.trades ?? [];
+                      const livePrice = symbolResult.livePrice;
+                      const nearestZone = symbolResult.nearestZone;
+                      const pullback = symbolResult.pullback;
+                      const sweetspotState = symbolResult.sweetspotState ?? null;
+
+                      const priceFormatter = (value: number) =>
+                        formatPrice(symbol, value);
+                      const livePriceValue =
+                        (livePrice?.spot != null && Number.isFinite(livePrice.spot)
+                          ? livePrice.spot
+                          : null) ??
+                        symbolResult.partialDailyBar?.close ??
+                        symbolResult.lastClose ??
+                        0;
+                      const liveSource = mapLivePriceSource(livePrice?.source);
+                      const candidateStatus = mapCandidateStatus(trades);
+                      const zoneDistancePoints =
+                        nearestZone?.distance != null && Number.isFinite(nearestZone.distance)
+                          ? nearestZone.distance
+                          : 0;
+                      const zoneDistancePct =
+                        nearestZone?.distancePct != null &&
+                        Number.isFinite(nearestZone.distancePct)
+                          ? nearestZone.distancePct
+                          : 0;
+                      const zoneLabel = mapZoneLabel(nearestZone?.status, zoneDistancePct);
+                      const hasPendingLimit = trades.some(
+                        (t) =>
+                          t.model === "D" &&
+                          (t.placement ?? "MARKET") === "PENDING_LIMIT",
+                      );
 
-                    if (isSymbolScanError(symbolResult)) {
-                      return (
-                        <Card
-                          key={symbol}
-                          className="border border-rose-700 bg-rose-950/40 shadow-[0_0_0_1px_rgba(127,29,29,0.5)]"
-                        >
-                          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
-                            <div>
-                          <CardTitle className="text-sm font-semibold text-sky-100">
-                            {symbol}
-                          </CardTitle>
-                              <p className="text-xs text-rose-200/80">
-                                Scan failed for this symbol.
-                              </p>
-                            </div>
-                            <span className="inline-flex items-center rounded-full border border-rose-700 px-2 py-0.5 text-[10px] font-medium uppercase tracking-wide text-rose-100">
-                              Error
-                            </span>
-                          </CardHeader>
-                          <CardContent className="pt-0">
-                            <div className="rounded-lg border border-rose-800 bg-rose-900/50 px-3 py-3 text-xs text-rose-100">
-                              {symbolResult.error || "Unknown error"}
+                      const tradesSection = (
+                        <section className="rounded-xl border border-slate-800/80 bg-slate-900/60 px-3 py-2">
+                          <div className="flex items-center justify-between gap-2 pb-2">
+                            <p className="text-[11px] uppercase tracking-wide text-slate-400">
+                              Trade candidates
+                            </p>
+                            {hasPendingLimit && (
+                              <Badge
+                                variant="outline"
+                                className="border-indigo-500/60 text-[10px] font-semibold uppercase tracking-wide text-indigo-200"
+                              >
+                                Pending setup
+                              </Badge>
+                            )}
+                          </div>
+                          {trades.length === 0 ? (
+                            <div className="py-3 text-xs text-slate-400">
+                              No trade candidates for this symbol.
                             </div>
-                          </CardContent>
-                        </Card>
-                      );
-                    }
-
-                    const macroTrend = symbolResult.macroTrend;
-                    const trendDay = symbolResult.trendDay;
-                    const alignment = symbolResult.alignment;
-                    const trend = macroTrend;
-                    const location = symbolResult.location;
-                    const trades = symbolResult.trades ?? [];
-                    const livePrice = symbolResult.livePrice;
-                    const nearestZone = symbolResult.nearestZone;
-                    const pullback = symbolResult.pullback;
-                    const sweetspotState = symbolResult.sweetspotState ?? null;
-
-                    const priceFormatter = (value: number) =>
-                      formatPrice(symbol, value);
-                    const livePriceValue =
-                      (livePrice?.spot != null && Number.isFinite(livePrice.spot)
-                        ? livePrice.spot
-                        : null) ?? symbolResult.lastClose ?? 0;
-                    const liveSource = mapLivePriceSource(livePrice?.source);
-                    const candidateStatus = mapCandidateStatus(trades);
-                    const zoneDistancePoints =
-                      nearestZone?.distance != null && Number.isFinite(nearestZone.distance)
-                        ? nearestZone.distance
-                        : 0;
-                    const zoneDistancePct =
-                      nearestZone?.distancePct != null &&
-                      Number.isFinite(nearestZone.distancePct)
-                        ? nearestZone.distancePct
-                        : 0;
-                    const zoneLabel = mapZoneLabel(nearestZone?.status, zoneDistancePct);
-                    const hasPendingLimit = trades.some(
-                      (t) =>
-                        t.model === "D" &&
-                        (t.placement ?? "MARKET") === "PENDING_LIMIT",
-                    );
-
-                    const tradesSection = (
-                      <section className="rounded-xl border border-slate-800/80 bg-slate-900/60 px-3 py-2">
-                        <div className="flex items-center justify-between gap-2 pb-2">
-                          <p className="text-[11px] uppercase tracking-wide text-slate-400">
-                            Trade candidates
-                          </p>
-                          {hasPendingLimit && (
-                            <Badge
-                              variant="outline"
-                              className="border-indigo-500/60 text-[10px] font-semibold uppercase tracking-wide text-indigo-200"
+                          ) : (
+                            <div
+                              className={`overflow-x-auto ${
+                                loading ? "pointer-events-none opacity-50" : ""
+                              }`}
                             >
-                              Pending setup
-                            </Badge>
-                          )}
-                        </div>
-                        {trades.length === 0 ? (
-                          <div className="py-3 text-xs text-slate-400">
-                            No trade candidates for this symbol.
-                          </div>
-                        ) : (
-                          <div
-                            className={`overflow-x-auto ${
-                              loading ? "pointer-events-none opacity-50" : ""
-                            }`}
-                          >
-                            <table className="w-full text-[13px]">
-                              <thead>
-                                <tr className="bg-slate-800 text-slate-50">
-                                  <th className="px-2 py-2 text-left font-semibold">Model</th>
-                                  <th className="px-2 py-2 text-left font-semibold">Placement</th>
-                                  <th className="px-2 py-2 text-left font-semibold">Dir</th>
-                                  <th className="px-2 py-2 text-right font-semibold">Entry</th>
-                                  <th className="px-2 py-2 text-right font-semibold">Stop</th>
-                                  <th className="px-2 py-2 text-right font-semibold">TP1</th>
-                                  <th className="px-2 py-2 text-right font-semibold">R:R</th>
-                                  <th className="px-2 py-2 text-left font-semibold">Stop Type</th>
-                                </tr>
-                              </thead>
-                              <tbody>
-                                {trades.map((t: TradeCandidate, idx: number) => (
-                                  <tr
-                                    key={idx}
-                                    className="border-b border-slate-700 bg-slate-900 text-slate-50 hover:bg-slate-800"
-                                  >
-                                    <td className="px-2 py-1.5 font-semibold">{t.model}</td>
-                                    <td className="px-2 py-1.5 font-semibold">
-                                      <span className="inline-flex items-center rounded-full border border-slate-700 px-2 py-0.5 text-[11px] font-semibold uppercase tracking-wide">
-                                        {(t.placement ?? "MARKET").replace("_", " ")}
-                                      </span>
-                                    </td>
-                                    <td className="px-2 py-1.5 font-semibold">{t.direction}</td>
-                                    <td className="px-2 py-1.5 text-right font-semibold">
-                                      {priceFormatter(t.entry)}
-                                    </td>
-                                    <td className="px-2 py-1.5 text-right font-semibold">
-                                      {priceFormatter(t.stop)}
-                                    </td>
-                                    <td className="px-2 py-1.5 text-right font-semibold">
-                                      {priceFormatter(t.tp1)}
-                                    </td>
-                                    <td className="px-2 py-1.5 text-right font-semibold">
-                                      {t.rr?.toFixed(2) ?? "-"}
-                                    </td>
-                                    <td className="px-2 py-1.5 font-semibold">{t.stopType ?? "-"}</td>
+                              <table className="w-full text-[13px]">
+                                <thead>
+                                  <tr className="bg-slate-800 text-slate-50">
+                                    <th className="px-2 py-2 text-left font-semibold">Model</th>
+                                    <th className="px-2 py-2 text-left font-semibold">Placement</th>
+                                    <th className="px-2 py-2 text-left font-semibold">Dir</th>
+                                    <th className="px-2 py-2 text-right font-semibold">Entry</th>
+                                    <th className="px-2 py-2 text-right font-semibold">Stop</th>
+                                    <th className="px-2 py-2 text-right font-semibold">TP1</th>
+                                    <th className="px-2 py-2 text-right font-semibold">R:R</th>
+                                    <th className="px-2 py-2 text-left font-semibold">Stop Type</th>
                                   </tr>
-                                ))}
-                              </tbody>
-                            </table>
-                          </div>
-                        )}
-                      </section>
-                    );
-
-                    return (
-                      <SymbolCard
-                        key={symbol}
-                        symbol={symbol}
-                        atr20={symbolResult.atr20 ?? 0}
-                        macroTrend={mapTrendDirection(macroTrend)}
-                        macroTrendDiagnostics={symbolResult.macroTrendDiagnostics}
-                        trendDay={mapTrendDirection(trendDay)}
-                        alignment={mapTrendAlignment(alignment)}
-                        location={mapLocationBucket(location)}
-                        candidateStatus={candidateStatus}
-                        livePrice={livePriceValue}
-                        livePriceSource={liveSource}
-                        closeMode={manualCloses[symbol]?.enabled ? "manual" : "auto"}
-                        nearestZone={{
-                          label: zoneLabel,
-                          distancePoints: zoneDistancePoints,
-                          distancePercent: Math.max(zoneDistancePct, 0),
-                        }}
-                        pullback={{
-                          depthIntoPrevPct: pullback?.depthIntoPrevPct ?? null,
-                          bucket: pullback?.bucket ?? null,
-                          scenario: pullback?.scenario ?? null,
-                          typicalMeanPct: pullback?.typicalMeanPct ?? null,
-                          typicalMedianPct: pullback?.typicalMedianPct ?? null,
-                          sampleCount: pullback?.sampleCount ?? 0,
-                          lookbackDays: pullback?.lookbackDays ?? 0,
-                        }}
-                        sweetspotState={sweetspotState}
-                        fallbackClose={{
-                          price: symbolResult.lastClose ?? 0,
-                          timeframeLabel: "Daily",
-                        }}
-                        priceFormatter={priceFormatter}
-                        candidateDiagnostics={symbolResult.candidateDiagnostics}
-                        defaultCollapsed={cardDensity === "compact"}
-                      >
-                        {tradesSection}
-                      </SymbolCard>
-                    );
-                  })}
+                                </thead>
+                                <tbody>
+                                  {trades.map((t: TradeCandidate, idx: number) => (
+                                    <tr
+                                      key={idx}
+                                      className="border-b border-slate-700 bg-slate-900 text-slate-50 hover:bg-slate-800"
+                                    >
+                                      <td className="px-2 py-1.5 font-semibold">{t.model}</td>
+                                      <td className="px-2 py-1.5 font-semibold">
+                                        <span className="inline-flex items-center rounded-full border border-slate-700 px-2 py-0.5 text-[11px] font-semibold uppercase tracking-wide">
+                                          {(t.placement ?? "MARKET").replace("_", " ")}
+                                        </span>
+                                      </td>
+                                      <td className="px-2 py-1.5 font-semibold">{t.direction}</td>
+                                      <td className="px-2 py-1.5 text-right font-semibold">
+                                        {priceFormatter(t.entry)}
+                                      </td>
+                                      <td className="px-2 py-1.5 text-right font-semibold">
+                                        {priceFormatter(t.stop)}
+                                        <LevelSource
+                                          level={t.stopLevel}
+                                          fallback={
+                                            t.stopType === "PD"
+                                              ? `Previous day ${t.direction === "Long" ? "low" : "high"}`
+                                              : undefined
+                                          }
+                                        />
+                                      </td>
+                                      <td className="px-2 py-1.5 text-right font-semibold">
+                                        {priceFormatter(t.tp1)}
+                                        <LevelSource level={t.targetLevel} />
+                                      </td>
+                                      <td className="px-2 py-1.5 text-right font-semibold">
+                                        {t.rr?.toFixed(2) ?? "-"}
+                                      </td>
+                                      <td className="px-2 py-1.5 font-semibold">{t.stopType ?? "-"}</td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            </div>
+                          )}
+                        </section>
+                      );
+
+                      return (
+                        <SymbolCard
+                          key={cardKey}
+                          symbol={symbol}
+                          atr20={symbolResult.atr20 ?? 0}
+                          macroTrend={mapTrendDirection(macroTrend)}
+                          macroTrendDiagnostics={symbolResult.macroTrendDiagnostics}
+                          trendDay={mapTrendDirection(trendDay)}
+                          alignment={mapTrendAlignment(alignment)}
+                          location={mapLocationBucket(location)}
+                          candidateStatus={candidateStatus}
+                          livePrice={livePriceValue}
+                          livePriceSource={liveSource}
+                          closeMode={manualCloses[symbol]?.enabled ? "manual" : "auto"}
+                          nearestZone={{
+                            label: zoneLabel,
+                            distancePoints: zoneDistancePoints,
+                            distancePercent: Math.max(zoneDistancePct, 0),
+                            score: nearestZone?.score,
+                            scoreBreakdown: nearestZone?.scoreBreakdown,
+                          }}
+                          pullback={{
+                            depthIntoPrevPct: pullback?.depthIntoPrevPct ?? null,
+                            bucket: pullback?.bucket ?? null,
+                            scenario: pullback?.scenario ?? null,
+                            typicalMeanPct: pullback?.typicalMeanPct ?? null,
+                            typicalMedianPct: pullback?.typicalMedianPct ?? null,
+                            sampleCount: pullback?.sampleCount ?? 0,
+                            lookbackDays: pullback?.lookbackDays ?? 0,
+                          }}
+                          sweetspotState={sweetspotState}
+                          fallbackClose={
+                            symbolResult.partialDailyBar
+                              ? {
+                                  price: symbolResult.partialDailyBar.close,
+                                  timeframeLabel: `H1 ${symbolResult.partialDailyBar.lastHour.slice(11)} · ${symbolResult.partialDailyBar.hourlyBars}h into the session`,
+                                }
+                              : {
+                                  price: symbolResult.lastClose ?? 0,
+                                  timeframeLabel: timeframe === "D1" ? "Daily" : timeframe,
+                                }
+                          }
+                          priceFormatter={priceFormatter}
+                          candidateDiagnostics={symbolResult.candidateDiagnostics}
+                          dataSource={symbolResult.dataSource}
+                          timeframe={timeframe}
+                          dailyStructure={symbolResult.dailyStructure}
+                          news={symbolResult.news}
+                          sessionContext={symbolResult.sessionContext}
+                          defaultCollapsed={cardDensity === "compact"}
+                        >
+                          {tradesSection}
+                        </SymbolCard>
+                      );
+                    }),
+                  )}
                 </section>
               )}
             </>
@@ -897,6 +1390,48 @@ export default function TradingDashboard() {
                     </Button>
                   </div>
 
+                  {latestScan.openRisk && (
+                    <div
+                      className={cn(
+                        "rounded-lg border px-4 py-2 text-xs",
+                        latestScan.openRisk.exceeded
+                          ? "border-red-700 bg-red-900/40 text-red-100"
+                          : "border-slate-800 bg-slate-900/40 text-slate-300",
+                      )}
+                    >
+                      {latestScan.openRisk.exceeded && (
+                        <span className="font-semibold">
+                          Open risk above the cap.{" "}
+                        </span>
+                      )}
+                      Taking every VALID candidate risks{" "}
+                      {formatMoney(
+                        latestScan.openRisk.riskAmount,
+                        latestScan.openRisk.currency,
+                      )}{" "}
+                      ({latestScan.openRisk.riskPercent.toFixed(2)}% of the
+                      balance; cap {latestScan.openRisk.capPercent}%).
+                      {latestScan.openRisk.unsized.length > 0 && (
+                        <>
+                          {" "}
+                          Not sized (no conversion rate to{" "}
+                          {latestScan.openRisk.currency}):{" "}
+                          {latestScan.openRisk.unsized.join(", ")}.
+                        </>
+                      )}
+                    </div>
+                  )}
+
+                  {latestScan.exposure && (
+                    <ExposurePanel exposure={latestScan.exposure} />
+                  )}
+
+                  <OrderExportBar
+                    selection={exportSelection}
+                    serverUtcOffset={scanSettings.serverUtcOffset}
+                    onClear={() => setExportKeys(new Set())}
+                  />
+
                   <div
                     className={`rounded-xl border border-slate-800 bg-slate-900/40 px-3 py-3 overflow-x-auto ${
                       loading ? "pointer-events-none opacity-50" : ""
@@ -974,6 +1509,18 @@ export default function TradingDashboard() {
                               )}
                             </button>
                           </th>
+                          <th className="px-2 py-2 text-left font-semibold">
+                            Targets
+                          </th>
+                          <th className="px-2 py-2 text-right font-semibold">
+                            Lots
+                          </th>
+                          <th className="px-2 py-2 text-right font-semibold">
+                            Risk
+                          </th>
+                          <th className="px-2 py-2 text-right font-semibold">
+                            Reward
+                          </th>
                           <th className="px-2 py-2 text-left font-semibold">
                             Stop Type
                           </th>
@@ -1016,6 +1563,7 @@ export default function TradingDashboard() {
                               )}
                             </button>
                           </th>
+                          <th className="px-2 py-2" />
                         </tr>
                       </thead>
                       <tbody>
@@ -1043,13 +1591,85 @@ export default function TradingDashboard() {
                             </td>
                             <td className="px-2 py-1.5 text-right font-semibold">
                               {formatPrice(row.symbol, row.trade.stop)}
+                              <LevelSource
+                                level={row.trade.stopLevel}
+                                fallback={
+                                  row.trade.stopType === "PD"
+                                    ? `Previous day ${row.trade.direction === "Long" ? "low" : "high"}`
+                                    : undefined
+                                }
+                              />
                             </td>
                             <td className="px-2 py-1.5 text-right font-semibold">
                               {formatPrice(row.symbol, row.trade.tp1)}
+                              <LevelSource level={row.trade.targetLevel} />
                             </td>
                             <td className="px-2 py-1.5 text-right font-semibold">
                               {row.trade.rr?.toFixed(2) ?? "-"}
                             </td>
+                            <td className="px-2 py-1.5 text-[11px]">
+                              {row.trade.exitPlan ? (
+                                <div className="space-y-0.5">
+                                  {row.trade.exitPlan.targets.map((target) => (
+                                    <div
+                                      key={target.label}
+                                      className="whitespace-nowrap"
+                                      title={
+                                        target.source === "zone"
+                                          ? "Opposing zone edge"
+                                          : "Prior daily high/low"
+                                      }
+                                    >
+                                      <span className="font-semibold">
+                                        {target.label}
+                                      </span>{" "}
+                                      {formatPrice(row.symbol, target.price)} ·{" "}
+                                      {target.rr.toFixed(2)}R ·{" "}
+                                      {target.exitPercent}%
+                                    </div>
+                                  ))}
+                                  <div className="whitespace-nowrap text-slate-400">
+                                    Blended {row.trade.exitPlan.blendedRr.toFixed(2)}R
+                                    {row.trade.exitPlan.breakEvenAfter &&
+                                      ` · BE after ${row.trade.exitPlan.breakEvenAfter}`}
+                                  </div>
+                                </div>
+                              ) : (
+                                "-"
+                              )}
+                            </td>
+                            <td
+                              className={cn(
+                                "px-2 py-1.5 text-right font-semibold",
+                                row.trade.sizing?.belowMinLot && "text-amber-300",
+                              )}
+                              title={
+                                row.trade.sizing?.belowMinLot
+                                  ? "The minimum lot would risk more than the per-trade budget"
+                                  : undefined
+                              }
+                            >
+                              {row.trade.sizing
+                                ? row.trade.sizing.lots.toFixed(2)
+                                : "-"}
+                            </td>
+                            <td className="px-2 py-1.5 text-right font-semibold">
+                              {formatMoney(
+                                row.trade.sizing?.riskAmount,
+                                row.trade.sizing?.currency,
+                              )}
+                              {row.trade.sizing && (
+                                <span className="ml-1 text-[11px] font-normal text-slate-400">
+                                  {row.trade.sizing.riskPercent.toFixed(2)}%
+                                </span>
+                              )}
+                            </td>
+                            <td className="px-2 py-1.5 text-right font-semibold">
+                              {formatMoney(
+                                row.trade.sizing?.rewardAmount,
+                                row.trade.sizing?.currency,
+                              )}
+                            </td>
                             <td className="px-2 py-1.5 font-semibold">
                               {row.trade.stopType ?? "-"}
                             </td>
@@ -1061,6 +1681,47 @@ export default function TradingDashboard() {
                             </td>
                             <td className="px-2 py-1.5 font-semibold">
                               {row.trade.status ?? "-"}
+                              {row.trade.newsEvent && (
+                                <span
+                                  className="block text-[10px] font-normal text-amber-300"
+                                  title={`${row.trade.newsEvent.currency} ${row.trade.newsEvent.title} at ${row.trade.newsEvent.time}`}
+                                >
+                                  News: {row.trade.newsEvent.currency}{" "}
+                                  {row.trade.newsEvent.title}
+                                </span>
+                              )}
+                              {row.trade.offSession && (
+                                <span className="block text-[10px] font-normal text-amber-300">
+                                  Outside allowed sessions
+                                </span>
+                              )}
+                              {row.trade.correlatedWith && (
+                                <span className="block text-[10px] font-normal text-amber-300">
+                                  Correlated with{" "}
+                                  {row.trade.correlatedWith.symbol}{" "}
+                                  {row.trade.correlatedWith.direction} (
+                                  {row.trade.correlatedWith.correlation.toFixed(2)})
+                                </span>
+                              )}
+                            </td>
+                            <td className="px-2 py-1.5 text-right whitespace-nowrap">
+                              <Checkbox
+                                className="mr-1 align-middle"
+                                checked={exportKeys.has(candidateKey(row))}
+                                onCheckedChange={(checked) =>
+                                  toggleExport(candidateKey(row), checked === true)
+                                }
+                                aria-label={`Export ${row.symbol} ${row.trade.model} ${row.trade.direction}`}
+                              />
+                              <Button
+                                type="button"
+                                size="sm"
+                                variant="ghost"
+                                className="h-7 text-xs"
+                                onClick={() => addToJournal(row)}
+                              >
+                                Journal
+                              </Button>
                             </td>
                           </tr>
                         ))}
@@ -1072,84 +1733,257 @@ export default function TradingDashboard() {
             </section>
           )}
 
-          {/* SETTINGS VIEW */}
-          {activeView === "settings" && (
-            <section className="space-y-4 md:space-y-6">
-              <div className="space-y-1">
-                <h2 className="text-lg font-semibold">Settings</h2>
-                <p className="text-xs md:text-sm text-muted-foreground">
-                  Configure scan inputs before sending them to the engine.
-                  Adjust symbols, trade-quality filters, and data windows.
+          {/* HISTORY VIEW */}
+          {activeView === "history" && (
+            <section className="space-y-3">
+              <div>
+                <h2 className="text-lg font-semibold">Scan history</h2>
+                <p className="text-xs md:text-sm text-slate-400">
+                  Every scan is stored with its options and candidates. Open
+                  a run to see what the scanner said, or compare two runs.
                 </p>
               </div>
 
-              <div className="grid gap-4 md:grid-cols-2">
-                <Card className="border border-border bg-card shadow-sm">
-                  <CardHeader className="pb-3">
-                    <CardTitle className="text-base">Symbols</CardTitle>
-                    <p className="text-xs text-muted-foreground">
-                      Toggle which pairs are included in the next scan.
-                      Disabled symbols will be skipped in the request
-                      payload.
-                    </p>
-                  </CardHeader>
-                  <CardContent className="space-y-3">
-                    <div className="grid gap-3 sm:grid-cols-2">
-                      {symbolsList.map((symbol) => (
-                        <label
-                          key={`symbol-toggle-${symbol}`}
-                          className="flex items-center justify-between rounded-lg border border-border bg-muted/60 px-3 py-2 text-sm"
-                        >
-                          <div className="space-y-0.5">
-                            <div className="font-semibold">{symbol}</div>
-                            <p className="text-[11px] text-muted-foreground">
-                              Include {symbol} in the scan payload.
-                            </p>
-                          </div>
-                          <Switch
-                            checked={scanSettings.symbols[symbol]}
-                            onCheckedChange={(checked) =>
-                              setScanSettings((prev) => ({
-                                ...prev,
-                                symbols: {
-                                  ...prev.symbols,
-                                  [symbol]: checked,
-                                },
-                              }))
-                            }
-                            aria-label={`Toggle ${symbol}`}
-                          />
-                        </label>
-                      ))}
-                    </div>
-                    <p className="text-[11px] text-muted-foreground">
-                      The scan request will only include enabled symbols,
-                      matching the engine&apos;s expected symbol list.
-                    </p>
-                  </CardContent>
-                </Card>
+              <ScanHistoryPanel priceFormatter={formatPrice} />
+            </section>
+          )}
 
-                <Card className="border border-border bg-card shadow-sm">
-                  <CardHeader className="pb-3">
-                    <CardTitle className="text-base">Trade Filters</CardTitle>
-                    <p className="text-xs text-muted-foreground">
-                      Control minimum reward-to-risk and cap spreads
-                      before trades are surfaced.
-                    </p>
-                  </CardHeader>
-                  <CardContent className="space-y-4">
-                    <div className="space-y-2">
-                      <div className="flex items-center justify-between text-sm font-semibold">
-                        <span>Minimum R:R</span>
-                        <span className="text-emerald-300">
-                          {scanSettings.minRr.toFixed(1)}x
-                        </span>
-                      </div>
-                      <Slider
-                        value={[scanSettings.minRr]}
-                        min={1}
-                        max={5}
-                        step={0.1}
+          {/* ZONES VIEW */}
+          {activeView === "zones" && (
+            <section className="space-y-3">
+              <div>
+                <h2 className="text-lg font-semibold">Zones</h2>
+                <p className="text-xs md:text-sm text-slate-400">
+                  O/C zones followed across scans of the latest session: when
+                  they formed, how often price came back, and whether they
+                  broke or flipped to the opposite role.
+                </p>
+              </div>
+
+              <ZonesPanel symbols={symbolsList} priceFormatter={formatPrice} />
+            </section>
+          )}
+
+          {/* BACKTEST VIEW */}
+          {activeView === "backtest" && (
+            <section className="space-y-3">
+              <div>
+                <h2 className="text-lg font-semibold">Backtest</h2>
+                <p className="text-xs md:text-sm text-slate-400">
+                  Historical performance of each model, replayed bar by bar
+                  over the daily history with the current Settings.
+                </p>
+              </div>
+
+              <BacktestPanel
+                symbols={symbolsList}
+                priceFormatter={formatPrice}
+                filters={replayFilters}
+                params={scanPayload.params}
+              />
+            </section>
+          )}
+
+          {/* ANALYTICS VIEW */}
+          {activeView === "analytics" && (
+            <section className="space-y-3">
+              <div>
+                <h2 className="text-lg font-semibold">Analytics</h2>
+                <p className="text-xs md:text-sm text-slate-400">
+                  How past candidates played out, grouped by the pullback
+                  scenario, model, location, zone status and sweet spot they
+                  were scanned in.
+                </p>
+              </div>
+
+              <AnalyticsPanel
+                symbols={symbolsList}
+                filters={replayFilters}
+                params={scanPayload.params}
+              />
+            </section>
+          )}
+
+          {/* OPTIMIZE VIEW */}
+          {activeView === "optimize" && (
+            <section className="space-y-3">
+              <div>
+                <h2 className="text-lg font-semibold">Optimize</h2>
+                <p className="text-xs md:text-sm text-slate-400">
+                  Sweep scan parameters and filters over history, ranked by
+                  how well they hold up across walk-forward segments.
+                </p>
+              </div>
+
+              <OptimizationPanel
+                symbols={symbolsList}
+                filters={replayFilters}
+                params={scanPayload.params}
+              />
+            </section>
+          )}
+
+          {/* JOURNAL VIEW */}
+          {activeView === "journal" && (
+            <section className="space-y-3">
+              <div>
+                <h2 className="text-lg font-semibold">Journal</h2>
+                <p className="text-xs md:text-sm text-slate-400">
+                  Trades taken from scanner candidates, with the context they
+                  were proposed in. Record fills and exits to track the
+                  outcome in R.
+                </p>
+              </div>
+
+              <JournalPanel
+                priceFormatter={formatPrice}
+                refreshKey={journalRefreshKey}
+              />
+            </section>
+          )}
+
+          {/* PAPER TRADING VIEW */}
+          {activeView === "paper" && (
+            <section className="space-y-3">
+              <div>
+                <h2 className="text-lg font-semibold">Paper trading</h2>
+                <p className="text-xs md:text-sm text-slate-400">
+                  A simulated broker fed by the scanner: each broker cycle
+                  places the VALID candidates of a default scan as market or
+                  limit orders, filled against live quotes and new daily bars
+                  at their stop or target.
+                </p>
+              </div>
+
+              <PaperTradingPanel
+                priceFormatter={formatPrice}
+                refreshKey={latestScan?.runId ?? latestScan?.date}
+              />
+            </section>
+          )}
+
+          {/* ALERTS VIEW */}
+          {activeView === "alerts" && (
+            <section className="space-y-3">
+              <div>
+                <h2 className="text-lg font-semibold">Alerts</h2>
+                <p className="text-xs md:text-sm text-slate-400">
+                  Rules are checked server-side on a schedule, so they fire
+                  even when this page is closed. New in-app alerts show up
+                  here and as notifications.
+                </p>
+              </div>
+
+              <AlertsPanel symbols={symbolsList} />
+            </section>
+          )}
+
+          {/* SETTINGS VIEW */}
+          {activeView === "settings" && (
+            <section className="space-y-4 md:space-y-6">
+              <div className="space-y-1">
+                <h2 className="text-lg font-semibold">Settings</h2>
+                <p className="text-xs md:text-sm text-muted-foreground">
+                  Configure scan inputs before sending them to the engine.
+                  Adjust symbols, trade-quality filters, and data windows.
+                </p>
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <Card className="border border-border bg-card shadow-sm">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-base">Symbols</CardTitle>
+                    <p className="text-xs text-muted-foreground">
+                      Toggle which pairs are included in the next scan.
+                      Disabled symbols will be skipped in the request
+                      payload.
+                    </p>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div className="grid gap-3 sm:grid-cols-2">
+                      {symbolsList.map((symbol) => (
+                        <div
+                          key={`symbol-toggle-${symbol}`}
+                          className="flex items-center justify-between gap-2 rounded-lg border border-border bg-muted/60 px-3 py-2 text-sm"
+                        >
+                          <label htmlFor={`symbol-toggle-${symbol}`} className="space-y-0.5">
+                            <div className="font-semibold">{symbol}</div>
+                            <p className="text-[11px] text-muted-foreground">
+                              Include {symbol} in the scan payload.
+                            </p>
+                          </label>
+                          <div className="flex items-center gap-2">
+                            <ToggleGroup
+                              type="multiple"
+                              value={scanSettings.timeframes[symbol] ?? ["D1"]}
+                              onValueChange={(value) =>
+                                setScanSettings((prev) => ({
+                                  ...prev,
+                                  timeframes: {
+                                    ...prev.timeframes,
+                                    // TIMEFRAMES order keeps D1 primary when it is selected
+                                    [symbol]: value.length
+                                      ? TIMEFRAMES.filter((tf) => value.includes(tf))
+                                      : ["D1"],
+                                  },
+                                }))
+                              }
+                              variant="outline"
+                              size="sm"
+                              aria-label={`${symbol} timeframes`}
+                            >
+                              {TIMEFRAMES.map((tf) => (
+                                <ToggleGroupItem key={tf} value={tf} className="text-[11px] px-2">
+                                  {tf}
+                                </ToggleGroupItem>
+                              ))}
+                            </ToggleGroup>
+                            <Switch
+                              id={`symbol-toggle-${symbol}`}
+                              checked={scanSettings.symbols[symbol]}
+                              onCheckedChange={(checked) =>
+                                setScanSettings((prev) => ({
+                                  ...prev,
+                                  symbols: {
+                                    ...prev.symbols,
+                                    [symbol]: checked,
+                                  },
+                                }))
+                              }
+                              aria-label={`Toggle ${symbol}`}
+                            />
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                    <p className="text-[11px] text-muted-foreground">
+                      The scan request will only include enabled symbols,
+                      matching the engine&apos;s expected symbol list.
+                    </p>
+                  </CardContent>
+                </Card>
+
+                <Card className="border border-border bg-card shadow-sm">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-base">Trade Filters</CardTitle>
+                    <p className="text-xs text-muted-foreground">
+                      Control minimum reward-to-risk and cap spreads
+                      before trades are surfaced.
+                    </p>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between text-sm font-semibold">
+                        <span>Minimum R:R</span>
+                        <span className="text-emerald-300">
+                          {scanSettings.minRr.toFixed(1)}x
+                        </span>
+                      </div>
+                      <Slider
+                        value={[scanSettings.minRr]}
+                        min={1}
+                        max={5}
+                        step={0.1}
                         onValueChange={(value) =>
                           setScanSettings((prev) => ({
                             ...prev,
@@ -1186,10 +2020,190 @@ export default function TradingDashboard() {
                         wider spreads will be filtered out.
                       </p>
                     </div>
+
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between text-sm font-semibold">
+                        <Label htmlFor="prefer-fresh-zones">Prefer fresh zones</Label>
+                        <Switch
+                          id="prefer-fresh-zones"
+                          checked={scanSettings.preferFreshZones}
+                          onCheckedChange={(checked) =>
+                            setScanSettings((prev) => ({
+                              ...prev,
+                              preferFreshZones: checked,
+                            }))
+                          }
+                        />
+                      </div>
+                      <p className="text-[11px] text-muted-foreground">
+                        Enter only from zones price has not revisited yet,
+                        falling back to tested ones; broken zones are skipped.
+                      </p>
+                    </div>
+
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between text-sm font-semibold">
+                        <span>High-impact news</span>
+                        <ToggleGroup
+                          type="single"
+                          variant="outline"
+                          size="sm"
+                          aria-label="High-impact news handling"
+                          value={scanSettings.newsMode}
+                          onValueChange={(value) => {
+                            if (!value) return;
+                            setScanSettings((prev) => ({
+                              ...prev,
+                              newsMode: value as NewsFilterMode,
+                            }));
+                          }}
+                        >
+                          <ToggleGroupItem value="block" className="text-[11px] px-3">
+                            Block
+                          </ToggleGroupItem>
+                          <ToggleGroupItem value="downgrade" className="text-[11px] px-3">
+                            Flag
+                          </ToggleGroupItem>
+                          <ToggleGroupItem value="off" className="text-[11px] px-3">
+                            Off
+                          </ToggleGroupItem>
+                        </ToggleGroup>
+                      </div>
+                      <div className="flex items-center justify-between text-xs">
+                        <span className="text-muted-foreground">Minutes before / after</span>
+                        <div className="flex items-center gap-2">
+                          <Input
+                            type="number"
+                            inputMode="numeric"
+                            min={0}
+                            max={720}
+                            disabled={scanSettings.newsMode === "off"}
+                            className="w-16 h-9 border-border bg-background text-right"
+                            value={scanSettings.newsMinutesBefore}
+                            onChange={(e) =>
+                              setScanSettings((prev) => ({
+                                ...prev,
+                                newsMinutesBefore: Math.max(0, Math.round(Number(e.target.value) || 0)),
+                              }))
+                            }
+                            aria-label="Minutes before a release"
+                          />
+                          <Input
+                            type="number"
+                            inputMode="numeric"
+                            min={0}
+                            max={720}
+                            disabled={scanSettings.newsMode === "off"}
+                            className="w-16 h-9 border-border bg-background text-right"
+                            value={scanSettings.newsMinutesAfter}
+                            onChange={(e) =>
+                              setScanSettings((prev) => ({
+                                ...prev,
+                                newsMinutesAfter: Math.max(0, Math.round(Number(e.target.value) || 0)),
+                              }))
+                            }
+                            aria-label="Minutes after a release"
+                          />
+                        </div>
+                      </div>
+                      <p className="text-[11px] text-muted-foreground">
+                        Around a high-impact release for a symbol&apos;s
+                        currencies, candidates are filtered (Block) or kept
+                        with a news flag (Flag). Latest-session scans only.
+                      </p>
+                    </div>
+
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between text-sm font-semibold">
+                        <span>Correlated risk</span>
+                        <ToggleGroup
+                          type="single"
+                          variant="outline"
+                          size="sm"
+                          aria-label="Correlated risk handling"
+                          value={scanSettings.correlationMode}
+                          onValueChange={(value) => {
+                            if (!value) return;
+                            setScanSettings((prev) => ({
+                              ...prev,
+                              correlationMode: value as CorrelationMode,
+                            }));
+                          }}
+                        >
+                          <ToggleGroupItem value="filter" className="text-[11px] px-3">
+                            Filter
+                          </ToggleGroupItem>
+                          <ToggleGroupItem value="flag" className="text-[11px] px-3">
+                            Flag
+                          </ToggleGroupItem>
+                          <ToggleGroupItem value="off" className="text-[11px] px-3">
+                            Off
+                          </ToggleGroupItem>
+                        </ToggleGroup>
+                      </div>
+                      <div className="flex items-center justify-between text-xs">
+                        <span className="text-muted-foreground">Max correlation</span>
+                        <Input
+                          type="number"
+                          inputMode="decimal"
+                          step="0.05"
+                          min={0.05}
+                          max={1}
+                          disabled={scanSettings.correlationMode === "off"}
+                          className="w-20 h-9 border-border bg-background text-right"
+                          value={scanSettings.maxCorrelation}
+                          onChange={(e) =>
+                            setScanSettings((prev) => ({
+                              ...prev,
+                              maxCorrelation: Math.min(1, Math.max(0.05, Number(e.target.value) || 0.05)),
+                            }))
+                          }
+                          aria-label="Max correlation"
+                        />
+                      </div>
+                      <p className="text-[11px] text-muted-foreground">
+                        From the best R:R down, a candidate whose daily returns
+                        move with an earlier one on another symbol (same
+                        direction, or opposite for negative correlation) is
+                        filtered or flagged.
+                      </p>
+                    </div>
                   </CardContent>
                 </Card>
               </div>
 
+              <Card className="border border-border bg-card shadow-sm">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-base">Account & risk</CardTitle>
+                  <p className="text-xs text-muted-foreground">
+                    Candidates are sized so that each risks this share of the
+                    balance at its stop. Signals warns when all VALID
+                    candidates together would exceed the open-risk cap.
+                  </p>
+                </CardHeader>
+                <CardContent>
+                  <AccountPanel />
+                </CardContent>
+              </Card>
+
+              <Card className="border border-border bg-card shadow-sm">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-base">Instruments</CardTitle>
+                  <p className="text-xs text-muted-foreground">
+                    Symbol universe and per-instrument metadata used by the
+                    engine. Add an instrument (e.g. USDJPY, NAS100, BTCUSD)
+                    and drop its broker export into data/, import it into the
+                    database, or point it at a live ticker.
+                  </p>
+                </CardHeader>
+                <CardContent>
+                  <InstrumentsPanel
+                    instruments={instruments}
+                    onChange={setInstruments}
+                  />
+                </CardContent>
+              </Card>
+
               <div className="grid gap-4 md:grid-cols-2">
                 <Card className="border border-border bg-card shadow-sm">
                   <CardHeader className="pb-3">
@@ -1258,6 +2272,421 @@ export default function TradingDashboard() {
                         sweeps, and structural reference points.
                       </p>
                     </div>
+
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between text-sm font-semibold">
+                        <Label htmlFor="as-of-date">As-of date</Label>
+                        <div className="flex items-center gap-2 text-xs">
+                          <Input
+                            id="as-of-date"
+                            type="date"
+                            className="w-40 h-9 border-border bg-background"
+                            value={scanSettings.asOfDate}
+                            onChange={(e) =>
+                              setScanSettings((prev) => ({
+                                ...prev,
+                                asOfDate: e.target.value,
+                              }))
+                            }
+                            aria-label="As-of date"
+                          />
+                          {scanSettings.asOfDate && (
+                            <Button
+                              type="button"
+                              size="sm"
+                              variant="ghost"
+                              className="h-9 text-xs"
+                              onClick={() =>
+                                setScanSettings((prev) => ({
+                                  ...prev,
+                                  asOfDate: "",
+                                }))
+                              }
+                            >
+                              Latest
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                      <p className="text-[11px] text-muted-foreground">
+                        Replay the scan as it would have looked at that
+                        session&apos;s close. Later bars and live quotes are
+                        ignored; leave empty for the latest data.
+                      </p>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <Card className="border border-border bg-card shadow-sm">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-base">Macro trend</CardTitle>
+                    <p className="text-xs text-muted-foreground">
+                      How the Bull/Bear/Range regime on each card is
+                      classified.
+                    </p>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between text-sm font-semibold">
+                        <Label htmlFor="macro-classifier">Classifier</Label>
+                        <select
+                          id="macro-classifier"
+                          value={scanSettings.macroClassifier}
+                          onChange={(e) =>
+                            setScanSettings((prev) => ({
+                              ...prev,
+                              macroClassifier: e.target.value as MacroTrendClassifier,
+                            }))
+                          }
+                          className="h-9 rounded-md border border-border bg-background px-2 text-xs"
+                        >
+                          {MACRO_TREND_CLASSIFIERS.map((classifier) => (
+                            <option key={classifier} value={classifier}>
+                              {MACRO_TREND_CLASSIFIER_LABELS[classifier]}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <p className="text-[11px] text-muted-foreground">
+                        Breakout closes count trend days; MA slope, swing
+                        structure and ADX read the same window and are scored
+                        -1..1 against the thresholds below.
+                      </p>
+                    </div>
+
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between text-sm font-semibold">
+                        <Label htmlFor="trend-lookback">Trend window</Label>
+                        <div className="flex items-center gap-2 text-xs">
+                          <Input
+                            id="trend-lookback"
+                            type="number"
+                            inputMode="numeric"
+                            className="w-20 h-9 border-border bg-background text-right"
+                            value={scanSettings.trendLookback}
+                            onChange={(e) =>
+                              setScanSettings((prev) => ({
+                                ...prev,
+                                trendLookback:
+                                  Number(e.target.value) || prev.trendLookback,
+                              }))
+                            }
+                            aria-label="Trend window"
+                          />
+                          <span className="text-muted-foreground">days</span>
+                        </div>
+                      </div>
+                      <p className="text-[11px] text-muted-foreground">
+                        Completed sessions the classifier reads to decide the
+                        macro trend.
+                      </p>
+                    </div>
+
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between text-sm font-semibold">
+                        <span>Bull / Bear score</span>
+                        <div className="flex items-center gap-2 text-xs">
+                          <Input
+                            type="number"
+                            inputMode="decimal"
+                            step="0.05"
+                            min={0.05}
+                            max={1}
+                            className="w-20 h-9 border-border bg-background text-right"
+                            value={scanSettings.macroBullThreshold}
+                            onChange={(e) =>
+                              setScanSettings((prev) => ({
+                                ...prev,
+                                macroBullThreshold:
+                                  Number(e.target.value) || prev.macroBullThreshold,
+                              }))
+                            }
+                            aria-label="Bull threshold"
+                          />
+                          <Input
+                            type="number"
+                            inputMode="decimal"
+                            step="0.05"
+                            min={-1}
+                            max={-0.05}
+                            className="w-20 h-9 border-border bg-background text-right"
+                            value={scanSettings.macroBearThreshold}
+                            onChange={(e) =>
+                              setScanSettings((prev) => ({
+                                ...prev,
+                                macroBearThreshold:
+                                  Number(e.target.value) || prev.macroBearThreshold,
+                              }))
+                            }
+                            aria-label="Bear threshold"
+                          />
+                        </div>
+                      </div>
+                      <p className="text-[11px] text-muted-foreground">
+                        For breakout closes the score is bull minus bear days
+                        over the count below; Bull at or above the first value,
+                        Bear at or below the second.
+                      </p>
+                    </div>
+
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between text-sm font-semibold">
+                        <span>Count against</span>
+                        <ToggleGroup
+                          type="single"
+                          variant="outline"
+                          size="sm"
+                          aria-label="Count macro score against"
+                          value={scanSettings.macroDominance}
+                          onValueChange={(value) => {
+                            if (!value) return;
+                            setScanSettings((prev) => ({
+                              ...prev,
+                              macroDominance: value as MacroDominanceRule,
+                            }));
+                          }}
+                        >
+                          <ToggleGroupItem value="window" className="text-[11px] px-3">
+                            All sessions
+                          </ToggleGroupItem>
+                          <ToggleGroupItem value="trend_days" className="text-[11px] px-3">
+                            Trend days
+                          </ToggleGroupItem>
+                        </ToggleGroup>
+                      </div>
+                      <p className="text-[11px] text-muted-foreground">
+                        With trend days only, quiet inside sessions no longer
+                        dilute the lead of the dominant side.
+                      </p>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <Card className="border border-border bg-card shadow-sm md:col-span-2">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-base">Liquidity</CardTitle>
+                    <p className="text-xs text-muted-foreground">
+                      Highs and lows that stops and targets are placed
+                      against.
+                    </p>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between text-sm font-semibold">
+                        <span>Levels</span>
+                        <ToggleGroup
+                          type="single"
+                          variant="outline"
+                          size="sm"
+                          aria-label="Liquidity levels"
+                          value={scanSettings.liquidityMode}
+                          onValueChange={(value) => {
+                            if (!value) return;
+                            setScanSettings((prev) => ({
+                              ...prev,
+                              liquidityMode: value as LiquidityMode,
+                            }));
+                          }}
+                        >
+                          <ToggleGroupItem value="raw" className="text-[11px] px-3">
+                            Every bar
+                          </ToggleGroupItem>
+                          <ToggleGroupItem value="swing" className="text-[11px] px-3">
+                            Swing points
+                          </ToggleGroupItem>
+                        </ToggleGroup>
+                      </div>
+                      <p className="text-[11px] text-muted-foreground">
+                        Swing points skip inside-bar highs and lows, merge
+                        equal highs/lows into one pool and drop levels that
+                        were already swept.
+                      </p>
+                    </div>
+
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between text-sm font-semibold">
+                        <span>Swing strength</span>
+                        <div className="flex items-center gap-2 text-xs">
+                          <Input
+                            type="number"
+                            inputMode="numeric"
+                            min={1}
+                            max={10}
+                            disabled={scanSettings.liquidityMode !== "swing"}
+                            className="w-16 h-9 border-border bg-background text-right"
+                            value={scanSettings.swingLeft}
+                            onChange={(e) =>
+                              setScanSettings((prev) => ({
+                                ...prev,
+                                swingLeft: Number(e.target.value) || prev.swingLeft,
+                              }))
+                            }
+                            aria-label="Swing bars left"
+                          />
+                          <Input
+                            type="number"
+                            inputMode="numeric"
+                            min={1}
+                            max={10}
+                            disabled={scanSettings.liquidityMode !== "swing"}
+                            className="w-16 h-9 border-border bg-background text-right"
+                            value={scanSettings.swingRight}
+                            onChange={(e) =>
+                              setScanSettings((prev) => ({
+                                ...prev,
+                                swingRight: Number(e.target.value) || prev.swingRight,
+                              }))
+                            }
+                            aria-label="Swing bars right"
+                          />
+                        </div>
+                      </div>
+                      <p className="text-[11px] text-muted-foreground">
+                        Bars left and right a swing high (low) must exceed.
+                      </p>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <Card className="border border-border bg-card shadow-sm md:col-span-2">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-base">Sessions</CardTitle>
+                    <p className="text-xs text-muted-foreground">
+                      Asia (Tokyo 09:00–18:00), London and New York (08:00–17:00
+                      local), with daylight saving. The trading day closes at
+                      17:00 New York.
+                    </p>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between text-sm font-semibold">
+                        <span>Broker server time</span>
+                        <select
+                          value={scanSettings.serverUtcOffset ?? "ny_close"}
+                          onChange={(e) =>
+                            setScanSettings((prev) => ({
+                              ...prev,
+                              serverUtcOffset:
+                                e.target.value === "ny_close" ? null : Number(e.target.value),
+                            }))
+                          }
+                          className="h-9 rounded-md border border-border bg-background px-2 text-xs"
+                          aria-label="Broker server time"
+                        >
+                          <option value="ny_close">New York close (UTC+2/+3)</option>
+                          {[-5, -4, 0, 1, 2, 3].map((offset) => (
+                            <option key={offset} value={offset}>
+                              UTC{offset >= 0 ? "+" : ""}
+                              {offset}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <p className="text-[11px] text-muted-foreground">
+                        Clock of the H1 exports; bar times are converted to
+                        UTC with it to place them in sessions.
+                      </p>
+                    </div>
+
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between text-sm font-semibold">
+                        <span>Trade only in</span>
+                        <ToggleGroup
+                          type="multiple"
+                          variant="outline"
+                          size="sm"
+                          aria-label="Allowed sessions"
+                          value={scanSettings.sessions}
+                          onValueChange={(value) =>
+                            setScanSettings((prev) => ({
+                              ...prev,
+                              sessions: value as TradingSession[],
+                            }))
+                          }
+                        >
+                          {TRADING_SESSIONS.map((session) => (
+                            <ToggleGroupItem
+                              key={session}
+                              value={session}
+                              className="text-[11px] px-3"
+                            >
+                              {TRADING_SESSION_LABELS[session]}
+                            </ToggleGroupItem>
+                          ))}
+                        </ToggleGroup>
+                      </div>
+                      <p className="text-[11px] text-muted-foreground">
+                        Outside the selected sessions candidates are
+                        filtered. Leave all off to trade at any time; as-of
+                        scans are not filtered.
+                      </p>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <Card className="border border-border bg-card shadow-sm md:col-span-2">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-base">Zone scoring</CardTitle>
+                    <p className="text-xs text-muted-foreground">
+                      Weights of the components that rank O/C zones; the
+                      top five zones by score are kept. Hover the nearest
+                      zone on a card for its breakdown.
+                    </p>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="grid gap-3 sm:grid-cols-3">
+                      {ZONE_SCORE_COMPONENTS.map((component) => (
+                        <label
+                          key={component}
+                          className="flex items-center justify-between gap-2 text-sm font-semibold"
+                        >
+                          <span>{ZONE_SCORE_COMPONENT_LABELS[component]}</span>
+                          <Input
+                            type="number"
+                            inputMode="decimal"
+                            min={0}
+                            max={10}
+                            step={0.1}
+                            className="w-20 h-9 border-border bg-background text-right"
+                            value={scanSettings.zoneWeights[component]}
+                            onChange={(e) => {
+                              const weight = Number(e.target.value);
+                              if (!Number.isFinite(weight) || weight < 0) return;
+                              setScanSettings((prev) => ({
+                                ...prev,
+                                zoneWeights: { ...prev.zoneWeights, [component]: weight },
+                              }));
+                            }}
+                          />
+                        </label>
+                      ))}
+                      <label className="flex items-center justify-between gap-2 text-sm font-semibold">
+                        <span>Half-life</span>
+                        <Input
+                          type="number"
+                          inputMode="numeric"
+                          min={1}
+                          max={250}
+                          className="w-20 h-9 border-border bg-background text-right"
+                          value={scanSettings.zoneRecencyHalfLife}
+                          onChange={(e) =>
+                            setScanSettings((prev) => ({
+                              ...prev,
+                              zoneRecencyHalfLife:
+                                Number(e.target.value) || prev.zoneRecencyHalfLife,
+                            }))
+                          }
+                        />
+                      </label>
+                    </div>
+                    <p className="text-[11px] text-muted-foreground">
+                      Touches count 2 per close and 1 per open inside the zone;
+                      tick volume is relative to the window average; recency
+                      decays touches by half every half-life sessions; wick
+                      rejection adds the wick share of bars that poked in and
+                      closed back out; confluence counts the prior day&apos;s
+                      high and low at the zone.
+                    </p>
                   </CardContent>
                 </Card>
 
@@ -1265,8 +2694,9 @@ export default function TradingDashboard() {
                   <CardHeader className="pb-3">
                     <CardTitle className="text-base">Manual 1h close</CardTitle>
                     <p className="text-xs text-muted-foreground">
-                      Optionally override the live quote per symbol with a
-                      manual 1h close. When enabled, the scan payload will
+                      Today&apos;s bar is built from the H1 exports when they
+                      are available, so this is only needed without them or to
+                      override a quote. When enabled, the scan payload will
                       include the manual value and surface a manual indicator
                       in results.
                     </p>
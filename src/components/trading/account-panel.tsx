@@ -0,0 +1,135 @@
+"use client";
+
+import * as React from "react";
+import type { AccountProfile } from "@/lib/trading/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+type AccountForm = Record<keyof AccountProfile, string>;
+
+const FIELDS: { key: keyof AccountProfile; label: string; hint: string }[] = [
+  { key: "balance", label: "Balance", hint: "e.g. 10000" },
+  { key: "currency", label: "Currency", hint: "e.g. USD" },
+  { key: "riskPercent", label: "Risk per trade %", hint: "e.g. 1" },
+  { key: "maxOpenRiskPercent", label: "Max open risk %", hint: "e.g. 5" },
+];
+
+function toForm(account: AccountProfile): AccountForm {
+  return {
+    balance: String(account.balance),
+    currency: account.currency,
+    riskPercent: String(account.riskPercent),
+    maxOpenRiskPercent: String(account.maxOpenRiskPercent),
+  };
+}
+
+export function AccountPanel() {
+  const [form, setForm] = React.useState<AccountForm | null>(null);
+  const [saving, setSaving] = React.useState(false);
+  const [saved, setSaved] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    fetch("/api/account")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (data?.account) setForm(toForm(data.account));
+      })
+      .catch((err) => console.error("Error loading account profile:", err));
+  }, []);
+
+  async function save() {
+    if (!form) return;
+    setSaving(true);
+    setSaved(false);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/account", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          balance: Number(form.balance),
+          currency: form.currency,
+          riskPercent: Number(form.riskPercent),
+          maxOpenRiskPercent: Number(form.maxOpenRiskPercent),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        const fieldErrors = data?.error?.fieldErrors as
+          | Record<string, string[]>
+          | undefined;
+        setError(
+          fieldErrors
+            ? Object.entries(fieldErrors)
+                .map(([field, messages]) => `${field}: ${messages.join(", ")}`)
+                .join(" · ")
+            : "Could not save the account profile.",
+        );
+        return;
+      }
+      setForm(toForm(data.account));
+      setSaved(true);
+    } catch (err) {
+      console.error("Error saving account profile:", err);
+      setError("Could not save the account profile.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (!form) {
+    return <p className="text-xs text-muted-foreground">Loading account…</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid gap-3 sm:grid-cols-2">
+        {FIELDS.map(({ key, label, hint }) => (
+          <div key={key} className="space-y-1">
+            <Label htmlFor={`account-${key}`} className="text-xs">
+              {label}
+            </Label>
+            <Input
+              id={`account-${key}`}
+              type={key === "currency" ? "text" : "number"}
+              inputMode={key === "currency" ? "text" : "decimal"}
+              step="any"
+              className="h-9 text-right"
+              placeholder={hint}
+              value={form[key]}
+              onChange={(e) => {
+                setSaved(false);
+                setForm((prev) => prev && { ...prev, [key]: e.target.value });
+              }}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Button
+          size="sm"
+          disabled={saving}
+          onClick={save}
+          className="bg-emerald-500 hover:bg-emerald-600 text-slate-950"
+        >
+          {saving ? "Saving…" : "Save account"}
+        </Button>
+        {saved && (
+          <span className="text-[11px] text-muted-foreground">
+            Saved. The next scan sizes candidates with these values.
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-red-700 bg-red-900/40 px-4 py-3 text-sm text-red-100">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,378 @@
+"use client";
+
+import * as React from "react";
+import type { SymbolCode } from "@/lib/trading/types";
+import {
+  ALERT_CHANNELS,
+  ALERT_CONDITIONS,
+  ALERT_CONDITION_VALUES,
+  type AlertChannelKind,
+  type AlertCondition,
+  type AlertRule,
+} from "@/lib/trading/alerts";
+import type { AlertEventRecord } from "@/lib/trading/alert-store";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { cn } from "@/lib/utils";
+
+interface AlertsPanelProps {
+  symbols: readonly SymbolCode[];
+}
+
+const CONDITION_LABELS: Record<AlertCondition, string> = {
+  zone_status: "Nearest zone status",
+  sweetspot_state: "Sweet-spot state",
+  pullback_bucket: "Pullback bucket",
+  model_d_valid: "New VALID Model D candidate",
+};
+
+const CHANNEL_LABELS: Record<AlertChannelKind, string> = {
+  in_app: "In-app",
+  webhook: "Webhook",
+  email: "Email",
+};
+
+function formatTimestamp(value: string): string {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+}
+
+function describeRule(rule: AlertRule): string {
+  return rule.value
+    ? `${CONDITION_LABELS[rule.condition]} = ${rule.value}`
+    : CONDITION_LABELS[rule.condition];
+}
+
+export function AlertsPanel({ symbols }: AlertsPanelProps) {
+  const [rules, setRules] = React.useState<AlertRule[]>([]);
+  const [events, setEvents] = React.useState<AlertEventRecord[]>([]);
+  const [symbol, setSymbol] = React.useState<SymbolCode>(symbols[0] ?? "");
+  const [condition, setCondition] = React.useState<AlertCondition>("zone_status");
+  const [value, setValue] = React.useState<string>(
+    ALERT_CONDITION_VALUES.zone_status[0],
+  );
+  const [channels, setChannels] = React.useState<AlertChannelKind[]>(["in_app"]);
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [lastCheck, setLastCheck] = React.useState<string | null>(null);
+
+  async function load() {
+    try {
+      const [rulesRes, eventsRes] = await Promise.all([
+        fetch("/api/alerts"),
+        fetch("/api/alerts/events?limit=50"),
+      ]);
+      const rulesData = await rulesRes.json();
+      const eventsData = await eventsRes.json();
+      if (!rulesRes.ok || !eventsRes.ok) {
+        setError("Could not load alerts.");
+        return;
+      }
+      setRules(rulesData.rules ?? []);
+      setEvents(eventsData.events ?? []);
+    } catch (err) {
+      console.error("Error loading alerts:", err);
+      setError("Could not load alerts.");
+    }
+  }
+
+  React.useEffect(() => {
+    load();
+  }, []);
+
+  React.useEffect(() => {
+    if (!symbols.includes(symbol) && symbols[0]) setSymbol(symbols[0]);
+  }, [symbols, symbol]);
+
+  function changeCondition(next: AlertCondition) {
+    setCondition(next);
+    setValue(ALERT_CONDITION_VALUES[next][0] ?? "");
+  }
+
+  function toggleChannel(kind: AlertChannelKind, checked: boolean) {
+    setChannels((prev) =>
+      checked ? [...new Set([...prev, kind])] : prev.filter((c) => c !== kind),
+    );
+  }
+
+  async function saveRule(body: Record<string, unknown>) {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/alerts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        const fieldErrors = data?.error?.fieldErrors as
+          | Record<string, string[]>
+          | undefined;
+        setError(
+          fieldErrors
+            ? Object.entries(fieldErrors)
+                .map(([field, messages]) => `${field}: ${messages.join(", ")}`)
+                .join(" · ")
+            : "Could not save the alert rule.",
+        );
+        return;
+      }
+      await load();
+    } catch (err) {
+      console.error("Error saving alert rule:", err);
+      setError("Could not save the alert rule.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function removeRule(rule: AlertRule) {
+    setError(null);
+    try {
+      const res = await fetch(`/api/alerts/${encodeURIComponent(rule.id)}`, {
+        method: "DELETE",
+      });
+      if (!res.ok && res.status !== 404) {
+        setError("Could not remove the alert rule.");
+        return;
+      }
+      await load();
+    } catch (err) {
+      console.error("Error removing alert rule:", err);
+      setError("Could not remove the alert rule.");
+    }
+  }
+
+  async function runNow() {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/alerts/run", { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) {
+        setError("Alert check failed.");
+        return;
+      }
+      setLastCheck(
+        `${data.result.symbols.length} symbol(s) checked, ${data.result.fired.length} new alert(s)`,
+      );
+      await load();
+    } catch (err) {
+      console.error("Error running alert check:", err);
+      setError("Alert check failed.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const values = ALERT_CONDITION_VALUES[condition];
+
+  return (
+    <div className="space-y-4">
+      <Card className="border border-border bg-card shadow-sm">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">New rule</CardTitle>
+          <p className="text-xs text-muted-foreground">
+            The alert scheduler (<code>npm run alerts</code>) re-runs the scan
+            for every symbol with a rule. Each event fires once per rule and
+            session.
+          </p>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-end gap-3">
+          <label className="flex flex-col gap-1 text-xs text-slate-300">
+            <span>Symbol</span>
+            <select
+              value={symbol}
+              onChange={(e) => setSymbol(e.target.value)}
+              className="h-9 rounded-md border border-slate-700 bg-slate-900 px-2 text-xs text-slate-100"
+            >
+              {symbols.map((s) => (
+                <option key={s} value={s}>
+                  {s}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-slate-300">
+            <span>Condition</span>
+            <select
+              value={condition}
+              onChange={(e) => changeCondition(e.target.value as AlertCondition)}
+              className="h-9 rounded-md border border-slate-700 bg-slate-900 px-2 text-xs text-slate-100"
+            >
+              {ALERT_CONDITIONS.map((c) => (
+                <option key={c} value={c}>
+                  {CONDITION_LABELS[c]}
+                </option>
+              ))}
+            </select>
+          </label>
+          {values.length > 0 && (
+            <label className="flex flex-col gap-1 text-xs text-slate-300">
+              <span>Value</span>
+              <select
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                className="h-9 rounded-md border border-slate-700 bg-slate-900 px-2 text-xs text-slate-100"
+              >
+                {values.map((v) => (
+                  <option key={v} value={v}>
+                    {v}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <div className="flex items-center gap-3 pb-2">
+            {ALERT_CHANNELS.map((kind) => (
+              <label
+                key={kind}
+                className="flex items-center gap-1.5 text-xs text-slate-300"
+              >
+                <input
+                  type="checkbox"
+                  checked={channels.includes(kind)}
+                  onChange={(e) => toggleChannel(kind, e.target.checked)}
+                />
+                {CHANNEL_LABELS[kind]}
+              </label>
+            ))}
+          </div>
+          <Button
+            size="sm"
+            disabled={busy || !symbol || channels.length === 0}
+            onClick={() =>
+              saveRule({
+                symbol,
+                condition,
+                value: values.length > 0 ? value : null,
+                channels,
+              })
+            }
+            className="bg-emerald-500 hover:bg-emerald-600 text-slate-950"
+          >
+            Add rule
+          </Button>
+          <Button size="sm" variant="outline" disabled={busy} onClick={runNow}>
+            {busy ? "Working…" : "Check now"}
+          </Button>
+          {lastCheck && (
+            <span className="pb-2 text-[11px] text-slate-400">{lastCheck}</span>
+          )}
+        </CardContent>
+      </Card>
+
+      {error && (
+        <div className="rounded-lg border border-red-700 bg-red-900/40 px-4 py-3 text-sm text-red-100">
+          {error}
+        </div>
+      )}
+
+      {rules.length === 0 ? (
+        <div className="rounded-xl border border-slate-800 bg-slate-900/40 px-4 py-8 text-center text-sm text-slate-400">
+          No alert rules yet.
+        </div>
+      ) : (
+        <div className="rounded-xl border border-slate-800 bg-slate-900/40 px-3 py-3 overflow-x-auto">
+          <table className="w-full text-[13px]">
+            <thead>
+              <tr className="bg-slate-800 text-slate-50">
+                <th className="px-2 py-2 text-left font-semibold">Symbol</th>
+                <th className="px-2 py-2 text-left font-semibold">Condition</th>
+                <th className="px-2 py-2 text-left font-semibold">Channels</th>
+                <th className="px-2 py-2 text-left font-semibold">Enabled</th>
+                <th className="px-2 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {rules.map((rule) => (
+                <tr
+                  key={rule.id}
+                  className="border-b border-slate-700 bg-slate-900 text-slate-50"
+                >
+                  <td className="px-2 py-1.5 font-semibold text-sky-100">{rule.symbol}</td>
+                  <td className="px-2 py-1.5">{describeRule(rule)}</td>
+                  <td className="px-2 py-1.5">
+                    {rule.channels.map((c) => CHANNEL_LABELS[c]).join(", ")}
+                  </td>
+                  <td className="px-2 py-1.5">
+                    <Switch
+                      checked={rule.enabled}
+                      disabled={busy}
+                      onCheckedChange={(checked) =>
+                        saveRule({
+                          id: rule.id,
+                          symbol: rule.symbol,
+                          condition: rule.condition,
+                          value: rule.value,
+                          channels: rule.channels,
+                          enabled: checked,
+                        })
+                      }
+                      aria-label={`Enable alert rule for ${rule.symbol}`}
+                    />
+                  </td>
+                  <td className="px-2 py-1.5 text-right">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 text-xs text-rose-300"
+                      onClick={() => removeRule(rule)}
+                    >
+                      Remove
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold">Recent alerts</h3>
+        {events.length === 0 ? (
+          <p className="text-xs text-slate-400">Nothing has fired yet.</p>
+        ) : (
+          <ul className="space-y-1.5">
+            {events.map((event) => (
+              <li
+                key={event.id}
+                className={cn(
+                  "rounded-lg border border-slate-800 bg-slate-900 px-3 py-2 text-xs",
+                  !event.readAt && "border-emerald-700/60",
+                )}
+              >
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-semibold text-sky-100">{event.symbol}</span>
+                  <span className="text-slate-400">
+                    {formatTimestamp(event.createdAt)} · session {event.session}
+                  </span>
+                  {Object.entries(event.delivery).map(([channel, outcome]) => (
+                    <Badge
+                      key={channel}
+                      variant="outline"
+                      title={outcome}
+                      className={cn(
+                        "text-[10px] uppercase",
+                        outcome === "sent"
+                          ? "border-emerald-500/60 text-emerald-200"
+                          : "border-rose-500/60 text-rose-200",
+                      )}
+                    >
+                      {CHANNEL_LABELS[channel as AlertChannelKind] ?? channel}
+                    </Badge>
+                  ))}
+                </div>
+                <p className="pt-1 text-slate-200">{event.message}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
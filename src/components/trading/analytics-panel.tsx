@@ -0,0 +1,399 @@
+"use client";
+
+import * as React from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import type { SymbolCode } from "@/lib/trading/types";
+import type { SameBarPolicy } from "@/lib/trading/backtest";
+import type {
+  AnalyticsDimension,
+  PerformanceReport,
+  PerformanceStats,
+} from "@/lib/trading/analytics";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+
+interface AnalyticsPanelProps {
+  symbols: readonly SymbolCode[];
+  /** Scan filters/params from the Settings view, replayed on every session */
+  filters?: { minRr?: number; spreadCap?: number };
+  params?: { atrWindow?: number; structureLookback?: number };
+}
+
+const DIMENSION_LABELS: Record<AnalyticsDimension, string> = {
+  scenario: "Pullback scenario",
+  model: "Model",
+  location: "Location",
+  nearestZoneStatus: "Nearest zone status",
+  sweetspotState: "Sweet spot",
+};
+
+/** Equity curves drawn next to the total; the rest stay in the table */
+const MAX_CURVES = 5;
+
+const CURVE_COLORS = [
+  "var(--chart-1)",
+  "var(--chart-2)",
+  "var(--chart-3)",
+  "var(--chart-4)",
+  "var(--chart-5)",
+];
+
+function formatPct(value: number | null): string {
+  return value == null ? "-" : `${(value * 100).toFixed(1)}%`;
+}
+
+function formatR(value: number | null): string {
+  if (value == null || !Number.isFinite(value)) return "-";
+  return `${value >= 0 ? "+" : ""}${value.toFixed(2)}R`;
+}
+
+function formatFactor(value: number | null): string {
+  return value == null ? "-" : value.toFixed(2);
+}
+
+/**
+ * One row per exit date with the cumulative R of every curve; a curve keeps
+ * its last value on dates where only other groups closed trades.
+ */
+function mergeEquityCurves(curves: { id: string; stats: PerformanceStats }[]) {
+  const dates = [
+    ...new Set(curves.flatMap(({ stats }) => stats.equity.map((p) => p.date))),
+  ].sort();
+  const cursors = curves.map(() => 0);
+  const current = curves.map(() => 0);
+
+  return dates.map((date) => {
+    const row: Record<string, string | number> = { date };
+    curves.forEach(({ id, stats }, i) => {
+      while (
+        cursors[i] < stats.equity.length &&
+        stats.equity[cursors[i]].date <= date
+      ) {
+        current[i] = stats.equity[cursors[i]].equityR;
+        cursors[i] += 1;
+      }
+      row[id] = Number(current[i].toFixed(2));
+    });
+    return row;
+  });
+}
+
+function StatsRow({ stats }: { stats: PerformanceStats }) {
+  return (
+    <tr
+      className={cn(
+        "border-b border-slate-700 bg-slate-900 text-slate-50",
+        stats.key === "ALL" && "bg-slate-800/80",
+      )}
+    >
+      <td className="px-2 py-1.5 font-semibold">{stats.key}</td>
+      <td className="px-2 py-1.5 text-right">{stats.trades}</td>
+      <td className="px-2 py-1.5 text-right">{formatPct(stats.winRate)}</td>
+      <td
+        className={cn(
+          "px-2 py-1.5 text-right font-semibold",
+          (stats.avgR ?? 0) > 0 && "text-emerald-300",
+          (stats.avgR ?? 0) < 0 && "text-rose-300",
+        )}
+      >
+        {formatR(stats.avgR)}
+      </td>
+      <td className="px-2 py-1.5 text-right">{formatFactor(stats.profitFactor)}</td>
+      <td className="px-2 py-1.5 text-right">{formatR(stats.totalR)}</td>
+      <td className="px-2 py-1.5 text-right">{formatR(-stats.maxDrawdownR)}</td>
+    </tr>
+  );
+}
+
+export function AnalyticsPanel({ symbols, filters, params }: AnalyticsPanelProps) {
+  const [selected, setSelected] = React.useState<SymbolCode[]>([...symbols]);
+  const [from, setFrom] = React.useState("");
+  const [to, setTo] = React.useState("");
+  const [sameBarPolicy, setSameBarPolicy] =
+    React.useState<SameBarPolicy>("stop_first");
+  const [dimension, setDimension] =
+    React.useState<AnalyticsDimension>("scenario");
+  const [report, setReport] = React.useState<PerformanceReport | null>(null);
+  const [loading, setLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  function toggleSymbol(symbol: SymbolCode) {
+    setSelected((prev) =>
+      prev.includes(symbol)
+        ? prev.filter((s) => s !== symbol)
+        : [...prev, symbol],
+    );
+  }
+
+  async function runAnalytics() {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/analytics", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          symbols: selected,
+          from: from || undefined,
+          to: to || undefined,
+          sameBarPolicy,
+          filters,
+          params,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data?.report) {
+        const fieldErrors = data?.error?.fieldErrors as
+          | Record<string, string[]>
+          | undefined;
+        setError(
+          fieldErrors
+            ? Object.entries(fieldErrors)
+                .map(([field, messages]) => `${field}: ${messages.join(", ")}`)
+                .join(" · ")
+            : "Analytics failed – check the symbols and date range.",
+        );
+        setReport(null);
+        return;
+      }
+      setReport(data.report);
+    } catch (err) {
+      console.error("Error running analytics:", err);
+      setError("Analytics failed – please try again.");
+      setReport(null);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const groups = report?.groups[dimension] ?? [];
+  const curves = React.useMemo(() => {
+    if (!report) return [];
+    return [
+      { id: "all", stats: report.overall },
+      ...report.groups[dimension]
+        .filter((stats) => stats.trades > 0)
+        .slice(0, MAX_CURVES)
+        .map((stats, i) => ({ id: `group${i}`, stats })),
+    ];
+  }, [report, dimension]);
+  const chartData = React.useMemo(() => mergeEquityCurves(curves), [curves]);
+  const chartConfig = React.useMemo<ChartConfig>(
+    () =>
+      Object.fromEntries(
+        curves.map(({ id, stats }, i) => [
+          id,
+          {
+            label: stats.key,
+            color: i === 0 ? "#e2e8f0" : CURVE_COLORS[(i - 1) % CURVE_COLORS.length],
+          },
+        ]),
+      ),
+    [curves],
+  );
+  const syntheticSymbols = report
+    ? (Object.entries(report.dataSources)
+        .filter(([, source]) => source?.provider === "synthetic")
+        .map(([symbol]) => symbol) as SymbolCode[])
+    : [];
+  const failedSymbols = report ? Object.entries(report.errors) : [];
+
+  return (
+    <div className="space-y-4">
+      <Card className="border border-border bg-card shadow-sm">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">Historical performance</CardTitle>
+          <p className="text-xs text-muted-foreground">
+            Replays the CSV history of every selected symbol with the backtest
+            rules and groups the resolved candidates by the scenario, model,
+            location, zone and sweet-spot state they were scanned in.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex flex-wrap gap-2">
+            {symbols.map((symbol) => (
+              <button
+                key={symbol}
+                type="button"
+                onClick={() => toggleSymbol(symbol)}
+                className={cn(
+                  "rounded-md border px-2 py-1 text-xs",
+                  selected.includes(symbol)
+                    ? "border-emerald-500 bg-emerald-500/20 text-emerald-200"
+                    : "border-slate-700 bg-slate-900 text-slate-400",
+                )}
+              >
+                {symbol}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="flex flex-col gap-1">
+              <Label htmlFor="analytics-from" className="text-xs">
+                From
+              </Label>
+              <Input
+                id="analytics-from"
+                type="date"
+                className="h-9 w-40"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+              />
+            </div>
+            <div className="flex flex-col gap-1">
+              <Label htmlFor="analytics-to" className="text-xs">
+                To
+              </Label>
+              <Input
+                id="analytics-to"
+                type="date"
+                className="h-9 w-40"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+              />
+            </div>
+            <label className="flex flex-col gap-1 text-xs text-slate-300">
+              <span>Stop &amp; target same bar</span>
+              <select
+                value={sameBarPolicy}
+                onChange={(e) => setSameBarPolicy(e.target.value as SameBarPolicy)}
+                className="h-9 rounded-md border border-slate-700 bg-slate-900 px-2 text-xs text-slate-100"
+              >
+                <option value="stop_first">Stop first (conservative)</option>
+                <option value="target_first">Target first</option>
+              </select>
+            </label>
+            <Button
+              size="sm"
+              disabled={loading || selected.length === 0}
+              onClick={runAnalytics}
+              className="bg-emerald-500 hover:bg-emerald-600 text-slate-950"
+            >
+              {loading ? "Replaying…" : "Run analytics"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <div className="rounded-lg border border-red-700 bg-red-900/40 px-4 py-3 text-sm text-red-100">
+          {error}
+        </div>
+      )}
+
+      {report && (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-xs text-slate-400">
+              {report.symbols.join(", ")} · {report.overall.trades} closed trades
+              · entries work for {report.settings.entryExpiryBars} bars, trades
+              held up to {report.settings.maxHoldBars} bars
+            </p>
+            <label className="flex items-center gap-2 text-xs text-slate-300">
+              <span>Group by</span>
+              <select
+                value={dimension}
+                onChange={(e) => setDimension(e.target.value as AnalyticsDimension)}
+                className="h-8 rounded-md border border-slate-700 bg-slate-900 px-2 text-xs text-slate-100"
+              >
+                {(Object.keys(DIMENSION_LABELS) as AnalyticsDimension[]).map(
+                  (key) => (
+                    <option key={key} value={key}>
+                      {DIMENSION_LABELS[key]}
+                    </option>
+                  ),
+                )}
+              </select>
+            </label>
+          </div>
+
+          {syntheticSymbols.length > 0 && (
+            <div
+              role="alert"
+              className="rounded-lg border border-rose-600 bg-rose-900/50 px-4 py-3 text-sm text-rose-100"
+            >
+              {syntheticSymbols.join(", ")} replayed on synthetic demo bars;
+              their statistics say nothing about the real market.
+            </div>
+          )}
+          {failedSymbols.length > 0 && (
+            <div className="rounded-lg border border-red-700 bg-red-900/40 px-4 py-3 text-sm text-red-100">
+              {failedSymbols
+                .map(([symbol, message]) => `${symbol}: ${message}`)
+                .join(" · ")}
+            </div>
+          )}
+
+          <div className="rounded-xl border border-slate-800 bg-slate-900/40 px-3 py-3 overflow-x-auto">
+            <table className="w-full text-[13px]">
+              <thead>
+                <tr className="bg-slate-800 text-slate-50">
+                  <th className="px-2 py-2 text-left font-semibold">
+                    {DIMENSION_LABELS[dimension]}
+                  </th>
+                  <th className="px-2 py-2 text-right font-semibold">Trades</th>
+                  <th className="px-2 py-2 text-right font-semibold">Win rate</th>
+                  <th className="px-2 py-2 text-right font-semibold">Avg R</th>
+                  <th className="px-2 py-2 text-right font-semibold">Profit factor</th>
+                  <th className="px-2 py-2 text-right font-semibold">Total</th>
+                  <th className="px-2 py-2 text-right font-semibold">Max DD</th>
+                </tr>
+              </thead>
+              <tbody>
+                {groups.map((stats) => (
+                  <StatsRow key={stats.key} stats={stats} />
+                ))}
+                <StatsRow stats={report.overall} />
+              </tbody>
+            </table>
+          </div>
+
+          {chartData.length > 0 && (
+            <Card className="border border-border bg-card shadow-sm">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm">Equity curves (R)</CardTitle>
+                <p className="text-[11px] text-muted-foreground">
+                  Cumulative R by exit date for the total and the{" "}
+                  {Math.min(MAX_CURVES, curves.length - 1)} largest groups.
+                </p>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={chartConfig} className="aspect-auto h-72 w-full">
+                  <LineChart data={chartData} margin={{ left: 4, right: 12 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickLine={false} minTickGap={32} />
+                    <YAxis tickLine={false} width={40} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {curves.map(({ id }) => (
+                      <Line
+                        key={id}
+                        dataKey={id}
+                        type="stepAfter"
+                        stroke={`var(--color-${id})`}
+                        strokeWidth={id === "all" ? 2.5 : 1.5}
+                        dot={false}
+                      />
+                    ))}
+                  </LineChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,291 @@
+"use client";
+
+import * as React from "react";
+import type { SymbolCode } from "@/lib/trading/types";
+import type {
+  BacktestModelStats,
+  BacktestReport,
+  SameBarPolicy,
+} from "@/lib/trading/backtest";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+
+interface BacktestPanelProps {
+  symbols: readonly SymbolCode[];
+  priceFormatter: (symbol: SymbolCode, price: number | null | undefined) => string;
+  /** Scan filters/params from the Settings view, replayed on every session */
+  filters?: { minRr?: number; spreadCap?: number };
+  params?: { atrWindow?: number; structureLookback?: number };
+}
+
+function formatPct(value: number | null): string {
+  return value == null ? "-" : `${(value * 100).toFixed(1)}%`;
+}
+
+function formatR(value: number | null): string {
+  if (value == null || !Number.isFinite(value)) return "-";
+  return `${value >= 0 ? "+" : ""}${value.toFixed(2)}R`;
+}
+
+function StatsRow({ stats }: { stats: BacktestModelStats }) {
+  return (
+    <tr
+      className={cn(
+        "border-b border-slate-700 bg-slate-900 text-slate-50",
+        stats.model === "ALL" && "bg-slate-800/80",
+      )}
+    >
+      <td className="px-2 py-1.5 font-semibold">{stats.model}</td>
+      <td className="px-2 py-1.5 text-right">{stats.trades}</td>
+      <td className="px-2 py-1.5 text-right">{formatPct(stats.winRate)}</td>
+      <td
+        className={cn(
+          "px-2 py-1.5 text-right font-semibold",
+          (stats.expectancyR ?? 0) > 0 && "text-emerald-300",
+          (stats.expectancyR ?? 0) < 0 && "text-rose-300",
+        )}
+      >
+        {formatR(stats.expectancyR)}
+      </td>
+      <td className="px-2 py-1.5 text-right">{formatR(stats.totalR)}</td>
+      <td className="px-2 py-1.5 text-right">{formatR(-stats.maxDrawdownR)}</td>
+      <td className="px-2 py-1.5 text-right text-slate-400">
+        {stats.expired} / {stats.open}
+      </td>
+    </tr>
+  );
+}
+
+export function BacktestPanel({
+  symbols,
+  priceFormatter,
+  filters,
+  params,
+}: BacktestPanelProps) {
+  const [symbol, setSymbol] = React.useState<SymbolCode>(symbols[0]);
+  const [from, setFrom] = React.useState("");
+  const [to, setTo] = React.useState("");
+  const [sameBarPolicy, setSameBarPolicy] =
+    React.useState<SameBarPolicy>("stop_first");
+  const [report, setReport] = React.useState<BacktestReport | null>(null);
+  const [loading, setLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  async function runBacktest() {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/backtest", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          symbol,
+          from: from || undefined,
+          to: to || undefined,
+          sameBarPolicy,
+          filters,
+          params,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data?.report) {
+        setError("Backtest failed – check the symbol and date range.");
+        setReport(null);
+        return;
+      }
+      setReport(data.report);
+    } catch (err) {
+      console.error("Error running backtest:", err);
+      setError("Backtest failed – please try again.");
+      setReport(null);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const resolvedTrades = report
+    ? report.trades.filter((t) => t.outcome !== "EXPIRED")
+    : [];
+
+  return (
+    <div className="space-y-4">
+      <Card className="border border-border bg-card shadow-sm">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">Walk-forward replay</CardTitle>
+          <p className="text-xs text-muted-foreground">
+            Replays the scanner on every session in the range using only the
+            bars known at that close, then simulates each VALID candidate on
+            the following bars.
+          </p>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-end gap-3">
+          <label className="flex flex-col gap-1 text-xs text-slate-300">
+            <span>Symbol</span>
+            <select
+              value={symbol}
+              onChange={(e) => setSymbol(e.target.value as SymbolCode)}
+              className="h-9 rounded-md border border-slate-700 bg-slate-900 px-2 text-xs text-slate-100"
+            >
+              {symbols.map((s) => (
+                <option key={s} value={s}>
+                  {s}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="backtest-from" className="text-xs">
+              From
+            </Label>
+            <Input
+              id="backtest-from"
+              type="date"
+              className="h-9 w-40"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="backtest-to" className="text-xs">
+              To
+            </Label>
+            <Input
+              id="backtest-to"
+              type="date"
+              className="h-9 w-40"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+            />
+          </div>
+          <label className="flex flex-col gap-1 text-xs text-slate-300">
+            <span>Stop &amp; target same bar</span>
+            <select
+              value={sameBarPolicy}
+              onChange={(e) => setSameBarPolicy(e.target.value as SameBarPolicy)}
+              className="h-9 rounded-md border border-slate-700 bg-slate-900 px-2 text-xs text-slate-100"
+            >
+              <option value="stop_first">Stop first (conservative)</option>
+              <option value="target_first">Target first</option>
+            </select>
+          </label>
+          <Button
+            size="sm"
+            disabled={loading}
+            onClick={runBacktest}
+            className="bg-emerald-500 hover:bg-emerald-600 text-slate-950"
+          >
+            {loading ? "Running…" : "Run backtest"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <div className="rounded-lg border border-red-700 bg-red-900/40 px-4 py-3 text-sm text-red-100">
+          {error}
+        </div>
+      )}
+
+      {report && (
+        <>
+          <p className="text-xs text-slate-400">
+            {report.symbol} · {report.barsReplayed} sessions replayed · entries
+            work for {report.settings.entryExpiryBars} bars, trades held up to{" "}
+            {report.settings.maxHoldBars} bars
+            {report.dataSource && (
+              <>
+                {" "}
+                · {report.dataSource.provider} bars {report.dataSource.firstDate} →{" "}
+                {report.dataSource.lastDate}
+              </>
+            )}
+          </p>
+          {report.dataSource?.provider === "synthetic" && (
+            <div
+              role="alert"
+              className="rounded-lg border border-rose-600 bg-rose-900/50 px-4 py-3 text-sm text-rose-100"
+            >
+              This replay ran on synthetic demo bars; its statistics say nothing
+              about the real market.
+            </div>
+          )}
+          <div className="rounded-xl border border-slate-800 bg-slate-900/40 px-3 py-3 overflow-x-auto">
+            <table className="w-full text-[13px]">
+              <thead>
+                <tr className="bg-slate-800 text-slate-50">
+                  <th className="px-2 py-2 text-left font-semibold">Model</th>
+                  <th className="px-2 py-2 text-right font-semibold">Trades</th>
+                  <th className="px-2 py-2 text-right font-semibold">Win rate</th>
+                  <th className="px-2 py-2 text-right font-semibold">Expectancy</th>
+                  <th className="px-2 py-2 text-right font-semibold">Total</th>
+                  <th className="px-2 py-2 text-right font-semibold">Max DD</th>
+                  <th className="px-2 py-2 text-right font-semibold">Expired / Open</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.models.map((stats) => (
+                  <StatsRow key={stats.model} stats={stats} />
+                ))}
+                <StatsRow stats={report.overall} />
+              </tbody>
+            </table>
+          </div>
+
+          {resolvedTrades.length > 0 && (
+            <div className="rounded-xl border border-slate-800 bg-slate-900/40 px-3 py-3 overflow-x-auto">
+              <table className="w-full text-[13px]">
+                <thead>
+                  <tr className="bg-slate-800 text-slate-50">
+                    <th className="px-2 py-2 text-left font-semibold">Signal</th>
+                    <th className="px-2 py-2 text-left font-semibold">Model</th>
+                    <th className="px-2 py-2 text-left font-semibold">Dir</th>
+                    <th className="px-2 py-2 text-right font-semibold">Entry</th>
+                    <th className="px-2 py-2 text-right font-semibold">Stop</th>
+                    <th className="px-2 py-2 text-right font-semibold">TP1</th>
+                    <th className="px-2 py-2 text-left font-semibold">Outcome</th>
+                    <th className="px-2 py-2 text-right font-semibold">R</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {resolvedTrades.map((t, idx) => (
+                    <tr
+                      key={idx}
+                      className="border-b border-slate-700 bg-slate-900 text-slate-50 hover:bg-slate-800"
+                    >
+                      <td className="px-2 py-1.5">{t.signalDate}</td>
+                      <td className="px-2 py-1.5 font-semibold">{t.model}</td>
+                      <td className="px-2 py-1.5">{t.direction}</td>
+                      <td className="px-2 py-1.5 text-right">
+                        {priceFormatter(t.symbol, t.entry)}
+                      </td>
+                      <td className="px-2 py-1.5 text-right">
+                        {priceFormatter(t.symbol, t.stop)}
+                      </td>
+                      <td className="px-2 py-1.5 text-right">
+                        {priceFormatter(t.symbol, t.tp1)}
+                      </td>
+                      <td className="px-2 py-1.5">
+                        {t.outcome}
+                        {t.ambiguous && (
+                          <span className="ml-1 text-amber-300" title="Stop and target printed in the same bar">
+                            *
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-2 py-1.5 text-right font-semibold">
+                        {formatR(t.rMultiple)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import * as React from "react";
+import type { ScanResponse, SymbolCode } from "@/lib/trading/types";
+import {
+  isSymbolScanError,
+  MACRO_TREND_CLASSIFIER_LABELS,
+  MACRO_TREND_CLASSIFIERS,
+} from "@/lib/trading/types";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+interface ClassifierComparisonProps {
+  scan: ScanResponse;
+  symbols: SymbolCode[];
+}
+
+const TREND_TEXT: Record<"Bull" | "Bear" | "Neutral", string> = {
+  Bull: "text-emerald-300",
+  Bear: "text-rose-300",
+  Neutral: "text-slate-300",
+};
+
+function formatScore(value: number): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(2)}`;
+}
+
+/**
+ * Macro trend of every classifier per symbol. Cells that differ from the
+ * classifier the scan used are outlined, and rows where the classifiers do
+ * not agree are flagged.
+ */
+export function ClassifierComparison({ scan, symbols }: ClassifierComparisonProps) {
+  return (
+    <section className="rounded-xl border border-slate-800 bg-slate-900/40 px-3 py-3 overflow-x-auto">
+      <p className="pb-2 text-xs text-slate-400">
+        Macro trend by classifier on the same bars and thresholds; the column
+        in use for the scan is highlighted. Hover a cell for its reading.
+      </p>
+      <table className="w-full text-[13px]">
+        <thead>
+          <tr className="bg-slate-800 text-slate-50">
+            <th className="px-2 py-2 text-left font-semibold">Symbol</th>
+            {MACRO_TREND_CLASSIFIERS.map((classifier) => (
+              <th key={classifier} className="px-2 py-2 text-left font-semibold">
+                {MACRO_TREND_CLASSIFIER_LABELS[classifier]}
+              </th>
+            ))}
+            <th className="px-2 py-2 text-left font-semibold">Agreement</th>
+          </tr>
+        </thead>
+        <tbody>
+          {symbols.map((symbol) => {
+            const entry = scan.symbols[symbol];
+            if (!entry || isSymbolScanError(entry)) return null;
+
+            const verdicts = entry.macroTrendComparison;
+            const selected = entry.macroTrendDiagnostics?.classifier ?? "breakout";
+            const disagree =
+              verdicts != null &&
+              verdicts.some((v) => v.macroTrend !== verdicts[0].macroTrend);
+
+            return (
+              <tr
+                key={symbol}
+                className="border-b border-slate-700 bg-slate-900 text-slate-50"
+              >
+                <td className="px-2 py-1.5 font-semibold text-sky-100">{symbol}</td>
+                {verdicts ? (
+                  <>
+                    {verdicts.map((verdict) => (
+                      <td
+                        key={verdict.classifier}
+                        title={verdict.detail}
+                        className={cn(
+                          "px-2 py-1.5",
+                          verdict.classifier === selected && "bg-slate-800/80",
+                        )}
+                      >
+                        <span
+                          className={cn(
+                            "inline-flex items-center gap-1 rounded px-1",
+                            TREND_TEXT[verdict.macroTrend],
+                            verdict.macroTrend !== entry.macroTrend &&
+                              "ring-1 ring-amber-400/70",
+                          )}
+                        >
+                          {verdict.macroTrend}
+                          <span className="text-[11px] text-slate-400">
+                            {formatScore(verdict.score)}
+                          </span>
+                        </span>
+                      </td>
+                    ))}
+                    <td className="px-2 py-1.5">
+                      <Badge
+                        variant="outline"
+                        className={cn(
+                          "text-[10px] uppercase tracking-wide",
+                          disagree
+                            ? "border-amber-500/60 text-amber-200"
+                            : "border-emerald-500/60 text-emerald-200",
+                        )}
+                      >
+                        {disagree ? "Disagree" : "Agree"}
+                      </Badge>
+                    </td>
+                  </>
+                ) : (
+                  <td
+                    colSpan={MACRO_TREND_CLASSIFIERS.length + 1}
+                    className="px-2 py-1.5 text-slate-400"
+                  >
+                    Not in this scan; run a new scan to compare classifiers.
+                  </td>
+                )}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </section>
+  );
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import * as React from "react";
+import type { ExposureSummary } from "@/lib/trading/types";
+import { cn } from "@/lib/utils";
+
+interface ExposurePanelProps {
+  exposure: ExposureSummary;
+}
+
+/** Red for positive, blue for negative correlation, stronger with |value| */
+function correlationStyle(value: number | null): React.CSSProperties | undefined {
+  if (value == null) return undefined;
+  const alpha = Math.min(Math.abs(value), 1) * 0.6;
+  return {
+    backgroundColor:
+      value >= 0 ? `rgba(244, 63, 94, ${alpha})` : `rgba(56, 189, 248, ${alpha})`,
+  };
+}
+
+export function ExposurePanel({ exposure }: ExposurePanelProps) {
+  const { correlation, currencies, maxCorrelation } = exposure;
+  const widest = Math.max(...currencies.map((c) => Math.abs(c.net)), 0);
+
+  return (
+    <div className="grid gap-3 md:grid-cols-2">
+      <div className="rounded-xl border border-slate-800 bg-slate-900/40 px-3 py-3 overflow-x-auto">
+        <div className="mb-2 flex items-center justify-between text-xs">
+          <span className="font-semibold text-slate-100">Return correlation</span>
+          <span className="text-slate-400">
+            {correlation.window} daily returns · stacks at {maxCorrelation.toFixed(2)}
+          </span>
+        </div>
+        {correlation.symbols.length < 2 ? (
+          <p className="text-xs text-slate-400">Scan two or more symbols to correlate them.</p>
+        ) : (
+          <table className="text-[11px]">
+            <thead>
+              <tr>
+                <th />
+                {correlation.symbols.map((symbol) => (
+                  <th key={symbol} className="px-1.5 py-1 font-semibold text-slate-300">
+                    {symbol}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {correlation.symbols.map((symbol, i) => (
+                <tr key={symbol}>
+                  <th className="px-1.5 py-1 text-left font-semibold text-slate-300">
+                    {symbol}
+                  </th>
+                  {correlation.values[i].map((value, j) => (
+                    <td
+                      key={correlation.symbols[j]}
+                      className={cn(
+                        "px-1.5 py-1 text-center text-slate-50",
+                        i !== j &&
+                          value != null &&
+                          Math.abs(value) >= maxCorrelation &&
+                          "font-semibold",
+                      )}
+                      style={i === j ? undefined : correlationStyle(value)}
+                    >
+                      {i === j ? "–" : value == null ? "n/a" : value.toFixed(2)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="rounded-xl border border-slate-800 bg-slate-900/40 px-3 py-3">
+        <div className="mb-2 flex items-center justify-between text-xs">
+          <span className="font-semibold text-slate-100">Net currency exposure</span>
+          <span className="text-slate-400">% of balance at risk</span>
+        </div>
+        {currencies.length === 0 ? (
+          <p className="text-xs text-slate-400">No sized VALID candidates.</p>
+        ) : (
+          <ul className="space-y-1.5">
+            {currencies.map((row) => {
+              const width = widest > 0 ? (Math.abs(row.net) / widest) * 50 : 0;
+              return (
+                <li
+                  key={row.currency}
+                  className="grid grid-cols-[3rem_1fr_4rem] items-center gap-2 text-[11px]"
+                  title={`Long ${row.long.toFixed(2)}% · short ${row.short.toFixed(2)}%`}
+                >
+                  <span className="font-semibold text-slate-200">{row.currency}</span>
+                  <div className="relative h-3 rounded bg-slate-800">
+                    <div className="absolute inset-y-0 left-1/2 w-px bg-slate-600" />
+                    <div
+                      className={cn(
+                        "absolute inset-y-0 rounded",
+                        row.net >= 0 ? "left-1/2 bg-emerald-500/70" : "right-1/2 bg-rose-500/70",
+                      )}
+                      style={{ width: `${width}%` }}
+                    />
+                  </div>
+                  <span
+                    className={cn(
+                      "text-right font-semibold",
+                      row.net >= 0 ? "text-emerald-300" : "text-rose-300",
+                    )}
+                  >
+                    {row.net >= 0 ? "+" : ""}
+                    {row.net.toFixed(2)}%
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        {exposure.stackedCount > 0 && (
+          <p className="mt-2 text-[11px] text-amber-300">
+            {exposure.stackedCount} candidate(s){" "}
+            {exposure.mode === "filter" ? "filtered" : "flagged"} for stacking
+            correlated risk.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,382 @@
+"use client";
+
+import * as React from "react";
+import type { InstrumentSpec } from "@/lib/trading/instruments";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+
+interface InstrumentsPanelProps {
+  instruments: InstrumentSpec[];
+  /** Called with the refreshed registry after every save/delete */
+  onChange: (instruments: InstrumentSpec[]) => void;
+}
+
+type NumericField =
+  | "pipSize"
+  | "digits"
+  | "riskCap"
+  | "clusterRadius"
+  | "slBuffer"
+  | "contractSize"
+  | "minLot"
+  | "lotStep"
+  | "syntheticBasePrice";
+
+type InstrumentForm = Record<NumericField, string> & {
+  symbol: string;
+  baseCurrency: string;
+  quoteCurrency: string;
+  dataFile: string;
+  liveTicker: string;
+  brokerSymbol: string;
+  enabled: boolean;
+};
+
+const EMPTY_FORM: InstrumentForm = {
+  symbol: "",
+  pipSize: "",
+  digits: "",
+  riskCap: "",
+  clusterRadius: "",
+  slBuffer: "",
+  contractSize: "",
+  minLot: "",
+  lotStep: "",
+  syntheticBasePrice: "",
+  baseCurrency: "",
+  quoteCurrency: "",
+  dataFile: "",
+  liveTicker: "",
+  brokerSymbol: "",
+  enabled: true,
+};
+
+const NUMERIC_FIELDS: { key: NumericField; label: string; hint: string }[] = [
+  { key: "pipSize", label: "Pip size", hint: "e.g. 0.0001, 0.01, 1" },
+  { key: "digits", label: "Digits", hint: "Price decimals" },
+  { key: "riskCap", label: "Risk cap", hint: "Max entry→SL distance" },
+  { key: "clusterRadius", label: "Cluster radius", hint: "O/C zone band" },
+  { key: "slBuffer", label: "SL buffer", hint: "Beyond structure" },
+  { key: "contractSize", label: "Contract size", hint: "Units per lot, e.g. 100000" },
+  { key: "minLot", label: "Min lot", hint: "e.g. 0.01" },
+  { key: "lotStep", label: "Lot step", hint: "e.g. 0.01" },
+  { key: "syntheticBasePrice", label: "Synthetic base", hint: "Optional" },
+];
+
+function toForm(spec: InstrumentSpec): InstrumentForm {
+  return {
+    symbol: spec.symbol,
+    pipSize: String(spec.pipSize),
+    digits: String(spec.digits),
+    riskCap: String(spec.riskCap),
+    clusterRadius: String(spec.clusterRadius),
+    slBuffer: String(spec.slBuffer),
+    contractSize: String(spec.contractSize),
+    minLot: String(spec.minLot),
+    lotStep: String(spec.lotStep),
+    syntheticBasePrice:
+      spec.syntheticBasePrice != null ? String(spec.syntheticBasePrice) : "",
+    baseCurrency: spec.baseCurrency ?? "",
+    quoteCurrency: spec.quoteCurrency,
+    dataFile: spec.dataFile ?? "",
+    liveTicker: spec.liveTicker ?? "",
+    brokerSymbol: spec.brokerSymbol ?? "",
+    enabled: spec.enabled,
+  };
+}
+
+async function fetchInstruments(): Promise<InstrumentSpec[] | null> {
+  const res = await fetch("/api/symbols");
+  if (!res.ok) return null;
+  const data = await res.json();
+  return Array.isArray(data?.instruments) ? data.instruments : null;
+}
+
+export function InstrumentsPanel({ instruments, onChange }: InstrumentsPanelProps) {
+  const [form, setForm] = React.useState<InstrumentForm>(EMPTY_FORM);
+  const [saving, setSaving] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  async function refresh() {
+    const next = await fetchInstruments();
+    if (next) onChange(next);
+  }
+
+  async function save() {
+    setSaving(true);
+    setError(null);
+
+    const optionalNumber = (value: string) =>
+      value.trim() === "" ? null : Number(value);
+
+    try {
+      const res = await fetch("/api/symbols", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          symbol: form.symbol,
+          pipSize: Number(form.pipSize),
+          digits: Number(form.digits),
+          riskCap: Number(form.riskCap),
+          clusterRadius: Number(form.clusterRadius),
+          slBuffer: Number(form.slBuffer),
+          contractSize: optionalNumber(form.contractSize) ?? undefined,
+          minLot: optionalNumber(form.minLot) ?? undefined,
+          lotStep: optionalNumber(form.lotStep) ?? undefined,
+          baseCurrency: form.baseCurrency.trim() || null,
+          quoteCurrency: form.quoteCurrency.trim() || undefined,
+          syntheticBasePrice: optionalNumber(form.syntheticBasePrice),
+          dataFile: form.dataFile.trim() || null,
+          liveTicker: form.liveTicker.trim() || null,
+          brokerSymbol: form.brokerSymbol.trim() || null,
+          enabled: form.enabled,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        const fieldErrors = data?.error?.fieldErrors as
+          | Record<string, string[]>
+          | undefined;
+        setError(
+          fieldErrors
+            ? Object.entries(fieldErrors)
+                .map(([field, messages]) => `${field}: ${messages.join(", ")}`)
+                .join(" · ")
+            : "Could not save the instrument.",
+        );
+        return;
+      }
+      setForm(EMPTY_FORM);
+      await refresh();
+    } catch (err) {
+      console.error("Error saving instrument:", err);
+      setError("Could not save the instrument.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function remove(spec: InstrumentSpec) {
+    setError(null);
+    try {
+      const res = await fetch(`/api/symbols/${encodeURIComponent(spec.symbol)}`, {
+        method: "DELETE",
+      });
+      // 404 on a built-in just means there was no override to reset
+      if (!res.ok && res.status !== 404) {
+        setError(`Could not remove ${spec.symbol}.`);
+        return;
+      }
+      await refresh();
+    } catch (err) {
+      console.error("Error removing instrument:", err);
+      setError(`Could not remove ${spec.symbol}.`);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="overflow-x-auto rounded-lg border border-border">
+        <table className="w-full text-[13px]">
+          <thead>
+            <tr className="bg-slate-800 text-slate-50">
+              <th className="px-2 py-2 text-left font-semibold">Symbol</th>
+              <th className="px-2 py-2 text-right font-semibold">Pip</th>
+              <th className="px-2 py-2 text-right font-semibold">Digits</th>
+              <th className="px-2 py-2 text-right font-semibold">Risk cap</th>
+              <th className="px-2 py-2 text-right font-semibold">Cluster</th>
+              <th className="px-2 py-2 text-right font-semibold">SL buffer</th>
+              <th className="px-2 py-2 text-left font-semibold">Contract</th>
+              <th className="px-2 py-2 text-left font-semibold">Data / ticker</th>
+              <th className="px-2 py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {instruments.map((spec) => (
+              <tr
+                key={spec.symbol}
+                className="border-b border-slate-700 bg-slate-900 text-slate-50"
+              >
+                <td className="px-2 py-1.5">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-sky-100">{spec.symbol}</span>
+                    <Badge variant="outline" className="text-[10px] uppercase">
+                      {spec.builtin ? "built-in" : "custom"}
+                    </Badge>
+                    {!spec.enabled && (
+                      <Badge variant="outline" className="text-[10px] uppercase text-slate-400">
+                        off
+                      </Badge>
+                    )}
+                  </div>
+                </td>
+                <td className="px-2 py-1.5 text-right">{spec.pipSize}</td>
+                <td className="px-2 py-1.5 text-right">{spec.digits}</td>
+                <td className="px-2 py-1.5 text-right">{spec.riskCap}</td>
+                <td className="px-2 py-1.5 text-right">{spec.clusterRadius}</td>
+                <td className="px-2 py-1.5 text-right">{spec.slBuffer}</td>
+                <td className="px-2 py-1.5 text-xs text-slate-300">
+                  {spec.contractSize.toLocaleString()}{" "}
+                  {spec.baseCurrency
+                    ? `${spec.baseCurrency}/${spec.quoteCurrency}`
+                    : spec.quoteCurrency}{" "}
+                  · lot {spec.minLot}/{spec.lotStep}
+                </td>
+                <td className="px-2 py-1.5 text-xs text-slate-300">
+                  {spec.dataFile ?? `${spec.symbol}_Daily.csv`} /{" "}
+                  {spec.liveTicker ?? spec.symbol}
+                  {spec.brokerSymbol && (
+                    <span className="block text-slate-400">MT: {spec.brokerSymbol}</span>
+                  )}
+                </td>
+                <td className="px-2 py-1.5 text-right whitespace-nowrap">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 text-xs"
+                    onClick={() => setForm(toForm(spec))}
+                  >
+                    Edit
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 text-xs text-rose-300"
+                    onClick={() => remove(spec)}
+                  >
+                    {spec.builtin ? "Reset" : "Remove"}
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-3">
+        <div className="space-y-1">
+          <Label htmlFor="instrument-symbol" className="text-xs">
+            Symbol
+          </Label>
+          <Input
+            id="instrument-symbol"
+            className="h-9"
+            placeholder="e.g. USDJPY"
+            value={form.symbol}
+            onChange={(e) => setForm((prev) => ({ ...prev, symbol: e.target.value }))}
+          />
+        </div>
+        {NUMERIC_FIELDS.map(({ key, label, hint }) => (
+          <div key={key} className="space-y-1">
+            <Label htmlFor={`instrument-${key}`} className="text-xs">
+              {label}
+            </Label>
+            <Input
+              id={`instrument-${key}`}
+              type="number"
+              inputMode="decimal"
+              step="any"
+              className="h-9 text-right"
+              placeholder={hint}
+              value={form[key]}
+              onChange={(e) => setForm((prev) => ({ ...prev, [key]: e.target.value }))}
+            />
+          </div>
+        ))}
+        <div className="space-y-1">
+          <Label htmlFor="instrument-base-currency" className="text-xs">
+            Base currency
+          </Label>
+          <Input
+            id="instrument-base-currency"
+            className="h-9"
+            placeholder="e.g. GBP, XAU (pairs only)"
+            value={form.baseCurrency}
+            onChange={(e) => setForm((prev) => ({ ...prev, baseCurrency: e.target.value }))}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="instrument-quote-currency" className="text-xs">
+            Quote currency
+          </Label>
+          <Input
+            id="instrument-quote-currency"
+            className="h-9"
+            placeholder="USD"
+            value={form.quoteCurrency}
+            onChange={(e) => setForm((prev) => ({ ...prev, quoteCurrency: e.target.value }))}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="instrument-data-file" className="text-xs">
+            Data file
+          </Label>
+          <Input
+            id="instrument-data-file"
+            className="h-9"
+            placeholder={`${form.symbol.toUpperCase() || "SYMBOL"}_Daily.csv`}
+            value={form.dataFile}
+            onChange={(e) => setForm((prev) => ({ ...prev, dataFile: e.target.value }))}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="instrument-ticker" className="text-xs">
+            Live ticker
+          </Label>
+          <Input
+            id="instrument-ticker"
+            className="h-9"
+            placeholder={form.symbol.toUpperCase() || "Same as symbol"}
+            value={form.liveTicker}
+            onChange={(e) => setForm((prev) => ({ ...prev, liveTicker: e.target.value }))}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="instrument-broker-symbol" className="text-xs">
+            MetaTrader symbol
+          </Label>
+          <Input
+            id="instrument-broker-symbol"
+            className="h-9"
+            placeholder="Symbol + export suffix"
+            value={form.brokerSymbol}
+            onChange={(e) => setForm((prev) => ({ ...prev, brokerSymbol: e.target.value }))}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Switch
+            checked={form.enabled}
+            onCheckedChange={(checked) => setForm((prev) => ({ ...prev, enabled: checked }))}
+            aria-label="Scan by default"
+          />
+          Scan by default
+        </label>
+        <Button
+          size="sm"
+          disabled={saving || !form.symbol.trim()}
+          onClick={save}
+          className="bg-emerald-500 hover:bg-emerald-600 text-slate-950"
+        >
+          {saving ? "Saving…" : "Save instrument"}
+        </Button>
+        {form !== EMPTY_FORM && (
+          <Button size="sm" variant="ghost" onClick={() => setForm(EMPTY_FORM)}>
+            Clear
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-red-700 bg-red-900/40 px-4 py-3 text-sm text-red-100">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,514 @@
+"use client";
+
+import * as React from "react";
+import type { SymbolCode } from "@/lib/trading/types";
+import {
+  JOURNAL_STATUSES,
+  type JournalEntry,
+  type JournalStatus,
+} from "@/lib/trading/journal";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+
+interface JournalPanelProps {
+  priceFormatter: (symbol: SymbolCode, price: number | null | undefined) => string;
+  /** Bumped by the dashboard after it adds an entry from Signals */
+  refreshKey?: number;
+}
+
+interface EditForm {
+  status: JournalStatus;
+  lots: string;
+  entryPrice: string;
+  entryAt: string;
+  exitPrice: string;
+  exitAt: string;
+  outcomeR: string;
+  notes: string;
+  screenshots: string;
+}
+
+const STATUS_CLASSES: Record<JournalStatus, string> = {
+  planned: "border-slate-500/60 text-slate-300",
+  open: "border-sky-500/60 text-sky-200",
+  closed: "border-emerald-500/60 text-emerald-200",
+  cancelled: "border-slate-700 text-slate-500",
+};
+
+// <input type="datetime-local"> works in local time without a zone suffix
+function toLocalInput(iso: string | null): string {
+  if (!iso) return "";
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60_000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+function fromLocalInput(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function toEditForm(entry: JournalEntry): EditForm {
+  return {
+    status: entry.status,
+    lots: entry.lots != null ? String(entry.lots) : "",
+    entryPrice: entry.entryPrice != null ? String(entry.entryPrice) : "",
+    entryAt: toLocalInput(entry.entryAt),
+    exitPrice: entry.exitPrice != null ? String(entry.exitPrice) : "",
+    exitAt: toLocalInput(entry.exitAt),
+    outcomeR: "",
+    notes: entry.notes ?? "",
+    screenshots: entry.screenshots.join("\n"),
+  };
+}
+
+function formatR(value: number | null): string {
+  if (value == null) return "-";
+  return `${value >= 0 ? "+" : ""}${value.toFixed(2)}R`;
+}
+
+export function JournalPanel({ priceFormatter, refreshKey }: JournalPanelProps) {
+  const [entries, setEntries] = React.useState<JournalEntry[]>([]);
+  const [modelFilter, setModelFilter] = React.useState<string>("all");
+  const [symbolFilter, setSymbolFilter] = React.useState<string>("all");
+  const [scenarioFilter, setScenarioFilter] = React.useState<string>("all");
+  const [editing, setEditing] = React.useState<JournalEntry | null>(null);
+  const [form, setForm] = React.useState<EditForm | null>(null);
+  const [saving, setSaving] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const load = React.useCallback(async () => {
+    try {
+      const res = await fetch("/api/journal");
+      const data = await res.json();
+      if (!res.ok) {
+        setError("Could not load the journal.");
+        return;
+      }
+      setEntries(data.entries ?? []);
+    } catch (err) {
+      console.error("Error loading journal:", err);
+      setError("Could not load the journal.");
+    }
+  }, []);
+
+  React.useEffect(() => {
+    load();
+  }, [load, refreshKey]);
+
+  const options = React.useMemo(() => {
+    const unique = (values: (string | null)[]) =>
+      [...new Set(values.filter((v): v is string => !!v))].sort();
+    return {
+      models: unique(entries.map((e) => e.model)),
+      symbols: unique(entries.map((e) => e.symbol)),
+      scenarios: unique(entries.map((e) => e.scenario)),
+    };
+  }, [entries]);
+
+  const filtered = entries.filter(
+    (e) =>
+      (modelFilter === "all" || e.model === modelFilter) &&
+      (symbolFilter === "all" || e.symbol === symbolFilter) &&
+      (scenarioFilter === "all" || e.scenario === scenarioFilter),
+  );
+
+  const closed = filtered.filter((e) => e.status === "closed" && e.outcomeR != null);
+  const totalR = closed.reduce((sum, e) => sum + (e.outcomeR ?? 0), 0);
+  const wins = closed.filter((e) => (e.outcomeR ?? 0) > 0).length;
+
+  function startEdit(entry: JournalEntry) {
+    setEditing(entry);
+    setForm(toEditForm(entry));
+    setError(null);
+  }
+
+  async function saveEdit() {
+    if (!editing || !form) return;
+    setSaving(true);
+    setError(null);
+
+    const optionalNumber = (value: string) =>
+      value.trim() === "" ? null : Number(value);
+
+    try {
+      const res = await fetch(`/api/journal/${encodeURIComponent(editing.id)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          status: form.status,
+          lots: optionalNumber(form.lots),
+          entryPrice: optionalNumber(form.entryPrice),
+          entryAt: fromLocalInput(form.entryAt),
+          exitPrice: optionalNumber(form.exitPrice),
+          exitAt: fromLocalInput(form.exitAt),
+          ...(form.outcomeR.trim() !== ""
+            ? { outcomeR: Number(form.outcomeR) }
+            : {}),
+          notes: form.notes.trim() || null,
+          screenshots: form.screenshots
+            .split(/\s+/)
+            .map((url) => url.trim())
+            .filter(Boolean),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        const fieldErrors = data?.error?.fieldErrors as
+          | Record<string, string[]>
+          | undefined;
+        setError(
+          fieldErrors
+            ? Object.entries(fieldErrors)
+                .map(([field, messages]) => `${field}: ${messages.join(", ")}`)
+                .join(" · ")
+            : "Could not save the journal entry.",
+        );
+        return;
+      }
+      setEditing(null);
+      setForm(null);
+      await load();
+    } catch (err) {
+      console.error("Error saving journal entry:", err);
+      setError("Could not save the journal entry.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function remove(entry: JournalEntry) {
+    setError(null);
+    try {
+      const res = await fetch(`/api/journal/${encodeURIComponent(entry.id)}`, {
+        method: "DELETE",
+      });
+      if (!res.ok && res.status !== 404) {
+        setError("Could not delete the journal entry.");
+        return;
+      }
+      if (editing?.id === entry.id) {
+        setEditing(null);
+        setForm(null);
+      }
+      await load();
+    } catch (err) {
+      console.error("Error deleting journal entry:", err);
+      setError("Could not delete the journal entry.");
+    }
+  }
+
+  const selectClass =
+    "rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-xs text-slate-100";
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-2 text-xs text-slate-300">
+          <span>Model</span>
+          <select
+            value={modelFilter}
+            onChange={(e) => setModelFilter(e.target.value)}
+            className={selectClass}
+          >
+            <option value="all">All</option>
+            {options.models.map((m) => (
+              <option key={m} value={m}>
+                {m}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-xs text-slate-300">
+          <span>Symbol</span>
+          <select
+            value={symbolFilter}
+            onChange={(e) => setSymbolFilter(e.target.value)}
+            className={selectClass}
+          >
+            <option value="all">All</option>
+            {options.symbols.map((s) => (
+              <option key={s} value={s}>
+                {s}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-xs text-slate-300">
+          <span>Scenario</span>
+          <select
+            value={scenarioFilter}
+            onChange={(e) => setScenarioFilter(e.target.value)}
+            className={selectClass}
+          >
+            <option value="all">All</option>
+            {options.scenarios.map((s) => (
+              <option key={s} value={s}>
+                {s.replace(/\|/g, " · ")}
+              </option>
+            ))}
+          </select>
+        </label>
+        <span className="ml-auto text-xs text-slate-400">
+          {filtered.length} trade(s) · {closed.length} closed ·{" "}
+          {closed.length > 0
+            ? `${formatR(totalR)} total, ${Math.round((wins / closed.length) * 100)}% winners`
+            : "no results yet"}
+        </span>
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-red-700 bg-red-900/40 px-4 py-3 text-sm text-red-100">
+          {error}
+        </div>
+      )}
+
+      {filtered.length === 0 ? (
+        <div className="rounded-xl border border-slate-800 bg-slate-900/40 px-4 py-8 text-center text-sm text-slate-400">
+          No journal entries. Add one from a row in the Signals view.
+        </div>
+      ) : (
+        <div className="rounded-xl border border-slate-800 bg-slate-900/40 px-3 py-3 overflow-x-auto">
+          <table className="w-full text-[13px]">
+            <thead>
+              <tr className="bg-slate-800 text-slate-50">
+                <th className="px-2 py-2 text-left font-semibold">Scan</th>
+                <th className="px-2 py-2 text-left font-semibold">Symbol</th>
+                <th className="px-2 py-2 text-left font-semibold">Model</th>
+                <th className="px-2 py-2 text-left font-semibold">Dir</th>
+                <th className="px-2 py-2 text-right font-semibold">Plan</th>
+                <th className="px-2 py-2 text-left font-semibold">Context</th>
+                <th className="px-2 py-2 text-right font-semibold">Fills</th>
+                <th className="px-2 py-2 text-right font-semibold">Outcome</th>
+                <th className="px-2 py-2 text-left font-semibold">Status</th>
+                <th className="px-2 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {filtered.map((entry) => (
+                <tr
+                  key={entry.id}
+                  className={cn(
+                    "border-b border-slate-700 bg-slate-900 text-slate-50",
+                    editing?.id === entry.id && "bg-slate-800",
+                  )}
+                >
+                  <td className="px-2 py-1.5 text-xs text-slate-300">
+                    {entry.scanDate ?? entry.createdAt.slice(0, 10)}
+                  </td>
+                  <td className="px-2 py-1.5 font-semibold text-sky-100">
+                    {entry.symbol}
+                    {entry.timeframe !== "D1" && (
+                      <span className="ml-1 text-[11px] text-slate-400">
+                        {entry.timeframe}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-2 py-1.5 font-semibold">{entry.model}</td>
+                  <td className="px-2 py-1.5">{entry.direction}</td>
+                  <td className="px-2 py-1.5 text-right text-xs whitespace-nowrap">
+                    {priceFormatter(entry.symbol, entry.plannedEntry)} / SL{" "}
+                    {priceFormatter(entry.symbol, entry.plannedStop)} / TP1{" "}
+                    {priceFormatter(entry.symbol, entry.plannedTp1)}
+                    <div className="text-slate-400">
+                      {entry.plannedRr.toFixed(2)}R planned
+                    </div>
+                  </td>
+                  <td className="px-2 py-1.5 text-xs text-slate-300">
+                    {[entry.macroTrend, entry.alignment, entry.location]
+                      .filter(Boolean)
+                      .join(" · ")}
+                    <div className="text-slate-400">
+                      {entry.pullbackBucket ?? "-"}
+                      {entry.scenario && ` · ${entry.scenario.replace(/\|/g, "/")}`}
+                    </div>
+                  </td>
+                  <td className="px-2 py-1.5 text-right text-xs whitespace-nowrap">
+                    {entry.entryPrice != null
+                      ? priceFormatter(entry.symbol, entry.entryPrice)
+                      : "-"}{" "}
+                    →{" "}
+                    {entry.exitPrice != null
+                      ? priceFormatter(entry.symbol, entry.exitPrice)
+                      : "-"}
+                    {entry.lots != null && (
+                      <div className="text-slate-400">{entry.lots} lots</div>
+                    )}
+                  </td>
+                  <td
+                    className={cn(
+                      "px-2 py-1.5 text-right font-semibold",
+                      entry.outcomeR != null &&
+                        (entry.outcomeR >= 0 ? "text-emerald-300" : "text-rose-300"),
+                    )}
+                  >
+                    {formatR(entry.outcomeR)}
+                  </td>
+                  <td className="px-2 py-1.5">
+                    <Badge
+                      variant="outline"
+                      className={cn("text-[10px] uppercase", STATUS_CLASSES[entry.status])}
+                    >
+                      {entry.status}
+                    </Badge>
+                  </td>
+                  <td className="px-2 py-1.5 text-right whitespace-nowrap">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 text-xs"
+                      onClick={() => startEdit(entry)}
+                    >
+                      Edit
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 text-xs text-rose-300"
+                      onClick={() => remove(entry)}
+                    >
+                      Delete
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {editing && form && (
+        <div className="space-y-3 rounded-xl border border-slate-800 bg-slate-900/40 px-4 py-4">
+          <div className="text-sm font-semibold">
+            {editing.symbol} {editing.model} {editing.direction} ·{" "}
+            {editing.scanDate ?? editing.createdAt.slice(0, 10)}
+          </div>
+          <div className="grid gap-3 sm:grid-cols-4">
+            <div className="space-y-1">
+              <Label htmlFor="journal-status" className="text-xs">
+                Status
+              </Label>
+              <select
+                id="journal-status"
+                value={form.status}
+                onChange={(e) =>
+                  setForm({ ...form, status: e.target.value as JournalStatus })
+                }
+                className="h-9 w-full rounded-md border border-slate-700 bg-slate-900 px-2 text-xs text-slate-100"
+              >
+                {JOURNAL_STATUSES.map((status) => (
+                  <option key={status} value={status}>
+                    {status}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {(
+              [
+                ["lots", "Lots", "number"],
+                ["entryPrice", "Entry fill", "number"],
+                ["entryAt", "Entered at", "datetime-local"],
+                ["exitPrice", "Exit fill", "number"],
+                ["exitAt", "Exited at", "datetime-local"],
+              ] as const
+            ).map(([key, label, type]) => (
+              <div key={key} className="space-y-1">
+                <Label htmlFor={`journal-${key}`} className="text-xs">
+                  {label}
+                </Label>
+                <Input
+                  id={`journal-${key}`}
+                  type={type}
+                  step="any"
+                  className="h-9"
+                  value={form[key]}
+                  onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+                />
+              </div>
+            ))}
+            <div className="space-y-1">
+              <Label htmlFor="journal-outcome" className="text-xs">
+                Outcome R override
+              </Label>
+              <Input
+                id="journal-outcome"
+                type="number"
+                step="any"
+                className="h-9"
+                placeholder={
+                  editing.outcomeR != null
+                    ? editing.outcomeR.toFixed(2)
+                    : "From fills"
+                }
+                value={form.outcomeR}
+                onChange={(e) => setForm({ ...form, outcomeR: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor="journal-notes" className="text-xs">
+                Notes
+              </Label>
+              <Textarea
+                id="journal-notes"
+                rows={4}
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="journal-screenshots" className="text-xs">
+                Screenshot links (one per line)
+              </Label>
+              <Textarea
+                id="journal-screenshots"
+                rows={4}
+                value={form.screenshots}
+                onChange={(e) => setForm({ ...form, screenshots: e.target.value })}
+              />
+              {editing.screenshots.length > 0 && (
+                <div className="flex flex-wrap gap-2 text-[11px]">
+                  {editing.screenshots.map((url, i) => (
+                    <a
+                      key={url}
+                      href={url}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="text-sky-300 underline"
+                    >
+                      Screenshot {i + 1}
+                    </a>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              disabled={saving}
+              onClick={saveEdit}
+              className="bg-emerald-500 hover:bg-emerald-600 text-slate-950"
+            >
+              {saving ? "Saving…" : "Save entry"}
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => {
+                setEditing(null);
+                setForm(null);
+              }}
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
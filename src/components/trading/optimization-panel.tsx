@@ -0,0 +1,654 @@
+"use client";
+
+import * as React from "react";
+import type { SymbolCode } from "@/lib/trading/types";
+import type {
+  OptimizableParam,
+  OptimizationCandidate,
+  OptimizationGrid,
+  OptimizationJob,
+  OptimizationResult,
+} from "@/lib/trading/optimizer";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+
+interface OptimizationPanelProps {
+  symbols: readonly SymbolCode[];
+  /** Settings view filters/params: the values unswept parameters keep */
+  filters?: { minRr?: number; spreadCap?: number };
+  params?: { atrWindow?: number; structureLookback?: number };
+}
+
+const POLL_INTERVAL_MS = 2_000;
+
+/** Rows shown in the ranked table */
+const RANKED_ROWS = 25;
+
+// Same order as OPTIMIZABLE_PARAMS; the optimizer module itself is server-only
+const GRID_PARAMS: OptimizableParam[] = [
+  "atrWindow",
+  "structureLookback",
+  "trendLookback",
+  "pullbackWindow",
+  "minRr",
+  "spreadCap",
+];
+
+const DEFAULT_GRID: Record<OptimizableParam, string> = {
+  atrWindow: "14, 20, 28",
+  structureLookback: "",
+  trendLookback: "",
+  pullbackWindow: "",
+  minRr: "1.5, 2, 3",
+  spreadCap: "",
+};
+
+function parseGrid(form: Record<OptimizableParam, string>): OptimizationGrid {
+  const grid: Record<string, number[]> = {};
+  for (const key of GRID_PARAMS) {
+    const values = form[key]
+      .split(",")
+      .map((value) => value.trim())
+      .filter(Boolean)
+      .map(Number);
+    if (values.length > 0) grid[key] = values;
+  }
+  return grid as OptimizationGrid;
+}
+
+function formatR(value: number | null): string {
+  if (value == null || !Number.isFinite(value)) return "-";
+  return `${value >= 0 ? "+" : ""}${value.toFixed(2)}R`;
+}
+
+function formatPct(value: number | null): string {
+  return value == null ? "-" : `${(value * 100).toFixed(0)}%`;
+}
+
+/** Red for losing scores, green for winning ones, stronger further from 0 */
+function scoreColor(score: number | null, maxAbs: number): string | undefined {
+  if (score == null || maxAbs === 0) return undefined;
+  const alpha = 0.15 + 0.6 * Math.min(1, Math.abs(score) / maxAbs);
+  return score >= 0
+    ? `rgba(16, 185, 129, ${alpha})`
+    : `rgba(244, 63, 94, ${alpha})`;
+}
+
+function errorMessage(data: unknown, fallback: string): string {
+  const error = (data as { error?: unknown } | null)?.error;
+  if (typeof error === "string") return error;
+  const flattened = error as
+    | { formErrors?: string[]; fieldErrors?: Record<string, string[]> }
+    | undefined;
+  const messages = [
+    ...(flattened?.formErrors ?? []),
+    ...Object.entries(flattened?.fieldErrors ?? {}).map(
+      ([field, list]) => `${field}: ${list.join(", ")}`,
+    ),
+  ];
+  return messages.length > 0 ? messages.join(" · ") : fallback;
+}
+
+/** Best score per (x, y) pair over all other parameters */
+function Heatmap({
+  ranked,
+  x,
+  y,
+}: {
+  ranked: OptimizationCandidate[];
+  x: OptimizableParam;
+  y: OptimizableParam;
+}) {
+  const xs = [...new Set(ranked.map((c) => c.parameters[x]))]
+    .filter((v): v is number => v != null)
+    .sort((a, b) => a - b);
+  const ys = [...new Set(ranked.map((c) => c.parameters[y]))]
+    .filter((v): v is number => v != null)
+    .sort((a, b) => a - b);
+
+  const cells = new Map<string, number | null>();
+  for (const candidate of ranked) {
+    const key = `${candidate.parameters[x]}|${candidate.parameters[y]}`;
+    const best = cells.get(key);
+    if (
+      !cells.has(key) ||
+      (candidate.score != null && (best == null || candidate.score > best))
+    ) {
+      cells.set(key, candidate.score);
+    }
+  }
+  const maxAbs = Math.max(
+    0,
+    ...[...cells.values()].map((score) => Math.abs(score ?? 0)),
+  );
+
+  return (
+    <table className="text-[12px]">
+      <thead>
+        <tr>
+          <th className="px-2 py-1 text-left text-slate-400">
+            {y} \ {x}
+          </th>
+          {xs.map((value) => (
+            <th key={value} className="px-2 py-1 text-right text-slate-300">
+              {value}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {ys.map((yValue) => (
+          <tr key={yValue}>
+            <th className="px-2 py-1 text-left text-slate-300">{yValue}</th>
+            {xs.map((xValue) => {
+              const key = `${xValue}|${yValue}`;
+              const score = cells.get(key) ?? null;
+              return (
+                <td
+                  key={key}
+                  className="min-w-16 border border-slate-800 px-2 py-1.5 text-right text-slate-50"
+                  style={{ backgroundColor: scoreColor(score, maxAbs) }}
+                >
+                  {cells.has(key) ? formatR(score) : ""}
+                </td>
+              );
+            })}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function ResultView({ result }: { result: OptimizationResult }) {
+  const [axes, setAxes] = React.useState<[OptimizableParam, OptimizableParam]>(
+    [result.varied[0], result.varied[1] ?? result.varied[0]],
+  );
+  const rows = result.ranked.slice(0, RANKED_ROWS);
+  const objectiveLabel = result.objective === "totalR" ? "total R" : "avg R";
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-slate-400">
+        {result.symbols.join(", ")} · {result.from} → {result.to} ·{" "}
+        {result.ranked.length} parameter sets ({result.search} search) · score:
+        mean {objectiveLabel} over {result.segments.length} segments with at
+        least {result.minTrades} trades
+      </p>
+      {Object.keys(result.errors).length > 0 && (
+        <div className="rounded-lg border border-red-700 bg-red-900/40 px-4 py-3 text-sm text-red-100">
+          {Object.entries(result.errors)
+            .map(([symbol, message]) => `${symbol}: ${message}`)
+            .join(" · ")}
+        </div>
+      )}
+
+      <div className="rounded-xl border border-slate-800 bg-slate-900/40 px-3 py-3 overflow-x-auto">
+        <table className="w-full text-[13px]">
+          <thead>
+            <tr className="bg-slate-800 text-slate-50">
+              <th className="px-2 py-2 text-right font-semibold">#</th>
+              <th className="px-2 py-2 text-left font-semibold">Parameters</th>
+              <th className="px-2 py-2 text-right font-semibold">Trades</th>
+              <th className="px-2 py-2 text-right font-semibold">Win rate</th>
+              <th className="px-2 py-2 text-right font-semibold">Avg R</th>
+              <th className="px-2 py-2 text-right font-semibold">Total</th>
+              <th className="px-2 py-2 text-right font-semibold">Score</th>
+              <th className="px-2 py-2 text-right font-semibold">Consistency</th>
+              <th className="px-2 py-2 text-left font-semibold">Segments</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((candidate) => (
+              <tr
+                key={candidate.key}
+                className="border-b border-slate-700 bg-slate-900 text-slate-50 hover:bg-slate-800"
+              >
+                <td className="px-2 py-1.5 text-right text-slate-400">
+                  {candidate.rank}
+                </td>
+                <td className="px-2 py-1.5 font-mono text-[12px]">
+                  {candidate.key || "base settings"}
+                </td>
+                <td className="px-2 py-1.5 text-right">{candidate.overall.trades}</td>
+                <td className="px-2 py-1.5 text-right">
+                  {formatPct(candidate.overall.winRate)}
+                </td>
+                <td className="px-2 py-1.5 text-right">
+                  {formatR(candidate.overall.avgR)}
+                </td>
+                <td className="px-2 py-1.5 text-right">
+                  {formatR(candidate.overall.totalR)}
+                </td>
+                <td
+                  className={cn(
+                    "px-2 py-1.5 text-right font-semibold",
+                    (candidate.score ?? 0) > 0 && "text-emerald-300",
+                    (candidate.score ?? 0) < 0 && "text-rose-300",
+                  )}
+                >
+                  {formatR(candidate.score)}
+                </td>
+                <td className="px-2 py-1.5 text-right">
+                  {formatPct(candidate.consistency)}
+                </td>
+                <td className="px-2 py-1.5">
+                  <div className="flex gap-1">
+                    {candidate.segments.map((segment, index) => (
+                      <span
+                        key={index}
+                        title={`${segment.key}: ${segment.trades} trades`}
+                        className={cn(
+                          "rounded px-1 text-[11px]",
+                          segment.totalR > 0 && "bg-emerald-900/60 text-emerald-200",
+                          segment.totalR < 0 && "bg-rose-900/60 text-rose-200",
+                          segment.totalR === 0 && "bg-slate-800 text-slate-400",
+                        )}
+                      >
+                        {segment.trades > 0 ? formatR(segment.totalR) : "–"}
+                      </span>
+                    ))}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {result.varied.length > 0 && (
+        <Card className="border border-border bg-card shadow-sm">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm">Score heatmap</CardTitle>
+            <p className="text-[11px] text-muted-foreground">
+              Best score for each pair of values over the other parameters.
+              A lone bright cell among weak neighbours is usually noise.
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-3 overflow-x-auto">
+            <div className="flex flex-wrap gap-3">
+              {(["x", "y"] as const).map((axis, index) => (
+                <label
+                  key={axis}
+                  className="flex items-center gap-2 text-xs text-slate-300"
+                >
+                  <span>{axis.toUpperCase()}</span>
+                  <select
+                    value={axes[index]}
+                    onChange={(e) => {
+                      const value = e.target.value as OptimizableParam;
+                      setAxes((prev) =>
+                        index === 0 ? [value, prev[1]] : [prev[0], value],
+                      );
+                    }}
+                    className="h-8 rounded-md border border-slate-700 bg-slate-900 px-2 text-xs text-slate-100"
+                  >
+                    {result.varied.map((key) => (
+                      <option key={key} value={key}>
+                        {key}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+            <Heatmap ranked={result.ranked} x={axes[0]} y={axes[1]} />
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="rounded-xl border border-slate-800 bg-slate-900/40 px-3 py-3 overflow-x-auto">
+        <p className="pb-2 text-xs text-slate-400">
+          Walk-forward: each fold picks the best set on all earlier segments and
+          trades it on the next one. The combined out-of-sample result is the
+          honest estimate of what tuning would have earned.
+        </p>
+        <table className="w-full text-[13px]">
+          <thead>
+            <tr className="bg-slate-800 text-slate-50">
+              <th className="px-2 py-2 text-left font-semibold">Train</th>
+              <th className="px-2 py-2 text-left font-semibold">Test</th>
+              <th className="px-2 py-2 text-left font-semibold">Selected</th>
+              <th className="px-2 py-2 text-right font-semibold">Train score</th>
+              <th className="px-2 py-2 text-right font-semibold">Test trades</th>
+              <th className="px-2 py-2 text-right font-semibold">Test avg R</th>
+              <th className="px-2 py-2 text-right font-semibold">Test total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.walkForward.folds.map((fold) => (
+              <tr
+                key={fold.test.from}
+                className="border-b border-slate-700 bg-slate-900 text-slate-50"
+              >
+                <td className="px-2 py-1.5">
+                  {fold.train.from} → {fold.train.to}
+                </td>
+                <td className="px-2 py-1.5">
+                  {fold.test.from} → {fold.test.to}
+                </td>
+                <td className="px-2 py-1.5 font-mono text-[12px]">
+                  {fold.selected ?? "no set with enough trades"}
+                </td>
+                <td className="px-2 py-1.5 text-right">{formatR(fold.trainScore)}</td>
+                <td className="px-2 py-1.5 text-right">
+                  {fold.testStats?.trades ?? "-"}
+                </td>
+                <td className="px-2 py-1.5 text-right">
+                  {formatR(fold.testStats?.avgR ?? null)}
+                </td>
+                <td className="px-2 py-1.5 text-right">
+                  {formatR(fold.testStats?.totalR ?? null)}
+                </td>
+              </tr>
+            ))}
+            <tr className="border-b border-slate-700 bg-slate-800/80 text-slate-50">
+              <td className="px-2 py-1.5 font-semibold" colSpan={4}>
+                Out of sample
+              </td>
+              <td className="px-2 py-1.5 text-right">
+                {result.walkForward.overall.trades}
+              </td>
+              <td className="px-2 py-1.5 text-right font-semibold">
+                {formatR(result.walkForward.overall.avgR)}
+              </td>
+              <td className="px-2 py-1.5 text-right font-semibold">
+                {formatR(result.walkForward.overall.totalR)}
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export function OptimizationPanel({ symbols, filters, params }: OptimizationPanelProps) {
+  const [selected, setSelected] = React.useState<SymbolCode[]>([...symbols]);
+  const [gridForm, setGridForm] =
+    React.useState<Record<OptimizableParam, string>>(DEFAULT_GRID);
+  const [search, setSearch] = React.useState<"grid" | "random">("grid");
+  const [samples, setSamples] = React.useState("30");
+  const [folds, setFolds] = React.useState("3");
+  const [objective, setObjective] = React.useState<"avgR" | "totalR">("avgR");
+  const [from, setFrom] = React.useState("");
+  const [to, setTo] = React.useState("");
+  const [job, setJob] = React.useState<OptimizationJob | null>(null);
+  const [starting, setStarting] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const grid = parseGrid(gridForm);
+  const combinations = Object.values(grid).reduce(
+    (count, values) => count * new Set(values).size,
+    1,
+  );
+  const running = job?.status === "running";
+  const jobId = job?.id;
+
+  const loadJob = React.useCallback(async (id: string) => {
+    const res = await fetch(`/api/optimizations/${encodeURIComponent(id)}`);
+    const data = await res.json();
+    if (res.ok && data?.job) setJob(data.job);
+  }, []);
+
+  // Pick up the latest job, e.g. one still running from an earlier visit
+  React.useEffect(() => {
+    fetch("/api/optimizations")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        const latest = data?.jobs?.[0] as OptimizationJob | undefined;
+        if (latest) return loadJob(latest.id);
+      })
+      .catch((err) => console.error("Error loading optimization jobs:", err));
+  }, [loadJob]);
+
+  React.useEffect(() => {
+    if (!running || !jobId) return;
+    const timer = window.setInterval(() => {
+      loadJob(jobId).catch((err) =>
+        console.error("Error polling optimization job:", err),
+      );
+    }, POLL_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [running, jobId, loadJob]);
+
+  function toggleSymbol(symbol: SymbolCode) {
+    setSelected((prev) =>
+      prev.includes(symbol)
+        ? prev.filter((s) => s !== symbol)
+        : [...prev, symbol],
+    );
+  }
+
+  async function startJob() {
+    setStarting(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/optimizations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          symbols: selected,
+          from: from || undefined,
+          to: to || undefined,
+          filters,
+          params,
+          grid,
+          search,
+          samples: Number(samples),
+          folds: Number(folds),
+          objective,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(errorMessage(data, "Could not start the optimization."));
+        if (data?.job) setJob(data.job);
+        return;
+      }
+      setJob(data.job);
+    } catch (err) {
+      console.error("Error starting optimization:", err);
+      setError("Could not start the optimization.");
+    } finally {
+      setStarting(false);
+    }
+  }
+
+  async function cancelJob() {
+    if (!job) return;
+    try {
+      const res = await fetch(`/api/optimizations/${encodeURIComponent(job.id)}`, {
+        method: "DELETE",
+      });
+      const data = await res.json();
+      if (res.ok && data?.job) setJob(data.job);
+    } catch (err) {
+      console.error("Error cancelling optimization:", err);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card className="border border-border bg-card shadow-sm">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">Parameter sweep</CardTitle>
+          <p className="text-xs text-muted-foreground">
+            Replays the backtest for every parameter set on every selected
+            symbol. Enter comma-separated values; parameters left empty keep
+            their Settings value. The sweep runs on the server, so you can
+            leave this view while it works.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex flex-wrap gap-2">
+            {symbols.map((symbol) => (
+              <button
+                key={symbol}
+                type="button"
+                onClick={() => toggleSymbol(symbol)}
+                className={cn(
+                  "rounded-md border px-2 py-1 text-xs",
+                  selected.includes(symbol)
+                    ? "border-emerald-500 bg-emerald-500/20 text-emerald-200"
+                    : "border-slate-700 bg-slate-900 text-slate-400",
+                )}
+              >
+                {symbol}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+            {GRID_PARAMS.map((key) => (
+              <div key={key} className="space-y-1">
+                <Label htmlFor={`optimize-${key}`} className="text-xs">
+                  {key}
+                </Label>
+                <Input
+                  id={`optimize-${key}`}
+                  className="h-9"
+                  placeholder="Settings value"
+                  value={gridForm[key]}
+                  onChange={(e) =>
+                    setGridForm((prev) => ({ ...prev, [key]: e.target.value }))
+                  }
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-end gap-3">
+            <label className="flex flex-col gap-1 text-xs text-slate-300">
+              <span>Search</span>
+              <select
+                value={search}
+                onChange={(e) => setSearch(e.target.value as "grid" | "random")}
+                className="h-9 rounded-md border border-slate-700 bg-slate-900 px-2 text-xs text-slate-100"
+              >
+                <option value="grid">Full grid ({combinations} sets)</option>
+                <option value="random">Random sample</option>
+              </select>
+            </label>
+            {search === "random" && (
+              <div className="flex flex-col gap-1">
+                <Label htmlFor="optimize-samples" className="text-xs">
+                  Samples
+                </Label>
+                <Input
+                  id="optimize-samples"
+                  type="number"
+                  min={1}
+                  className="h-9 w-24"
+                  value={samples}
+                  onChange={(e) => setSamples(e.target.value)}
+                />
+              </div>
+            )}
+            <div className="flex flex-col gap-1">
+              <Label htmlFor="optimize-folds" className="text-xs">
+                Walk-forward folds
+              </Label>
+              <Input
+                id="optimize-folds"
+                type="number"
+                min={1}
+                max={10}
+                className="h-9 w-24"
+                value={folds}
+                onChange={(e) => setFolds(e.target.value)}
+              />
+            </div>
+            <label className="flex flex-col gap-1 text-xs text-slate-300">
+              <span>Objective</span>
+              <select
+                value={objective}
+                onChange={(e) => setObjective(e.target.value as "avgR" | "totalR")}
+                className="h-9 rounded-md border border-slate-700 bg-slate-900 px-2 text-xs text-slate-100"
+              >
+                <option value="avgR">Average R</option>
+                <option value="totalR">Total R</option>
+              </select>
+            </label>
+            <div className="flex flex-col gap-1">
+              <Label htmlFor="optimize-from" className="text-xs">
+                From
+              </Label>
+              <Input
+                id="optimize-from"
+                type="date"
+                className="h-9 w-40"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+              />
+            </div>
+            <div className="flex flex-col gap-1">
+              <Label htmlFor="optimize-to" className="text-xs">
+                To
+              </Label>
+              <Input
+                id="optimize-to"
+                type="date"
+                className="h-9 w-40"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+              />
+            </div>
+            <Button
+              size="sm"
+              disabled={starting || running || selected.length === 0}
+              onClick={startJob}
+              className="bg-emerald-500 hover:bg-emerald-600 text-slate-950"
+            >
+              {starting ? "Starting…" : "Start sweep"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <div className="rounded-lg border border-red-700 bg-red-900/40 px-4 py-3 text-sm text-red-100">
+          {error}
+        </div>
+      )}
+
+      {job && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+            <Badge variant="outline" className="text-[11px]">
+              {job.status}
+            </Badge>
+            <span>
+              Started {new Date(job.createdAt).toLocaleString()} · {job.progress}/
+              {job.total || "?"} replays
+            </span>
+            {running && (
+              <Button size="sm" variant="outline" onClick={cancelJob}>
+                Cancel
+              </Button>
+            )}
+          </div>
+          {running && (
+            <Progress
+              value={job.total > 0 ? (job.progress / job.total) * 100 : 0}
+              className="h-2"
+            />
+          )}
+          {job.status === "failed" && job.error && (
+            <div className="rounded-lg border border-red-700 bg-red-900/40 px-4 py-3 text-sm text-red-100">
+              {job.error}
+            </div>
+          )}
+        </div>
+      )}
+
+      {job?.result && <ResultView key={job.id} result={job.result} />}
+    </div>
+  );
+}
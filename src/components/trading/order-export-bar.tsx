@@ -0,0 +1,189 @@
+"use client";
+
+import * as React from "react";
+import type { SymbolCode, TradeCandidate } from "@/lib/trading/types";
+import { TRADING_SESSION_LABELS } from "@/lib/trading/types";
+import {
+  ORDER_EXPIRIES,
+  orderInputFromCandidate,
+  type OrderExportFormat,
+  type OrderExpiry,
+  type SkippedOrder,
+} from "@/lib/trading/order-export";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "@/hooks/use-toast";
+
+interface OrderExportBarProps {
+  selection: { symbol: SymbolCode; trade: TradeCandidate }[];
+  /** Broker server time from the session settings, for pending-order expiry */
+  serverUtcOffset: number | null;
+  onClear: () => void;
+}
+
+const FORMAT_LABELS: Record<OrderExportFormat, string> = {
+  csv: "CSV for an EA",
+  mq4: "MQL4 script",
+  mq5: "MQL5 script",
+};
+
+const EXPIRY_LABELS: Record<OrderExpiry, string> = {
+  daily_close: "Daily close",
+  asia: `End of ${TRADING_SESSION_LABELS.asia}`,
+  london: `End of ${TRADING_SESSION_LABELS.london}`,
+  new_york: `End of ${TRADING_SESSION_LABELS.new_york}`,
+  none: "Never (GTC)",
+};
+
+function download(filename: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: "text/plain" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function describeSkipped(skipped: SkippedOrder[]): string {
+  return skipped
+    .map((s) => `${s.symbol} ${s.model} ${s.direction}: ${s.reason}`)
+    .join("; ");
+}
+
+export function OrderExportBar({ selection, serverUtcOffset, onClear }: OrderExportBarProps) {
+  const [format, setFormat] = React.useState<OrderExportFormat>("csv");
+  const [expiry, setExpiry] = React.useState<OrderExpiry>("daily_close");
+  const [symbolSuffix, setSymbolSuffix] = React.useState("");
+  const [riskPercent, setRiskPercent] = React.useState("");
+  const [exporting, setExporting] = React.useState(false);
+
+  async function exportOrders() {
+    setExporting(true);
+    try {
+      const res = await fetch("/api/orders/export", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          format,
+          expiry,
+          serverUtcOffset,
+          symbolSuffix: symbolSuffix.trim() || undefined,
+          riskPercent: riskPercent.trim() ? Number(riskPercent) : undefined,
+          orders: selection.map(({ symbol, trade }) =>
+            orderInputFromCandidate(symbol, trade),
+          ),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast({
+          title: "Could not export orders",
+          description: data?.skipped
+            ? describeSkipped(data.skipped)
+            : typeof data?.error === "string"
+              ? data.error
+              : `HTTP ${res.status}`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      download(data.filename, data.content);
+      toast({
+        title: `Exported ${data.orders.length} order(s)`,
+        description:
+          data.skipped.length > 0
+            ? `Skipped ${describeSkipped(data.skipped)}`
+            : data.filename,
+      });
+    } catch (err) {
+      console.error("Error exporting orders:", err);
+      toast({
+        title: "Could not export orders",
+        description: String(err),
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  const selectClass =
+    "rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-xs text-slate-100";
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-lg border border-slate-800 bg-slate-900/40 px-3 py-2 text-xs text-slate-300">
+      <span className="font-semibold text-slate-100">MetaTrader export</span>
+      <select
+        value={format}
+        onChange={(e) => setFormat(e.target.value as OrderExportFormat)}
+        className={selectClass}
+        aria-label="Export format"
+      >
+        {(Object.keys(FORMAT_LABELS) as OrderExportFormat[]).map((key) => (
+          <option key={key} value={key}>
+            {FORMAT_LABELS[key]}
+          </option>
+        ))}
+      </select>
+      <label className="flex items-center gap-1">
+        <span>Expiry</span>
+        <select
+          value={expiry}
+          onChange={(e) => setExpiry(e.target.value as OrderExpiry)}
+          className={selectClass}
+        >
+          {ORDER_EXPIRIES.map((key) => (
+            <option key={key} value={key}>
+              {EXPIRY_LABELS[key]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-1">
+        <span>Suffix</span>
+        <Input
+          className="h-7 w-16 border-slate-700 bg-slate-900 text-xs"
+          placeholder=".m"
+          value={symbolSuffix}
+          onChange={(e) => setSymbolSuffix(e.target.value)}
+        />
+      </label>
+      <label className="flex items-center gap-1">
+        <span>Risk %</span>
+        <Input
+          type="number"
+          inputMode="decimal"
+          step="0.1"
+          min={0}
+          className="h-7 w-20 border-slate-700 bg-slate-900 text-right text-xs"
+          placeholder="Account"
+          value={riskPercent}
+          onChange={(e) => setRiskPercent(e.target.value)}
+        />
+      </label>
+      <div className="ml-auto flex items-center gap-2">
+        {selection.length > 0 && (
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            className="h-7 text-xs"
+            onClick={onClear}
+          >
+            Clear selection
+          </Button>
+        )}
+        <Button
+          type="button"
+          size="sm"
+          disabled={exporting || selection.length === 0}
+          onClick={exportOrders}
+          className="h-7 bg-emerald-500 text-xs text-slate-950 hover:bg-emerald-600"
+        >
+          Export {selection.length} order(s)
+        </Button>
+      </div>
+    </div>
+  );
+}
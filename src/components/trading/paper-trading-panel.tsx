@@ -0,0 +1,498 @@
+"use client";
+
+import * as React from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import type { SymbolCode } from "@/lib/trading/types";
+import type {
+  PaperAccountSummary,
+  PaperEquityPoint,
+  PaperExitReason,
+  PaperOrder,
+  PaperOrderStatus,
+} from "@/lib/trading/paper-trading";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { cn } from "@/lib/utils";
+
+interface PaperTradingPanelProps {
+  priceFormatter: (symbol: SymbolCode, price: number | null | undefined) => string;
+  /** Changes after each scan, which may have placed new orders */
+  refreshKey?: string;
+}
+
+const STATUS_CLASSES: Record<PaperOrderStatus, string> = {
+  pending: "border-sky-500/60 text-sky-200",
+  open: "border-emerald-500/60 text-emerald-200",
+  closed: "border-slate-500 text-slate-300",
+  cancelled: "border-slate-700 text-slate-500",
+};
+
+const EXIT_LABELS: Record<PaperExitReason, string> = {
+  target: "Target",
+  stop: "Stop",
+  expired: "Expired",
+  manual: "Manual",
+};
+
+const chartConfig: ChartConfig = {
+  equity: { label: "Equity", color: "#34d399" },
+  balance: { label: "Balance", color: "#e2e8f0" },
+};
+
+function formatMoney(amount: number | null | undefined, currency: string): string {
+  if (amount == null || !Number.isFinite(amount)) return "-";
+  return new Intl.NumberFormat(undefined, {
+    style: "currency",
+    currency,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+function formatR(value: number | null): string {
+  if (value == null) return "-";
+  return `${value >= 0 ? "+" : ""}${value.toFixed(2)}R`;
+}
+
+function formatTimestamp(value: string | null): string {
+  if (!value) return "-";
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+}
+
+function pnlClass(value: number | null): string | false {
+  return value != null && (value >= 0 ? "text-emerald-300" : "text-rose-300");
+}
+
+function Stat({ label, value, className }: { label: string; value: string; className?: string | false }) {
+  return (
+    <div className="rounded-lg border border-slate-800 bg-slate-900/40 px-3 py-2">
+      <div className="text-[11px] uppercase tracking-wide text-slate-400">{label}</div>
+      <div className={cn("text-sm font-semibold text-slate-50", className)}>{value}</div>
+    </div>
+  );
+}
+
+export function PaperTradingPanel({ priceFormatter, refreshKey }: PaperTradingPanelProps) {
+  const [account, setAccount] = React.useState<PaperAccountSummary | null>(null);
+  const [orders, setOrders] = React.useState<PaperOrder[]>([]);
+  const [equity, setEquity] = React.useState<PaperEquityPoint[]>([]);
+  const [startingBalance, setStartingBalance] = React.useState("");
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [lastRun, setLastRun] = React.useState<string | null>(null);
+
+  function applyState(data: {
+    account: PaperAccountSummary | null;
+    orders?: PaperOrder[];
+    equity?: PaperEquityPoint[];
+  }) {
+    setAccount(data.account);
+    setOrders(data.orders ?? []);
+    setEquity(data.equity ?? []);
+  }
+
+  const load = React.useCallback(async () => {
+    try {
+      const res = await fetch("/api/paper");
+      const data = await res.json();
+      if (!res.ok) {
+        setError("Could not load the paper account.");
+        return;
+      }
+      applyState(data);
+    } catch (err) {
+      console.error("Error loading paper account:", err);
+      setError("Could not load the paper account.");
+    }
+  }, []);
+
+  React.useEffect(() => {
+    load();
+  }, [load, refreshKey]);
+
+  async function update(body: Record<string, unknown>) {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/paper", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        const fieldErrors = data?.error?.fieldErrors as
+          | Record<string, string[]>
+          | undefined;
+        setError(
+          fieldErrors
+            ? Object.entries(fieldErrors)
+                .map(([field, messages]) => `${field}: ${messages.join(", ")}`)
+                .join(" · ")
+            : "Could not update the paper account.",
+        );
+        return;
+      }
+      applyState(data);
+    } catch (err) {
+      console.error("Error updating paper account:", err);
+      setError("Could not update the paper account.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function reset() {
+    if (account && !window.confirm("Drop every paper order and the equity history?")) return;
+    const balance = Number(startingBalance);
+    update({
+      reset: true,
+      ...(startingBalance.trim() && Number.isFinite(balance) ? { startingBalance: balance } : {}),
+    });
+  }
+
+  async function runCycle() {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/paper/run", { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) {
+        setError("The paper trading cycle failed.");
+        return;
+      }
+      setLastRun(
+        `${data.result.placed.length} placed, ${data.result.changed.length} updated`,
+      );
+      await load();
+    } catch (err) {
+      console.error("Error running paper trading cycle:", err);
+      setError("The paper trading cycle failed.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function closeOrder(order: PaperOrder) {
+    setError(null);
+    try {
+      const res = await fetch(`/api/paper/orders/${encodeURIComponent(order.id)}`, {
+        method: "DELETE",
+      });
+      if (!res.ok && res.status !== 409) {
+        setError(`Could not ${order.status === "pending" ? "cancel" : "close"} the order.`);
+        return;
+      }
+      await load();
+    } catch (err) {
+      console.error("Error closing paper order:", err);
+      setError("Could not close the order.");
+    }
+  }
+
+  const active = orders.filter((o) => o.status === "pending" || o.status === "open");
+  const finished = orders.filter((o) => o.status === "closed" || o.status === "cancelled");
+  const currency = account?.currency ?? "USD";
+  const chartData = equity.map((point) => ({
+    at: new Date(point.at).toLocaleDateString(),
+    equity: Number(point.equity.toFixed(2)),
+    balance: Number(point.balance.toFixed(2)),
+  }));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-slate-300">
+        {account && (
+          <label className="flex items-center gap-2">
+            <Switch
+              checked={account.enabled}
+              disabled={busy}
+              onCheckedChange={(enabled) => update({ enabled })}
+            />
+            <span>{account.enabled ? "Placing orders from scans" : "Paused"}</span>
+          </label>
+        )}
+        <label className="flex items-center gap-1">
+          <span>Starting balance</span>
+          <Input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            className="h-7 w-28 border-slate-700 bg-slate-900 text-right text-xs"
+            placeholder="Account"
+            value={startingBalance}
+            onChange={(e) => setStartingBalance(e.target.value)}
+          />
+        </label>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          className="h-7 text-xs"
+          disabled={busy}
+          onClick={reset}
+        >
+          {account ? "Reset account" : "Start paper trading"}
+        </Button>
+        <div className="ml-auto flex items-center gap-2">
+          {lastRun && <span className="text-slate-400">Last cycle: {lastRun}</span>}
+          <Button
+            type="button"
+            size="sm"
+            disabled={busy || !account?.enabled}
+            onClick={runCycle}
+            className="h-7 bg-emerald-500 text-xs text-slate-950 hover:bg-emerald-600"
+          >
+            Run cycle now
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-red-700 bg-red-900/40 px-4 py-3 text-sm text-red-100">
+          {error}
+        </div>
+      )}
+
+      {!account ? (
+        <div className="rounded-xl border border-slate-800 bg-slate-900/40 px-4 py-8 text-center text-sm text-slate-400">
+          Paper trading is not started. Start it to have each broker cycle
+          place the scanner&apos;s VALID candidates as simulated orders.
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-2 md:grid-cols-6">
+            <Stat label="Balance" value={formatMoney(account.balance, currency)} />
+            <Stat
+              label="Equity"
+              value={formatMoney(account.equity, currency)}
+              className={pnlClass(account.equity - account.startingBalance)}
+            />
+            <Stat
+              label="Realised"
+              value={formatMoney(account.realisedPnl, currency)}
+              className={pnlClass(account.realisedPnl)}
+            />
+            <Stat
+              label="Floating"
+              value={formatMoney(account.floatingPnl, currency)}
+              className={pnlClass(account.floatingPnl)}
+            />
+            <Stat
+              label="Open / pending"
+              value={`${account.openPositions} / ${account.pendingOrders}`}
+            />
+            <Stat
+              label="Closed"
+              value={
+                account.winRate == null
+                  ? "-"
+                  : `${account.closedTrades} · ${Math.round(account.winRate * 100)}% · ${formatR(account.totalR)}`
+              }
+            />
+          </div>
+
+          {chartData.length > 1 && (
+            <Card className="border border-border bg-card shadow-sm">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm">Equity history</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={chartConfig} className="aspect-auto h-56 w-full">
+                  <LineChart data={chartData} margin={{ left: 4, right: 12 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="at" tickLine={false} minTickGap={32} />
+                    <YAxis tickLine={false} width={64} domain={["auto", "auto"]} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Line
+                      dataKey="balance"
+                      type="stepAfter"
+                      stroke="var(--color-balance)"
+                      strokeWidth={1.5}
+                      dot={false}
+                    />
+                    <Line
+                      dataKey="equity"
+                      type="monotone"
+                      stroke="var(--color-equity)"
+                      strokeWidth={2}
+                      dot={false}
+                    />
+                  </LineChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+          )}
+
+          <h3 className="text-sm font-semibold text-slate-100">Open positions and orders</h3>
+          {active.length === 0 ? (
+            <div className="rounded-xl border border-slate-800 bg-slate-900/40 px-4 py-6 text-center text-sm text-slate-400">
+              Nothing working. Orders are placed from the VALID candidates of
+              the next broker cycle.
+            </div>
+          ) : (
+            <div className="rounded-xl border border-slate-800 bg-slate-900/40 px-3 py-3 overflow-x-auto">
+              <table className="w-full text-[13px]">
+                <thead>
+                  <tr className="bg-slate-800 text-slate-50">
+                    <th className="px-2 py-2 text-left font-semibold">Scan</th>
+                    <th className="px-2 py-2 text-left font-semibold">Symbol</th>
+                    <th className="px-2 py-2 text-left font-semibold">Model</th>
+                    <th className="px-2 py-2 text-left font-semibold">Dir</th>
+                    <th className="px-2 py-2 text-right font-semibold">Entry / SL / TP1</th>
+                    <th className="px-2 py-2 text-right font-semibold">Lots</th>
+                    <th className="px-2 py-2 text-right font-semibold">Fill</th>
+                    <th className="px-2 py-2 text-right font-semibold">Last</th>
+                    <th className="px-2 py-2 text-right font-semibold">P&amp;L</th>
+                    <th className="px-2 py-2 text-left font-semibold">Status</th>
+                    <th className="px-2 py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {active.map((order) => (
+                    <tr
+                      key={order.id}
+                      className="border-b border-slate-700 bg-slate-900 text-slate-50"
+                    >
+                      <td className="px-2 py-1.5 text-xs text-slate-300">{order.scanDate}</td>
+                      <td className="px-2 py-1.5 font-semibold text-sky-100">{order.symbol}</td>
+                      <td className="px-2 py-1.5 font-semibold">{order.model}</td>
+                      <td className="px-2 py-1.5">{order.direction}</td>
+                      <td className="px-2 py-1.5 text-right text-xs whitespace-nowrap">
+                        {priceFormatter(order.symbol, order.entry)} /{" "}
+                        {priceFormatter(order.symbol, order.stop)} /{" "}
+                        {priceFormatter(order.symbol, order.tp1)}
+                      </td>
+                      <td className="px-2 py-1.5 text-right">{order.lots}</td>
+                      <td className="px-2 py-1.5 text-right text-xs">
+                        {priceFormatter(order.symbol, order.fillPrice)}
+                      </td>
+                      <td className="px-2 py-1.5 text-right text-xs">
+                        {priceFormatter(order.symbol, order.lastPrice)}
+                      </td>
+                      <td
+                        className={cn(
+                          "px-2 py-1.5 text-right whitespace-nowrap",
+                          pnlClass(order.pnl),
+                        )}
+                      >
+                        {formatMoney(order.pnl, currency)}
+                        <div className="text-[11px]">{formatR(order.rMultiple)}</div>
+                      </td>
+                      <td className="px-2 py-1.5">
+                        <Badge
+                          variant="outline"
+                          className={cn("text-[10px] uppercase", STATUS_CLASSES[order.status])}
+                        >
+                          {order.status}
+                        </Badge>
+                        {order.status === "pending" && order.expiresAt && (
+                          <div className="text-[11px] text-slate-400">
+                            until {formatTimestamp(order.expiresAt)}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-2 py-1.5 text-right whitespace-nowrap">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-7 text-xs text-rose-300"
+                          onClick={() => closeOrder(order)}
+                        >
+                          {order.status === "pending" ? "Cancel" : "Close"}
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <h3 className="text-sm font-semibold text-slate-100">Closed trades</h3>
+          {finished.length === 0 ? (
+            <div className="rounded-xl border border-slate-800 bg-slate-900/40 px-4 py-6 text-center text-sm text-slate-400">
+              No closed trades yet.
+            </div>
+          ) : (
+            <div className="rounded-xl border border-slate-800 bg-slate-900/40 px-3 py-3 overflow-x-auto">
+              <table className="w-full text-[13px]">
+                <thead>
+                  <tr className="bg-slate-800 text-slate-50">
+                    <th className="px-2 py-2 text-left font-semibold">Closed</th>
+                    <th className="px-2 py-2 text-left font-semibold">Symbol</th>
+                    <th className="px-2 py-2 text-left font-semibold">Model</th>
+                    <th className="px-2 py-2 text-left font-semibold">Dir</th>
+                    <th className="px-2 py-2 text-right font-semibold">Lots</th>
+                    <th className="px-2 py-2 text-right font-semibold">Fill</th>
+                    <th className="px-2 py-2 text-right font-semibold">Exit</th>
+                    <th className="px-2 py-2 text-left font-semibold">Reason</th>
+                    <th className="px-2 py-2 text-right font-semibold">P&amp;L</th>
+                    <th className="px-2 py-2 text-right font-semibold">R</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {finished.map((order) => (
+                    <tr
+                      key={order.id}
+                      className={cn(
+                        "border-b border-slate-700 bg-slate-900 text-slate-50",
+                        order.status === "cancelled" && "text-slate-400",
+                      )}
+                    >
+                      <td className="px-2 py-1.5 text-xs text-slate-300">
+                        {formatTimestamp(order.closedAt)}
+                      </td>
+                      <td className="px-2 py-1.5 font-semibold text-sky-100">{order.symbol}</td>
+                      <td className="px-2 py-1.5 font-semibold">{order.model}</td>
+                      <td className="px-2 py-1.5">{order.direction}</td>
+                      <td className="px-2 py-1.5 text-right">{order.lots}</td>
+                      <td className="px-2 py-1.5 text-right text-xs">
+                        {priceFormatter(order.symbol, order.fillPrice)}
+                      </td>
+                      <td className="px-2 py-1.5 text-right text-xs">
+                        {priceFormatter(order.symbol, order.exitPrice)}
+                      </td>
+                      <td className="px-2 py-1.5 text-xs">
+                        {order.status === "cancelled" ? "Cancelled · " : ""}
+                        {order.exitReason ? EXIT_LABELS[order.exitReason] : "-"}
+                      </td>
+                      <td
+                        className={cn(
+                          "px-2 py-1.5 text-right whitespace-nowrap",
+                          order.status === "closed" && pnlClass(order.pnl),
+                        )}
+                      >
+                        {order.status === "closed" ? formatMoney(order.pnl, currency) : "-"}
+                      </td>
+                      <td
+                        className={cn(
+                          "px-2 py-1.5 text-right font-semibold",
+                          order.status === "closed" && pnlClass(order.rMultiple),
+                        )}
+                      >
+                        {order.status === "closed" ? formatR(order.rMultiple) : "-"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
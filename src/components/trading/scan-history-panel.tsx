@@ -0,0 +1,291 @@
+"use client";
+
+import * as React from "react";
+import type { SymbolCode } from "@/lib/trading/types";
+import { isSymbolScanError } from "@/lib/trading/types";
+import type { ScanRunDetail, ScanRunSummary } from "@/lib/trading/scan-history";
+import { diffScans, type ScanDiff } from "@/lib/trading/scan-diff";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+interface ScanHistoryPanelProps {
+  priceFormatter: (symbol: SymbolCode, price: number | null | undefined) => string;
+}
+
+async function fetchRun(id: string): Promise<ScanRunDetail | null> {
+  const res = await fetch(`/api/scans/${encodeURIComponent(id)}`);
+  if (!res.ok) return null;
+  const data = await res.json();
+  return data?.run ?? null;
+}
+
+function formatTimestamp(value: string): string {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+}
+
+function RunDetail({
+  run,
+  priceFormatter,
+}: {
+  run: ScanRunDetail;
+  priceFormatter: ScanHistoryPanelProps["priceFormatter"];
+}) {
+  const entries = Object.entries(run.scan.symbols) as [
+    SymbolCode,
+    NonNullable<ScanRunDetail["scan"]["symbols"][SymbolCode]>,
+  ][];
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-900/40 px-3 py-3 overflow-x-auto">
+      <p className="pb-2 text-xs text-slate-400">
+        Scan of {run.scanDate} · stored {formatTimestamp(run.createdAt)} · quotes:{" "}
+        {run.dataSource}
+      </p>
+      <table className="w-full text-[13px]">
+        <thead>
+          <tr className="bg-slate-800 text-slate-50">
+            <th className="px-2 py-2 text-left font-semibold">Symbol</th>
+            <th className="px-2 py-2 text-left font-semibold">Trend</th>
+            <th className="px-2 py-2 text-left font-semibold">Location</th>
+            <th className="px-2 py-2 text-left font-semibold">Zone</th>
+            <th className="px-2 py-2 text-right font-semibold">Spot</th>
+            <th className="px-2 py-2 text-left font-semibold">Candidates</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map(([symbol, entry]) => (
+            <tr
+              key={symbol}
+              className="border-b border-slate-700 bg-slate-900 text-slate-50"
+            >
+              <td className="px-2 py-1.5 font-semibold text-sky-100">{symbol}</td>
+              {isSymbolScanError(entry) ? (
+                <td colSpan={5} className="px-2 py-1.5 text-rose-200">
+                  {entry.error}
+                </td>
+              ) : (
+                <>
+                  <td className="px-2 py-1.5">
+                    {entry.macroTrend} / {entry.trendDay}
+                  </td>
+                  <td className="px-2 py-1.5">{entry.location}</td>
+                  <td className="px-2 py-1.5">{entry.nearestZone?.status ?? "-"}</td>
+                  <td className="px-2 py-1.5 text-right">
+                    {priceFormatter(symbol, entry.livePrice?.spot ?? entry.lastClose)}
+                  </td>
+                  <td className="px-2 py-1.5">
+                    {entry.trades.length === 0
+                      ? "-"
+                      : entry.trades
+                          .map(
+                            (t) =>
+                              `${t.model} ${t.direction} @ ${priceFormatter(symbol, t.entry)}`,
+                          )
+                          .join(", ")}
+                  </td>
+                </>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function DiffView({
+  diff,
+  priceFormatter,
+}: {
+  diff: ScanDiff;
+  priceFormatter: ScanHistoryPanelProps["priceFormatter"];
+}) {
+  const changed = diff.symbols.filter(
+    (s) =>
+      s.presence !== "both" ||
+      s.changes.length > 0 ||
+      s.addedCandidates.length > 0 ||
+      s.removedCandidates.length > 0,
+  );
+
+  return (
+    <div className="space-y-2 rounded-xl border border-slate-800 bg-slate-900/40 px-3 py-3">
+      <p className="text-xs text-slate-400">
+        Changes from the scan of {diff.beforeDate} to the scan of {diff.afterDate}
+      </p>
+      {changed.length === 0 ? (
+        <p className="text-sm text-slate-300">No differences between the two scans.</p>
+      ) : (
+        changed.map((s) => (
+          <div key={s.symbol} className="rounded-lg border border-slate-800 bg-slate-900 px-3 py-2 text-xs">
+            <div className="flex items-center gap-2 pb-1">
+              <span className="text-sm font-semibold text-sky-100">{s.symbol}</span>
+              {s.presence !== "both" && (
+                <Badge variant="outline" className="text-[10px] uppercase">
+                  {s.presence === "added" ? "only in newer scan" : "only in older scan"}
+                </Badge>
+              )}
+            </div>
+            {s.changes.map((c) => (
+              <p key={c.field} className="text-slate-300">
+                {c.field}: <span className="text-rose-300">{c.before ?? "-"}</span> →{" "}
+                <span className="text-emerald-300">{c.after ?? "-"}</span>
+              </p>
+            ))}
+            {s.addedCandidates.map((t, idx) => (
+              <p key={`add-${idx}`} className="text-emerald-300">
+                + {t.model} {t.direction} @ {priceFormatter(s.symbol, t.entry)} (SL{" "}
+                {priceFormatter(s.symbol, t.stop)}, TP1 {priceFormatter(s.symbol, t.tp1)})
+              </p>
+            ))}
+            {s.removedCandidates.map((t, idx) => (
+              <p key={`rm-${idx}`} className="text-rose-300">
+                − {t.model} {t.direction} @ {priceFormatter(s.symbol, t.entry)} (SL{" "}
+                {priceFormatter(s.symbol, t.stop)}, TP1 {priceFormatter(s.symbol, t.tp1)})
+              </p>
+            ))}
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
+export function ScanHistoryPanel({ priceFormatter }: ScanHistoryPanelProps) {
+  const [runs, setRuns] = React.useState<ScanRunSummary[]>([]);
+  const [loading, setLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [selected, setSelected] = React.useState<string[]>([]);
+  const [detail, setDetail] = React.useState<ScanRunDetail | null>(null);
+  const [diff, setDiff] = React.useState<ScanDiff | null>(null);
+
+  async function loadRuns() {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/scans?limit=100");
+      const data = await res.json();
+      if (!res.ok || !Array.isArray(data?.runs)) {
+        setError("Could not load scan history.");
+        return;
+      }
+      setRuns(data.runs);
+    } catch (err) {
+      console.error("Error loading scan history:", err);
+      setError("Could not load scan history.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  React.useEffect(() => {
+    loadRuns();
+  }, []);
+
+  async function openRun(id: string) {
+    setDiff(null);
+    setDetail(await fetchRun(id));
+  }
+
+  async function compareSelected() {
+    if (selected.length !== 2) return;
+    const [a, b] = await Promise.all(selected.map(fetchRun));
+    if (!a || !b) {
+      setError("Could not load the selected scans.");
+      return;
+    }
+    // Always diff older → newer
+    const [older, newer] = a.createdAt <= b.createdAt ? [a, b] : [b, a];
+    setDetail(null);
+    setDiff(diffScans(older.scan, newer.scan));
+  }
+
+  const toggleSelected = (id: string) =>
+    setSelected((prev) =>
+      prev.includes(id)
+        ? prev.filter((x) => x !== id)
+        : [...prev.slice(-1), id],
+    );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Button size="sm" variant="outline" disabled={loading} onClick={loadRuns}>
+          {loading ? "Loading…" : "Refresh"}
+        </Button>
+        <Button
+          size="sm"
+          disabled={selected.length !== 2}
+          onClick={compareSelected}
+          className="bg-emerald-500 hover:bg-emerald-600 text-slate-950"
+        >
+          Compare selected
+        </Button>
+        <span className="text-[11px] text-slate-400">Select two runs to diff them.</span>
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-red-700 bg-red-900/40 px-4 py-3 text-sm text-red-100">
+          {error}
+        </div>
+      )}
+
+      {runs.length === 0 && !loading ? (
+        <div className="rounded-xl border border-slate-800 bg-slate-900/40 px-4 py-8 text-center text-sm text-slate-400">
+          No stored scans yet. Every scan you run is recorded here.
+        </div>
+      ) : (
+        <div className="rounded-xl border border-slate-800 bg-slate-900/40 px-3 py-3 overflow-x-auto">
+          <table className="w-full text-[13px]">
+            <thead>
+              <tr className="bg-slate-800 text-slate-50">
+                <th className="px-2 py-2" />
+                <th className="px-2 py-2 text-left font-semibold">Stored</th>
+                <th className="px-2 py-2 text-left font-semibold">As of</th>
+                <th className="px-2 py-2 text-left font-semibold">Symbols</th>
+                <th className="px-2 py-2 text-right font-semibold">Candidates</th>
+                <th className="px-2 py-2 text-left font-semibold">Quotes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {runs.map((run) => (
+                <tr
+                  key={run.id}
+                  className={cn(
+                    "cursor-pointer border-b border-slate-700 bg-slate-900 text-slate-50 hover:bg-slate-800",
+                    detail?.id === run.id && "bg-slate-800",
+                  )}
+                  onClick={() => openRun(run.id)}
+                >
+                  <td className="px-2 py-1.5" onClick={(e) => e.stopPropagation()}>
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(run.id)}
+                      onChange={() => toggleSelected(run.id)}
+                      aria-label={`Select scan ${run.id}`}
+                    />
+                  </td>
+                  <td className="px-2 py-1.5">{formatTimestamp(run.createdAt)}</td>
+                  <td className="px-2 py-1.5">{run.scanDate}</td>
+                  <td className="px-2 py-1.5">{run.symbols.join(", ")}</td>
+                  <td className="px-2 py-1.5 text-right">
+                    {run.candidateCount}
+                    {run.errorCount > 0 && (
+                      <span className="ml-1 text-rose-300">({run.errorCount} err)</span>
+                    )}
+                  </td>
+                  <td className="px-2 py-1.5">{run.dataSource}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {detail && <RunDetail run={detail} priceFormatter={priceFormatter} />}
+      {diff && <DiffView diff={diff} priceFormatter={priceFormatter} />}
+    </div>
+  );
+}
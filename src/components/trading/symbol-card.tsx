@@ -2,6 +2,13 @@
 
 import * as React from "react";
 import type { SymbolCardProps } from "@/types/trading";
+import type { EventImpact, SessionWindow } from "@/lib/trading/types";
+import {
+  MACRO_TREND_CLASSIFIER_LABELS,
+  TRADING_SESSION_LABELS,
+  ZONE_SCORE_COMPONENT_LABELS,
+  ZONE_SCORE_COMPONENTS,
+} from "@/lib/trading/types";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
@@ -44,6 +51,31 @@ const LOCATION_STYLE: Record<SymbolCardProps["nearestZone"]["label"], string> =
   FAR: "bg-slate-700 text-slate-50",
 };
 
+const IMPACT_STYLES: Record<EventImpact, string> = {
+  high: "border-rose-500/60 text-rose-200",
+  medium: "border-amber-500/60 text-amber-200",
+  low: "border-slate-600 text-slate-300",
+};
+
+/** "Fri 12:30 UTC" */
+function formatEventTime(iso: string): string {
+  const at = new Date(iso);
+  const weekday = at.toLocaleDateString("en-GB", { weekday: "short", timeZone: "UTC" });
+  return `${weekday} ${iso.slice(11, 16)} UTC`;
+}
+
+const SESSION_STATUS_STYLES: Record<SessionWindow["status"], string> = {
+  open: "border-emerald-500/60 text-emerald-200",
+  upcoming: "border-slate-600 text-slate-300",
+  closed: "border-slate-700 text-slate-500",
+};
+
+/** "8h 05m" */
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  return `${hours}h ${String(minutes % 60).padStart(2, "0")}m`;
+}
+
 const MACRO_TREND_BADGE: Record<SymbolCardProps["macroTrend"], string> = {
   bull: "border-emerald-500/70 bg-emerald-500/15 text-emerald-300",
   bear: "border-rose-500/70 bg-rose-500/15 text-rose-300",
@@ -67,6 +99,11 @@ export function SymbolCard(props: SymbolCardProps) {
     sweetspotState,
     fallbackClose,
     candidateDiagnostics,
+    dataSource,
+    timeframe = "D1",
+    dailyStructure,
+    news,
+    sessionContext,
     priceFormatter,
     children,
     defaultCollapsed,
@@ -90,10 +127,28 @@ export function SymbolCard(props: SymbolCardProps) {
   const totalTrendDays = macroDiagnostics?.totalTrendDays ?? 0;
   const dominanceThreshold = macroDiagnostics?.dominanceThreshold ?? 0;
   const lookback = macroDiagnostics?.lookback ?? 0;
+  const formatScore = (value: number) => `${value >= 0 ? "+" : ""}${value.toFixed(2)}`;
+  // Scans stored before the thresholds were configurable lack them
   const thresholdDescription =
-    dominanceThreshold > 0 && totalTrendDays > 0
-      ? `${dominanceThreshold}+ of ${totalTrendDays}`
-      : "a 60% majority of the counted";
+    macroDiagnostics?.classifier && macroDiagnostics.classifier !== "breakout"
+      ? `${MACRO_TREND_CLASSIFIER_LABELS[macroDiagnostics.classifier]} score: ${formatScore(
+          macroDiagnostics.score ?? 0,
+        )} (${macroDiagnostics.detail}). Bull at ${formatScore(
+          macroDiagnostics.bullThreshold ?? 0,
+        )} or more, Bear at ${formatScore(macroDiagnostics.bearThreshold ?? 0)} or less.`
+      : macroDiagnostics?.bullThreshold != null && macroDiagnostics.bearThreshold != null
+      ? `Score (bull - bear days) / ${
+          macroDiagnostics.dominance === "trend_days" ? "trend days" : "sessions"
+        }: ${formatScore(macroDiagnostics.score ?? 0)}. Bull at ${formatScore(
+          macroDiagnostics.bullThreshold,
+        )} or more, Bear at ${formatScore(macroDiagnostics.bearThreshold)} or less${
+          dominanceThreshold > 0 ? ` (a lead of ${dominanceThreshold} days)` : ""
+        }.`
+      : `Needs ${
+          dominanceThreshold > 0 && totalTrendDays > 0
+            ? `${dominanceThreshold}+ of ${totalTrendDays}`
+            : "a 60% majority of the counted"
+        } breakout days to call Bull/Bear.`;
   const lookbackDescription = lookback > 0 ? `last ${lookback} sessions` : "recent sessions";
   const rangeReason =
     macroTrend === "range"
@@ -106,14 +161,57 @@ export function SymbolCard(props: SymbolCardProps) {
         ? "destructive"
         : "outline";
 
+  const isSynthetic = dataSource?.provider === "synthetic";
+  const dataWarning =
+    dataSource && (isSynthetic || dataSource.stale) ? (
+      <div
+        role="alert"
+        className={cn(
+          "rounded-lg border px-3 py-2 text-xs",
+          isSynthetic
+            ? "border-rose-600 bg-rose-900/50 text-rose-100"
+            : "border-amber-600 bg-amber-900/40 text-amber-100",
+        )}
+      >
+        {isSynthetic
+          ? "Synthetic demo data – zones and candidates below are not based on real prices."
+          : `Stale data – last ${timeframe === "D1" ? "daily" : timeframe} bar is ${dataSource.lastDate} (${dataSource.ageDays} days before the scan date).`}
+      </div>
+    ) : null;
+
+  const zoneBreakdown = nearestZone.scoreBreakdown;
   const nearestZoneSection = (
     <section className="rounded-xl bg-slate-900/70 px-3 py-2">
       <div className="flex items-center justify-between gap-2">
         <div className="flex items-center gap-2">
           <span className="text-[11px] uppercase tracking-wide text-slate-400">Nearest zone</span>
-          <Badge className={cn("text-[10px] font-semibold", LOCATION_STYLE[nearestZone.label])}>
-            {nearestZone.label}
-          </Badge>
+          {zoneBreakdown ? (
+            <Tooltip delayDuration={0}>
+              <TooltipTrigger asChild>
+                <Badge className={cn("text-[10px] font-semibold", LOCATION_STYLE[nearestZone.label])}>
+                  {nearestZone.label}
+                </Badge>
+              </TooltipTrigger>
+              <TooltipContent className="max-w-xs space-y-1 text-left text-[11px]">
+                <p className="font-semibold text-slate-100">
+                  Zone score: {(nearestZone.score ?? 0).toFixed(2)}
+                </p>
+                {ZONE_SCORE_COMPONENTS.map((component) => (
+                  <p key={component} className="flex justify-between gap-4 text-slate-200">
+                    <span>{ZONE_SCORE_COMPONENT_LABELS[component]}</span>
+                    <span className="tabular-nums">
+                      {zoneBreakdown[component].toFixed(2)}
+                    </span>
+                  </p>
+                ))}
+                <p className="text-slate-400">Each component times its weight (Settings → Zone scoring).</p>
+              </TooltipContent>
+            </Tooltip>
+          ) : (
+            <Badge className={cn("text-[10px] font-semibold", LOCATION_STYLE[nearestZone.label])}>
+              {nearestZone.label}
+            </Badge>
+          )}
         </div>
         <span className="text-xs text-slate-300">
           {formatPrice(nearestZone.distancePoints)} pts · {nearestZone.distancePercent.toFixed(2)}%
@@ -122,6 +220,80 @@ export function SymbolCard(props: SymbolCardProps) {
     </section>
   );
 
+  const activeEvent = news?.active[0];
+  const newsSection =
+    news && news.upcoming.length > 0 ? (
+      <section className="rounded-xl bg-slate-900/70 px-3 py-2">
+        <span className="text-[11px] uppercase tracking-wide text-slate-400">Upcoming news</span>
+        {activeEvent && news.mode !== "off" && (
+          <p
+            className={cn(
+              "mt-1 rounded-md border px-2 py-1 text-[11px]",
+              news.blocked
+                ? "border-rose-600 bg-rose-900/40 text-rose-100"
+                : "border-amber-600 bg-amber-900/30 text-amber-100",
+            )}
+          >
+            {activeEvent.currency} {activeEvent.title} at {formatEventTime(activeEvent.time)} –{" "}
+            {news.blocked ? "candidates are blocked" : "candidates are flagged"}.
+          </p>
+        )}
+        <ul className="mt-1 space-y-0.5 text-xs text-slate-300">
+          {news.upcoming.slice(0, 4).map((event) => (
+            <li key={event.id} className="flex items-center justify-between gap-2">
+              <span className="truncate">
+                <span className="font-semibold text-slate-100">{event.currency}</span> {event.title}
+              </span>
+              <span className="flex shrink-0 items-center gap-1.5">
+                <span className="tabular-nums text-slate-400">{formatEventTime(event.time)}</span>
+                <Badge
+                  variant="outline"
+                  className={cn("text-[10px] uppercase tracking-wide", IMPACT_STYLES[event.impact])}
+                >
+                  {event.impact}
+                </Badge>
+              </span>
+            </li>
+          ))}
+        </ul>
+      </section>
+    ) : null;
+
+  const sessionSection = sessionContext ? (
+    <section className="rounded-xl bg-slate-900/70 px-3 py-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-[11px] uppercase tracking-wide text-slate-400">Sessions</span>
+        <span
+          className="text-xs text-slate-300"
+          title={`Broker server time UTC${sessionContext.serverUtcOffset >= 0 ? "+" : ""}${sessionContext.serverUtcOffset}`}
+        >
+          Daily close in {formatDuration(sessionContext.minutesToDailyClose)}
+        </span>
+      </div>
+      <div className="mt-1 grid grid-cols-3 gap-1.5 text-[11px]">
+        {sessionContext.sessions.map((window) => (
+          <div
+            key={window.session}
+            title={`${window.start.slice(11, 16)}–${window.end.slice(11, 16)} UTC`}
+            className={cn("rounded-md border px-1.5 py-1", SESSION_STATUS_STYLES[window.status])}
+          >
+            <p className="font-semibold">{TRADING_SESSION_LABELS[window.session]}</p>
+            <p className="tabular-nums text-slate-400">
+              {window.high != null && window.low != null
+                ? `${formatPrice(window.low)} – ${formatPrice(window.high)}`
+                : window.status}
+            </p>
+          </div>
+        ))}
+      </div>
+      {sessionContext.allowed === false && (
+        <p className="mt-1 text-[11px] text-amber-300">
+          Outside the allowed sessions; candidates are filtered.
+        </p>
+      )}
+    </section>
+  ) : null;
+
   const pullbackSection = (showDetails: boolean) => (
     <section className="rounded-xl bg-slate-900/70 px-3 py-2">
       <PullbackDepthBlock
@@ -143,6 +315,7 @@ export function SymbolCard(props: SymbolCardProps) {
         "relative flex h-full flex-col gap-4 rounded-2xl border border-slate-800 bg-slate-950/60 p-4 shadow-sm transition-colors",
         "text-slate-100",
         isCandidate && "border-emerald-500/60",
+        isSynthetic && "border-rose-600",
       )}
     >
       <CardHeader className="flex flex-row items-start justify-between space-y-0 p-0">
@@ -155,7 +328,18 @@ export function SymbolCard(props: SymbolCardProps) {
             >
               {CANDIDATE_LABEL[candidateStatus]}
             </Badge>
+            {timeframe !== "D1" && (
+              <Badge variant="outline" className="text-[10px] uppercase tracking-wide">
+                {timeframe}
+              </Badge>
+            )}
           </div>
+          {dailyStructure && (
+            <p className="text-[11px] text-slate-400">
+              Daily: {dailyStructure.macroTrend} / {dailyStructure.trendDay} ·{" "}
+              {dailyStructure.location} · {dailyStructure.zones.length} zones
+            </p>
+          )}
 
           <p className="text-xs text-slate-400">
             <div className="flex flex-wrap items-center gap-2 text-xs">
@@ -180,7 +364,7 @@ export function SymbolCard(props: SymbolCardProps) {
                       Bullish trend days: {bullDays} · Bearish trend days: {bearDays}
                     </p>
                     <p className="text-slate-400">
-                      Uses the {lookbackDescription}. Needs {thresholdDescription} breakout days to call Bull/Bear.
+                      Uses the {lookbackDescription}. {thresholdDescription}
                       {" "}
                       {rangeReason}
                     </p>
@@ -253,15 +437,34 @@ export function SymbolCard(props: SymbolCardProps) {
               >
                 {livePriceSource} price
               </Badge>
+              {dataSource && (
+                <Badge
+                  variant="outline"
+                  title={`${dataSource.bars} ${timeframe} bars, ${dataSource.firstDate} → ${dataSource.lastDate}`}
+                  className={cn(
+                    "text-[10px] uppercase tracking-wide",
+                    isSynthetic
+                      ? "border-rose-500/60 text-rose-200"
+                      : dataSource.stale
+                        ? "border-amber-500/60 text-amber-200"
+                        : "border-slate-600 text-slate-300",
+                  )}
+                >
+                  {dataSource.provider} bars
+                </Badge>
+              )}
             </div>
           </div>
         </div>
       </CardHeader>
 
       <CardContent className="flex flex-1 flex-col gap-4 p-0">
+        {dataWarning}
         {collapsed ? (
           <>
             {nearestZoneSection}
+            {sessionSection}
+            {newsSection}
             {pullbackSection(false)}
             {sweetspotSection()}
             {candidateStatus === "none" ? (
@@ -271,6 +474,8 @@ export function SymbolCard(props: SymbolCardProps) {
         ) : (
           <>
             {nearestZoneSection}
+            {sessionSection}
+            {newsSection}
             {sweetspotSection()}
             {pullbackSection(true)}
 
@@ -0,0 +1,218 @@
+"use client";
+
+import * as React from "react";
+import type {
+  SymbolCode,
+  Timeframe,
+  TrackedZone,
+  ZoneState,
+} from "@/lib/trading/types";
+import { TIMEFRAMES, ZONE_STATES } from "@/lib/trading/types";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+interface ZonesPanelProps {
+  symbols: SymbolCode[];
+  priceFormatter: (symbol: SymbolCode, price: number | null | undefined) => string;
+}
+
+const STATE_CLASSES: Record<ZoneState, string> = {
+  fresh: "border-emerald-500/60 text-emerald-200",
+  tested: "border-sky-500/60 text-sky-200",
+  broken: "border-rose-500/60 text-rose-200",
+  flipped: "border-amber-500/60 text-amber-200",
+};
+
+const EVENT_LABELS: Record<TrackedZone["history"][number]["kind"], string> = {
+  formed: "Formed",
+  tested: "Tested",
+  broken: "Broken",
+  flipped: "Flipped",
+};
+
+export function ZonesPanel({ symbols, priceFormatter }: ZonesPanelProps) {
+  const [zones, setZones] = React.useState<TrackedZone[]>([]);
+  const [symbol, setSymbol] = React.useState<SymbolCode | "all">("all");
+  const [timeframe, setTimeframe] = React.useState<Timeframe>("D1");
+  const [stateFilter, setStateFilter] = React.useState<ZoneState | "all">("all");
+  const [expanded, setExpanded] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const load = React.useCallback(async () => {
+    setError(null);
+    const params = new URLSearchParams({ timeframe });
+    if (symbol !== "all") params.set("symbols", symbol);
+
+    try {
+      const res = await fetch(`/api/zones?${params}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setError("Could not load the zones.");
+        return;
+      }
+      setZones(data.zones ?? []);
+    } catch (err) {
+      console.error("Error loading zones:", err);
+      setError("Could not load the zones.");
+    }
+  }, [symbol, timeframe]);
+
+  React.useEffect(() => {
+    load();
+  }, [load]);
+
+  const filtered = zones.filter(
+    (zone) => stateFilter === "all" || zone.state === stateFilter,
+  );
+
+  const selectClass =
+    "rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-xs text-slate-100";
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-2 text-xs text-slate-300">
+          <span>Symbol</span>
+          <select
+            value={symbol}
+            onChange={(e) => setSymbol(e.target.value as SymbolCode | "all")}
+            className={selectClass}
+          >
+            <option value="all">All</option>
+            {symbols.map((s) => (
+              <option key={s} value={s}>
+                {s}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-xs text-slate-300">
+          <span>Timeframe</span>
+          <select
+            value={timeframe}
+            onChange={(e) => setTimeframe(e.target.value as Timeframe)}
+            className={selectClass}
+          >
+            {TIMEFRAMES.map((tf) => (
+              <option key={tf} value={tf}>
+                {tf}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-xs text-slate-300">
+          <span>State</span>
+          <select
+            value={stateFilter}
+            onChange={(e) => setStateFilter(e.target.value as ZoneState | "all")}
+            className={selectClass}
+          >
+            <option value="all">All</option>
+            {ZONE_STATES.map((state) => (
+              <option key={state} value={state}>
+                {state}
+              </option>
+            ))}
+          </select>
+        </label>
+        <span className="ml-auto text-xs text-slate-400">
+          {filtered.length} zone(s)
+        </span>
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-red-700 bg-red-900/40 px-4 py-3 text-sm text-red-100">
+          {error}
+        </div>
+      )}
+
+      {filtered.length === 0 ? (
+        <div className="rounded-xl border border-slate-800 bg-slate-900/40 px-4 py-8 text-center text-sm text-slate-400">
+          No tracked zones yet. Zones are followed from scans of the latest
+          session.
+        </div>
+      ) : (
+        <div className="rounded-xl border border-slate-800 bg-slate-900/40 px-3 py-3 overflow-x-auto">
+          <table className="w-full text-[13px]">
+            <thead>
+              <tr className="bg-slate-800 text-slate-50">
+                <th className="px-2 py-2 text-left font-semibold">Symbol</th>
+                <th className="px-2 py-2 text-right font-semibold">Zone</th>
+                <th className="px-2 py-2 text-left font-semibold">Role</th>
+                <th className="px-2 py-2 text-left font-semibold">State</th>
+                <th className="px-2 py-2 text-right font-semibold">Touches</th>
+                <th className="px-2 py-2 text-left font-semibold">Formed</th>
+                <th className="px-2 py-2 text-left font-semibold">Last tested</th>
+                <th className="px-2 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {filtered.map((zone) => (
+                <React.Fragment key={zone.id}>
+                  <tr className="border-b border-slate-700 bg-slate-900 text-slate-50">
+                    <td className="px-2 py-1.5 font-semibold text-sky-100">
+                      {zone.symbol}
+                    </td>
+                    <td className="px-2 py-1.5 text-right whitespace-nowrap">
+                      {priceFormatter(zone.symbol, zone.zone_low)} –{" "}
+                      {priceFormatter(zone.symbol, zone.zone_high)}
+                    </td>
+                    <td className="px-2 py-1.5">{zone.role}</td>
+                    <td className="px-2 py-1.5">
+                      <Badge
+                        variant="outline"
+                        className={cn(
+                          "text-[10px] uppercase tracking-wide",
+                          STATE_CLASSES[zone.state],
+                        )}
+                      >
+                        {zone.state}
+                      </Badge>
+                    </td>
+                    <td className="px-2 py-1.5 text-right">{zone.touches}</td>
+                    <td className="px-2 py-1.5 text-xs text-slate-300">
+                      {zone.firstFormed}
+                    </td>
+                    <td className="px-2 py-1.5 text-xs text-slate-300">
+                      {zone.lastTested ?? "-"}
+                    </td>
+                    <td className="px-2 py-1.5 text-right">
+                      <button
+                        type="button"
+                        className="text-xs text-emerald-300 hover:underline"
+                        onClick={() =>
+                          setExpanded((prev) => (prev === zone.id ? null : zone.id))
+                        }
+                      >
+                        {expanded === zone.id ? "Hide history" : "History"}
+                      </button>
+                    </td>
+                  </tr>
+                  {expanded === zone.id && (
+                    <tr className="border-b border-slate-700 bg-slate-950/60">
+                      <td colSpan={8} className="px-3 py-2">
+                        <ol className="flex flex-wrap gap-2 text-[11px] text-slate-300">
+                          {zone.history.map((event, i) => (
+                            <li
+                              key={`${event.date}-${i}`}
+                              className="rounded border border-slate-700 px-2 py-0.5"
+                            >
+                              <span className="font-semibold">
+                                {EVENT_LABELS[event.kind]}
+                              </span>{" "}
+                              {event.date}
+                            </li>
+                          ))}
+                        </ol>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
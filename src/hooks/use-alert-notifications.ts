@@ -0,0 +1,57 @@
+import * as React from "react"
+import { toast } from "@/hooks/use-toast"
+import type { AlertEventRecord } from "@/lib/trading/alert-store"
+
+const POLL_INTERVAL_MS = 30_000
+
+/**
+ * Poll for unread alerts fired since the page was opened and show each one
+ * routed to the in-app channel as a toast, then mark it read. Events whose
+ * delivery is still in flight stay unread and are picked up on the next poll.
+ */
+export function useAlertNotifications(enabled = true) {
+  const shownRef = React.useRef(new Set<string>())
+
+  React.useEffect(() => {
+    if (!enabled) return
+
+    const since = new Date().toISOString()
+    let cancelled = false
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const poll = async () => {
+      try {
+        const params = new URLSearchParams({ since, unread: "true" })
+        const res = await fetch(`/api/alerts/events?${params}`)
+        if (res.ok) {
+          const data: { events: AlertEventRecord[] } = await res.json()
+          const fresh = data.events.filter(
+            (event) => event.delivery.in_app && !shownRef.current.has(event.id)
+          )
+
+          for (const event of fresh.reverse()) {
+            shownRef.current.add(event.id)
+            toast({ title: `${event.symbol} alert`, description: event.message })
+          }
+
+          if (fresh.length > 0) {
+            await fetch("/api/alerts/events", {
+              method: "PATCH",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ ids: fresh.map((event) => event.id) }),
+            })
+          }
+        }
+      } catch (err) {
+        console.error("Error polling alerts:", err)
+      }
+      if (!cancelled) timer = setTimeout(poll, POLL_INTERVAL_MS)
+    }
+
+    timer = setTimeout(poll, POLL_INTERVAL_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [enabled])
+}
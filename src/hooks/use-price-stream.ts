@@ -0,0 +1,70 @@
+import * as React from "react"
+import { io, type Socket } from "socket.io-client"
+import {
+  PRICE_STREAM_PATH,
+  PRICE_STREAM_PORT,
+  type PriceStreamClientEvents,
+  type PriceStreamServerEvents,
+  type PriceTick,
+} from "@/lib/trading/price-stream"
+import type { SymbolCode } from "@/lib/trading/types"
+
+type PriceStreamSocket = Socket<PriceStreamServerEvents, PriceStreamClientEvents>
+
+/**
+ * Subscribe to the price stream for `symbols` and call `onTick` for every
+ * quote pushed. Nothing is opened while `enabled` is false or the list is
+ * empty. Returns whether the socket is currently connected.
+ */
+export function usePriceStream(
+  symbols: SymbolCode[],
+  onTick: (tick: PriceTick) => void,
+  enabled = true
+) {
+  const [connected, setConnected] = React.useState(false)
+  const socketRef = React.useRef<PriceStreamSocket | null>(null)
+  const onTickRef = React.useRef(onTick)
+  onTickRef.current = onTick
+
+  const active = enabled && symbols.length > 0
+  const symbolsKey = symbols.join(",")
+
+  React.useEffect(() => {
+    if (!active) return
+
+    // Never put the port in the URL; the gateway routes on XTransformPort
+    const socket: PriceStreamSocket = io(`/?XTransformPort=${PRICE_STREAM_PORT}`, {
+      path: PRICE_STREAM_PATH,
+      transports: ["websocket", "polling"],
+      reconnection: true,
+      reconnectionDelay: 1000,
+      timeout: 10000,
+    })
+    socketRef.current = socket
+
+    socket.on("connect", () => setConnected(true))
+    socket.on("disconnect", () => setConnected(false))
+    socket.on("tick", (tick) => onTickRef.current(tick))
+
+    return () => {
+      socket.disconnect()
+      socketRef.current = null
+      setConnected(false)
+    }
+  }, [active])
+
+  // (Re)subscribe on connect and whenever the symbol list changes
+  React.useEffect(() => {
+    const socket = socketRef.current
+    if (!socket) return
+
+    const subscribe = () => socket.emit("subscribe", { symbols: symbolsKey.split(",") })
+    if (socket.connected) subscribe()
+    socket.on("connect", subscribe)
+    return () => {
+      socket.off("connect", subscribe)
+    }
+  }, [active, symbolsKey])
+
+  return connected
+}
@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  deliverAlert,
+  registerAlertChannel,
+  resetAlertChannels,
+} from "../alert-channels";
+import { alertRuleSchema, evaluateAlertRule, type AlertRule } from "../alerts";
+import { scanSymbol } from "../engine";
+import { applyPriceTick } from "../price-stream";
+import type { TradeCandidate } from "../types";
+
+const baseRule: AlertRule = {
+  id: "rule-1",
+  symbol: "EURUSD",
+  condition: "zone_status",
+  value: "AT_ZONE",
+  channels: ["in_app"],
+  enabled: true,
+};
+
+test("alert rules match zone status, sweet spot and VALID Model D candidates", async () => {
+  const result = await scanSymbol("EURUSD", { date: "2025-06-13" });
+  const zone = result.zones[0];
+  assert.ok(zone, "expected at least one structural zone");
+
+  const atZone = applyPriceTick(result, {
+    symbol: "EURUSD",
+    spot: zone.zone_mid,
+    at: "2025-06-13T12:00:00Z",
+  });
+
+  const [trigger] = evaluateAlertRule(baseRule, atZone, "2025-06-13");
+  assert.equal(trigger.eventKey, "zone_status:AT_ZONE");
+  assert.equal(trigger.session, "2025-06-13");
+  assert.match(trigger.message, /EURUSD nearest zone is AT_ZONE/);
+
+  const inSweetSpot = { ...baseRule, condition: "sweetspot_state" as const, value: "currently_in" };
+  assert.equal(evaluateAlertRule(inSweetSpot, atZone, "2025-06-13").length, 1);
+
+  // Disabled rules, other symbols and non-matching values never fire
+  assert.deepEqual(evaluateAlertRule({ ...baseRule, enabled: false }, atZone, "2025-06-13"), []);
+  assert.deepEqual(evaluateAlertRule({ ...baseRule, symbol: "XAUUSD" }, atZone, "2025-06-13"), []);
+  assert.deepEqual(evaluateAlertRule({ ...baseRule, value: "FAR" }, atZone, "2025-06-13"), []);
+
+  const candidate: TradeCandidate = {
+    model: "D",
+    direction: "Long",
+    entry: zone.zone_mid,
+    stop: zone.zone_low,
+    tp1: zone.zone_high + 0.01,
+    risk_price: zone.zone_mid - zone.zone_low,
+    reward_price: zone.zone_high + 0.01 - zone.zone_mid,
+    rr: 2.5,
+    status: "VALID",
+  };
+  const withTrades = {
+    ...atZone,
+    trades: [candidate, { ...candidate, status: "FILTERED" as const }],
+  };
+  const modelD = { ...baseRule, condition: "model_d_valid" as const, value: null };
+  const triggers = evaluateAlertRule(modelD, withTrades, "2025-06-13");
+  assert.equal(triggers.length, 1);
+  assert.equal(triggers[0].eventKey, `model_d:Long:${zone.zone_mid}`);
+});
+
+test("alert rule values are validated against the condition", () => {
+  assert.ok(alertRuleSchema.safeParse({ symbol: "EURUSD", condition: "pullback_bucket", value: "0.5-0.618" }).success);
+  assert.ok(alertRuleSchema.safeParse({ symbol: "EURUSD", condition: "model_d_valid" }).success);
+
+  const badValue = alertRuleSchema.safeParse({ symbol: "EURUSD", condition: "zone_status", value: "CLOSE" });
+  assert.equal(badValue.success, false);
+  const extraValue = alertRuleSchema.safeParse({ symbol: "EURUSD", condition: "model_d_valid", value: "x" });
+  assert.equal(extraValue.success, false);
+  const noChannels = alertRuleSchema.safeParse({
+    symbol: "EURUSD",
+    condition: "zone_status",
+    value: "NEAR",
+    channels: [],
+  });
+  assert.equal(noChannels.success, false);
+});
+
+test("a failing channel does not stop delivery to the others", async () => {
+  registerAlertChannel({
+    kind: "webhook",
+    async deliver() {
+      throw new Error("endpoint down");
+    },
+  });
+  try {
+    const outcome = await deliverAlert(
+      {
+        ruleId: "rule-1",
+        symbol: "EURUSD",
+        condition: "zone_status",
+        session: "2025-06-13",
+        eventKey: "zone_status:AT_ZONE",
+        message: "EURUSD nearest zone is AT_ZONE",
+        eventId: "event-1",
+        firedAt: "2025-06-13T12:00:00Z",
+      },
+      ["in_app", "webhook"],
+    );
+    assert.deepEqual(outcome, { in_app: "sent", webhook: "endpoint down" });
+  } finally {
+    resetAlertChannels();
+  }
+});
@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  dimensionValue,
+  groupPerformance,
+  summarizePerformance,
+} from "../analytics";
+import { runBacktestOnBars, type BacktestTrade } from "../backtest";
+import { generateSyntheticData } from "../data-provider";
+
+function trade(
+  exitDate: string,
+  rMultiple: number,
+  overrides: Partial<BacktestTrade> = {},
+): BacktestTrade {
+  return {
+    symbol: "EURUSD",
+    model: "A",
+    direction: "Long",
+    signalDate: exitDate,
+    entryDate: exitDate,
+    exitDate,
+    entry: 1.1,
+    stop: 1.09,
+    tp1: 1.12,
+    exitPrice: 1.1,
+    outcome: rMultiple > 0 ? "TARGET" : "STOP",
+    rMultiple,
+    ambiguous: false,
+    barsHeld: 1,
+    ...overrides,
+  };
+}
+
+test("summary reports win rate, average R, profit factor and drawdown in exit order", () => {
+  const stats = summarizePerformance("ALL", [
+    trade("2025-01-03", -1),
+    trade("2025-01-01", 2),
+    trade("2025-01-02", -1),
+    trade("2025-01-04", 2),
+    trade("2025-01-05", 0, { outcome: "EXPIRED", exitDate: null }),
+  ]);
+
+  assert.equal(stats.trades, 4);
+  assert.equal(stats.winRate, 0.5);
+  assert.equal(stats.avgR, 0.5);
+  assert.equal(stats.profitFactor, 2);
+  assert.equal(stats.maxDrawdownR, 2);
+  assert.deepEqual(
+    stats.equity.map((p) => p.equityR),
+    [2, 1, 0, 2],
+  );
+  assert.equal(summarizePerformance("none", [trade("2025-01-01", 1)]).profitFactor, null);
+});
+
+test("trades group by their signal-session context", () => {
+  const context = {
+    scenario: "Bull|Bull|Aligned",
+    location: "Discount" as const,
+    nearestZoneStatus: null,
+    sweetspotState: null,
+  };
+  const trades = [
+    trade("2025-01-01", 2, { context }),
+    trade("2025-01-02", -1, { context }),
+    trade("2025-01-03", -1, { model: "B" }),
+  ];
+
+  const byScenario = groupPerformance(trades, "scenario");
+  assert.deepEqual(
+    byScenario.map((s) => [s.key, s.trades, s.totalR]),
+    [
+      ["Bull|Bull|Aligned", 2, 1],
+      ["n/a", 1, -1],
+    ],
+  );
+  assert.equal(dimensionValue(trades[2], "model"), "B");
+  assert.equal(dimensionValue(trades[0], "nearestZoneStatus"), "n/a");
+});
+
+test("walk-forward replay records the scenario context of every candidate", () => {
+  const bars = generateSyntheticData("EURUSD", "2025-06-30");
+  const report = runBacktestOnBars("EURUSD", bars);
+
+  assert.ok(report.trades.length > 0);
+  for (const t of report.trades) {
+    assert.ok(t.context, `${t.signalDate} ${t.model} has no context`);
+    assert.equal(typeof t.context.location, "string");
+  }
+});
@@ -0,0 +1,160 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  resolveBacktestSettings,
+  simulateCandidate,
+  summarizeTrades,
+} from "../backtest";
+import type { OhlcBar, TradeCandidate } from "../types";
+
+const longCandidate: TradeCandidate = {
+  model: "A",
+  direction: "Long",
+  entry: 100,
+  stop: 95,
+  tp1: 110,
+  risk_price: 5,
+  reward_price: 10,
+  rr: 2,
+  status: "VALID",
+};
+
+function bar(date: string, open: number, high: number, low: number, close: number): OhlcBar {
+  return { date, open, high, low, close };
+}
+
+const settings = resolveBacktestSettings();
+
+test("long entry fills on touch and exits at tp1 on a later bar", () => {
+  const bars = [
+    bar("2025-01-01", 104, 105, 99, 101),
+    bar("2025-01-02", 101, 111, 100, 110),
+  ];
+  const trade = simulateCandidate("XAUUSD", longCandidate, bars, 0, "2024-12-31", settings);
+  assert.equal(trade.outcome, "TARGET");
+  assert.equal(trade.entryDate, "2025-01-01");
+  assert.equal(trade.exitDate, "2025-01-02");
+  assert.equal(trade.rMultiple, 2);
+});
+
+test("target on the fill bar is ignored, stop on the fill bar is a loss", () => {
+  const ignoredTarget = simulateCandidate(
+    "XAUUSD",
+    longCandidate,
+    [bar("2025-01-01", 104, 112, 99, 108)],
+    0,
+    "2024-12-31",
+    settings,
+  );
+  assert.equal(ignoredTarget.outcome, "OPEN");
+
+  const stopped = simulateCandidate(
+    "XAUUSD",
+    longCandidate,
+    [bar("2025-01-01", 104, 105, 94, 96)],
+    0,
+    "2024-12-31",
+    settings,
+  );
+  assert.equal(stopped.outcome, "STOP");
+  assert.equal(stopped.rMultiple, -1);
+});
+
+test("a gap through the stop or target exits at the open", () => {
+  const gappedStop = simulateCandidate(
+    "XAUUSD",
+    longCandidate,
+    [bar("2025-01-01", 104, 105, 99, 101), bar("2025-01-02", 90, 92, 88, 91)],
+    0,
+    "2024-12-31",
+    settings,
+  );
+  assert.equal(gappedStop.outcome, "STOP");
+  assert.equal(gappedStop.exitPrice, 90);
+  assert.equal(gappedStop.rMultiple, -2);
+
+  const gappedTarget = simulateCandidate(
+    "XAUUSD",
+    longCandidate,
+    [bar("2025-01-01", 104, 105, 99, 101), bar("2025-01-02", 115, 116, 94, 112)],
+    0,
+    "2024-12-31",
+    settings,
+  );
+  assert.equal(gappedTarget.outcome, "TARGET");
+  assert.equal(gappedTarget.rMultiple, 3);
+  assert.equal(gappedTarget.ambiguous, false);
+});
+
+test("same-bar policy decides when stop and target print together", () => {
+  const bars = [
+    bar("2025-01-01", 104, 105, 99, 101),
+    bar("2025-01-02", 101, 111, 94, 100),
+  ];
+  const conservative = simulateCandidate("XAUUSD", longCandidate, bars, 0, "2024-12-31", settings);
+  assert.equal(conservative.outcome, "STOP");
+  assert.equal(conservative.ambiguous, true);
+
+  const optimistic = simulateCandidate(
+    "XAUUSD",
+    longCandidate,
+    bars,
+    0,
+    "2024-12-31",
+    resolveBacktestSettings({ sameBarPolicy: "target_first" }),
+  );
+  assert.equal(optimistic.outcome, "TARGET");
+});
+
+test("untouched entries expire and timeouts close at the bar close", () => {
+  const expired = simulateCandidate(
+    "XAUUSD",
+    longCandidate,
+    [
+      bar("2025-01-01", 104, 106, 101, 105),
+      bar("2025-01-02", 105, 107, 102, 106),
+    ],
+    0,
+    "2024-12-31",
+    resolveBacktestSettings({ entryExpiryBars: 2 }),
+  );
+  assert.equal(expired.outcome, "EXPIRED");
+
+  const timedOut = simulateCandidate(
+    "XAUUSD",
+    longCandidate,
+    [
+      bar("2025-01-01", 104, 105, 99, 101),
+      bar("2025-01-02", 101, 104, 100, 102.5),
+    ],
+    0,
+    "2024-12-31",
+    resolveBacktestSettings({ maxHoldBars: 2 }),
+  );
+  assert.equal(timedOut.outcome, "TIMEOUT");
+  assert.equal(timedOut.rMultiple, 0.5);
+});
+
+test("summary reports win rate, expectancy and max drawdown in R", () => {
+  const base = simulateCandidate(
+    "XAUUSD",
+    longCandidate,
+    [bar("2025-01-01", 104, 105, 99, 101), bar("2025-01-02", 101, 111, 100, 110)],
+    0,
+    "2024-12-31",
+    settings,
+  );
+  const trades = [
+    { ...base, exitDate: "2025-01-02", rMultiple: 2 },
+    { ...base, exitDate: "2025-01-03", outcome: "STOP" as const, rMultiple: -1 },
+    { ...base, exitDate: "2025-01-04", outcome: "STOP" as const, rMultiple: -1 },
+    { ...base, exitDate: "2025-01-05", rMultiple: 2 },
+  ];
+
+  const stats = summarizeTrades("A", trades);
+  assert.equal(stats.trades, 4);
+  assert.equal(stats.winRate, 0.5);
+  assert.equal(stats.expectancyR, 0.5);
+  assert.equal(stats.totalR, 2);
+  assert.equal(stats.maxDrawdownR, 2);
+});
@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { parseBrokerCsv } from "../broker-csv";
+
+test("parses a tab-separated MetaTrader export into sorted bars", () => {
+  const csv = [
+    "<DATE>\t<OPEN>\t<HIGH>\t<LOW>\t<CLOSE>\t<TICKVOL>\t<VOL>\t<SPREAD>",
+    "2025.01.03\t2658.28\t2665.24\t2636.55\t2639.37\t141955\t0\t31",
+    "2025.01.02\t2624.51\t2660.36\t2621.62\t2658.00\t164441\t0\t31",
+    "2025.01.06\tn/a\t2660\t2630\t2640\t1\t0\t31",
+    "",
+  ].join("\n");
+
+  const bars = parseBrokerCsv(csv);
+  assert.equal(bars.length, 2);
+  assert.deepEqual(bars[0], {
+    date: "2025-01-02",
+    open: 2624.51,
+    high: 2660.36,
+    low: 2621.62,
+    close: 2658,
+    tickVolume: 164441,
+    volume: 0,
+    spread: 31,
+  });
+  assert.equal(bars[1].date, "2025-01-03");
+});
+
+test("rejects a header without the OHLC columns", () => {
+  assert.throws(() => parseBrokerCsv("<DATE> <PRICE>\n2025.01.02 1.0"), /Required columns/);
+});
+
+test("intraday exports combine the DATE and TIME columns", () => {
+  const csv = [
+    "<DATE>\t<TIME>\t<OPEN>\t<HIGH>\t<LOW>\t<CLOSE>",
+    "2025.01.02\t4:00:00\t1.0351\t1.0360\t1.0340\t1.0355",
+    "2025.01.02\t00:00\t1.0340\t1.0352\t1.0331\t1.0351",
+  ].join("\n");
+
+  const bars = parseBrokerCsv(csv, "H4");
+  assert.deepEqual(
+    bars.map((bar) => bar.date),
+    ["2025-01-02 00:00", "2025-01-02 04:00"],
+  );
+  assert.throws(() => parseBrokerCsv("<DATE> <OPEN> <HIGH> <LOW> <CLOSE>\n", "H1"), /TIME/);
+});
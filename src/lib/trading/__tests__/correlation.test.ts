@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  applyCorrelationGuard,
+  buildCorrelationMatrix,
+  correlationOf,
+} from "../correlation";
+import type {
+  OhlcBar,
+  ScanResponse,
+  SymbolScanResult,
+  TradeCandidate,
+} from "../types";
+
+/** Daily bars whose log returns are `scale` times a shared wave */
+function bars(count: number, scale: number, start = 1): OhlcBar[] {
+  let close = start;
+  return Array.from({ length: count }, (_, i) => {
+    if (i > 0) close *= Math.exp(scale * 0.01 * Math.sin(i * 1.7));
+    const date = new Date(Date.UTC(2025, 0, 1 + i)).toISOString().slice(0, 10);
+    return { date, open: close, high: close, low: close, close };
+  });
+}
+
+function trade(direction: TradeCandidate["direction"], rr: number): TradeCandidate {
+  return {
+    model: "D",
+    direction,
+    entry: 1,
+    stop: direction === "Long" ? 0.99 : 1.01,
+    tp1: direction === "Long" ? 1 + rr * 0.01 : 1 - rr * 0.01,
+    risk_price: 0.01,
+    reward_price: rr * 0.01,
+    rr,
+    status: "VALID",
+    sizing: {
+      lots: 1,
+      riskAmount: 100,
+      rewardAmount: rr * 100,
+      riskPercent: 1,
+      currency: "USD",
+      conversionRate: 1,
+    },
+  };
+}
+
+const entry = (symbol: string, trades: TradeCandidate[]) =>
+  ({ kind: "ok", symbol, trades }) as unknown as SymbolScanResult;
+
+const matrix = buildCorrelationMatrix({
+  EURUSD: bars(80, 1),
+  GBPUSD: bars(80, 1.5, 1.25),
+  XAUUSD: bars(80, -2, 2400),
+  GBPJPY: bars(5, 1, 200),
+});
+
+test("daily return correlations need enough shared history", () => {
+  assert.equal(matrix.window, 60);
+  assert.ok(correlationOf(matrix, "EURUSD", "GBPUSD")! > 0.99);
+  assert.ok(correlationOf(matrix, "EURUSD", "XAUUSD")! < -0.99);
+  assert.equal(correlationOf(matrix, "EURUSD", "GBPJPY"), null);
+  assert.equal(correlationOf(matrix, "GBPJPY", "GBPJPY"), 1);
+});
+
+test("candidates stacking correlated risk are flagged or filtered", () => {
+  const scan: ScanResponse = {
+    date: "2025-03-21",
+    symbols: {
+      EURUSD: entry("EURUSD", [trade("Long", 3)]),
+      GBPUSD: entry("GBPUSD", [trade("Long", 2)]),
+      XAUUSD: entry("XAUUSD", [trade("Long", 2.5)]),
+    },
+  };
+
+  const flagged = applyCorrelationGuard(scan, matrix, { mode: "flag" });
+  const gu = (flagged.symbols.GBPUSD as SymbolScanResult).trades[0];
+  assert.equal(gu.status, "VALID");
+  assert.equal(gu.correlatedWith?.symbol, "EURUSD");
+  // Long gold against long EURUSD offsets rather than stacks
+  assert.equal((flagged.symbols.XAUUSD as SymbolScanResult).trades[0].correlatedWith, undefined);
+  assert.equal(flagged.exposure?.stackedCount, 1);
+  assert.deepEqual(
+    flagged.exposure?.currencies.find((c) => c.currency === "USD"),
+    { currency: "USD", long: 0, short: 3, net: -3 },
+  );
+
+  const filtered = applyCorrelationGuard(scan, matrix, { mode: "filter" });
+  assert.equal((filtered.symbols.GBPUSD as SymbolScanResult).trades[0].status, "FILTERED");
+  assert.equal(filtered.exposure?.currencies.find((c) => c.currency === "USD")?.net, -2);
+
+  const off = applyCorrelationGuard(scan, matrix, { mode: "off" });
+  assert.equal(off.exposure?.stackedCount, 0);
+});
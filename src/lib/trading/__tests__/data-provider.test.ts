@@ -0,0 +1,171 @@
+import assert from "node:assert/strict";
+import test, { afterEach } from "node:test";
+import {
+  buildPartialDailyBar,
+  createMemoryProvider,
+  generateSyntheticData,
+  getDailyOhlc,
+  getDailyOhlcSeries,
+  registerOhlcProvider,
+  resetOhlcProviders,
+  resolveOhlcProvider,
+} from "../data-provider";
+import { scanMarket, scanSymbol } from "../engine";
+
+afterEach(() => {
+  resetOhlcProviders();
+  delete process.env.OHLC_SOURCE_GBPUSD;
+});
+
+test("getDailyOhlc drops bars after the as-of date", async () => {
+  const bars = await getDailyOhlc("EURUSD", 10, { asOf: "2025-03-16" });
+  assert.equal(bars.length, 10);
+  assert.equal(bars[bars.length - 1].date, "2025-03-14");
+  assert.ok(bars.every((bar) => bar.date <= "2025-03-16"));
+});
+
+test("scanSymbol with a date reflects that session's close", async () => {
+  const asOf = await scanSymbol("EURUSD", { date: "2025-06-13" });
+  const bars = await getDailyOhlc("EURUSD", 1, { asOf: "2025-06-13" });
+  assert.equal(asOf.lastClose, bars[0].close);
+
+  const latest = await scanSymbol("EURUSD");
+  assert.notEqual(latest.lastClose, asOf.lastClose);
+});
+
+test("as-of scans before enough history are rejected", async () => {
+  await assert.rejects(
+    scanSymbol("EURUSD", { date: "2025-03-14" }),
+    /Insufficient data/,
+  );
+});
+
+test("scan results report the provider and date range of their bars", async () => {
+  const fixture = generateSyntheticData("EURUSD", "2025-06-27");
+  registerOhlcProvider(createMemoryProvider({ EURUSD: fixture }), ["EURUSD"]);
+
+  const { source } = await getDailyOhlcSeries("EURUSD", 10, { asOf: "2025-06-27" });
+  assert.deepEqual(source, {
+    provider: "memory",
+    timeframe: "D1",
+    firstDate: "2025-06-16",
+    lastDate: "2025-06-27",
+    bars: 10,
+    ageDays: 0,
+    stale: false,
+  });
+
+  // A Friday bar seen from the next Monday is current, two weeks later it is not
+  const monday = await scanSymbol("EURUSD", { date: "2025-06-30" });
+  assert.equal(monday.dataSource?.provider, "memory");
+  assert.equal(monday.dataSource?.ageDays, 3);
+  assert.equal(monday.dataSource?.stale, false);
+
+  const later = await scanSymbol("EURUSD", { date: "2025-07-14" });
+  assert.equal(later.dataSource?.lastDate, "2025-06-27");
+  assert.equal(later.dataSource?.stale, true);
+});
+
+test("missing bars fail loudly instead of falling back to synthetic data", async () => {
+  registerOhlcProvider(createMemoryProvider({}), ["XAUUSD"]);
+  await assert.rejects(
+    getDailyOhlc("XAUUSD", 10),
+    /No D1 bars available for XAUUSD \(source: memory\)/,
+  );
+});
+
+test("synthetic bars are deterministic and only used when configured", async () => {
+  assert.equal(resolveOhlcProvider("GBPUSD").kind, "csv");
+  process.env.OHLC_SOURCE_GBPUSD = "synthetic";
+  assert.equal(resolveOhlcProvider("GBPUSD").kind, "synthetic");
+  assert.equal(resolveOhlcProvider("EURUSD").kind, "csv");
+
+  const a = await getDailyOhlc("GBPUSD", 30, { asOf: "2024-06-28" });
+  const b = await getDailyOhlc("GBPUSD", 30, { asOf: "2024-06-28" });
+  assert.deepEqual(a, b);
+
+  // A later as-of date extends the same path rather than inventing a new one
+  const longer = generateSyntheticData("GBPUSD", "2024-12-31");
+  const end = longer.findIndex((bar) => bar.date === "2024-06-28");
+  assert.deepEqual(longer.slice(end - 29, end + 1), a);
+  assert.notDeepEqual(generateSyntheticData("GBPUSD", "2024-06-28", 2).slice(-30), a);
+});
+
+test("intraday scans carry the daily structure and stack behind the primary timeframe", async () => {
+  registerOhlcProvider(
+    createMemoryProvider({
+      EURUSD: {
+        D1: generateSyntheticData("EURUSD", "2025-06-27"),
+        H4: generateSyntheticData("EURUSD", "2025-06-27", 1, "H4"),
+      },
+    }),
+    ["EURUSD"],
+  );
+
+  const h4 = await scanSymbol("EURUSD", { date: "2025-06-27", timeframe: "H4" });
+  assert.equal(h4.timeframe, "H4");
+  assert.equal(h4.dataSource?.timeframe, "H4");
+  assert.equal(h4.dataSource?.lastDate, "2025-06-27 20:00");
+  assert.equal(h4.dailyStructure?.lastDate, "2025-06-27");
+
+  const scan = await scanMarket({
+    date: "2025-06-27",
+    symbols: ["EURUSD"],
+    timeframes: { EURUSD: ["D1", "H4", "H1"] },
+  });
+  const primary = scan.symbols.EURUSD;
+  assert.ok(primary && primary.kind === "ok");
+  assert.equal(primary.timeframe, "D1");
+  assert.equal(primary.dailyStructure, undefined);
+  const [stackedH4, stackedH1] = scan.stacked?.EURUSD ?? [];
+  assert.equal(stackedH4?.timeframe, "H4");
+  // No H1 fixture: the error is reported for that timeframe only
+  assert.ok(stackedH1 && stackedH1.kind === "error");
+  assert.equal(stackedH1.timeframe, "H1");
+});
+
+test("D1 scans take today's running bar from the H1 series", async () => {
+  const daily = generateSyntheticData("EURUSD", "2025-06-27");
+  const hourly = generateSyntheticData("EURUSD", "2025-06-30", 1, "H1").filter(
+    (bar) => bar.date >= "2025-06-30" && bar.date <= "2025-06-30 09:00",
+  );
+  registerOhlcProvider(
+    createMemoryProvider({ EURUSD: { D1: daily, H1: hourly } }),
+    ["EURUSD"],
+  );
+
+  const partial = buildPartialDailyBar(hourly);
+  assert.deepEqual(partial, {
+    date: "2025-06-30",
+    open: hourly[0].open,
+    high: Math.max(...hourly.map((bar) => bar.high)),
+    low: Math.min(...hourly.map((bar) => bar.low)),
+    close: hourly[9].close,
+    lastHour: "2025-06-30 09:00",
+    hourlyBars: 10,
+  });
+
+  const scan = await scanSymbol("EURUSD", { date: "2025-06-30" });
+  assert.deepEqual(scan.partialDailyBar, partial);
+  // The live pullback is measured into Friday's range, not Thursday's
+  const friday = daily[daily.length - 1];
+  const range = friday.high - friday.low;
+  assert.equal(scan.macroTrend, "Bear");
+  assert.equal(
+    scan.pullback.depthIntoPrevPct,
+    Math.max(0, (partial!.close - friday.low) / range),
+  );
+
+  // A manual close still wins over the H1 close
+  const manual = await scanSymbol("EURUSD", {
+    date: "2025-06-30",
+    manualCloses: { EURUSD: { enabled: true, close: friday.high } },
+  });
+  assert.equal(manual.pullback.depthIntoPrevPct, 1);
+
+  // Without H1 bars the daily close is used, as before
+  resetOhlcProviders();
+  registerOhlcProvider(createMemoryProvider({ EURUSD: daily }), ["EURUSD"]);
+  const dailyOnly = await scanSymbol("EURUSD", { date: "2025-06-30" });
+  assert.equal(dailyOnly.partialDailyBar, undefined);
+});
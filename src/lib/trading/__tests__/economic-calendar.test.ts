@@ -0,0 +1,122 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  applyNewsContext,
+  buildNewsContext,
+  parseCalendarCsv,
+  parseCalendarIcs,
+  symbolsForCurrency,
+} from "../economic-calendar";
+import { paperOrderFromCandidate } from "../paper-trading";
+import { DEFAULT_ACCOUNT_PROFILE, summarizeOpenRisk } from "../position-sizing";
+import type { ScanResponse, SymbolScanResult, TradeCandidate } from "../types";
+
+const csv = [
+  "Date,Time,Currency,Impact,Event",
+  '2025-06-06,12:30,USD,High,"Non-Farm Payrolls, s.a."',
+  "2025-06-06,All Day,JPY,Low,Bank Holiday",
+  "2025-06-06,09:00,EUR,Unknown,Skipped",
+].join("\n");
+
+const ics = [
+  "BEGIN:VCALENDAR",
+  "BEGIN:VEVENT",
+  "DTSTART:20250606T060000Z",
+  "SUMMARY:GBP - CPI y/y",
+  "PRIORITY:1",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "DTSTART;VALUE=DATE:20250607",
+  "SUMMARY:Retail Sales",
+  "X-CURRENCY:JPY",
+  "CATEGORIES:Medium Impact",
+  "END:VEVENT",
+  "END:VCALENDAR",
+].join("\r\n");
+
+test("calendar exports parse from CSV and ICS", () => {
+  assert.deepEqual(
+    parseCalendarCsv(csv).map((e) => [e.time, e.currency, e.impact, e.title]),
+    [
+      ["2025-06-06T00:00:00.000Z", "JPY", "low", "Bank Holiday"],
+      ["2025-06-06T12:30:00.000Z", "USD", "high", "Non-Farm Payrolls, s.a."],
+    ],
+  );
+  assert.deepEqual(
+    parseCalendarIcs(ics).map((e) => [e.time, e.currency, e.impact, e.title]),
+    [
+      ["2025-06-06T06:00:00.000Z", "GBP", "high", "CPI y/y"],
+      ["2025-06-07T00:00:00.000Z", "JPY", "medium", "Retail Sales"],
+    ],
+  );
+  assert.throws(() => parseCalendarCsv("Date,Event\n2025-06-06,CPI"));
+});
+
+test("high-impact releases block or flag the candidates of their symbols", () => {
+  assert.deepEqual(symbolsForCurrency("USD").sort(), ["EURUSD", "GBPUSD", "XAUUSD"]);
+  assert.deepEqual(symbolsForCurrency("JPY"), ["GBPJPY"]);
+
+  const events = parseCalendarCsv(csv);
+  const trade = { model: "A", status: "VALID" } as TradeCandidate;
+
+  // 20 minutes before the payrolls
+  const at = new Date("2025-06-06T12:10:00Z");
+  const gold = buildNewsContext("XAUUSD", events, at);
+  assert.equal(gold.blocked, true);
+  assert.equal(gold.active[0].title, "Non-Farm Payrolls, s.a.");
+  assert.deepEqual(
+    applyNewsContext([trade], gold).map((t) => [t.status, t.newsEvent?.currency]),
+    [["FILTERED", "USD"]],
+  );
+
+  const flagged = buildNewsContext("EURUSD", events, at, { mode: "downgrade" });
+  assert.equal(flagged.blocked, false);
+  assert.equal(applyNewsContext([trade], flagged)[0].status, "VALID");
+  assert.equal(applyNewsContext([trade], flagged)[0].newsEvent?.impact, "high");
+
+  // Outside a 10-minute window nothing is active
+  const early = buildNewsContext("XAUUSD", events, at, { minutesBefore: 10 });
+  assert.equal(early.active.length, 0);
+  assert.equal(early.upcoming.length, 1);
+
+  // GBPJPY only sees the JPY holiday, which was before the scan
+  assert.deepEqual(buildNewsContext("GBPJPY", events, at).upcoming, []);
+});
+
+test("a candidate downgraded for news is not paper-placed or counted as open risk", () => {
+  const at = new Date("2025-06-06T12:10:00Z");
+  const trade: TradeCandidate = {
+    model: "D",
+    direction: "Long",
+    placement: "PENDING_LIMIT",
+    entry: 1.08,
+    stop: 1.075,
+    tp1: 1.09,
+    risk_price: 0.005,
+    reward_price: 0.01,
+    rr: 2,
+    status: "VALID",
+    sizing: {
+      lots: 0.2,
+      riskAmount: 100,
+      rewardAmount: 200,
+      riskPercent: 1,
+      currency: "USD",
+      conversionRate: 1,
+    },
+  };
+  const news = buildNewsContext("EURUSD", parseCalendarCsv(csv), at, { mode: "downgrade" });
+  const [downgraded] = applyNewsContext([trade], news);
+  assert.equal(downgraded.status, "VALID");
+
+  const context = { session: "2025-06-05", account: DEFAULT_ACCOUNT_PROFILE, spot: null, at };
+  assert.ok(paperOrderFromCandidate("EURUSD", trade, context));
+  assert.equal(paperOrderFromCandidate("EURUSD", downgraded, context), null);
+
+  const scan = (trades: TradeCandidate[]) =>
+    ({
+      symbols: { EURUSD: { kind: "ok", symbol: "EURUSD", trades } as unknown as SymbolScanResult },
+    }) as unknown as ScanResponse;
+  assert.equal(summarizeOpenRisk(scan([trade]), DEFAULT_ACCOUNT_PROFILE).riskAmount, 100);
+  assert.equal(summarizeOpenRisk(scan([downgraded]), DEFAULT_ACCOUNT_PROFILE).riskAmount, 0);
+});
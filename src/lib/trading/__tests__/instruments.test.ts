@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import test, { afterEach } from "node:test";
+import {
+  createMemoryProvider,
+  generateSyntheticData,
+  registerOhlcProvider,
+  resetOhlcProviders,
+} from "../data-provider";
+import { scanMarket } from "../engine";
+import {
+  getInstrument,
+  knownSymbolSchema,
+  listEnabledSymbols,
+  setInstrumentRegistry,
+} from "../instruments";
+
+const USDJPY = {
+  symbol: "USDJPY",
+  pipSize: 0.01,
+  digits: 3,
+  riskCap: 0.4,
+  clusterRadius: 0.05,
+  slBuffer: 0.05,
+  contractSize: 100_000,
+  minLot: 0.01,
+  lotStep: 0.01,
+  baseCurrency: "USD",
+  quoteCurrency: "JPY",
+  syntheticBasePrice: 150,
+  enabled: true,
+};
+
+afterEach(() => {
+  setInstrumentRegistry([]);
+  resetOhlcProviders();
+});
+
+test("stored instruments extend and override the built-ins", () => {
+  setInstrumentRegistry([
+    USDJPY,
+    { ...getInstrument("XAUUSD"), riskCap: 25, enabled: false },
+  ]);
+
+  assert.equal(getInstrument("USDJPY").builtin, false);
+  assert.equal(getInstrument("XAUUSD").riskCap, 25);
+  assert.equal(getInstrument("XAUUSD").builtin, true);
+  assert.deepEqual(listEnabledSymbols(), ["EURUSD", "GBPJPY", "GBPUSD", "USDJPY"]);
+
+  assert.equal(knownSymbolSchema.safeParse(" usdjpy ").data, "USDJPY");
+  assert.equal(knownSymbolSchema.safeParse("NAS100").success, false);
+  assert.throws(() => getInstrument("NAS100"), /Unknown symbol NAS100/);
+});
+
+test("a registered instrument is scanned without code changes", async () => {
+  setInstrumentRegistry([USDJPY]);
+  registerOhlcProvider(
+    createMemoryProvider({ USDJPY: generateSyntheticData("USDJPY", "2025-06-27") }),
+  );
+
+  const scan = await scanMarket({ symbols: ["USDJPY"], date: "2025-06-27" });
+  const entry = scan.symbols.USDJPY;
+  assert.equal(entry?.kind, "ok");
+});
@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { scanSymbol } from "../engine";
+import {
+  computeOutcomeR,
+  journalCreateSchema,
+  journalDraftFromCandidate,
+  journalUpdateSchema,
+} from "../journal";
+import type { TradeCandidate } from "../types";
+
+const trade: TradeCandidate = {
+  model: "D",
+  direction: "Short",
+  entry: 1.1,
+  stop: 1.102,
+  tp1: 1.095,
+  risk_price: 0.002,
+  reward_price: 0.005,
+  rr: 2.5,
+  status: "VALID",
+  placement: "PENDING_LIMIT",
+  stopType: "Swing",
+};
+
+test("a journal draft carries the candidate plan and its scan context", async () => {
+  const result = await scanSymbol("EURUSD", { date: "2025-06-13" });
+  const draft = journalDraftFromCandidate(result, trade, {
+    runId: "run-1",
+    date: "2025-06-13",
+  });
+
+  assert.equal(draft.scanRunId, "run-1");
+  assert.equal(draft.plannedEntry, 1.1);
+  assert.equal(draft.plannedRr, 2.5);
+  assert.equal(draft.alignment, result.alignment);
+  assert.equal(draft.location, result.location);
+  assert.equal(draft.pullbackBucket, result.pullback?.bucket ?? null);
+  const scenario = result.pullback!.scenario!;
+  assert.equal(
+    draft.scenario,
+    `${scenario.macroTrendPrev}|${scenario.trendDayPrev}|${scenario.alignmentPrev}`,
+  );
+  assert.equal(draft.status, "planned");
+
+  // The draft is exactly what POST /api/journal accepts
+  assert.ok(journalCreateSchema.safeParse(draft).success);
+});
+
+test("outcome in R is measured against the risk to the planned stop", () => {
+  const fills = { direction: "Short" as const, plannedStop: 1.102 };
+  // Filled 5 pips better than planned: risk is 25 pips, exit 50 pips lower
+  assert.ok(
+    Math.abs(computeOutcomeR({ ...fills, entryPrice: 1.0995, exitPrice: 1.0945 })! - 2) < 1e-9,
+  );
+  assert.ok(
+    Math.abs(computeOutcomeR({ ...fills, entryPrice: 1.1, exitPrice: 1.102 })! + 1) < 1e-9,
+  );
+  assert.equal(computeOutcomeR({ ...fills, entryPrice: 1.1, exitPrice: null }), null);
+
+  assert.equal(journalUpdateSchema.safeParse({ screenshots: ["not a url"] }).success, false);
+  assert.equal(journalUpdateSchema.safeParse({ status: "won" }).success, false);
+  assert.ok(
+    journalUpdateSchema.safeParse({
+      status: "closed",
+      exitPrice: 1.095,
+      exitAt: "2025-06-14T10:00:00Z",
+      screenshots: ["https://example.com/chart.png"],
+    }).success,
+  );
+});
@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  createLiquidityMap,
+  describeLiquidityLevel,
+  findSwingPoints,
+  liquidityLevelAt,
+} from "../liquidity";
+import { nearestAbove, nearestBelow } from "../zones";
+import type { OhlcBar } from "../types";
+
+const bars: OhlcBar[] = (
+  [
+    [10, 8],
+    [12, 9],
+    [15, 11], // swing high
+    [13, 10],
+    [11, 7], // swing low
+    [14.95, 9], // swing high, equal to 15 within 0.1
+    [14, 10.5],
+    [12, 8], // swing low, swept by 7.8 below
+    [13, 9.5],
+    [12.5, 9],
+    [12, 7.8],
+    [12.2, 8.5],
+  ] as const
+).map(([high, low], i) => ({
+  date: `d${String(i).padStart(2, "0")}`,
+  open: (high + low) / 2,
+  high,
+  low,
+  close: (high + low) / 2,
+}));
+
+test("swing strength decides which bars are swing points", () => {
+  assert.deepEqual(findSwingPoints(bars, "high", { left: 1, right: 1 }), [2, 5, 8]);
+  assert.deepEqual(findSwingPoints(bars, "high", { left: 2, right: 2 }), [2, 5]);
+  assert.deepEqual(findSwingPoints(bars, "low", { left: 2, right: 2 }), [4, 7]);
+});
+
+test("swing maps pool equal highs and drop swept levels", () => {
+  const raw = createLiquidityMap(bars, { mode: "raw" });
+  const swing = createLiquidityMap(bars, { mode: "swing", equalTolerance: 0.1 });
+
+  // Raw liquidity targets the nearest inside-bar high; swing skips to the pool
+  assert.equal(nearestAbove(raw.highs, 11.5), 12);
+  assert.equal(nearestBelow(raw.lows, 11.5), 11);
+  assert.deepEqual(swing.highs, [15]);
+  assert.deepEqual(swing.lows, [7]);
+
+  const pool = liquidityLevelAt(swing, "high", 15);
+  assert.equal(pool?.kind, "equal");
+  assert.equal(pool?.touches, 2);
+  assert.equal(describeLiquidityLevel(pool!), "Equal highs ×2 · d05");
+
+  const swept = swing.levels?.find((l) => l.side === "low" && l.price === 8);
+  assert.equal(swept?.swept, true);
+  assert.equal(liquidityLevelAt(swing, "low", 8), undefined);
+
+  assert.equal(
+    describeLiquidityLevel(liquidityLevelAt(raw, "high", 12)!),
+    "Bar high · d10 (swept)",
+  );
+});
@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { buildExitPlan } from "../models";
+import type { OcZone, TradeCandidate } from "../types";
+
+const long: TradeCandidate = {
+  model: "A",
+  direction: "Long",
+  entry: 1.1,
+  stop: 1.098,
+  tp1: 1.105,
+  risk_price: 0.002,
+  reward_price: 0.005,
+  rr: 2.5,
+  status: "VALID",
+};
+
+const zone = (low: number, high: number): OcZone => ({
+  zone_low: low,
+  zone_high: high,
+  zone_mid: (low + high) / 2,
+  score: 1,
+});
+
+test("targets step out through liquidity and zone edges beyond tp1", () => {
+  const plan = buildExitPlan(
+    long,
+    // 1.1055 is within 0.5R (0.001) of tp1 and is skipped
+    { highs: [1.103, 1.105, 1.1055, 1.109, 1.12], lows: [1.09] },
+    [zone(1.107, 1.108)],
+  );
+
+  assert.deepEqual(
+    plan.targets.map((t) => [t.label, t.price, t.source, t.exitPercent]),
+    [
+      ["TP1", 1.105, "liquidity", 50],
+      ["TP2", 1.107, "zone", 30],
+      ["TP3", 1.109, "liquidity", 20],
+    ],
+  );
+  assert.ok(Math.abs(plan.targets[2].rr - 4.5) < 1e-9);
+  // 0.5 × 2.5R + 0.3 × 3.5R + 0.2 × 4.5R
+  assert.ok(Math.abs(plan.blendedRr - 3.2) < 1e-9);
+  assert.equal(plan.breakEvenAfter, "TP1");
+});
+
+test("shorts ladder downwards and a lone tp1 closes the whole position", () => {
+  const short: TradeCandidate = {
+    ...long,
+    direction: "Short",
+    entry: 1.1,
+    stop: 1.102,
+    tp1: 1.095,
+  };
+
+  const ladder = buildExitPlan(short, { highs: [], lows: [1.095, 1.092] }, [zone(1.08, 1.09)]);
+  assert.deepEqual(ladder.targets.map((t) => t.price), [1.095, 1.092, 1.09]);
+
+  const single = buildExitPlan(short, { highs: [], lows: [1.095] }, []);
+  assert.equal(single.targets.length, 1);
+  assert.equal(single.targets[0].exitPercent, 100);
+  assert.equal(single.blendedRr, single.targets[0].rr);
+  assert.equal(single.breakEvenAfter, null);
+});
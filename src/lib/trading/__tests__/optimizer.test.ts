@@ -0,0 +1,127 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import type { BacktestTrade } from "../backtest";
+import {
+  applyParameterSet,
+  buildParameterSets,
+  countCombinations,
+  evaluateParameterSets,
+  optimizationRequestSchema,
+  splitSessions,
+} from "../optimizer";
+
+function trade(signalDate: string, rMultiple: number): BacktestTrade {
+  return {
+    symbol: "EURUSD",
+    model: "A",
+    direction: "Long",
+    signalDate,
+    entryDate: signalDate,
+    exitDate: signalDate,
+    entry: 1.1,
+    stop: 1.09,
+    tp1: 1.12,
+    exitPrice: 1.1,
+    outcome: rMultiple > 0 ? "TARGET" : "STOP",
+    rMultiple,
+    ambiguous: false,
+    barsHeld: 1,
+  };
+}
+
+test("grid search covers the cartesian product, random search draws distinct sets", () => {
+  const grid = { atrWindow: [14, 20, 20], minRr: [1.5, 2, 3], trendLookback: [3, 5] };
+  assert.equal(countCombinations(grid), 12);
+
+  const all = buildParameterSets({ grid, search: "grid", samples: 30, seed: 1 });
+  assert.equal(all.length, 12);
+  assert.deepEqual(all[0], { atrWindow: 14, trendLookback: 3, minRr: 1.5 });
+
+  const sampled = buildParameterSets({ grid, search: "random", samples: 5, seed: 7 });
+  assert.equal(sampled.length, 5);
+  assert.equal(new Set(sampled.map((s) => JSON.stringify(s))).size, 5);
+  assert.deepEqual(
+    buildParameterSets({ grid, search: "random", samples: 5, seed: 7 }),
+    sampled,
+  );
+});
+
+test("requests reject oversized grids and parameter sets split into filters and params", () => {
+  const values = Array.from({ length: 15 }, (_, i) => i + 2);
+  const oversized = optimizationRequestSchema.safeParse({
+    grid: { atrWindow: values, structureLookback: values },
+  });
+  assert.equal(oversized.success, false);
+  assert.equal(
+    optimizationRequestSchema.safeParse({
+      grid: { atrWindow: values, structureLookback: values },
+      search: "random",
+    }).success,
+    true,
+  );
+  assert.equal(optimizationRequestSchema.safeParse({ grid: {} }).success, false);
+
+  assert.deepEqual(
+    applyParameterSet(
+      { scan: { filters: { minRr: 2, spreadCap: 1 }, params: { atrWindow: 20 } } },
+      { minRr: 3, structureLookback: 40 },
+    ),
+    {
+      filters: { minRr: 3, spreadCap: 1 },
+      params: { atrWindow: 20, structureLookback: 40 },
+    },
+  );
+});
+
+test("sessions split into consecutive segments of near-equal length", () => {
+  const sessions = ["d1", "d2", "d3", "d4", "d5", "d6", "d7"];
+  assert.deepEqual(
+    splitSessions(sessions, 3).map((s) => [s.from, s.to, s.sessions]),
+    [
+      ["d1", "d2", 2],
+      ["d3", "d4", 2],
+      ["d5", "d7", 3],
+    ],
+  );
+  assert.throws(() => splitSessions(["d1"], 2), /Not enough history/);
+});
+
+test("steady sets outrank one-period wonders and walk-forward tests on unseen segments", () => {
+  const segments = [
+    { from: "2025-01-01", to: "2025-01-31", sessions: 20 },
+    { from: "2025-02-01", to: "2025-02-28", sessions: 20 },
+    { from: "2025-03-01", to: "2025-03-31", sessions: 20 },
+  ];
+  const steady = {
+    parameters: { minRr: 2 },
+    trades: [trade("2025-01-10", 1), trade("2025-02-10", 1), trade("2025-03-10", 1)],
+  };
+  const lucky = {
+    parameters: { minRr: 3 },
+    trades: [trade("2025-01-10", 2.5), trade("2025-02-10", -1), trade("2025-03-10", -1)],
+  };
+
+  const { ranked, walkForward } = evaluateParameterSets([lucky, steady], segments, {
+    objective: "avgR",
+    minTrades: 1,
+  });
+
+  assert.deepEqual(
+    ranked.map((c) => [c.rank, c.key, c.score, c.consistency]),
+    [
+      [1, "minRr=2", 1, 1],
+      [2, "minRr=3", 0.5 / 3, 1 / 3],
+    ],
+  );
+
+  // Fold 1 trains on January only and picks the lucky set; fold 2 sees
+  // its February loss and switches to the steady one
+  assert.deepEqual(
+    walkForward.folds.map((f) => [f.train.to, f.selected, f.testStats?.totalR]),
+    [
+      ["2025-01-31", "minRr=3", -1],
+      ["2025-02-28", "minRr=2", 1],
+    ],
+  );
+  assert.equal(walkForward.overall.trades, 2);
+});
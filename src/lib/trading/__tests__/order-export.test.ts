@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  buildMtOrders,
+  conversionCurrencyMismatches,
+  orderExportRequestSchema,
+  renderMql4Script,
+  renderMql5Script,
+  renderOrdersCsv,
+  type OrderInput,
+} from "../order-export";
+import { DEFAULT_ACCOUNT_PROFILE } from "../position-sizing";
+
+// Wednesday, New York on daylight time
+const at = new Date("2025-06-11T12:00:00Z");
+
+const pending: OrderInput = {
+  symbol: "EURUSD",
+  model: "D",
+  direction: "Long",
+  placement: "PENDING_LIMIT",
+  entry: 1.080004,
+  stop: 1.075001,
+  tp1: 1.09,
+  conversionRate: 1,
+  conversionCurrency: "USD",
+};
+
+test("candidates become rounded, sized orders with a server-time expiry", () => {
+  const { orders, skipped } = buildMtOrders(
+    {
+      symbolSuffix: ".m",
+      orders: [
+        pending,
+        { ...pending, model: "A", placement: "MARKET" },
+        { ...pending, symbol: "GBPJPY", entry: 200, stop: 199, tp1: 202, conversionRate: null },
+      ],
+    },
+    DEFAULT_ACCOUNT_PROFILE,
+    at,
+  );
+
+  const [limit, market] = orders;
+  assert.equal(limit.brokerSymbol, "EURUSD.m");
+  assert.equal(limit.type, "BUY_LIMIT");
+  assert.equal(limit.price, 1.08);
+  assert.equal(limit.stopLoss, 1.075);
+  // 1% of 10,000 USD over 50 pips
+  assert.equal(limit.lots, 0.2);
+  // 17:00 New York is midnight on a New York close server
+  assert.equal(limit.expiry, "2025-06-11T21:00:00.000Z");
+  assert.equal(limit.expiryServerTime, "2025.06.12 00:00");
+  assert.equal(market.type, "BUY");
+  assert.equal(market.expiry, null);
+  assert.deepEqual(skipped.map((s) => s.symbol), ["GBPJPY"]);
+
+  // A rate computed for another account currency is rejected, not used
+  assert.deepEqual(conversionCurrencyMismatches([pending], "USD"), []);
+  assert.equal(conversionCurrencyMismatches([pending], "EUR").length, 1);
+  assert.equal(
+    orderExportRequestSchema.safeParse({
+      format: "csv",
+      orders: [{ ...pending, conversionCurrency: undefined }],
+    }).success,
+    false,
+  );
+
+  const london = buildMtOrders(
+    { orders: [pending], expiry: "london", serverUtcOffset: 2, riskPercent: 2 },
+    DEFAULT_ACCOUNT_PROFILE,
+    at,
+  ).orders[0];
+  assert.equal(london.expiryServerTime, "2025.06.11 18:00");
+  assert.equal(london.lots, 0.4);
+});
+
+test("orders render as an EA CSV and MQL4/MQL5 scripts", () => {
+  const { orders } = buildMtOrders({ orders: [pending], magic: 42 }, DEFAULT_ACCOUNT_PROFILE, at);
+
+  assert.deepEqual(renderOrdersCsv(orders).trim().split("\n"), [
+    "symbol,type,lots,price,sl,tp,expiration,magic,comment",
+    "EURUSD,BUY_LIMIT,0.2,1.08000,1.07500,1.09000,2025.06.12 00:00,42,OC D Long",
+  ]);
+  assert.match(
+    renderMql4Script(orders, at),
+    /Place\("EURUSD", OP_BUYLIMIT, 0\.2, 1\.08000, 1\.07500, 1\.09000, D'2025\.06\.12 00:00', 42, "OC D Long"\);/,
+  );
+  assert.match(renderMql5Script(orders, at), /ORDER_TYPE_BUY_LIMIT/);
+});
@@ -0,0 +1,141 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  applyPaperBar,
+  applyPaperQuote,
+  paperOrderFromCandidate,
+  summarizePaperAccount,
+  type PaperOrder,
+} from "../paper-trading";
+import { DEFAULT_ACCOUNT_PROFILE } from "../position-sizing";
+import type { TradeCandidate } from "../types";
+
+// Wednesday, New York on daylight time
+const at = new Date("2025-06-11T12:00:00Z");
+
+const candidate: TradeCandidate = {
+  model: "D",
+  direction: "Long",
+  placement: "PENDING_LIMIT",
+  entry: 1.08,
+  stop: 1.075,
+  tp1: 1.09,
+  risk_price: 0.005,
+  reward_price: 0.01,
+  rr: 2,
+  status: "VALID",
+  sizing: {
+    lots: 0.2,
+    riskAmount: 100,
+    rewardAmount: 200,
+    riskPercent: 1,
+    currency: "USD",
+    conversionRate: 1,
+  },
+};
+
+function place(trade: TradeCandidate, spot: number | null = null): PaperOrder {
+  const draft = paperOrderFromCandidate("EURUSD", trade, {
+    session: "2025-06-10",
+    account: DEFAULT_ACCOUNT_PROFILE,
+    spot,
+    at,
+  });
+  assert.ok(draft);
+  return { ...draft, id: "order", createdAt: at.toISOString() };
+}
+
+const bar = (date: string, open: number, high: number, low: number, close: number) => ({
+  date,
+  open,
+  high,
+  low,
+  close,
+});
+
+const round = (value: number | null) => (value == null ? null : Math.round(value * 100) / 100);
+
+test("a limit order fills on a later bar and exits at its target", () => {
+  const order = place(candidate);
+  assert.equal(order.status, "pending");
+  // 1% of 10,000 USD over 50 pips
+  assert.equal(order.lots, 0.2);
+  // Three daily closes: Wednesday, Thursday and Friday at 17:00 New York
+  assert.equal(order.expiresAt, "2025-06-13T21:00:00.000Z");
+
+  // The target prints on the fill bar too, but may have come first
+  const filled = applyPaperBar(order, bar("2025-06-12", 1.083, 1.095, 1.079, 1.085));
+  assert.equal(filled.status, "open");
+  assert.equal(filled.fillPrice, 1.08);
+  assert.equal(round(filled.pnl), 100);
+  assert.equal(filled.lastBar, "2025-06-12");
+
+  const closed = applyPaperBar(filled, bar("2025-06-13", 1.086, 1.092, 1.083, 1.091));
+  assert.equal(closed.status, "closed");
+  assert.equal(closed.exitReason, "target");
+  assert.equal(closed.exitPrice, 1.09);
+  assert.equal(round(closed.rMultiple), 2);
+
+  const summary = summarizePaperAccount(
+    { startingBalance: 10_000, currency: "USD", enabled: true },
+    [closed, { ...filled, id: "open" }],
+  );
+  assert.equal(round(summary.balance), 10_200);
+  assert.equal(round(summary.equity), 10_300);
+  assert.equal(summary.winRate, 1);
+  assert.equal(summary.openPositions, 1);
+});
+
+test("market orders fill at the quote; gaps, stops and expiry", () => {
+  const market = place({ ...candidate, placement: "MARKET" }, 1.081);
+  assert.equal(market.status, "open");
+  assert.equal(market.fillPrice, 1.081);
+
+  const marked = applyPaperQuote(market, 1.079, new Date("2025-06-11T14:00:00Z"));
+  assert.equal(marked.status, "open");
+  assert.equal(round(marked.pnl), -40);
+
+  const stopped = applyPaperQuote(marked, 1.0745, new Date("2025-06-11T15:00:00Z"));
+  assert.equal(stopped.exitReason, "stop");
+  assert.equal(stopped.exitPrice, 1.075);
+
+  // A gap through the stop exits at the open
+  const gapped = applyPaperBar(market, bar("2025-06-12", 1.07, 1.078, 1.068, 1.072));
+  assert.equal(gapped.exitReason, "stop");
+  assert.equal(gapped.exitPrice, 1.07);
+
+  const expired = applyPaperBar(place(candidate), bar("2025-06-16", 1.085, 1.09, 1.07, 1.08));
+  assert.equal(expired.status, "cancelled");
+  assert.equal(expired.exitReason, "expired");
+  assert.equal(expired.closedAt, "2025-06-13T21:00:00.000Z");
+
+  // Sized in another currency with no way to convert: not placed
+  const unsized = paperOrderFromCandidate(
+    "GBPJPY",
+    { ...candidate, sizing: { ...candidate.sizing!, currency: "EUR" } },
+    { session: "2025-06-10", account: DEFAULT_ACCOUNT_PROFILE, spot: null, at },
+  );
+  assert.equal(unsized, null);
+});
+
+test("a bar from before a mid-session fill only marks the position", () => {
+  // Filled on Wednesday's 12:00 UTC quote; Wednesday's bar opened the evening before
+  const market = place({ ...candidate, placement: "MARKET" }, 1.081);
+  const sameSession = applyPaperBar(market, bar("2025-06-11", 1.08, 1.095, 1.07, 1.082));
+  assert.equal(sameSession.status, "open");
+  assert.equal(sameSession.lastBar, "2025-06-11");
+  assert.equal(round(sameSession.pnl), 20);
+
+  // The next session counts in full
+  const nextSession = applyPaperBar(sameSession, bar("2025-06-12", 1.082, 1.085, 1.074, 1.076));
+  assert.equal(nextSession.exitReason, "stop");
+
+  // Without a live quote a market order waits and fills at the next session's open
+  const waiting = place({ ...candidate, placement: "MARKET" });
+  assert.equal(waiting.status, "pending");
+  assert.equal(applyPaperBar(waiting, bar("2025-06-11", 1.08, 1.095, 1.07, 1.082)).status, "pending");
+  const opened = applyPaperBar(waiting, bar("2025-06-12", 1.083, 1.095, 1.079, 1.085));
+  assert.equal(opened.status, "open");
+  assert.equal(opened.fillPrice, 1.083);
+  assert.equal(applyPaperQuote(waiting, 1.0805, at).fillPrice, 1.0805);
+});
@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { getInstrument } from "../instruments";
+import {
+  applyPositionSizing,
+  conversionRate,
+  DEFAULT_ACCOUNT_PROFILE,
+  sizeTrade,
+} from "../position-sizing";
+import type { ScanResponse, SymbolScanResult, TradeCandidate } from "../types";
+
+const prices = { EURUSD: 1.08, GBPUSD: 1.25, GBPJPY: 200, XAUUSD: 2400 };
+
+function candidate(entry: number, stop: number, tp1: number): TradeCandidate {
+  return {
+    model: "D",
+    direction: entry > stop ? "Long" : "Short",
+    entry,
+    stop,
+    tp1,
+    risk_price: Math.abs(entry - stop),
+    reward_price: Math.abs(tp1 - entry),
+    rr: Math.abs(tp1 - entry) / Math.abs(entry - stop),
+    status: "VALID",
+  };
+}
+
+test("quote currencies convert through chains of priced pairs", () => {
+  assert.equal(conversionRate("USD", "USD", prices), 1);
+  // JPY → GBP → USD
+  assert.ok(Math.abs(conversionRate("JPY", "USD", prices)! - 1.25 / 200) < 1e-12);
+  // USD → EUR for a EUR account holding gold
+  assert.ok(Math.abs(conversionRate("USD", "EUR", prices)! - 1 / 1.08) < 1e-12);
+  assert.equal(conversionRate("JPY", "USD", { GBPJPY: 200 }), null);
+});
+
+test("lots risk at most the per-trade budget in the account currency", () => {
+  const account = { ...DEFAULT_ACCOUNT_PROFILE, balance: 10_000, riskPercent: 1 };
+
+  // 50 pips on EURUSD: $500 per lot, $100 budget → 0.2 lots
+  const eur = sizeTrade(candidate(1.08, 1.075, 1.09), getInstrument("EURUSD"), account, 1);
+  assert.equal(eur.lots, 0.2);
+  assert.ok(Math.abs(eur.riskAmount - 100) < 1e-6);
+  assert.ok(Math.abs(eur.rewardAmount - 200) < 1e-6);
+
+  // 100 pips on GBPJPY = ¥100,000 per lot = $625 → 0.16 lots ($100 risk)
+  const jpyRate = conversionRate("JPY", "USD", prices)!;
+  const gj = sizeTrade(candidate(200, 199, 202), getInstrument("GBPJPY"), account, jpyRate);
+  assert.equal(gj.lots, 0.16);
+  assert.ok(Math.abs(gj.riskAmount - 100) < 1e-6);
+
+  // $30 stop on gold = $3,000 per lot; even 0.01 lots ($30) fits a $100 budget
+  // but a $10 budget does not
+  const xau = sizeTrade(
+    candidate(2400, 2370, 2460),
+    getInstrument("XAUUSD"),
+    { ...account, balance: 1_000 },
+    1,
+  );
+  assert.equal(xau.lots, 0);
+  assert.equal(xau.belowMinLot, true);
+  assert.equal(xau.riskAmount, 0);
+});
+
+test("combined risk of VALID candidates is checked against the cap", () => {
+  const entry = (symbol: string, trades: TradeCandidate[]) =>
+    ({ kind: "ok", symbol, trades, lastClose: prices[symbol as keyof typeof prices] }) as unknown as SymbolScanResult;
+
+  const scan: ScanResponse = {
+    date: "2025-06-13",
+    symbols: {
+      EURUSD: entry("EURUSD", [candidate(1.08, 1.075, 1.09)]),
+      GBPJPY: entry("GBPJPY", [
+        candidate(200, 199, 202),
+        { ...candidate(200, 199, 201), status: "FILTERED" },
+      ]),
+    },
+  };
+
+  const account = { ...DEFAULT_ACCOUNT_PROFILE, riskPercent: 3, maxOpenRiskPercent: 5 };
+  const sized = applyPositionSizing(scan, account, prices);
+
+  assert.ok(Math.abs(sized.openRisk!.riskPercent - 6) < 0.01);
+  assert.equal(sized.openRisk!.exceeded, true);
+  assert.deepEqual(sized.openRisk!.unsized, []);
+  const gj = sized.symbols.GBPJPY as SymbolScanResult;
+  assert.ok(gj.trades.every((trade) => trade.sizing));
+
+  // Without GBPUSD the yen leg cannot be converted
+  const partial = applyPositionSizing(scan, account, { EURUSD: 1.08, GBPJPY: 200 });
+  assert.deepEqual(partial.openRisk!.unsized, ["GBPJPY"]);
+  assert.equal(partial.openRisk!.exceeded, false);
+});
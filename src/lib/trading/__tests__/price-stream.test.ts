@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { scanSymbol } from "../engine";
+import { applyPriceTick, applyPriceTickToScan } from "../price-stream";
+import type { ScanResponse } from "../types";
+
+test("a tick re-prices the nearest zone and sweet-spot state", async () => {
+  const result = await scanSymbol("EURUSD", { date: "2025-06-13" });
+  const zone = result.zones[0];
+  assert.ok(zone, "expected at least one structural zone");
+
+  const tick = { symbol: "EURUSD", spot: zone.zone_mid, at: "2025-06-13T12:00:00Z" };
+  const priced = applyPriceTick(result, tick);
+
+  assert.equal(priced.livePrice?.spot, zone.zone_mid);
+  assert.equal(priced.livePrice?.source, "live");
+  assert.equal(priced.nearestZone?.status, "AT_ZONE");
+  assert.equal(priced.sweetspotState, "currently_in");
+  assert.ok(priced.sessionRange!.high >= zone.zone_mid);
+  assert.ok(priced.sessionRange!.low <= zone.zone_mid);
+  // The scan result itself is left untouched
+  assert.notEqual(result.livePrice?.spot, zone.zone_mid);
+
+  // Quotes without a price and other symbols' ticks change nothing
+  assert.equal(applyPriceTick(result, { ...tick, spot: null }), result);
+  assert.equal(applyPriceTick(result, { ...tick, symbol: "XAUUSD" }), result);
+
+  const scan: ScanResponse = {
+    date: "2025-06-13",
+    symbols: {
+      EURUSD: result,
+      XAUUSD: { kind: "error", symbol: "XAUUSD", error: "No data" },
+    },
+  };
+  const next = applyPriceTickToScan(scan, tick);
+  assert.equal(next.symbols.XAUUSD, scan.symbols.XAUUSD);
+  assert.equal(
+    (next.symbols.EURUSD as typeof result).livePrice?.spot,
+    zone.zone_mid,
+  );
+});
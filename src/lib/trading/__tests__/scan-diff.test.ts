@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { diffScans } from "../scan-diff";
+import type { ScanResponse, SymbolScanResult, TradeCandidate } from "../types";
+
+const trade: TradeCandidate = {
+  model: "A",
+  direction: "Long",
+  entry: 1.1,
+  stop: 1.095,
+  tp1: 1.11,
+  risk_price: 0.005,
+  reward_price: 0.01,
+  rr: 2,
+  status: "VALID",
+};
+
+function result(overrides: Partial<SymbolScanResult>): SymbolScanResult {
+  return {
+    kind: "ok",
+    symbol: "EURUSD",
+    trend: "Bull",
+    macroTrend: "Bull",
+    latestTrendDay: "Bull",
+    macroTrendScore: 0.3,
+    trendDay: "Bull",
+    alignment: "AlignedLong",
+    isMacroAligned: true,
+    atr20: 0.01,
+    location: "Discount",
+    zones: [],
+    trades: [],
+    lastClose: 1.105,
+    pullback: {
+      depthIntoPrevPct: null,
+      bucket: null,
+      scenario: null,
+      typicalMeanPct: null,
+      typicalMedianPct: null,
+      sampleCount: 0,
+      lookbackDays: 60,
+    },
+    ...overrides,
+  };
+}
+
+test("diffScans reports changed fields and candidate churn", () => {
+  const before: ScanResponse = {
+    date: "2025-06-12",
+    symbols: {
+      EURUSD: result({ trades: [trade] }),
+      GBPUSD: { kind: "error", symbol: "GBPUSD", error: "boom" },
+    },
+  };
+  const after: ScanResponse = {
+    date: "2025-06-13",
+    symbols: {
+      EURUSD: result({
+        location: "Mid",
+        trades: [{ ...trade, model: "B", stopType: "PD" }],
+      }),
+    },
+  };
+
+  const diff = diffScans(before, after);
+  const eurusd = diff.symbols.find((s) => s.symbol === "EURUSD")!;
+  assert.deepEqual(eurusd.changes, [
+    { field: "location", before: "Discount", after: "Mid" },
+  ]);
+  assert.equal(eurusd.addedCandidates.length, 1);
+  assert.equal(eurusd.addedCandidates[0].model, "B");
+  assert.equal(eurusd.removedCandidates[0].model, "A");
+
+  const gbpusd = diff.symbols.find((s) => s.symbol === "GBPUSD")!;
+  assert.equal(gbpusd.presence, "removed");
+});
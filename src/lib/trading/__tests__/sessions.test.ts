@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  applySessionFilter,
+  buildSessionContext,
+  nextDailyClose,
+  serverTimeToUtc,
+  tradingSessionOf,
+  zonedTimeToUtc,
+} from "../sessions";
+import type { OhlcBar, TradeCandidate } from "../types";
+
+const hour = (date: string, high: number, low: number): OhlcBar => ({
+  date,
+  open: low,
+  high,
+  low,
+  close: high,
+});
+
+test("session and server times follow daylight saving", () => {
+  assert.equal(
+    zonedTimeToUtc("2025-07-01", "08:00", "Europe/London").toISOString(),
+    "2025-07-01T07:00:00.000Z",
+  );
+  assert.equal(
+    zonedTimeToUtc("2025-01-15", "08:00", "Europe/London").toISOString(),
+    "2025-01-15T08:00:00.000Z",
+  );
+
+  // New York close servers run at UTC+3 in the US summer, UTC+2 otherwise,
+  // including the weeks where only the US has switched
+  assert.equal(serverTimeToUtc("2025-07-01 10:00").toISOString(), "2025-07-01T07:00:00.000Z");
+  assert.equal(serverTimeToUtc("2025-01-15 10:00").toISOString(), "2025-01-15T08:00:00.000Z");
+  assert.equal(serverTimeToUtc("2025-03-12 10:00").toISOString(), "2025-03-12T07:00:00.000Z");
+  assert.equal(serverTimeToUtc("2025-07-01 10:00", 0).toISOString(), "2025-07-01T10:00:00.000Z");
+
+  // Friday after the close rolls over to Monday's close
+  assert.equal(
+    nextDailyClose(new Date("2025-07-04T22:00:00Z")).toISOString(),
+    "2025-07-07T21:00:00.000Z",
+  );
+
+  // A trading session is named by the New York date of its close
+  assert.equal(tradingSessionOf(new Date("2025-06-11T20:59:00Z")), "2025-06-11");
+  assert.equal(tradingSessionOf(new Date("2025-06-11T21:01:00Z")), "2025-06-12");
+  assert.equal(tradingSessionOf(new Date("2025-06-14T12:00:00Z")), "2025-06-16");
+});
+
+test("the session context reports open sessions, ranges and the daily close", () => {
+  const hourly = [
+    hour("2025-07-01 03:00", 1.1, 1.0), // 00:00 UTC: Asia
+    hour("2025-07-01 13:00", 1.3, 1.2), // 10:00 UTC: London
+    hour("2025-07-01 15:00", 1.25, 1.15), // 12:00 UTC: London and New York
+    hour("2025-07-01 17:00", 1.5, 0.9), // 14:00 UTC: after the scan
+  ];
+  const context = buildSessionContext(hourly, new Date("2025-07-01T13:00:00Z"));
+
+  assert.deepEqual(context.current, ["london", "new_york"]);
+  assert.deepEqual(
+    context.sessions.map((s) => [s.session, s.status, s.high, s.low]),
+    [
+      ["asia", "closed", 1.1, 1.0],
+      ["london", "open", 1.3, 1.15],
+      ["new_york", "open", 1.25, 1.15],
+    ],
+  );
+  assert.equal(context.dailyClose, "2025-07-01T21:00:00.000Z");
+  assert.equal(context.minutesToDailyClose, 480);
+  assert.equal(context.serverUtcOffset, 3);
+
+  const trade = { model: "A", status: "VALID" } as TradeCandidate;
+  const asiaOnly = applySessionFilter([trade], context, ["asia"]);
+  assert.equal(asiaOnly.context.allowed, false);
+  assert.deepEqual(
+    asiaOnly.trades.map((t) => [t.status, t.offSession]),
+    [["FILTERED", true]],
+  );
+  assert.equal(applySessionFilter([trade], context, ["london"]).trades[0].status, "VALID");
+  assert.equal(applySessionFilter([trade], context, []).context.allowed, undefined);
+});
@@ -0,0 +1,165 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { scanSymbolBars } from "../engine";
+import { generateSyntheticData } from "../data-provider";
+import {
+  classifyTrend,
+  compareTrendClassifiers,
+  computeMacroTrend,
+} from "../trend-analysis";
+import type { OhlcBar } from "../types";
+
+const bull = (prev: OhlcBar, date: string): OhlcBar => ({
+  date,
+  open: prev.close,
+  high: prev.high + 2,
+  low: prev.low + 1,
+  close: prev.high + 1,
+});
+
+const inside = (prev: OhlcBar, date: string): OhlcBar => ({
+  date,
+  open: prev.close,
+  high: prev.high - 0.5,
+  low: prev.low + 0.5,
+  close: (prev.high + prev.low) / 2,
+});
+
+/** A start bar followed by one bar per step, oldest first */
+function series(steps: ("bull" | "inside")[]): OhlcBar[] {
+  const bars: OhlcBar[] = [{ date: "d00", open: 100, high: 105, low: 95, close: 100 }];
+  steps.forEach((step, i) => {
+    const date = `d${String(i + 1).padStart(2, "0")}`;
+    const prev = bars[bars.length - 1];
+    bars.push(step === "bull" ? bull(prev, date) : inside(prev, date));
+  });
+  return bars;
+}
+
+/** Three sessions up 3, two down 2, repeated: a zig-zag advance (or decline) */
+function zigZag(cycles: number, direction: 1 | -1): OhlcBar[] {
+  const bars: OhlcBar[] = [];
+  let close = 100;
+  for (let i = 0; i < cycles * 5; i++) {
+    const open = close;
+    close += direction * (i % 5 < 3 ? 3 : -2);
+    bars.push({
+      date: `d${String(i).padStart(3, "0")}`,
+      open,
+      high: close + 1,
+      low: close - 1,
+      close,
+    });
+  }
+  return bars;
+}
+
+test("trendLookback sets the macro window", () => {
+  // Three bull days followed by seven quiet sessions
+  const bars = series([
+    "bull", "bull", "bull",
+    "inside", "inside", "inside", "inside", "inside", "inside", "inside",
+  ]);
+
+  const wide = classifyTrend(bars, { trendLookback: 10 });
+  assert.equal(wide.macroTrend, "Bull");
+  assert.equal(wide.macroTrendDiagnostics?.lookback, 10);
+  assert.equal(wide.macroTrendDiagnostics?.bullDays, 3);
+
+  const narrow = classifyTrend(bars, { trendLookback: 5 });
+  assert.equal(narrow.macroTrend, "Neutral");
+  assert.equal(narrow.macroTrendDiagnostics?.bullDays, 0);
+});
+
+test("thresholds and the dominance rule decide the regime and are echoed back", () => {
+  // Two bull days in a ten-session window: score 0.2 over sessions
+  const bars = series([
+    "bull", "inside", "inside", "inside", "bull",
+    "inside", "inside", "inside", "inside", "inside",
+  ]);
+
+  const byWindow = computeMacroTrend(bars, { window: 10 });
+  assert.equal(byWindow.macroTrend, "Neutral");
+  assert.equal(byWindow.rollingScore, 0.2);
+  assert.deepEqual(
+    {
+      score: byWindow.diagnostics.score,
+      bullThreshold: byWindow.diagnostics.bullThreshold,
+      bearThreshold: byWindow.diagnostics.bearThreshold,
+      dominance: byWindow.diagnostics.dominance,
+      dominanceThreshold: byWindow.diagnostics.dominanceThreshold,
+    },
+    {
+      score: 0.2,
+      bullThreshold: 0.25,
+      bearThreshold: -0.25,
+      dominance: "window",
+      dominanceThreshold: 3,
+    },
+  );
+
+  assert.equal(computeMacroTrend(bars, { window: 10, bullThreshold: 0.2 }).macroTrend, "Bull");
+
+  const byTrendDays = computeMacroTrend(bars, { window: 10, dominance: "trend_days" });
+  assert.equal(byTrendDays.macroTrend, "Bull");
+  assert.equal(byTrendDays.rollingScore, 1);
+  assert.equal(byTrendDays.diagnostics.dominanceThreshold, 1);
+});
+
+test("scan params reach the macro diagnostics of a scan", () => {
+  const bars = generateSyntheticData("EURUSD", "2025-06-30");
+  const result = scanSymbolBars("EURUSD", bars, {
+    params: {
+      trendLookback: 15,
+      macroBullThreshold: 0.3,
+      macroBearThreshold: -0.4,
+      macroDominance: "trend_days",
+    },
+  });
+
+  const diagnostics = result.macroTrendDiagnostics;
+  assert.equal(diagnostics?.lookback, 15);
+  assert.equal(diagnostics?.bullThreshold, 0.3);
+  assert.equal(diagnostics?.bearThreshold, -0.4);
+  assert.equal(diagnostics?.dominance, "trend_days");
+  assert.equal(result.macroTrendScore, diagnostics?.score);
+});
+
+test("classifiers can disagree on the same bars", () => {
+  // Three bull and two bear trend days per cycle: breakout scores only 0.2
+  const advance = compareTrendClassifiers(zigZag(8, 1), { window: 20 });
+  assert.deepEqual(
+    advance.map((v) => [v.classifier, v.macroTrend]),
+    [
+      ["breakout", "Neutral"],
+      ["ma_slope", "Bull"],
+      ["swing_structure", "Bull"],
+      ["adx", "Bull"],
+    ],
+  );
+  assert.equal(advance[0].score, 0.2);
+  assert.equal(advance[2].detail, "Higher highs, higher lows");
+
+  const decline = compareTrendClassifiers(zigZag(8, -1), { window: 20 });
+  assert.deepEqual(
+    decline.map((v) => v.macroTrend),
+    ["Neutral", "Bear", "Bear", "Bear"],
+  );
+  for (const [i, verdict] of decline.entries()) {
+    assert.ok(Math.abs(verdict.score + advance[i].score) < 1e-9, verdict.classifier);
+  }
+});
+
+test("macroClassifier picks the classifier a scan uses", () => {
+  const bars = generateSyntheticData("EURUSD", "2025-06-30");
+  const result = scanSymbolBars("EURUSD", bars, {
+    params: { macroClassifier: "adx" },
+  });
+
+  const adx = result.macroTrendComparison?.find((v) => v.classifier === "adx");
+  assert.equal(result.macroTrendComparison?.length, 4);
+  assert.equal(result.macroTrendDiagnostics?.classifier, "adx");
+  assert.equal(result.macroTrend, adx?.macroTrend);
+  assert.equal(result.macroTrendScore, adx?.score);
+  assert.match(result.macroTrendDiagnostics?.detail ?? "", /^ADX /);
+});
@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  applyZoneBar,
+  selectTradeZones,
+  trackZones,
+} from "../zone-lifecycle";
+import type { OcZone, OhlcBar, TrackedZone } from "../types";
+
+const bar = (date: string, high: number, low: number, close: number): OhlcBar => ({
+  date,
+  open: close,
+  high,
+  low,
+  close,
+});
+
+const zone = (low: number, high: number): OcZone => ({
+  zone_low: low,
+  zone_high: high,
+  zone_mid: (low + high) / 2,
+  score: 3,
+});
+
+test("a demand zone is tested, broken and flipped to supply", () => {
+  const start: TrackedZone = {
+    id: "z",
+    symbol: "EURUSD",
+    timeframe: "D1",
+    zone_low: 10,
+    zone_high: 11,
+    role: "Demand",
+    state: "fresh",
+    touches: 0,
+    firstFormed: "d00",
+    lastTested: null,
+    lastBar: "d00",
+    history: [{ date: "d00", kind: "formed" }],
+  };
+
+  const steps = [
+    bar("d01", 13, 11.5, 12.5), // above the zone: nothing happens
+    bar("d02", 12.5, 10.8, 12), // dips in and holds
+    bar("d03", 12, 9, 9.5), // closes below
+    bar("d04", 10.2, 9.2, 9.8), // retests from below and is rejected
+    bar("d05", 10.5, 8.5, 9), // tests the new supply
+  ];
+  const states = steps
+    .reduce<TrackedZone[]>(
+      (acc, b) => [...acc, applyZoneBar(acc[acc.length - 1] ?? start, b)],
+      [],
+    )
+    .map((z) => [z.state, z.role, z.touches]);
+
+  assert.deepEqual(states, [
+    ["fresh", "Demand", 0],
+    ["tested", "Demand", 1],
+    ["broken", "Demand", 1],
+    ["flipped", "Supply", 2],
+    ["flipped", "Supply", 3],
+  ]);
+});
+
+test("zones keep their identity and history across scans", () => {
+  const bars = [
+    bar("d00", 11, 10, 10.5), // forms in the zone
+    bar("d01", 12.5, 11.2, 12), // closes above: demand
+    bar("d02", 13, 12, 12.8),
+  ];
+  const first = trackZones("EURUSD", "D1", [zone(10, 11)], bars);
+  assert.equal(first.zones[0].zone_type, "Demand");
+  assert.equal(first.zones[0].state, "fresh");
+  assert.equal(first.zones[0].firstFormed, "d00");
+
+  // Next session the cluster has shifted slightly and price tests it
+  const next = trackZones(
+    "EURUSD",
+    "D1",
+    [zone(10.1, 11.1)],
+    [...bars, bar("d03", 12.8, 10.9, 11.6)],
+    first.tracked,
+  );
+  assert.equal(next.zones[0].id, first.zones[0].id);
+  assert.equal(next.zones[0].state, "tested");
+  assert.equal(next.zones[0].lastTested, "d03");
+  assert.deepEqual(
+    next.tracked[0].history.map((e) => e.kind),
+    ["formed", "tested"],
+  );
+});
+
+test("preferring fresh zones falls back to tested ones and skips broken", () => {
+  const tested = { ...zone(1, 2), state: "tested" as const };
+  const broken = { ...zone(3, 4), state: "broken" as const };
+  const fresh = { ...zone(5, 6), state: "fresh" as const };
+
+  assert.deepEqual(selectTradeZones([tested, broken, fresh], true), [fresh]);
+  assert.deepEqual(selectTradeZones([tested, broken], true), [tested]);
+  assert.equal(selectTradeZones([tested, broken, fresh], false).length, 3);
+});
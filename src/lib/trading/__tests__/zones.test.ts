@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { z } from "zod";
+import { scoreZone, zoneScoreParamsShape } from "../zones";
+import type { OhlcBar } from "../types";
+
+const zone = { zone_low: 10, zone_high: 11 };
+
+const bars: OhlcBar[] = [
+  { date: "d0", open: 10.5, high: 12.2, low: 10.4, close: 12, tickVolume: 200 },
+  // wick into the zone, body above it
+  { date: "d1", open: 12, high: 12.6, low: 10.8, close: 12.5, tickVolume: 100 },
+  { date: "d2", open: 13, high: 13, low: 10.5, close: 10.6, tickVolume: 100 },
+  { date: "d3", open: 10.6, high: 10.7, low: 8.8, close: 9, tickVolume: 200 },
+];
+
+test("default weights score closes and opens inside the zone only", () => {
+  const { score, scoreBreakdown } = scoreZone(zone, bars);
+
+  assert.equal(score, 4);
+  assert.deepEqual(scoreBreakdown, {
+    touches: 4,
+    volume: 0,
+    recency: 0,
+    rejection: 0,
+    confluence: 0,
+  });
+});
+
+test("weighted components add up to the score", () => {
+  const { score, scoreBreakdown } = scoreZone(zone, bars, {
+    weights: { volume: 1, recency: 2, rejection: 1, confluence: 1 },
+    recencyHalfLife: 1,
+  });
+
+  assert.equal(scoreBreakdown.touches, 4);
+  // 500 of the 600 ticks traded on touching bars, averaging 150 per bar
+  assert.ok(Math.abs(scoreBreakdown.volume - 500 / 150) < 1e-9);
+  // 1 point 3 bars back, 2 points 1 bar back, 1 point on the last bar
+  assert.equal(scoreBreakdown.recency, 2 * (0.125 + 1 + 1));
+  assert.ok(Math.abs(scoreBreakdown.rejection - 1.2 / 1.8) < 1e-9);
+  // prior day's low (10.5) is inside the zone, its high is not
+  assert.equal(scoreBreakdown.confluence, 1);
+  assert.ok(
+    Math.abs(score - Object.values(scoreBreakdown).reduce((a, b) => a + b, 0)) < 1e-9,
+  );
+});
+
+test("zone weights reject unknown keys", () => {
+  const params = z.object(zoneScoreParamsShape).strict();
+  assert.equal(params.safeParse({ zoneWeights: { volume: 2 } }).success, true);
+  assert.equal(params.safeParse({ zoneWeights: { volumne: 2 } }).success, false);
+});
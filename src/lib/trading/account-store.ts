@@ -0,0 +1,37 @@
+import { db } from "@/lib/db";
+import { DEFAULT_ACCOUNT_PROFILE } from "./position-sizing";
+import type { AccountProfile } from "./types";
+
+const PROFILE_ID = "default";
+
+/**
+ * The stored account profile, or the defaults when none has been saved.
+ * Like the instrument registry, a database failure falls back to defaults.
+ */
+export async function loadAccountProfile(): Promise<AccountProfile> {
+  try {
+    const row = await db.accountProfile.findUnique({ where: { id: PROFILE_ID } });
+    if (row) {
+      return {
+        balance: row.balance,
+        currency: row.currency,
+        riskPercent: row.riskPercent,
+        maxOpenRiskPercent: row.maxOpenRiskPercent,
+      };
+    }
+  } catch (err) {
+    console.error("Failed to load account profile, using defaults:", err);
+  }
+  return { ...DEFAULT_ACCOUNT_PROFILE };
+}
+
+export async function saveAccountProfile(
+  profile: AccountProfile,
+): Promise<AccountProfile> {
+  await db.accountProfile.upsert({
+    where: { id: PROFILE_ID },
+    create: { id: PROFILE_ID, ...profile },
+    update: profile,
+  });
+  return profile;
+}
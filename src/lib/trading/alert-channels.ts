@@ -0,0 +1,135 @@
+import { createTransport, type Transporter } from "nodemailer";
+import type { AlertChannelKind, AlertTrigger } from "./alerts";
+
+/** A fired alert as handed to delivery channels */
+export interface AlertDelivery extends AlertTrigger {
+  /** Id of the stored AlertEvent */
+  eventId: string;
+  firedAt: string;
+}
+
+/**
+ * A delivery backend. `deliver` throws on failure; the alert engine records
+ * the error per channel and carries on with the others.
+ */
+export interface AlertChannel {
+  kind: AlertChannelKind;
+  deliver(alert: AlertDelivery): Promise<void>;
+}
+
+// ---------------------------------------------------------------------------
+// In-app (the dashboard polls stored AlertEvents and shows them as toasts)
+// ---------------------------------------------------------------------------
+
+export const inAppChannel: AlertChannel = {
+  kind: "in_app",
+  async deliver() {
+    // Nothing to push: the stored event is the notification
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Webhook (ALERT_WEBHOOK_URL receives the alert as JSON)
+// ---------------------------------------------------------------------------
+
+export const webhookChannel: AlertChannel = {
+  kind: "webhook",
+  async deliver(alert) {
+    const url = process.env.ALERT_WEBHOOK_URL;
+    if (!url) throw new Error("ALERT_WEBHOOK_URL is not set");
+
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(alert),
+    });
+    if (!res.ok) {
+      throw new Error(`Webhook responded ${res.status} ${res.statusText}`);
+    }
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Email over SMTP (defaults to a local catcher such as MailHog on :1025)
+// ---------------------------------------------------------------------------
+
+let transporter: Transporter | null = null;
+
+function smtpTransport(): Transporter {
+  transporter ??= createTransport({
+    host: process.env.ALERT_SMTP_HOST ?? "localhost",
+    port: Number(process.env.ALERT_SMTP_PORT ?? 1025),
+    secure: false,
+    ignoreTLS: !process.env.ALERT_SMTP_USER,
+    auth: process.env.ALERT_SMTP_USER
+      ? {
+          user: process.env.ALERT_SMTP_USER,
+          pass: process.env.ALERT_SMTP_PASS,
+        }
+      : undefined,
+  });
+  return transporter;
+}
+
+export const emailChannel: AlertChannel = {
+  kind: "email",
+  async deliver(alert) {
+    const to = process.env.ALERT_EMAIL_TO;
+    if (!to) throw new Error("ALERT_EMAIL_TO is not set");
+
+    await smtpTransport().sendMail({
+      from: process.env.ALERT_EMAIL_FROM ?? "scanner@localhost",
+      to,
+      subject: `[${alert.symbol}] ${alert.condition.replace(/_/g, " ")}`,
+      text: `${alert.message}\n\nSession ${alert.session} · fired ${alert.firedAt}`,
+    });
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Channel selection
+// ---------------------------------------------------------------------------
+
+const channels = new Map<AlertChannelKind, AlertChannel>(
+  [inAppChannel, webhookChannel, emailChannel].map((c) => [c.kind, c]),
+);
+
+/** Replace the backend for a channel kind (tests, custom integrations) */
+export function registerAlertChannel(channel: AlertChannel): void {
+  channels.set(channel.kind, channel);
+}
+
+export function resetAlertChannels(): void {
+  channels.clear();
+  for (const channel of [inAppChannel, webhookChannel, emailChannel]) {
+    channels.set(channel.kind, channel);
+  }
+}
+
+export function getAlertChannel(kind: AlertChannelKind): AlertChannel {
+  const channel = channels.get(kind);
+  if (!channel) throw new Error(`No alert channel registered for ${kind}`);
+  return channel;
+}
+
+/**
+ * Send an alert to each of `kinds`. A failing channel does not stop the
+ * others; the result maps each channel to "sent" or its error message.
+ */
+export async function deliverAlert(
+  alert: AlertDelivery,
+  kinds: readonly AlertChannelKind[],
+): Promise<Partial<Record<AlertChannelKind, string>>> {
+  const outcomes = await Promise.all(
+    kinds.map(async (kind) => {
+      try {
+        await getAlertChannel(kind).deliver(alert);
+        return [kind, "sent"] as const;
+      } catch (err) {
+        console.error(`Failed to deliver alert ${alert.eventId} via ${kind}:`, err);
+        return [kind, err instanceof Error ? err.message : String(err)] as const;
+      }
+    }),
+  );
+  return Object.fromEntries(outcomes);
+}
@@ -0,0 +1,56 @@
+import { deliverAlert } from "./alert-channels";
+import {
+  listAlertRules,
+  recordAlertEvent,
+  updateAlertDelivery,
+  type AlertEventRecord,
+} from "./alert-store";
+import { evaluateAlertRule } from "./alerts";
+import { isKnownSymbol } from "./instruments";
+import { scanWithLivePrices } from "./live-scan";
+import { tradingSessionOf } from "./sessions";
+import type { SymbolCode } from "./types";
+
+export interface AlertCheckResult {
+  session: string | null;
+  symbols: SymbolCode[];
+  /** Events stored and delivered by this check (repeats are not included) */
+  fired: AlertEventRecord[];
+}
+
+/**
+ * Scan every symbol with an enabled rule, store each matching event that has
+ * not fired yet this trading session and send it to the rule's channels.
+ * Sessions roll over at the 17:00 New York close, not at UTC midnight.
+ * Callers hydrate the instrument registry first.
+ */
+export async function runAlertCheck(): Promise<AlertCheckResult> {
+  const rules = (await listAlertRules()).filter(
+    (rule) => rule.enabled && isKnownSymbol(rule.symbol),
+  );
+  const symbols = [...new Set(rules.map((rule) => rule.symbol))];
+  if (symbols.length === 0) {
+    return { session: null, symbols, fired: [] };
+  }
+
+  const scan = await scanWithLivePrices({ symbols });
+  const session = tradingSessionOf(new Date());
+  const fired: AlertEventRecord[] = [];
+
+  for (const rule of rules) {
+    const triggers = evaluateAlertRule(rule, scan.symbols[rule.symbol], session);
+
+    for (const trigger of triggers) {
+      const event = await recordAlertEvent(trigger);
+      if (!event) continue; // already fired this session
+
+      const delivery = await deliverAlert(
+        { ...trigger, eventId: event.id, firedAt: event.createdAt },
+        rule.channels,
+      );
+      fired.push(await updateAlertDelivery(event.id, delivery));
+    }
+  }
+
+  return { session, symbols, fired };
+}
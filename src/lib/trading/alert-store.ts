@@ -0,0 +1,145 @@
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import type {
+  AlertChannelKind,
+  AlertCondition,
+  AlertRule,
+  AlertRuleInput,
+  AlertTrigger,
+} from "./alerts";
+
+export interface AlertEventRecord {
+  id: string;
+  ruleId: string;
+  symbol: string;
+  condition: AlertCondition;
+  session: string;
+  eventKey: string;
+  message: string;
+  /** Per-channel outcome: "sent" or the delivery error */
+  delivery: Partial<Record<AlertChannelKind, string>>;
+  readAt: string | null;
+  createdAt: string;
+}
+
+type AlertRuleRow = Awaited<ReturnType<typeof db.alertRule.findMany>>[number];
+type AlertEventRow = Awaited<ReturnType<typeof db.alertEvent.findMany>>[number];
+
+function toRule(row: AlertRuleRow): AlertRule {
+  return {
+    id: row.id,
+    symbol: row.symbol,
+    condition: row.condition as AlertCondition,
+    value: row.value,
+    channels: row.channels.split(",").filter(Boolean) as AlertChannelKind[],
+    enabled: row.enabled,
+  };
+}
+
+function toEventRecord(row: AlertEventRow): AlertEventRecord {
+  return {
+    id: row.id,
+    ruleId: row.ruleId,
+    symbol: row.symbol,
+    condition: row.condition as AlertCondition,
+    session: row.session,
+    eventKey: row.eventKey,
+    message: row.message,
+    delivery: JSON.parse(row.delivery),
+    readAt: row.readAt?.toISOString() ?? null,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+export async function listAlertRules(): Promise<AlertRule[]> {
+  const rows = await db.alertRule.findMany({ orderBy: { createdAt: "asc" } });
+  return rows.map(toRule);
+}
+
+/** Create a rule, or update it when `id` is given. */
+export async function saveAlertRule(input: AlertRuleInput): Promise<AlertRule> {
+  const data = {
+    symbol: input.symbol,
+    condition: input.condition,
+    value: input.value ?? null,
+    channels: input.channels.join(","),
+    enabled: input.enabled,
+  };
+
+  const row = input.id
+    ? await db.alertRule.update({ where: { id: input.id }, data })
+    : await db.alertRule.create({ data });
+  return toRule(row);
+}
+
+/** Delete a rule and its events. Returns false when it did not exist. */
+export async function deleteAlertRule(id: string): Promise<boolean> {
+  const { count } = await db.alertRule.deleteMany({ where: { id } });
+  return count > 0;
+}
+
+/**
+ * Store a fired alert. Returns null when the same event already fired for
+ * the rule this session, which is how repeats are suppressed.
+ */
+export async function recordAlertEvent(
+  trigger: AlertTrigger,
+): Promise<AlertEventRecord | null> {
+  try {
+    const row = await db.alertEvent.create({
+      data: {
+        ruleId: trigger.ruleId,
+        symbol: trigger.symbol,
+        condition: trigger.condition,
+        session: trigger.session,
+        eventKey: trigger.eventKey,
+        message: trigger.message,
+      },
+    });
+    return toEventRecord(row);
+  } catch (err) {
+    if (
+      err instanceof Prisma.PrismaClientKnownRequestError &&
+      err.code === "P2002"
+    ) {
+      return null;
+    }
+    throw err;
+  }
+}
+
+export async function updateAlertDelivery(
+  id: string,
+  delivery: AlertEventRecord["delivery"],
+): Promise<AlertEventRecord> {
+  const row = await db.alertEvent.update({
+    where: { id },
+    data: { delivery: JSON.stringify(delivery) },
+  });
+  return toEventRecord(row);
+}
+
+/** Newest first; `since` (ISO timestamp) limits to events fired after it */
+export async function listAlertEvents(options?: {
+  since?: string;
+  unread?: boolean;
+  limit?: number;
+}): Promise<AlertEventRecord[]> {
+  const rows = await db.alertEvent.findMany({
+    where: {
+      ...(options?.since ? { createdAt: { gt: new Date(options.since) } } : {}),
+      ...(options?.unread ? { readAt: null } : {}),
+    },
+    orderBy: { createdAt: "desc" },
+    take: options?.limit ?? 50,
+  });
+  return rows.map(toEventRecord);
+}
+
+export async function markAlertEventsRead(ids: string[]): Promise<number> {
+  const { count } = await db.alertEvent.updateMany({
+    where: { id: { in: ids }, readAt: null },
+    data: { readAt: new Date() },
+  });
+  return count;
+}
@@ -0,0 +1,172 @@
+import { z } from "zod";
+import { knownSymbolSchema } from "./instruments";
+import type { NearestZoneInfo, SymbolCode, SymbolScanEntry } from "./types";
+import { isActionableCandidate, isSymbolScanError } from "./types";
+import type { PullbackBucket, SweetspotState } from "./pullback-analysis";
+
+/** What a rule watches for on each scan of its symbol */
+export const ALERT_CONDITIONS = [
+  "zone_status",
+  "sweetspot_state",
+  "pullback_bucket",
+  "model_d_valid",
+] as const;
+
+export type AlertCondition = (typeof ALERT_CONDITIONS)[number];
+
+/** Where a fired alert is delivered (see alert-channels.ts) */
+export const ALERT_CHANNELS = ["in_app", "webhook", "email"] as const;
+
+export type AlertChannelKind = (typeof ALERT_CHANNELS)[number];
+
+const ZONE_STATUSES: readonly NearestZoneInfo["status"][] = [
+  "AT_ZONE",
+  "NEAR",
+  "FAR",
+];
+const SWEETSPOT_STATES: readonly SweetspotState[] = [
+  "not_touched",
+  "currently_in",
+  "touched_and_rejected",
+];
+const PULLBACK_BUCKETS: readonly PullbackBucket[] = [
+  "0-0.382",
+  "0.382-0.5",
+  "0.5-0.618",
+  "0.618-0.786",
+  "0.786-1.0",
+  "1.0+",
+];
+
+/** Values a condition compares against; model_d_valid takes none */
+export const ALERT_CONDITION_VALUES: Record<AlertCondition, readonly string[]> = {
+  zone_status: ZONE_STATUSES,
+  sweetspot_state: SWEETSPOT_STATES,
+  pullback_bucket: PULLBACK_BUCKETS,
+  model_d_valid: [],
+};
+
+export interface AlertRule {
+  id: string;
+  symbol: SymbolCode;
+  condition: AlertCondition;
+  /** Status / state / bucket to match; null for model_d_valid */
+  value: string | null;
+  channels: AlertChannelKind[];
+  enabled: boolean;
+}
+
+/** A rule that matched a scan, before deduplication and delivery */
+export interface AlertTrigger {
+  ruleId: string;
+  symbol: SymbolCode;
+  condition: AlertCondition;
+  /** Trading session the event belongs to; an event fires once per session */
+  session: string;
+  /** Identifies the event within the session (e.g. one per Model D candidate) */
+  eventKey: string;
+  message: string;
+}
+
+/**
+ * Match a rule against a symbol's scan entry. Returns one trigger per event:
+ * a single one for state conditions, one per VALID Model D candidate.
+ */
+export function evaluateAlertRule(
+  rule: AlertRule,
+  entry: SymbolScanEntry | undefined,
+  session: string,
+): AlertTrigger[] {
+  if (!rule.enabled || !entry || isSymbolScanError(entry)) return [];
+  if (entry.symbol !== rule.symbol) return [];
+
+  const trigger = (eventKey: string, message: string): AlertTrigger => ({
+    ruleId: rule.id,
+    symbol: rule.symbol,
+    condition: rule.condition,
+    session,
+    eventKey,
+    message,
+  });
+
+  switch (rule.condition) {
+    case "zone_status": {
+      const zone = entry.nearestZone;
+      if (!zone || zone.status !== rule.value) return [];
+      return [
+        trigger(
+          `zone_status:${zone.status}`,
+          `${rule.symbol} nearest zone is ${zone.status} (${zone.zone_low}–${zone.zone_high}, spot ${zone.spot})`,
+        ),
+      ];
+    }
+    case "sweetspot_state": {
+      if (!entry.sweetspotState || entry.sweetspotState !== rule.value) return [];
+      return [
+        trigger(
+          `sweetspot_state:${entry.sweetspotState}`,
+          `${rule.symbol} sweet spot is ${entry.sweetspotState.replace(/_/g, " ")}`,
+        ),
+      ];
+    }
+    case "pullback_bucket": {
+      const bucket = entry.pullback?.bucket;
+      if (!bucket || bucket !== rule.value) return [];
+      return [
+        trigger(
+          `pullback_bucket:${bucket}`,
+          `${rule.symbol} pullback into the previous range is in the ${bucket} bucket`,
+        ),
+      ];
+    }
+    case "model_d_valid":
+      return entry.trades
+        .filter((trade) => trade.model === "D" && isActionableCandidate(trade))
+        .map((trade) =>
+          trigger(
+            `model_d:${trade.direction}:${trade.entry}`,
+            `${rule.symbol} new VALID Model D ${trade.direction} @ ${trade.entry} (SL ${trade.stop}, TP1 ${trade.tp1}, R:R ${trade.rr.toFixed(2)})`,
+          ),
+        );
+  }
+}
+
+export const alertRuleSchema = z
+  .object({
+    id: z.string().trim().min(1).optional(),
+    symbol: knownSymbolSchema,
+    condition: z.enum(ALERT_CONDITIONS, {
+      message: `condition must be one of ${ALERT_CONDITIONS.join(", ")}`,
+    }),
+    value: z.string().trim().min(1).nullish(),
+    channels: z
+      .array(
+        z.enum(ALERT_CHANNELS, {
+          message: `channels must be among ${ALERT_CHANNELS.join(", ")}`,
+        }),
+      )
+      .nonempty({ message: "Pick at least one delivery channel" })
+      .default(["in_app"]),
+    enabled: z.boolean().default(true),
+  })
+  .strict()
+  .superRefine((rule, ctx) => {
+    const allowed = ALERT_CONDITION_VALUES[rule.condition];
+    if (allowed.length === 0) {
+      if (rule.value != null) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["value"],
+          message: `${rule.condition} takes no value`,
+        });
+      }
+    } else if (!rule.value || !allowed.includes(rule.value)) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["value"],
+        message: `value must be one of ${allowed.join(", ")}`,
+      });
+    }
+  });
+
+export type AlertRuleInput = z.infer<typeof alertRuleSchema>;
@@ -0,0 +1,148 @@
+import {
+  closedTradeCurve,
+  resolveBacktestSettings,
+  runBacktest,
+  type BacktestOptions,
+  type BacktestSettings,
+  type BacktestTrade,
+  type EquityPoint,
+} from "./backtest";
+import type { OhlcDataSource, SymbolCode } from "./types";
+
+/** Ways historical candidates are grouped on the analytics page */
+export const ANALYTICS_DIMENSIONS = [
+  "scenario",
+  "model",
+  "location",
+  "nearestZoneStatus",
+  "sweetspotState",
+] as const;
+
+export type AnalyticsDimension = (typeof ANALYTICS_DIMENSIONS)[number];
+
+export type { EquityPoint } from "./backtest";
+
+export interface PerformanceStats {
+  /** Group value, e.g. "Bull|Bull|Aligned" or "Discount"; "ALL" for the total */
+  key: string;
+  /** Closed trades (target, stop or timeout) */
+  trades: number;
+  wins: number;
+  losses: number;
+  winRate: number | null;
+  avgR: number | null;
+  totalR: number;
+  /** Gross R won over gross R lost; null without losing trades */
+  profitFactor: number | null;
+  maxDrawdownR: number;
+  equity: EquityPoint[];
+}
+
+export interface PerformanceReport {
+  symbols: SymbolCode[];
+  from: string | null;
+  to: string | null;
+  settings: BacktestSettings;
+  overall: PerformanceStats;
+  groups: Record<AnalyticsDimension, PerformanceStats[]>;
+  dataSources: Partial<Record<SymbolCode, OhlcDataSource>>;
+  /** Symbols whose history could not be replayed, with the reason */
+  errors: Partial<Record<SymbolCode, string>>;
+}
+
+/** Group label for a trade; trades replayed without context fall in "n/a" */
+export function dimensionValue(
+  trade: BacktestTrade,
+  dimension: AnalyticsDimension,
+): string {
+  const value =
+    dimension === "model" ? trade.model : trade.context?.[dimension];
+  return value ?? "n/a";
+}
+
+export function summarizePerformance(
+  key: string,
+  trades: BacktestTrade[],
+): PerformanceStats {
+  const { closed, wins, totalR, maxDrawdownR, equity } = closedTradeCurve(trades);
+
+  let grossWin = 0;
+  let grossLoss = 0;
+  for (const trade of closed) {
+    if (trade.rMultiple > 0) grossWin += trade.rMultiple;
+    else grossLoss -= trade.rMultiple;
+  }
+
+  return {
+    key,
+    trades: closed.length,
+    wins,
+    losses: closed.length - wins,
+    winRate: closed.length > 0 ? wins / closed.length : null,
+    avgR: closed.length > 0 ? totalR / closed.length : null,
+    totalR,
+    profitFactor: grossLoss > 0 ? grossWin / grossLoss : null,
+    maxDrawdownR,
+    equity,
+  };
+}
+
+/** Stats per value of `dimension`, most trades first */
+export function groupPerformance(
+  trades: BacktestTrade[],
+  dimension: AnalyticsDimension,
+): PerformanceStats[] {
+  const groups = new Map<string, BacktestTrade[]>();
+  for (const trade of trades) {
+    const key = dimensionValue(trade, dimension);
+    groups.set(key, [...(groups.get(key) ?? []), trade]);
+  }
+
+  return [...groups]
+    .map(([key, group]) => summarizePerformance(key, group))
+    .sort((a, b) => b.trades - a.trades || a.key.localeCompare(b.key));
+}
+
+/**
+ * Replay the full daily history of every symbol with the backtest rules and
+ * aggregate the resolved candidates by scenario, model, location, nearest
+ * zone status and sweet-spot state.
+ */
+export async function runPerformanceAnalytics(
+  symbols: SymbolCode[],
+  options?: BacktestOptions,
+): Promise<PerformanceReport> {
+  const trades: BacktestTrade[] = [];
+  const dataSources: PerformanceReport["dataSources"] = {};
+  const errors: PerformanceReport["errors"] = {};
+
+  // One symbol at a time: each replay re-runs the scanner on every session
+  for (const symbol of symbols) {
+    try {
+      const report = await runBacktest(symbol, options);
+      trades.push(...report.trades);
+      if (report.dataSource) dataSources[symbol] = report.dataSource;
+    } catch (err) {
+      console.error(`Analytics replay failed for ${symbol}:`, err);
+      errors[symbol] = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  const groups = Object.fromEntries(
+    ANALYTICS_DIMENSIONS.map((dimension) => [
+      dimension,
+      groupPerformance(trades, dimension),
+    ]),
+  ) as PerformanceReport["groups"];
+
+  return {
+    symbols,
+    from: options?.from ?? null,
+    to: options?.to ?? null,
+    settings: resolveBacktestSettings(options),
+    overall: summarizePerformance("ALL", trades),
+    groups,
+    dataSources,
+    errors,
+  };
+}
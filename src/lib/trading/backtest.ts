@@ -0,0 +1,539 @@
+import { z } from "zod";
+import { getDailyOhlcHistory } from "./data-provider";
+import { resolveScanWindow, scanSymbolBars } from "./engine";
+import { formatScenarioKey, type SweetspotState } from "./pullback-analysis";
+import { macroTrendParamsShape } from "./trend-analysis";
+import { liquidityParamsShape } from "./liquidity";
+import { zoneParamsShape } from "./zone-lifecycle";
+import { zoneScoreParamsShape } from "./zones";
+import { sessionParamsShape } from "./sessions";
+import type {
+  NearestZoneInfo,
+  OhlcBar,
+  OhlcDataSource,
+  ScanOptions,
+  SymbolCode,
+  SymbolScanResult,
+  TradeCandidate,
+  TradeModel,
+} from "./types";
+import { TRADE_MODELS } from "./types";
+
+export { TRADE_MODELS, type TradeModel };
+
+/**
+ * How to resolve a daily bar that prints both the stop and the target.
+ * Daily bars do not tell us which came first, so the default is the
+ * conservative "stop_first".
+ */
+export type SameBarPolicy = "stop_first" | "target_first";
+
+export interface BacktestOptions {
+  /** First signal date to replay (inclusive, yyyy-mm-dd) */
+  from?: string;
+  /** Last signal date to replay (inclusive, yyyy-mm-dd) */
+  to?: string;
+  /** Scan filters/params forwarded to every replayed scan */
+  scan?: Pick<ScanOptions, "filters" | "params">;
+  /** Sessions a candidate's entry order stays working before it expires */
+  entryExpiryBars?: number;
+  /** Sessions a filled trade is held before it is closed at the bar close */
+  maxHoldBars?: number;
+  sameBarPolicy?: SameBarPolicy;
+}
+
+export interface BacktestSettings {
+  entryExpiryBars: number;
+  maxHoldBars: number;
+  sameBarPolicy: SameBarPolicy;
+}
+
+export type BacktestOutcome =
+  | "TARGET" // tp1 reached
+  | "STOP" // stop reached
+  | "TIMEOUT" // closed at the bar close after maxHoldBars
+  | "EXPIRED" // entry never touched
+  | "OPEN"; // still running when the data ran out
+
+/** What the scanner saw on the signal session, for grouping results */
+export interface BacktestTradeContext {
+  /** Pullback scenario key, see formatScenarioKey */
+  scenario: string | null;
+  location: SymbolScanResult["location"];
+  nearestZoneStatus: NearestZoneInfo["status"] | null;
+  sweetspotState: SweetspotState | null;
+}
+
+export interface BacktestTrade {
+  symbol: SymbolCode;
+  model: TradeModel;
+  direction: TradeCandidate["direction"];
+  stopType?: TradeCandidate["stopType"];
+  placement?: TradeCandidate["placement"];
+  signalDate: string;
+  entryDate: string | null;
+  exitDate: string | null;
+  entry: number;
+  stop: number;
+  tp1: number;
+  exitPrice: number | null;
+  outcome: BacktestOutcome;
+  /** Realised result in multiples of the initial risk (0 when not filled) */
+  rMultiple: number;
+  /** True when the same-bar policy had to decide between stop and target */
+  ambiguous: boolean;
+  barsHeld: number;
+  /** Signal-session context (set by the walk-forward replay) */
+  context?: BacktestTradeContext;
+}
+
+export interface EquityPoint {
+  /** Exit date of the trade that moved the curve */
+  date: string;
+  /** Cumulative R after that trade */
+  equityR: number;
+}
+
+/** Closed trades in exit order with their cumulative R curve */
+export interface ClosedTradeCurve {
+  closed: BacktestTrade[];
+  wins: number;
+  totalR: number;
+  /** Largest peak-to-trough drop of the cumulative R curve */
+  maxDrawdownR: number;
+  equity: EquityPoint[];
+}
+
+export interface BacktestModelStats {
+  model: TradeModel | "ALL";
+  /** Closed trades (target, stop or timeout) */
+  trades: number;
+  wins: number;
+  losses: number;
+  timeouts: number;
+  /** Entries that expired untouched */
+  expired: number;
+  /** Trades still open at the end of the data (excluded from the stats) */
+  open: number;
+  winRate: number | null;
+  expectancyR: number | null;
+  totalR: number;
+  /** Largest peak-to-trough drop of the cumulative R curve */
+  maxDrawdownR: number;
+}
+
+export interface BacktestReport {
+  symbol: SymbolCode;
+  from: string | null;
+  to: string | null;
+  barsReplayed: number;
+  settings: BacktestSettings;
+  models: BacktestModelStats[];
+  overall: BacktestModelStats;
+  trades: BacktestTrade[];
+  /** Where the replayed bars came from (absent for caller-supplied bars) */
+  dataSource?: OhlcDataSource;
+}
+
+const DEFAULT_SETTINGS: BacktestSettings = {
+  entryExpiryBars: 3,
+  maxHoldBars: 10,
+  sameBarPolicy: "stop_first",
+};
+
+export function resolveBacktestSettings(
+  options?: BacktestOptions,
+): BacktestSettings {
+  return {
+    entryExpiryBars: Math.max(
+      1,
+      Math.floor(options?.entryExpiryBars ?? DEFAULT_SETTINGS.entryExpiryBars),
+    ),
+    maxHoldBars: Math.max(
+      1,
+      Math.floor(options?.maxHoldBars ?? DEFAULT_SETTINGS.maxHoldBars),
+    ),
+    sameBarPolicy: options?.sameBarPolicy ?? DEFAULT_SETTINGS.sameBarPolicy,
+  };
+}
+
+function rMultipleAt(candidate: TradeCandidate, price: number): number {
+  const risk = Math.abs(candidate.entry - candidate.stop);
+  if (!Number.isFinite(risk) || risk <= 0) return 0;
+  const move =
+    candidate.direction === "Long"
+      ? price - candidate.entry
+      : candidate.entry - price;
+  return move / risk;
+}
+
+/**
+ * Simulate a single candidate against the bars that follow its signal.
+ *
+ * Fill rules:
+ *  - Every candidate is treated as a resting order at `entry`, working for
+ *    `entryExpiryBars` sessions starting at `startIndex`.
+ *  - On the fill bar a stop touch counts as a loss, while a target touch is
+ *    ignored (it may have printed before the entry).
+ *  - On later bars, a bar that opens past a level exits at the open (a gap
+ *    through the stop loses more than 1R, one through the target gains
+ *    more); otherwise a bar that prints both levels is resolved by
+ *    `sameBarPolicy`.
+ *  - After `maxHoldBars` sessions the trade is closed at the bar close.
+ */
+export function simulateCandidate(
+  symbol: SymbolCode,
+  candidate: TradeCandidate,
+  bars: OhlcBar[],
+  startIndex: number,
+  signalDate: string,
+  settings: BacktestSettings,
+): BacktestTrade & { exitIndex: number } {
+  const isLong = candidate.direction === "Long";
+  const base = {
+    symbol,
+    model: candidate.model,
+    direction: candidate.direction,
+    stopType: candidate.stopType,
+    placement: candidate.placement,
+    signalDate,
+    entry: candidate.entry,
+    stop: candidate.stop,
+    tp1: candidate.tp1,
+  };
+
+  const touchesEntry = (bar: OhlcBar) =>
+    isLong ? bar.low <= candidate.entry : bar.high >= candidate.entry;
+  const touchesStop = (bar: OhlcBar) =>
+    isLong ? bar.low <= candidate.stop : bar.high >= candidate.stop;
+  const touchesTarget = (bar: OhlcBar) =>
+    isLong ? bar.high >= candidate.tp1 : bar.low <= candidate.tp1;
+  const opensPastStop = (bar: OhlcBar) =>
+    isLong ? bar.open <= candidate.stop : bar.open >= candidate.stop;
+  const opensPastTarget = (bar: OhlcBar) =>
+    isLong ? bar.open >= candidate.tp1 : bar.open <= candidate.tp1;
+
+  let fillIndex = -1;
+  const lastEntryIndex = Math.min(
+    bars.length - 1,
+    startIndex + settings.entryExpiryBars - 1,
+  );
+  for (let i = startIndex; i <= lastEntryIndex; i++) {
+    if (touchesEntry(bars[i])) {
+      fillIndex = i;
+      break;
+    }
+  }
+
+  if (fillIndex === -1) {
+    // Not filled: either expired or the data ran out while still working
+    const ranOut = startIndex + settings.entryExpiryBars - 1 > bars.length - 1;
+    return {
+      ...base,
+      entryDate: null,
+      exitDate: null,
+      exitPrice: null,
+      outcome: ranOut ? "OPEN" : "EXPIRED",
+      rMultiple: 0,
+      ambiguous: false,
+      barsHeld: 0,
+      exitIndex: Math.min(lastEntryIndex, bars.length - 1),
+    };
+  }
+
+  const entryDate = bars[fillIndex].date;
+  const lastHoldIndex = fillIndex + settings.maxHoldBars - 1;
+
+  for (let i = fillIndex; i < bars.length && i <= lastHoldIndex; i++) {
+    const bar = bars[i];
+    const stopHit = touchesStop(bar);
+    const targetHit = i > fillIndex && touchesTarget(bar);
+    const barsHeld = i - fillIndex + 1;
+
+    const gappedStop = i > fillIndex && opensPastStop(bar);
+    if (gappedStop || (i > fillIndex && opensPastTarget(bar))) {
+      return {
+        ...base,
+        entryDate,
+        exitDate: bar.date,
+        exitPrice: bar.open,
+        outcome: gappedStop ? "STOP" : "TARGET",
+        rMultiple: rMultipleAt(candidate, bar.open),
+        ambiguous: false,
+        barsHeld,
+        exitIndex: i,
+      };
+    }
+
+    if (stopHit || targetHit) {
+      const ambiguous =
+        stopHit && (targetHit || (i === fillIndex && touchesTarget(bar)));
+      const takeTarget =
+        targetHit &&
+        (!stopHit || settings.sameBarPolicy === "target_first");
+      const exitPrice = takeTarget ? candidate.tp1 : candidate.stop;
+
+      return {
+        ...base,
+        entryDate,
+        exitDate: bar.date,
+        exitPrice,
+        outcome: takeTarget ? "TARGET" : "STOP",
+        rMultiple: rMultipleAt(candidate, exitPrice),
+        ambiguous,
+        barsHeld,
+        exitIndex: i,
+      };
+    }
+
+    if (i === lastHoldIndex) {
+      return {
+        ...base,
+        entryDate,
+        exitDate: bar.date,
+        exitPrice: bar.close,
+        outcome: "TIMEOUT",
+        rMultiple: rMultipleAt(candidate, bar.close),
+        ambiguous: false,
+        barsHeld,
+        exitIndex: i,
+      };
+    }
+  }
+
+  // Data ran out while the trade was still running: mark to the last close
+  const lastBar = bars[bars.length - 1];
+  return {
+    ...base,
+    entryDate,
+    exitDate: null,
+    exitPrice: lastBar.close,
+    outcome: "OPEN",
+    rMultiple: rMultipleAt(candidate, lastBar.close),
+    ambiguous: false,
+    barsHeld: bars.length - fillIndex,
+    exitIndex: bars.length - 1,
+  };
+}
+
+/** Target, stop or timeout; expired entries and open trades are not results */
+export function isClosed(trade: BacktestTrade): boolean {
+  return (
+    trade.outcome === "TARGET" ||
+    trade.outcome === "STOP" ||
+    trade.outcome === "TIMEOUT"
+  );
+}
+
+/** The closed trades sorted by exit date, walked into a cumulative R curve */
+export function closedTradeCurve(trades: BacktestTrade[]): ClosedTradeCurve {
+  const closed = trades
+    .filter(isClosed)
+    .sort((a, b) => (a.exitDate ?? "").localeCompare(b.exitDate ?? ""));
+
+  let equityR = 0;
+  let peak = 0;
+  let maxDrawdownR = 0;
+  const equity: EquityPoint[] = [];
+  for (const trade of closed) {
+    equityR += trade.rMultiple;
+    peak = Math.max(peak, equityR);
+    maxDrawdownR = Math.max(maxDrawdownR, peak - equityR);
+    equity.push({ date: trade.exitDate!, equityR });
+  }
+
+  return {
+    closed,
+    wins: closed.filter((t) => t.rMultiple > 0).length,
+    totalR: equityR,
+    maxDrawdownR,
+    equity,
+  };
+}
+
+export function summarizeTrades(
+  model: BacktestModelStats["model"],
+  trades: BacktestTrade[],
+): BacktestModelStats {
+  const { closed, wins, totalR, maxDrawdownR } = closedTradeCurve(trades);
+
+  return {
+    model,
+    trades: closed.length,
+    wins,
+    losses: closed.length - wins,
+    timeouts: closed.filter((t) => t.outcome === "TIMEOUT").length,
+    expired: trades.filter((t) => t.outcome === "EXPIRED").length,
+    open: trades.filter((t) => t.outcome === "OPEN").length,
+    winRate: closed.length > 0 ? wins / closed.length : null,
+    expectancyR: closed.length > 0 ? totalR / closed.length : null,
+    totalR,
+    maxDrawdownR,
+  };
+}
+
+/**
+ * Walk-forward replay over an in-memory daily history. For every session in
+ * the [from, to] range the scanner is run on the bars known at that close;
+ * the VALID candidates it proposes are then simulated on the following bars.
+ *
+ * Each model holds at most one working order or open trade at a time, so a
+ * zone that keeps producing the same setup day after day is counted once.
+ */
+export function runBacktestOnBars(
+  symbol: SymbolCode,
+  bars: OhlcBar[],
+  options?: BacktestOptions,
+): BacktestReport {
+  const settings = resolveBacktestSettings(options);
+  const { neededBars } = resolveScanWindow(options?.scan);
+  const from = options?.from ?? null;
+  const to = options?.to ?? null;
+
+  const trades: BacktestTrade[] = [];
+  const busyUntil = new Map<TradeModel, number>();
+  let barsReplayed = 0;
+
+  for (let i = neededBars - 1; i < bars.length - 1; i++) {
+    const signalDate = bars[i].date;
+    if (from && signalDate < from) continue;
+    if (to && signalDate > to) break;
+
+    barsReplayed++;
+
+    const result = scanSymbolBars(symbol, bars.slice(0, i + 1), options?.scan);
+    const context: BacktestTradeContext = {
+      scenario: result.pullback?.scenario
+        ? formatScenarioKey(result.pullback.scenario)
+        : null,
+      location: result.location,
+      nearestZoneStatus: result.nearestZone?.status ?? null,
+      sweetspotState: result.sweetspotState ?? null,
+    };
+
+    for (const candidate of result.trades) {
+      if (candidate.status !== "VALID") continue;
+      if ((busyUntil.get(candidate.model) ?? -1) > i) continue;
+
+      const { exitIndex, ...trade } = simulateCandidate(
+        symbol,
+        candidate,
+        bars,
+        i + 1,
+        signalDate,
+        settings,
+      );
+      trades.push({ ...trade, context });
+      busyUntil.set(candidate.model, exitIndex);
+    }
+  }
+
+  const models = TRADE_MODELS.map((model) =>
+    summarizeTrades(
+      model,
+      trades.filter((t) => t.model === model),
+    ),
+  );
+
+  return {
+    symbol,
+    from,
+    to,
+    barsReplayed,
+    settings,
+    models,
+    overall: summarizeTrades("ALL", trades),
+    trades,
+  };
+}
+
+export async function runBacktest(
+  symbol: SymbolCode,
+  options?: BacktestOptions,
+): Promise<BacktestReport> {
+  const { bars, source } = await getDailyOhlcHistory(symbol);
+  return { ...runBacktestOnBars(symbol, bars, options), dataSource: source };
+}
+
+// ---------------------------------------------------------------------------
+// Request validation shared by the backtest, analytics and optimization APIs
+// ---------------------------------------------------------------------------
+
+const isoDate = z
+  .string()
+  .trim()
+  .regex(/^[0-9]{4}-[0-9]{2}-[0-9]{2}$/u, {
+    message: "Invalid date format (expected yyyy-mm-dd)",
+  });
+
+const positiveInt = (label: string) =>
+  z
+    .number({ message: `${label} must be a number` })
+    .int({ message: `${label} must be an integer` })
+    .positive({ message: `${label} must be positive` });
+
+/** Replay window, fill settings and scan filters/params of a backtest request */
+export const backtestRequestSchema = z.object({
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+  entryExpiryBars: positiveInt("entryExpiryBars").optional(),
+  maxHoldBars: positiveInt("maxHoldBars").optional(),
+  sameBarPolicy: z.enum(["stop_first", "target_first"]).optional(),
+  filters: z
+    .object({
+      minRr: z.number({ message: "minRr must be a number" }).finite().optional(),
+      spreadCap: z
+        .number({ message: "spreadCap must be a number" })
+        .finite()
+        .optional(),
+    })
+    .strict()
+    .optional(),
+  params: z
+    .object({
+      atrWindow: z.number({ message: "atrWindow must be a number" }).finite().optional(),
+      structureLookback: z
+        .number({ message: "structureLookback must be a number" })
+        .finite()
+        .optional(),
+      trendLookback: z
+        .number({ message: "trendLookback must be a number" })
+        .finite()
+        .optional(),
+      pullbackWindow: z
+        .number({ message: "pullbackWindow must be a number" })
+        .finite()
+        .optional(),
+      ...macroTrendParamsShape,
+      ...liquidityParamsShape,
+      ...zoneParamsShape,
+      ...zoneScoreParamsShape,
+      ...sessionParamsShape,
+    })
+    .strict()
+    .optional(),
+});
+
+export type BacktestRequest = z.infer<typeof backtestRequestSchema>;
+
+/** Refinement for request schemas: `from` must not be after `to` */
+export function hasValidBacktestRange(value: {
+  from?: string;
+  to?: string;
+}): boolean {
+  return !value.from || !value.to || value.from <= value.to;
+}
+
+export function toBacktestOptions(payload: BacktestRequest): BacktestOptions {
+  return {
+    from: payload.from,
+    to: payload.to,
+    entryExpiryBars: payload.entryExpiryBars,
+    maxHoldBars: payload.maxHoldBars,
+    sameBarPolicy: payload.sameBarPolicy,
+    scan: {
+      filters: payload.filters ? { ...payload.filters } : undefined,
+      params: payload.params ? { ...payload.params } : undefined,
+    },
+  };
+}
@@ -0,0 +1,179 @@
+import type { OhlcBar, Timeframe } from "./types";
+
+/**
+ * Parse a MetaTrader-style broker export (<DATE> <OPEN> <HIGH> <LOW> <CLOSE>
+ * plus optional <TIME> <TICKVOL> <VOL> <SPREAD>) into bars sorted oldest first.
+ * Intraday exports keep the bar open time ("yyyy-mm-dd HH:MM").
+ * Malformed rows are skipped; a header without the required columns (TIME
+ * included for intraday timeframes) throws.
+ */
+export function parseBrokerCsv(
+  content: string,
+  timeframe: Timeframe = "D1",
+): OhlcBar[] {
+  const lines = content
+    .split("\n")
+    .filter((line) => line.trim());
+
+  if (lines.length === 0) {
+    return [];
+  }
+
+  // Parse header to find column indices
+  const headerLine = lines[0];
+  const headers = headerLine
+    .trim()
+    // Broker exports can be tab-separated or space-separated; use a
+    // whitespace split to support both.
+    .split(/\s+/)
+    .map((h) => h.replace(/[<>]/g, "").trim());
+
+  const dateIndex = headers.findIndex(
+    (h) => h.toUpperCase() === "DATE",
+  );
+  const openIndex = headers.findIndex(
+    (h) => h.toUpperCase() === "OPEN",
+  );
+  const highIndex = headers.findIndex(
+    (h) => h.toUpperCase() === "HIGH",
+  );
+  const lowIndex = headers.findIndex(
+    (h) => h.toUpperCase() === "LOW",
+  );
+  const closeIndex = headers.findIndex(
+    (h) => h.toUpperCase() === "CLOSE",
+  );
+
+  // Optional indices
+  const timeIndex = headers.findIndex(
+    (h) => h.toUpperCase() === "TIME",
+  );
+  const tickVolIndex = headers.findIndex(
+    (h) => h.toUpperCase() === "TICKVOL",
+  );
+  const volIndex = headers.findIndex(
+    (h) => h.toUpperCase() === "VOL",
+  );
+  const spreadIndex = headers.findIndex(
+    (h) => h.toUpperCase() === "SPREAD",
+  );
+
+  if (
+    dateIndex === -1 ||
+    openIndex === -1 ||
+    highIndex === -1 ||
+    lowIndex === -1 ||
+    closeIndex === -1
+  ) {
+    throw new Error(
+      `Required columns not found in CSV header: ${headers.join(
+        ", ",
+      )}`,
+    );
+  }
+
+  if (timeframe !== "D1" && timeIndex === -1) {
+    throw new Error(`${timeframe} exports need a TIME column`);
+  }
+
+  const bars: OhlcBar[] = [];
+
+  // Parse data rows
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+
+    const columns = line.split(/\s+/);
+    if (
+      columns.length <=
+      Math.max(
+        dateIndex,
+        openIndex,
+        highIndex,
+        lowIndex,
+        closeIndex,
+      )
+    ) {
+      continue; // Skip malformed rows
+    }
+
+    // Parse date from format like "2025.10.01" to "YYYY-MM-DD"
+    const dateStr = columns[dateIndex].trim();
+    let normalizedDate: string;
+
+    if (dateStr.includes(".")) {
+      // Format: YYYY.MM.DD
+      const parts = dateStr.split(".");
+      if (parts.length === 3) {
+        const year = parts[0];
+        const month = parts[1].padStart(2, "0");
+        const day = parts[2].padStart(2, "0");
+        normalizedDate = `${year}-${month}-${day}`;
+      } else {
+        continue; // Skip invalid date format
+      }
+    } else {
+      // Assume it's already in a valid format
+      normalizedDate = dateStr;
+    }
+
+    if (timeframe !== "D1") {
+      const time = timeIndex !== -1 ? columns[timeIndex] : undefined;
+      if (!time || !/^\d{1,2}:\d{2}/.test(time)) {
+        continue; // Intraday rows need a bar time
+      }
+      const [hours, minutes] = time.split(":");
+      normalizedDate = `${normalizedDate} ${hours.padStart(2, "0")}:${minutes}`;
+    }
+
+    const open = parseFloat(columns[openIndex]);
+    const high = parseFloat(columns[highIndex]);
+    const low = parseFloat(columns[lowIndex]);
+    const close = parseFloat(columns[closeIndex]);
+
+    if (
+      isNaN(open) ||
+      isNaN(high) ||
+      isNaN(low) ||
+      isNaN(close)
+    ) {
+      continue; // Skip rows with invalid numbers
+    }
+
+    // Optional fields
+    let tickVolume: number | undefined;
+    let volume: number | undefined;
+    let spread: number | undefined;
+
+    if (tickVolIndex !== -1 && columns[tickVolIndex] != null) {
+      const v = parseFloat(columns[tickVolIndex]);
+      if (!isNaN(v)) tickVolume = v;
+    }
+
+    if (volIndex !== -1 && columns[volIndex] != null) {
+      const v = parseFloat(columns[volIndex]);
+      if (!isNaN(v)) volume = v;
+    }
+
+    if (spreadIndex !== -1 && columns[spreadIndex] != null) {
+      const v = parseFloat(columns[spreadIndex]);
+      if (!isNaN(v)) spread = v;
+    }
+
+    bars.push({
+      date: normalizedDate,
+      open,
+      high,
+      low,
+      close,
+      tickVolume,
+      volume,
+      spread,
+    });
+  }
+
+  // Sort by date ascending
+  bars.sort((a, b) => a.date.localeCompare(b.date));
+
+  return bars;
+}
@@ -18,6 +18,8 @@ export interface CandidateRuleInputs {
   pullback?: CurrentPullbackSnapshot;
   hasModelSignal?: boolean;
   newsBlocked?: boolean;
+  /** False outside the sessions the session filter allows */
+  sessionAllowed?: boolean;
 }
 
 function getLocationLabel(trend: CandidateRuleInputs["trend"]): string {
@@ -29,8 +31,15 @@ function getLocationLabel(trend: CandidateRuleInputs["trend"]): string {
 export function buildCandidateDiagnostics(
   inputs: CandidateRuleInputs,
 ): CandidateDiagnostics {
-  const { trend, location, nearestZone, pullback, hasModelSignal, newsBlocked } =
-    inputs;
+  const {
+    trend,
+    location,
+    nearestZone,
+    pullback,
+    hasModelSignal,
+    newsBlocked,
+    sessionAllowed,
+  } = inputs;
 
   const hasDirectionalTrend = trend === "Bull" || trend === "Bear";
   const locationAligned =
@@ -85,6 +94,14 @@ export function buildCandidateDiagnostics(
     });
   }
 
+  if (sessionAllowed !== undefined) {
+    conditions.push({
+      id: "session",
+      label: "An allowed trading session is open",
+      passed: sessionAllowed,
+    });
+  }
+
   const failing = conditions.filter((condition) => !condition.passed);
 
   let summary: string;
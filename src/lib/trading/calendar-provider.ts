@@ -0,0 +1,138 @@
+import { existsSync, readFileSync } from "fs";
+import { extname, join } from "path";
+import { parseCalendarCsv, parseCalendarIcs } from "./economic-calendar";
+import type { EconomicEvent, EventImpact } from "./types";
+
+export type CalendarProviderKind = "file" | "mock" | "none";
+
+/** A source of economic-calendar releases between `from` and `to` */
+export interface CalendarProvider {
+  kind: CalendarProviderKind;
+  loadEvents(from: Date, to: Date): Promise<EconomicEvent[]>;
+}
+
+function inRange(events: EconomicEvent[], from: Date, to: Date): EconomicEvent[] {
+  const start = from.toISOString();
+  const end = to.toISOString();
+  return events.filter((event) => event.time >= start && event.time <= end);
+}
+
+// ---------------------------------------------------------------------------
+// File (CSV or ICS export)
+// ---------------------------------------------------------------------------
+
+/**
+ * Calendar export to read: `ECONOMIC_CALENDAR_FILE` (relative to the project
+ * root), else data/calendar.csv, else data/calendar.ics. Null when none exists.
+ */
+export function calendarFilePath(): string | null {
+  const configured = process.env.ECONOMIC_CALENDAR_FILE;
+  const candidates = configured
+    ? [join(process.cwd(), configured)]
+    : ["calendar.csv", "calendar.ics"].map((file) => join(process.cwd(), "data", file));
+  return candidates.find((path) => existsSync(path)) ?? null;
+}
+
+export const fileCalendarProvider: CalendarProvider = {
+  kind: "file",
+  async loadEvents(from, to) {
+    const path = calendarFilePath();
+    if (!path) return [];
+
+    const content = readFileSync(path, "utf-8");
+    const events =
+      extname(path).toLowerCase() === ".ics"
+        ? parseCalendarIcs(content)
+        : parseCalendarCsv(content);
+    return inRange(events, from, to);
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Mock (demo only – a fixed monthly schedule of typical releases)
+// ---------------------------------------------------------------------------
+
+interface MockRelease {
+  currency: string;
+  title: string;
+  impact: EventImpact;
+  /** UTC clock time */
+  time: string;
+  /** Day of the week (0 = Sunday) and its occurrence in the month; 0 = every week */
+  weekday: number;
+  nth: number;
+}
+
+const MOCK_RELEASES: readonly MockRelease[] = [
+  { currency: "USD", title: "Non-Farm Payrolls", impact: "high", time: "12:30", weekday: 5, nth: 1 },
+  { currency: "USD", title: "CPI m/m", impact: "high", time: "12:30", weekday: 3, nth: 2 },
+  { currency: "USD", title: "FOMC Statement", impact: "high", time: "18:00", weekday: 3, nth: 3 },
+  { currency: "USD", title: "Unemployment Claims", impact: "medium", time: "12:30", weekday: 4, nth: 0 },
+  { currency: "EUR", title: "Main Refinancing Rate", impact: "high", time: "12:15", weekday: 4, nth: 2 },
+  { currency: "EUR", title: "German ZEW Economic Sentiment", impact: "medium", time: "09:00", weekday: 2, nth: 3 },
+  { currency: "GBP", title: "CPI y/y", impact: "high", time: "06:00", weekday: 3, nth: 3 },
+  { currency: "GBP", title: "Official Bank Rate", impact: "high", time: "11:00", weekday: 4, nth: 1 },
+  { currency: "JPY", title: "BOJ Policy Rate", impact: "high", time: "03:00", weekday: 2, nth: 4 },
+  { currency: "JPY", title: "Tokyo Core CPI y/y", impact: "medium", time: "23:30", weekday: 4, nth: 4 },
+];
+
+/** Every mock release between `from` and `to`; the same range always yields the same events */
+export function mockCalendarEvents(from: Date, to: Date): EconomicEvent[] {
+  const events: EconomicEvent[] = [];
+  const day = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()));
+
+  for (; day <= to; day.setUTCDate(day.getUTCDate() + 1)) {
+    const date = day.toISOString().slice(0, 10);
+    const nth = Math.floor((day.getUTCDate() - 1) / 7) + 1;
+
+    for (const release of MOCK_RELEASES) {
+      if (release.weekday !== day.getUTCDay()) continue;
+      if (release.nth !== 0 && release.nth !== nth) continue;
+
+      const time = new Date(`${date}T${release.time}:00Z`).toISOString();
+      events.push({
+        id: `${time}:${release.currency}:${release.title}`,
+        time,
+        currency: release.currency,
+        title: release.title,
+        impact: release.impact,
+      });
+    }
+  }
+
+  return inRange(events, from, to).sort((a, b) => a.time.localeCompare(b.time));
+}
+
+export const mockCalendarProvider: CalendarProvider = {
+  kind: "mock",
+  async loadEvents(from, to) {
+    return mockCalendarEvents(from, to);
+  },
+};
+
+const noCalendarProvider: CalendarProvider = {
+  kind: "none",
+  async loadEvents() {
+    return [];
+  },
+};
+
+/**
+ * Provider selected by `ECONOMIC_CALENDAR_SOURCE`: "file" (default), "mock"
+ * or "none".
+ */
+export function getCalendarProvider(): CalendarProvider {
+  const kind = process.env.ECONOMIC_CALENDAR_SOURCE ?? "file";
+  switch (kind.toLowerCase()) {
+    case "file":
+      return fileCalendarProvider;
+    case "mock":
+      return mockCalendarProvider;
+    case "none":
+      return noCalendarProvider;
+    default:
+      throw new Error(
+        `Unknown calendar source "${kind}" in ECONOMIC_CALENDAR_SOURCE (expected file, mock or none)`,
+      );
+  }
+}
@@ -0,0 +1,227 @@
+import { z } from "zod";
+import { getInstrument } from "./instruments";
+import {
+  CONFIG,
+  CORRELATION_MODES,
+  isActionableCandidate,
+  isSymbolScanError,
+  type CorrelatedRisk,
+  type CorrelationMatrix,
+  type CorrelationMode,
+  type CurrencyExposure,
+  type OhlcBar,
+  type ScanResponse,
+  type SymbolCode,
+  type SymbolScanEntry,
+  type TradeCandidate,
+} from "./types";
+
+export interface CorrelationGuardOptions {
+  mode?: CorrelationMode;
+  maxCorrelation?: number;
+}
+
+/** Fewer shared returns than this leave a pair's correlation unknown */
+const MIN_SHARED_RETURNS = 10;
+
+/** Zod fields for the correlation ScanFilters */
+export const correlationFilterShape = {
+  correlationMode: z
+    .enum(CORRELATION_MODES, { message: "correlationMode must be flag, filter or off" })
+    .optional(),
+  maxCorrelation: z
+    .number({ message: "maxCorrelation must be a number" })
+    .gt(0, { message: "maxCorrelation must be above 0" })
+    .max(1, { message: "maxCorrelation must be at most 1" })
+    .optional(),
+};
+
+/** Daily log returns keyed by the date of the later close */
+function logReturns(bars: OhlcBar[]): Map<string, number> {
+  const returns = new Map<string, number>();
+  for (let i = 1; i < bars.length; i++) {
+    const prev = bars[i - 1].close;
+    const close = bars[i].close;
+    if (prev > 0 && close > 0) returns.set(bars[i].date.slice(0, 10), Math.log(close / prev));
+  }
+  return returns;
+}
+
+function pearson(xs: number[], ys: number[]): number | null {
+  const n = xs.length;
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+
+  let cov = 0;
+  let varX = 0;
+  let varY = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i] - meanX;
+    const dy = ys[i] - meanY;
+    cov += dx * dy;
+    varX += dx * dx;
+    varY += dy * dy;
+  }
+  return varX > 0 && varY > 0 ? cov / Math.sqrt(varX * varY) : null;
+}
+
+/**
+ * Correlation of daily log returns for every pair of symbols, over the last
+ * `window` dates both have a return for (holidays differ between venues).
+ */
+export function buildCorrelationMatrix(
+  history: Partial<Record<SymbolCode, OhlcBar[]>>,
+  window: number = CONFIG.correlation_window,
+): CorrelationMatrix {
+  const symbols = Object.keys(history) as SymbolCode[];
+  const returns = symbols.map((symbol) => logReturns(history[symbol] ?? []));
+
+  const values = symbols.map((_, i) =>
+    symbols.map((__, j) => {
+      if (i === j) return 1;
+      const dates = [...returns[i].keys()]
+        .filter((date) => returns[j].has(date))
+        .sort()
+        .slice(-window);
+      if (dates.length < MIN_SHARED_RETURNS) return null;
+      return pearson(
+        dates.map((date) => returns[i].get(date)!),
+        dates.map((date) => returns[j].get(date)!),
+      );
+    }),
+  );
+
+  return { symbols, values, window };
+}
+
+export function correlationOf(
+  matrix: CorrelationMatrix,
+  a: SymbolCode,
+  b: SymbolCode,
+): number | null {
+  const i = matrix.symbols.indexOf(a);
+  const j = matrix.symbols.indexOf(b);
+  return i === -1 || j === -1 ? null : matrix.values[i][j];
+}
+
+interface ScanTrade {
+  symbol: SymbolCode;
+  trade: TradeCandidate;
+}
+
+function validTrades(scan: ScanResponse): ScanTrade[] {
+  return Object.values(scan.symbols).flatMap((entry) =>
+    entry && !isSymbolScanError(entry)
+      ? entry.trades
+          .filter(isActionableCandidate)
+          .map((trade) => ({ symbol: entry.symbol, trade }))
+      : [],
+  );
+}
+
+/**
+ * Net risk per currency of the actionable primary candidates, in percent of the
+ * balance: a long adds its risk to the long side of the base currency (XAU
+ * for gold) and the short side of the quote currency, a short the reverse.
+ * Unsized candidates carry no known risk and are left out.
+ */
+export function currencyExposure(scan: ScanResponse): CurrencyExposure[] {
+  const exposure = new Map<string, CurrencyExposure>();
+  const add = (currency: string | null | undefined, side: "long" | "short", risk: number) => {
+    if (!currency) return;
+    const row = exposure.get(currency) ?? { currency, long: 0, short: 0, net: 0 };
+    row[side] += risk;
+    row.net = row.long - row.short;
+    exposure.set(currency, row);
+  };
+
+  for (const { symbol, trade } of validTrades(scan)) {
+    if (!trade.sizing) continue;
+    const { baseCurrency, quoteCurrency } = getInstrument(symbol);
+    const risk = trade.sizing.riskPercent;
+    add(baseCurrency, trade.direction === "Long" ? "long" : "short", risk);
+    add(quoteCurrency, trade.direction === "Long" ? "short" : "long", risk);
+  }
+
+  return [...exposure.values()].sort((a, b) => Math.abs(b.net) - Math.abs(a.net));
+}
+
+/**
+ * Walk the actionable primary candidates from the best R:R down and tag each one
+ * whose direction-adjusted return correlation with an already kept candidate
+ * on another symbol reaches `maxCorrelation` (long EURUSD and long GBPUSD
+ * stack; long EURUSD and long USDJPY offset). Tagged candidates become
+ * FILTERED in "filter" mode and stay VALID in "flag" mode; either way they do
+ * not count as kept. Several models on one symbol are the same market and
+ * are left to the open-risk cap.
+ */
+export function applyCorrelationGuard(
+  scan: ScanResponse,
+  matrix: CorrelationMatrix,
+  options?: CorrelationGuardOptions,
+): ScanResponse {
+  const mode = options?.mode ?? "flag";
+  const maxCorrelation = options?.maxCorrelation ?? CONFIG.max_correlation;
+  const stacked = new Map<TradeCandidate, CorrelatedRisk>();
+
+  if (mode !== "off") {
+    const kept: ScanTrade[] = [];
+    const ranked = validTrades(scan).sort((a, b) => b.trade.rr - a.trade.rr);
+
+    for (const candidate of ranked) {
+      let worst: CorrelatedRisk | null = null;
+      for (const other of kept) {
+        if (other.symbol === candidate.symbol) continue;
+        const correlation = correlationOf(matrix, candidate.symbol, other.symbol);
+        if (correlation == null) continue;
+
+        const adjusted =
+          candidate.trade.direction === other.trade.direction ? correlation : -correlation;
+        if (adjusted >= maxCorrelation && (!worst || adjusted > worst.correlation)) {
+          worst = {
+            symbol: other.symbol,
+            model: other.trade.model,
+            direction: other.trade.direction,
+            correlation: adjusted,
+          };
+        }
+      }
+
+      if (worst) stacked.set(candidate.trade, worst);
+      else kept.push(candidate);
+    }
+  }
+
+  const guardEntry = (entry: SymbolScanEntry | undefined) =>
+    !entry || isSymbolScanError(entry)
+      ? entry
+      : {
+          ...entry,
+          trades: entry.trades.map((trade) => {
+            const correlatedWith = stacked.get(trade);
+            if (!correlatedWith) return trade;
+            return {
+              ...trade,
+              status: mode === "filter" ? ("FILTERED" as const) : trade.status,
+              correlatedWith,
+            };
+          }),
+        };
+
+  const symbols: ScanResponse["symbols"] = {};
+  for (const [symbol, entry] of Object.entries(scan.symbols)) {
+    symbols[symbol] = guardEntry(entry);
+  }
+  const guarded: ScanResponse = { ...scan, symbols };
+
+  return {
+    ...guarded,
+    exposure: {
+      mode,
+      maxCorrelation,
+      correlation: matrix,
+      currencies: currencyExposure(guarded),
+      stackedCount: stacked.size,
+    },
+  };
+}
@@ -1,254 +1,428 @@
-import { OhlcBar, SymbolCode } from "./types";
+import {
+  OhlcBar,
+  OhlcDataSource,
+  OhlcProviderKind,
+  PartialDailyBar,
+  SymbolCode,
+  Timeframe,
+} from "./types";
+import { getInstrument } from "./instruments";
+import { parseBrokerCsv } from "./broker-csv";
 import { readFileSync } from "fs";
 import { join } from "path";
 
-// Generate synthetic daily OHLC data for demonstration
-function generateSyntheticData(symbol: SymbolCode, lookback: number): OhlcBar[] {
-  const bars: OhlcBar[] = [];
-  const today = new Date();
-
-  // Base prices for each symbol
-  const basePrices: Record<SymbolCode, number> = {
-    XAUUSD: 2350,
-    EURUSD: 1.05,
-    GBPJPY: 190, // GBP/JPY typical range
-    GBPUSD: 1.26, // GBP/USD typical range
+export interface OhlcQueryOptions {
+  /**
+   * Session date (yyyy-mm-dd) to scan as of. Bars dated after it are
+   * dropped so the result matches what was known at that session's close.
+   */
+  asOf?: string;
+}
+
+/**
+ * A backend for OHLC bars. `loadBars` returns the full history available for
+ * a symbol and timeframe (oldest first); truncation and windowing happen in
+ * `getOhlc*`, so every provider gets the same as-of semantics.
+ */
+export interface OhlcProvider {
+  kind: OhlcProviderKind;
+  loadBars(
+    symbol: SymbolCode,
+    timeframe: Timeframe,
+    options?: OhlcQueryOptions,
+  ): Promise<OhlcBar[]>;
+}
+
+export interface OhlcSeries {
+  bars: OhlcBar[];
+  source: OhlcDataSource;
+}
+
+/** A last bar more than this many calendar days before the scan date is stale */
+export const STALE_AFTER_DAYS = 4;
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+/**
+ * Broker export for a symbol and timeframe under data/: the instrument's
+ * `dataFile` (default `<SYMBOL>_Daily.csv`) for D1, `<SYMBOL>_H4.csv` /
+ * `<SYMBOL>_H1.csv` intraday.
+ */
+export function brokerCsvPath(
+  symbol: SymbolCode,
+  timeframe: Timeframe = "D1",
+): string {
+  const csvFile =
+    timeframe === "D1"
+      ? getInstrument(symbol).dataFile ?? `${symbol}_Daily.csv`
+      : `${symbol}_${timeframe}.csv`;
+  return join(process.cwd(), "data", csvFile);
+}
+
+export const csvProvider: OhlcProvider = {
+  kind: "csv",
+  async loadBars(symbol, timeframe) {
+    return parseBrokerCsv(
+      readFileSync(brokerCsvPath(symbol, timeframe), "utf-8"),
+      timeframe,
+    );
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Database (OhlcBar table filled by `npm run db:import-ohlc`)
+// ---------------------------------------------------------------------------
+
+export const dbProvider: OhlcProvider = {
+  kind: "db",
+  async loadBars(symbol, timeframe) {
+    // Loaded lazily so CSV-only setups never initialise the Prisma client
+    const { loadStoredOhlc } = await import("./ohlc-store");
+    return loadStoredOhlc(symbol, timeframe);
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Synthetic (demo only – never used unless explicitly configured)
+// ---------------------------------------------------------------------------
+
+// Synthetic series always start here so an as-of date only truncates the
+// path instead of producing a different one.
+const SYNTHETIC_START_DATE = "2020-01-01";
+
+// mulberry32: small, fast and good enough for demo price paths
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
   };
+}
 
-  const basePrice = basePrices[symbol];
-  const dailyVolatility =
-    symbol === "XAUUSD" ? 20 : symbol.includes("JPY") ? 0.5 : 0.005;
+function hashSymbol(symbol: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < symbol.length; i++) {
+    hash = Math.imul(hash ^ symbol.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+}
 
-  for (let i = lookback - 1; i >= 0; i--) {
-    const date = new Date(today);
-    date.setDate(date.getDate() - i);
+const TIMEFRAME_HOURS: Record<Timeframe, number> = { D1: 24, H4: 4, H1: 1 };
 
-    // Generate realistic price movements with some trend
-    const trend = i < lookback / 2 ? 1 : -1; // Simple trend reversal
-    const randomWalk = (Math.random() - 0.5) * dailyVolatility * 2;
-    const trendComponent = trend * dailyVolatility * 0.3;
+/**
+ * Deterministic weekday bars from `SYNTHETIC_START_DATE` to `endDate`.
+ * The same symbol, seed, end date and timeframe always produce the same series.
+ */
+export function generateSyntheticData(
+  symbol: SymbolCode,
+  endDate: string,
+  seed = 1,
+  timeframe: Timeframe = "D1",
+): OhlcBar[] {
+  const basePrice = getInstrument(symbol).syntheticBasePrice;
+  if (basePrice == null) {
+    throw new Error(`No synthetic base price configured for ${symbol}`);
+  }
+  const random = seededRandom(
+    hashSymbol(timeframe === "D1" ? symbol : `${symbol}:${timeframe}`) ^ seed,
+  );
+  const hours = TIMEFRAME_HOURS[timeframe];
+  // Roughly half a percent per session, the typical daily range of FX majors,
+  // scaled down with the square root of time for intraday bars
+  const dailyVolatility = basePrice * 0.005 * Math.sqrt(hours / 24);
 
-    if (i === lookback - 1) {
-      // First bar
-      const close = basePrice + randomWalk;
-      bars.push({
-        date: date.toISOString().split("T")[0],
-        open: close,
-        high: close + Math.random() * dailyVolatility,
-        low: close - Math.random() * dailyVolatility,
-        close: close,
-      });
-    } else {
-      const prevClose = bars[bars.length - 1].close;
-      const open =
-        prevClose + (Math.random() - 0.5) * dailyVolatility * 0.5;
-      const close = open + trendComponent + randomWalk;
-      const high =
-        Math.max(open, close) + Math.random() * dailyVolatility * 0.7;
-      const low =
-        Math.min(open, close) - Math.random() * dailyVolatility * 0.7;
+  const bars: OhlcBar[] = [];
+  const end = new Date(`${endDate}T00:00:00Z`);
+  let prevClose = basePrice;
+  let dayIndex = 0;
+
+  for (
+    const date = new Date(`${SYNTHETIC_START_DATE}T00:00:00Z`);
+    date <= end;
+    date.setUTCDate(date.getUTCDate() + 1)
+  ) {
+    const weekday = date.getUTCDay();
+    if (weekday === 0 || weekday === 6) continue;
+
+    // Slow drift that flips every ~3 months, so trends and pullbacks appear
+    const trend = Math.sin((dayIndex++ / 65) * Math.PI) >= 0 ? 1 : -1;
+    const day = date.toISOString().split("T")[0];
+
+    for (let hour = 0; hour < 24; hour += hours) {
+      const open = prevClose + (random() - 0.5) * dailyVolatility * 0.5;
+      const close =
+        open + trend * dailyVolatility * 0.3 + (random() - 0.5) * dailyVolatility * 2;
+      const high = Math.max(open, close) + random() * dailyVolatility * 0.7;
+      const low = Math.min(open, close) - random() * dailyVolatility * 0.7;
 
       bars.push({
-        date: date.toISOString().split("T")[0],
+        date:
+          timeframe === "D1"
+            ? day
+            : `${day} ${String(hour).padStart(2, "0")}:00`,
         open,
         high,
         low,
         close,
       });
+      prevClose = close;
     }
   }
 
   return bars;
 }
 
-// Load broker CSV OHLC data
-function loadBrokerCsvOhlc(symbol: SymbolCode): OhlcBar[] {
-  try {
-    // Map symbols to stable CSV filenames (no date ranges)
-    const csvFiles: Record<SymbolCode, string> = {
-      XAUUSD: "XAUUSD_Daily.csv",
-      EURUSD: "EURUSD_Daily.csv",
-      GBPJPY: "GBPJPY_Daily.csv",
-      GBPUSD: "GBPUSD_Daily.csv",
-    };
-
-    const csvFile = csvFiles[symbol];
-    if (!csvFile) {
-      throw new Error(`No CSV mapping defined for symbol ${symbol}`);
-    }
-
-    const csvPath = join(process.cwd(), "data", csvFile);
-
-    const csvContent = readFileSync(csvPath, "utf-8");
-    const lines = csvContent
-      .split("\n")
-      .filter((line) => line.trim());
+export function createSyntheticProvider(seed = 1): OhlcProvider {
+  return {
+    kind: "synthetic",
+    async loadBars(symbol, timeframe, options) {
+      return generateSyntheticData(
+        symbol,
+        options?.asOf ?? todayIso(),
+        seed,
+        timeframe,
+      );
+    },
+  };
+}
 
-    if (lines.length === 0) {
-      return [];
-    }
+// ---------------------------------------------------------------------------
+// In-memory fixtures (tests, notebooks)
+// ---------------------------------------------------------------------------
+
+/** Fixtures per symbol: a plain array is the D1 series */
+export function createMemoryProvider(
+  fixtures: Partial<
+    Record<SymbolCode, OhlcBar[] | Partial<Record<Timeframe, OhlcBar[]>>>
+  >,
+): OhlcProvider {
+  return {
+    kind: "memory",
+    async loadBars(symbol, timeframe) {
+      const fixture = fixtures[symbol];
+      const bars = Array.isArray(fixture)
+        ? timeframe === "D1"
+          ? fixture
+          : []
+        : fixture?.[timeframe] ?? [];
+      return [...bars].sort((a, b) => a.date.localeCompare(b.date));
+    },
+  };
+}
 
-    // Parse header to find column indices
-    const headerLine = lines[0];
-    const headers = headerLine
-      .trim()
-      // Broker exports can be tab-separated or space-separated; use a
-      // whitespace split to support both.
-      .split(/\s+/)
-      .map((h) => h.replace(/[<>]/g, "").trim());
-
-    const dateIndex = headers.findIndex(
-      (h) => h.toUpperCase() === "DATE",
-    );
-    const openIndex = headers.findIndex(
-      (h) => h.toUpperCase() === "OPEN",
-    );
-    const highIndex = headers.findIndex(
-      (h) => h.toUpperCase() === "HIGH",
-    );
-    const lowIndex = headers.findIndex(
-      (h) => h.toUpperCase() === "LOW",
-    );
-    const closeIndex = headers.findIndex(
-      (h) => h.toUpperCase() === "CLOSE",
-    );
+// ---------------------------------------------------------------------------
+// Provider selection
+// ---------------------------------------------------------------------------
+
+const providerOverrides = new Map<SymbolCode, OhlcProvider>();
+let defaultProviderOverride: OhlcProvider | null = null;
+
+/**
+ * Route the given symbols (default: every symbol) to a provider instance,
+ * taking precedence over the environment configuration.
+ */
+export function registerOhlcProvider(
+  provider: OhlcProvider,
+  symbols?: readonly SymbolCode[],
+): void {
+  if (!symbols) {
+    defaultProviderOverride = provider;
+    return;
+  }
+  for (const symbol of symbols) {
+    providerOverrides.set(symbol, provider);
+  }
+}
 
-    // Optional indices
-    const tickVolIndex = headers.findIndex(
-      (h) => h.toUpperCase() === "TICKVOL",
-    );
-    const volIndex = headers.findIndex(
-      (h) => h.toUpperCase() === "VOL",
-    );
-    const spreadIndex = headers.findIndex(
-      (h) => h.toUpperCase() === "SPREAD",
-    );
+export function resetOhlcProviders(): void {
+  providerOverrides.clear();
+  defaultProviderOverride = null;
+}
 
-    if (
-      dateIndex === -1 ||
-      openIndex === -1 ||
-      highIndex === -1 ||
-      lowIndex === -1 ||
-      closeIndex === -1
-    ) {
+function providerFromKind(kind: string, origin: string): OhlcProvider {
+  switch (kind.toLowerCase()) {
+    case "csv":
+      return csvProvider;
+    case "db":
+      return dbProvider;
+    case "synthetic":
+      return createSyntheticProvider(
+        Number(process.env.OHLC_SYNTHETIC_SEED ?? 1) || 1,
+      );
+    default:
       throw new Error(
-        `Required columns not found in CSV header: ${headers.join(
-          ", ",
-        )}`,
+        `Unknown OHLC source "${kind}" in ${origin} (expected csv, db or synthetic)`,
       );
-    }
+  }
+}
 
-    const bars: OhlcBar[] = [];
-
-    // Parse data rows
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (!line) continue;
-
-      const columns = line.split(/\s+/);
-      if (
-        columns.length <=
-        Math.max(
-          dateIndex,
-          openIndex,
-          highIndex,
-          lowIndex,
-          closeIndex,
-        )
-      ) {
-        continue; // Skip malformed rows
-      }
-
-      // Parse date from format like "2025.10.01" to "YYYY-MM-DD"
-      const dateStr = columns[dateIndex].trim();
-      let normalizedDate: string;
-
-      if (dateStr.includes(".")) {
-        // Format: YYYY.MM.DD
-        const parts = dateStr.split(".");
-        if (parts.length === 3) {
-          const year = parts[0];
-          const month = parts[1].padStart(2, "0");
-          const day = parts[2].padStart(2, "0");
-          normalizedDate = `${year}-${month}-${day}`;
-        } else {
-          continue; // Skip invalid date format
-        }
-      } else {
-        // Assume it's already in a valid format
-        normalizedDate = dateStr;
-      }
-
-      const open = parseFloat(columns[openIndex]);
-      const high = parseFloat(columns[highIndex]);
-      const low = parseFloat(columns[lowIndex]);
-      const close = parseFloat(columns[closeIndex]);
-
-      if (
-        isNaN(open) ||
-        isNaN(high) ||
-        isNaN(low) ||
-        isNaN(close)
-      ) {
-        continue; // Skip rows with invalid numbers
-      }
-
-      // Optional fields
-      let tickVolume: number | undefined;
-      let volume: number | undefined;
-      let spread: number | undefined;
-
-      if (tickVolIndex !== -1 && columns[tickVolIndex] != null) {
-        const v = parseFloat(columns[tickVolIndex]);
-        if (!isNaN(v)) tickVolume = v;
-      }
-
-      if (volIndex !== -1 && columns[volIndex] != null) {
-        const v = parseFloat(columns[volIndex]);
-        if (!isNaN(v)) volume = v;
-      }
-
-      if (spreadIndex !== -1 && columns[spreadIndex] != null) {
-        const v = parseFloat(columns[spreadIndex]);
-        if (!isNaN(v)) spread = v;
-      }
+/**
+ * Provider for a symbol: a registered override, then `OHLC_SOURCE_<SYMBOL>`,
+ * then `OHLC_SOURCE`, then the broker CSVs.
+ */
+export function resolveOhlcProvider(symbol: SymbolCode): OhlcProvider {
+  const override = providerOverrides.get(symbol) ?? defaultProviderOverride;
+  if (override) return override;
 
-      bars.push({
-        date: normalizedDate,
-        open,
-        high,
-        low,
-        close,
-        tickVolume,
-        volume,
-        spread,
-      });
-    }
+  const perSymbol = process.env[`OHLC_SOURCE_${symbol}`];
+  if (perSymbol) return providerFromKind(perSymbol, `OHLC_SOURCE_${symbol}`);
 
-    // Sort by date ascending
-    bars.sort((a, b) => a.date.localeCompare(b.date));
+  const global = process.env.OHLC_SOURCE;
+  if (global) return providerFromKind(global, "OHLC_SOURCE");
 
-    return bars;
-  } catch (error) {
-    console.error(`Failed to load CSV for ${symbol}:`, error);
-    return [];
+  return csvProvider;
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+function todayIso(): string {
+  return new Date().toISOString().split("T")[0];
+}
+
+/** Drop bars after the as-of session; intraday bars of that session are kept */
+export function truncateAsOf(bars: OhlcBar[], asOf?: string): OhlcBar[] {
+  if (!asOf) return bars;
+  return bars.filter((bar) => bar.date.slice(0, 10) <= asOf);
+}
+
+export function describeOhlcSource(
+  provider: OhlcProviderKind,
+  bars: OhlcBar[],
+  referenceDate: string = todayIso(),
+  timeframe: Timeframe = "D1",
+): OhlcDataSource {
+  const firstDate = bars[0].date;
+  const lastDate = bars[bars.length - 1].date;
+  const ageDays = Math.max(
+    0,
+    Math.round(
+      (Date.parse(`${referenceDate}T00:00:00Z`) -
+        Date.parse(`${lastDate.slice(0, 10)}T00:00:00Z`)) /
+        86_400_000,
+    ),
+  );
+
+  return {
+    provider,
+    timeframe,
+    firstDate,
+    lastDate,
+    bars: bars.length,
+    ageDays,
+    stale: ageDays > STALE_AFTER_DAYS,
+  };
+}
+
+async function loadBars(
+  symbol: SymbolCode,
+  timeframe: Timeframe,
+  options?: OhlcQueryOptions,
+): Promise<{ provider: OhlcProvider; bars: OhlcBar[] }> {
+  const provider = resolveOhlcProvider(symbol);
+  const bars = truncateAsOf(
+    await provider.loadBars(symbol, timeframe, options),
+    options?.asOf,
+  );
+  if (bars.length === 0) {
+    throw new Error(
+      `No ${timeframe} bars available for ${symbol} (source: ${provider.kind})`,
+    );
   }
+  return { provider, bars };
+}
+
+/**
+ * The most recent `lookback` bars of a timeframe plus a description of where
+ * they came from. Load failures are thrown, never papered over.
+ */
+export async function getOhlcSeries(
+  symbol: SymbolCode,
+  timeframe: Timeframe,
+  lookback: number,
+  options?: OhlcQueryOptions,
+): Promise<OhlcSeries> {
+  const { provider, bars: allBars } = await loadBars(symbol, timeframe, options);
+  const bars = allBars.slice(-lookback);
+  return {
+    bars,
+    source: describeOhlcSource(provider.kind, bars, options?.asOf, timeframe),
+  };
+}
+
+export async function getOhlc(
+  symbol: SymbolCode,
+  timeframe: Timeframe,
+  lookback: number,
+  options?: OhlcQueryOptions,
+): Promise<OhlcBar[]> {
+  return (await getOhlcSeries(symbol, timeframe, lookback, options)).bars;
+}
+
+export async function getDailyOhlcSeries(
+  symbol: SymbolCode,
+  lookback: number,
+  options?: OhlcQueryOptions,
+): Promise<OhlcSeries> {
+  return getOhlcSeries(symbol, "D1", lookback, options);
 }
 
 export async function getDailyOhlc(
   symbol: SymbolCode,
   lookback: number,
+  options?: OhlcQueryOptions,
+): Promise<OhlcBar[]> {
+  return getOhlc(symbol, "D1", lookback, options);
+}
+
+/** Full daily history for a symbol, oldest first. */
+export async function getDailyOhlcHistory(
+  symbol: SymbolCode,
+): Promise<OhlcSeries> {
+  const { provider, bars } = await loadBars(symbol, "D1");
+  return { bars, source: describeOhlcSource(provider.kind, bars) };
+}
+
+/**
+ * Aggregate the H1 bars of `session` (default: the session of the latest bar)
+ * into that session's daily bar so far. Returns null if there are none.
+ */
+export function buildPartialDailyBar(
+  hourly: OhlcBar[],
+  session: string | undefined = hourly[hourly.length - 1]?.date.slice(0, 10),
+): PartialDailyBar | null {
+  const bars = hourly.filter((bar) => bar.date.slice(0, 10) === session);
+  if (!session || bars.length === 0) return null;
+
+  return {
+    date: session,
+    open: bars[0].open,
+    high: Math.max(...bars.map((bar) => bar.high)),
+    low: Math.min(...bars.map((bar) => bar.low)),
+    close: bars[bars.length - 1].close,
+    lastHour: bars[bars.length - 1].date,
+    hourlyBars: bars.length,
+  };
+}
+
+/**
+ * The latest `count` H1 bars of a symbol, or none when it has no H1 series
+ * (the H1 exports are optional, so a missing series is not an error here).
+ */
+export async function getHourlyBars(
+  symbol: SymbolCode,
+  count: number,
+  options?: OhlcQueryOptions,
 ): Promise<OhlcBar[]> {
   try {
-    const allBars = loadBrokerCsvOhlc(symbol);
-    if (allBars.length === 0) {
-      throw new Error(`No bars parsed from CSV for ${symbol}`);
-    }
-    const sliced = allBars.slice(-lookback);
-    sliced.sort((a, b) => (a.date < b.date ? -1 : 1));
-    return sliced;
-  } catch (err) {
-    console.error("Failed to load broker CSV OHLC for", symbol, err);
-    return generateSyntheticData(symbol, lookback);
+    return await getOhlc(symbol, "H1", count, options);
+  } catch {
+    return [];
   }
 }
@@ -0,0 +1,273 @@
+import { z } from "zod";
+import { getInstrument, listInstruments } from "./instruments";
+import {
+  CONFIG,
+  NEWS_FILTER_MODES,
+  type EconomicEvent,
+  type EventImpact,
+  type NewsFilterMode,
+  type SymbolCode,
+  type SymbolNewsContext,
+  type TradeCandidate,
+} from "./types";
+
+export interface NewsWindowOptions {
+  mode?: NewsFilterMode;
+  minutesBefore?: number;
+  minutesAfter?: number;
+}
+
+const newsMinutes = (name: string) =>
+  z
+    .number({ message: `${name} must be a number` })
+    .int({ message: `${name} must be a whole number of minutes` })
+    .min(0, { message: `${name} must not be negative` })
+    .max(720, { message: `${name} must be at most 720` })
+    .optional();
+
+/** Zod fields for the news ScanFilters */
+export const newsFilterShape = {
+  newsMode: z
+    .enum(NEWS_FILTER_MODES, { message: "newsMode must be block, downgrade or off" })
+    .optional(),
+  newsMinutesBefore: newsMinutes("newsMinutesBefore"),
+  newsMinutesAfter: newsMinutes("newsMinutesAfter"),
+};
+
+function eventId(time: string, currency: string, title: string): string {
+  return `${time}:${currency}:${title}`;
+}
+
+function parseImpact(value: string | undefined): EventImpact | null {
+  const normalized = value?.trim().toLowerCase() ?? "";
+  if (normalized.startsWith("h")) return "high";
+  if (normalized.startsWith("m")) return "medium";
+  if (normalized.startsWith("l")) return "low";
+  return null;
+}
+
+/** Fields of one CSV line; double-quoted fields may contain the separator */
+function splitCsvLine(line: string, separator: string): string[] {
+  const fields: string[] = [];
+  let current = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (ch === separator && !quoted) {
+      fields.push(current.trim());
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+}
+
+/**
+ * Parse a calendar export with a DATE, CURRENCY, IMPACT and EVENT (or TITLE)
+ * header plus an optional TIME column, comma- or tab-separated. Dates are
+ * yyyy-mm-dd (or yyyy.mm.dd) and times HH:MM in UTC; a missing or non-clock
+ * time ("All Day", "Tentative") is read as 00:00. Rows with an unknown impact
+ * or an unparsable date are skipped; a header without the required columns
+ * throws.
+ */
+export function parseCalendarCsv(content: string): EconomicEvent[] {
+  const lines = content.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length === 0) return [];
+
+  const separator = lines[0].includes("\t") ? "\t" : ",";
+  const headers = splitCsvLine(lines[0], separator).map((h) =>
+    h.replace(/[<>]/g, "").toUpperCase(),
+  );
+  const column = (...names: string[]) =>
+    headers.findIndex((h) => names.includes(h));
+
+  const dateIndex = column("DATE");
+  const timeIndex = column("TIME");
+  const currencyIndex = column("CURRENCY");
+  const impactIndex = column("IMPACT");
+  const titleIndex = column("EVENT", "TITLE");
+
+  if (dateIndex === -1 || currencyIndex === -1 || impactIndex === -1 || titleIndex === -1) {
+    throw new Error(
+      `Required columns not found in calendar header: ${headers.join(", ")}`,
+    );
+  }
+
+  const events: EconomicEvent[] = [];
+  for (const line of lines.slice(1)) {
+    const fields = splitCsvLine(line, separator);
+    const date = fields[dateIndex]?.replace(/\./g, "-");
+    const clock = timeIndex === -1 ? "" : fields[timeIndex] ?? "";
+    const time = /^\d{1,2}:\d{2}$/.test(clock) ? clock.padStart(5, "0") : "00:00";
+    const currency = fields[currencyIndex]?.toUpperCase();
+    const impact = parseImpact(fields[impactIndex]);
+    const title = fields[titleIndex];
+
+    if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date) || !currency || !impact || !title) {
+      continue;
+    }
+    const at = new Date(`${date}T${time}:00Z`);
+    if (Number.isNaN(at.getTime())) continue;
+
+    const iso = at.toISOString();
+    events.push({ id: eventId(iso, currency, title), time: iso, currency, title, impact });
+  }
+
+  return events.sort((a, b) => a.time.localeCompare(b.time));
+}
+
+function unescapeIcsText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, ch: string) =>
+    ch === "n" || ch === "N" ? "\n" : ch,
+  );
+}
+
+/** yyyymmdd[Thhmmss[Z]] as UTC; floating times are taken as UTC too */
+function parseIcsDate(value: string): string | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?Z?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, y, mo, d, h = "00", mi = "00", s = "00"] = match;
+  const at = new Date(`${y}-${mo}-${d}T${h}:${mi}:${s}Z`);
+  return Number.isNaN(at.getTime()) ? null : at.toISOString();
+}
+
+/**
+ * Parse the VEVENTs of an iCalendar feed. The currency comes from an
+ * X-CURRENCY property or a leading code in the SUMMARY ("USD - Non-Farm
+ * Payrolls"); the impact from X-IMPACT, CATEGORIES or PRIORITY (1–4 high,
+ * 5 medium, 6–9 low). Events without a start or a currency are skipped; ones
+ * without an impact count as low.
+ */
+export function parseCalendarIcs(content: string): EconomicEvent[] {
+  // Continuation lines start with a space or tab (RFC 5545 folding)
+  const lines = content.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const events: EconomicEvent[] = [];
+  let props: Record<string, string> | null = null;
+
+  for (const line of lines) {
+    if (line === "BEGIN:VEVENT") {
+      props = {};
+      continue;
+    }
+    if (line === "END:VEVENT" && props) {
+      const time = props.DTSTART ? parseIcsDate(props.DTSTART) : null;
+      const summary = unescapeIcsText(props.SUMMARY ?? "").trim();
+      const prefix = /^\[?([A-Z]{3})\]?\s*[-:–]?\s*(.*)$/.exec(summary);
+      const currency = (props["X-CURRENCY"] ?? prefix?.[1])?.toUpperCase();
+      const title = props["X-CURRENCY"] ? summary : prefix?.[2] || summary;
+      const priority = Number(props.PRIORITY);
+      const impact =
+        parseImpact(props["X-IMPACT"]) ??
+        parseImpact(
+          unescapeIcsText(props.CATEGORIES ?? "")
+            .split(",")
+            .find((c) => parseImpact(c) != null),
+        ) ??
+        (priority >= 1 && priority <= 4
+          ? "high"
+          : priority === 5
+            ? "medium"
+            : "low");
+
+      if (time && currency && title) {
+        events.push({ id: eventId(time, currency, title), time, currency, title, impact });
+      }
+      props = null;
+      continue;
+    }
+    if (!props) continue;
+
+    const colon = line.indexOf(":");
+    if (colon === -1) continue;
+    const name = line.slice(0, colon).split(";")[0].toUpperCase();
+    props[name] = line.slice(colon + 1);
+  }
+
+  return events.sort((a, b) => a.time.localeCompare(b.time));
+}
+
+/** Currencies a symbol moves with: its base (e.g. XAU) and quote currency */
+export function symbolCurrencies(symbol: SymbolCode): string[] {
+  const { baseCurrency, quoteCurrency } = getInstrument(symbol);
+  return [baseCurrency, quoteCurrency].filter((c): c is string => !!c);
+}
+
+/** Registry symbols a release in `currency` affects (USD → XAUUSD, EURUSD, …) */
+export function symbolsForCurrency(currency: string): SymbolCode[] {
+  return listInstruments()
+    .filter((spec) => spec.baseCurrency === currency || spec.quoteCurrency === currency)
+    .map((spec) => spec.symbol);
+}
+
+/**
+ * Calendar context of `symbol` at `at`: releases for its currencies from the
+ * end of the news window before `at` up to CONFIG.news_horizon_hours ahead,
+ * and the high-impact ones whose window contains `at`.
+ */
+export function buildNewsContext(
+  symbol: SymbolCode,
+  events: EconomicEvent[],
+  at: Date,
+  options?: NewsWindowOptions,
+): SymbolNewsContext {
+  const mode = options?.mode ?? "block";
+  const before = (options?.minutesBefore ?? CONFIG.news_minutes_before) * 60_000;
+  const after = (options?.minutesAfter ?? CONFIG.news_minutes_after) * 60_000;
+  const now = at.getTime();
+  const horizon = now + CONFIG.news_horizon_hours * 3_600_000;
+
+  const currencies = symbolCurrencies(symbol);
+  const relevant = events
+    .filter((event) => currencies.includes(event.currency))
+    .sort((a, b) => a.time.localeCompare(b.time));
+
+  const upcoming = relevant.filter((event) => {
+    const time = Date.parse(event.time);
+    return time >= now - after && time <= horizon;
+  });
+  const active = upcoming.filter((event) => {
+    const time = Date.parse(event.time);
+    return event.impact === "high" && now >= time - before && now <= time + after;
+  });
+
+  return {
+    mode,
+    upcoming,
+    active,
+    blocked: mode === "block" && active.length > 0,
+  };
+}
+
+/**
+ * Apply a news context to a symbol's candidates: inside a high-impact window
+ * VALID candidates become FILTERED ("block") or stay VALID ("downgrade"),
+ * both tagged with the release. The tag makes a downgraded candidate
+ * non-actionable (see isActionableCandidate).
+ */
+export function applyNewsContext(
+  trades: TradeCandidate[],
+  news: SymbolNewsContext,
+): TradeCandidate[] {
+  const [event] = news.active;
+  if (!event || news.mode === "off") return trades;
+
+  return trades.map((trade) =>
+    trade.status !== "VALID"
+      ? trade
+      : {
+          ...trade,
+          status: news.mode === "block" ? ("FILTERED" as const) : trade.status,
+          newsEvent: event,
+        },
+  );
+}
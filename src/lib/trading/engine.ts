@@ -1,11 +1,25 @@
-import { getDailyOhlc } from "./data-provider";
-import { classifyTrend } from "./trend-analysis";
-import { findStructuralZones, createLiquidityMap } from "./zones";
+import {
+  buildPartialDailyBar,
+  getDailyOhlc,
+  getHourlyBars,
+  getOhlcSeries,
+} from "./data-provider";
+import {
+  classifyTrend,
+  compareTrendClassifiers,
+  macroTrendOptionsOf,
+  type TrendOptions,
+} from "./trend-analysis";
+import { findStructuralZones, type ZoneScoreOptions } from "./zones";
+import { createLiquidityMap } from "./liquidity";
+import { selectTradeZones, trackZones } from "./zone-lifecycle";
+import { applySessionFilter, buildSessionContext, dailyCloseOf } from "./sessions";
 import {
   generateModelATrades,
   generateModelBTrades,
   generateModelCTrades,
   generateModelDTrades,
+  buildExitPlan,
 } from "./models";
 import {
   buildCandlePairPullbacks,
@@ -18,20 +32,31 @@ import {
 } from "./pullback-analysis";
 import { evaluateSweetSpot } from "./sweet-spot";
 import {
-  SYMBOLS,
   SymbolCode,
   SymbolScanEntry,
   SymbolScanResult,
   ScanResponse,
   CONFIG,
   ScanOptions,
+  OhlcBar,
+  DailyStructureContext,
+  PartialDailyBar,
+  Timeframe,
+  isHistoricalScan,
 } from "./types";
 import { computeNearestZoneInfo } from "./nearest-zone";
+import { listEnabledSymbols } from "./instruments";
+
+export interface ScanWindow {
+  lookbackDays: number;
+  trendLookback: number;
+  atrWindow: number;
+  pullbackLookbackDays: number;
+  /** Number of bars required for all calculations */
+  neededBars: number;
+}
 
-export async function scanSymbol(
-  symbol: SymbolCode,
-  options?: ScanOptions,
-): Promise<SymbolScanResult> {
+export function resolveScanWindow(options?: ScanOptions): ScanWindow {
   const lookbackDays = Math.max(
     1,
     options?.params?.structureLookback ?? CONFIG.lookback_days,
@@ -45,8 +70,6 @@ export async function scanSymbol(
     2,
     options?.params?.pullbackWindow ?? CONFIG.pullback_lookback_days,
   );
-  const minRr = options?.filters?.minRr ?? CONFIG.min_rr;
-  const spreadCap = options?.filters?.spreadCap;
 
   // Get enough data for all calculations
   const neededBars = Math.max(
@@ -55,7 +78,159 @@ export async function scanSymbol(
     pullbackLookbackDays + 1,
     trendLookback + 1,
   );
-  const bars = await getDailyOhlc(symbol, neededBars);
+
+  return {
+    lookbackDays,
+    trendLookback,
+    atrWindow,
+    pullbackLookbackDays,
+    neededBars,
+  };
+}
+
+/**
+ * classifyTrend options of a scan: its windows, macro-trend thresholds and
+ * classifier
+ */
+export function resolveTrendOptions(options?: ScanOptions): TrendOptions {
+  const { lookbackDays, atrWindow, trendLookback } = resolveScanWindow(options);
+  return {
+    lookbackDays,
+    atrWindow,
+    trendLookback,
+    macroBullThreshold: options?.params?.macroBullThreshold,
+    macroBearThreshold: options?.params?.macroBearThreshold,
+    macroDominance: options?.params?.macroDominance,
+    macroClassifier: options?.params?.macroClassifier,
+  };
+}
+
+/** Zone score weights and recency half-life of the scan params */
+export function resolveZoneScoreOptions(options?: ScanOptions): ZoneScoreOptions {
+  return {
+    weights: options?.params?.zoneWeights,
+    recencyHalfLife: options?.params?.zoneRecencyHalfLife,
+  };
+}
+
+/**
+ * Scan one symbol on `options.timeframe` (default D1). Lookbacks count bars of
+ * that timeframe. Intraday scans also carry the daily trend, location and
+ * zones so H4/H1 setups can be read against the higher-timeframe structure.
+ * Every scan carries the trading-session context from the H1 series.
+ */
+export async function scanSymbol(
+  symbol: SymbolCode,
+  options?: ScanOptions,
+): Promise<SymbolScanResult> {
+  const timeframe = options?.timeframe ?? "D1";
+  const window = resolveScanWindow(options);
+  const { bars, source } = await getOhlcSeries(
+    symbol,
+    timeframe,
+    window.neededBars,
+    { asOf: options?.date },
+  );
+  const hourly = await getHourlyBars(symbol, 48, { asOf: options?.date });
+  if (timeframe === "D1") {
+    const partialBar = buildPartialDailyBar(hourly);
+    return withSessionContext(
+      { ...scanSymbolBars(symbol, bars, options, partialBar), dataSource: source },
+      hourly,
+      options,
+    );
+  }
+
+  const result = withSessionContext(
+    { ...scanSymbolBars(symbol, bars, options), dataSource: source },
+    hourly,
+    options,
+  );
+
+  const dailyBars = await getDailyOhlc(symbol, window.neededBars, {
+    asOf: options?.date,
+  });
+  return {
+    ...result,
+    dailyStructure: buildDailyStructure(
+      symbol,
+      dailyBars,
+      window,
+      resolveTrendOptions(options),
+      resolveZoneScoreOptions(options),
+    ),
+  };
+}
+
+/**
+ * Attach the session context. Latest-session scans (including one dated
+ * today) also apply the session filter; an as-of scan of a past session is
+ * read at its daily close, when every session is over, so it is left
+ * unfiltered.
+ */
+function withSessionContext(
+  result: SymbolScanResult,
+  hourly: OhlcBar[],
+  options?: ScanOptions,
+): SymbolScanResult {
+  const asOf = isHistoricalScan(options) ? options?.date : undefined;
+  const at = asOf ? dailyCloseOf(asOf) : new Date();
+  const context = buildSessionContext(hourly, at, options?.params?.serverUtcOffset);
+  if (asOf) return { ...result, sessionContext: context };
+
+  const filtered = applySessionFilter(result.trades, context, options?.filters?.sessions);
+  return { ...result, trades: filtered.trades, sessionContext: filtered.context };
+}
+
+function buildDailyStructure(
+  symbol: SymbolCode,
+  bars: OhlcBar[],
+  window: ScanWindow,
+  trendOptions: TrendOptions,
+  zoneScoring: ZoneScoreOptions,
+): DailyStructureContext {
+  if (bars.length < window.neededBars) {
+    throw new Error(
+      `Insufficient daily data for ${symbol}: got ${bars.length}, need ${window.neededBars}`,
+    );
+  }
+
+  const { macroTrend, latestTrendDay, alignment, location, atr20 } =
+    classifyTrend(bars, trendOptions);
+
+  return {
+    macroTrend,
+    trendDay: latestTrendDay,
+    alignment,
+    location,
+    atr20,
+    zones: findStructuralZones(bars, symbol, window.lookbackDays, zoneScoring),
+    lastDate: bars[bars.length - 1].date,
+  };
+}
+
+/**
+ * Run the scan against an already-loaded daily history. Only the most recent
+ * `neededBars` bars are used, so callers replaying history (e.g. the
+ * backtester) get exactly what a live scan on that session would have seen.
+ *
+ * `partialBar` is the current session built from H1 bars. It drives the live
+ * pullback depth and sweet-spot state: a session after the last daily bar
+ * counts as today, one for the same session replaces the daily bar's values.
+ */
+export function scanSymbolBars(
+  symbol: SymbolCode,
+  history: OhlcBar[],
+  options?: ScanOptions,
+  partialBar?: PartialDailyBar | null,
+): SymbolScanResult {
+  const { lookbackDays, pullbackLookbackDays, neededBars } =
+    resolveScanWindow(options);
+  const trendOptions = resolveTrendOptions(options);
+  const minRr = options?.filters?.minRr ?? CONFIG.min_rr;
+  const spreadCap = options?.filters?.spreadCap;
+
+  const bars = history.slice(-neededBars);
 
   if (bars.length < neededBars) {
     throw new Error(
@@ -72,11 +247,7 @@ export async function scanSymbol(
     alignment,
     location,
     atr20,
-  } = classifyTrend(bars, {
-    lookbackDays,
-    atrWindow,
-    trendLookback,
-  });
+  } = classifyTrend(bars, trendOptions);
 
   const trend = macroTrend;
   const trendDay = latestTrendDay;
@@ -87,7 +258,7 @@ export async function scanSymbol(
   const pullbackRecords = buildCandlePairPullbacks(
     symbol,
     bars,
-    trendLookback,
+    trendOptions,
     pullbackLookbackDays,
   );
   const pullbackScenarioStats = buildPullbackScenarioStats(
@@ -95,21 +266,20 @@ export async function scanSymbol(
     pullbackLookbackDays,
   );
 
-  const prevIndex = bars.length - 2;
   const currIndex = bars.length - 1;
+  const todayBar =
+    partialBar && partialBar.date >= bars[currIndex].date ? partialBar : null;
+  const opensNewSession = todayBar != null && todayBar.date > bars[currIndex].date;
+  const prevIndex = opensNewSession ? currIndex : currIndex - 1;
   const prevBar = bars[prevIndex];
-  const lastBar = bars[currIndex];
+  const lastBar = todayBar ?? bars[currIndex];
 
   const {
     macroTrend: macroTrendPrev,
     latestTrendDay: trendDayPrev,
     alignment: alignmentPrev,
   } =
-    classifyTrend(bars.slice(0, prevIndex + 1), {
-      lookbackDays,
-      atrWindow,
-      trendLookback,
-    });
+    classifyTrend(bars.slice(0, prevIndex + 1), trendOptions);
 
   const currentScenario: PullbackScenarioKey = {
     macroTrendPrev: macroTrendPrev,
@@ -164,13 +334,25 @@ export async function scanSymbol(
       }
     : undefined;
 
-  // Find structural zones
-  const zones = findStructuralZones(bars, symbol, lookbackDays);
+  // Find structural zones and carry their lifecycle forward
+  const { zones, tracked: trackedZones } = trackZones(
+    symbol,
+    options?.timeframe ?? "D1",
+    findStructuralZones(bars, symbol, lookbackDays, resolveZoneScoreOptions(options)),
+    bars.slice(-lookbackDays),
+    options?.trackedZones,
+  );
+  const tradeZones = selectTradeZones(zones, options?.params?.preferFreshZones);
 
   // Create liquidity map
-  const liquidity = createLiquidityMap(bars.slice(-lookbackDays));
+  const liquidity = createLiquidityMap(bars.slice(-lookbackDays), {
+    mode: options?.params?.liquidityMode,
+    left: options?.params?.swingLeft,
+    right: options?.params?.swingRight,
+    equalTolerance: atr20 * CONFIG.equal_level_tolerance_atr,
+  });
 
-  const baseSpot = manualSpot ?? lastBar.close;
+  const baseSpot = effectivePrice;
 
   const nearestZoneEstimate = computeNearestZoneInfo(zones, baseSpot, atr20);
 
@@ -205,7 +387,7 @@ export async function scanSymbol(
   const tradeOptions = { minRr, spreadCap };
   const modelATrades = generateModelATrades(
     trend,
-    zones,
+    tradeZones,
     liquidity,
     bars,
     symbol,
@@ -213,7 +395,7 @@ export async function scanSymbol(
   );
   const modelBTrades = generateModelBTrades(
     trend,
-    zones,
+    tradeZones,
     liquidity,
     bars,
     symbol,
@@ -226,7 +408,7 @@ export async function scanSymbol(
     symbol,
     tradeOptions,
   );
-  const modelDTrades = generateModelDTrades(trend, zones, liquidity, bars, symbol, {
+  const modelDTrades = generateModelDTrades(trend, tradeZones, liquidity, bars, symbol, {
     ...tradeOptions,
     pullbackDepth:
       pullback.depthIntoPrevPct != null
@@ -242,13 +424,21 @@ export async function scanSymbol(
     ...modelBTrades,
     ...modelCTrades,
     ...modelDTrades,
-  ];
+  ].map((trade) => ({
+    ...trade,
+    exitPlan: buildExitPlan(trade, liquidity, zones),
+  }));
 
   return {
     kind: "ok",
     symbol,
+    timeframe: options?.timeframe ?? "D1",
     macroTrend,
     macroTrendDiagnostics,
+    macroTrendComparison: compareTrendClassifiers(
+      bars,
+      macroTrendOptionsOf(trendOptions),
+    ),
     trendDay,
     alignment,
     trend,
@@ -258,6 +448,7 @@ export async function scanSymbol(
     atr20,
     location,
     zones,
+    trackedZones,
     trades,
     // bars.length >= neededBars is guaranteed above, so this is safe
     lastClose: bars[bars.length - 1].close,
@@ -266,9 +457,19 @@ export async function scanSymbol(
     typicalPullback,
     nearestZone: nearestZoneEstimate,
     sweetspotState,
+    sessionRange: { high: highToday, low: lowToday },
+    ...(todayBar ? { partialDailyBar: todayBar } : {}),
   };
 }
 
+// Timeframes to scan for a symbol; the first one is the primary result
+function timeframesFor(symbol: SymbolCode, options?: ScanOptions): Timeframe[] {
+  const stacked = options?.timeframes?.[symbol];
+  return stacked && stacked.length > 0
+    ? [...new Set(stacked)]
+    : [options?.timeframe ?? "D1"];
+}
+
 export async function scanMarket(
   options?: ScanOptions,
 ): Promise<ScanResponse> {
@@ -278,35 +479,44 @@ export async function scanMarket(
   const symbols: SymbolCode[] =
     options?.symbols && options.symbols.length > 0
       ? options.symbols
-      : [...SYMBOLS];
+      : listEnabledSymbols();
 
   const results: Partial<Record<SymbolCode, SymbolScanEntry>> = {};
+  const stacked: Partial<Record<SymbolCode, SymbolScanEntry[]>> = {};
 
   const scanEntries = await Promise.all(
-    symbols.map(async (symbol) => {
-      try {
-        const entry = await scanSymbol(symbol, options);
-        return { symbol, entry } as const;
-      } catch (error) {
-        console.error(`Error scanning ${symbol}:`, error);
-        const message =
-          error instanceof Error
-            ? error.message
-            : "Unexpected error while scanning";
-        return {
-          symbol,
-          entry: { kind: "error" as const, symbol, error: message },
-        } as const;
-      }
-    }),
+    symbols.flatMap((symbol) =>
+      timeframesFor(symbol, options).map(async (timeframe, index) => {
+        try {
+          const entry = await scanSymbol(symbol, { ...options, timeframe });
+          return { symbol, index, entry } as const;
+        } catch (error) {
+          console.error(`Error scanning ${symbol} ${timeframe}:`, error);
+          const message =
+            error instanceof Error
+              ? error.message
+              : "Unexpected error while scanning";
+          return {
+            symbol,
+            index,
+            entry: { kind: "error" as const, symbol, timeframe, error: message },
+          } as const;
+        }
+      }),
+    ),
   );
 
-  for (const { symbol, entry } of scanEntries) {
-    results[symbol] = entry;
+  for (const { symbol, index, entry } of scanEntries) {
+    if (index === 0) {
+      results[symbol] = entry;
+    } else {
+      (stacked[symbol] ??= []).push(entry);
+    }
   }
 
   return {
     date: scanDate,
     symbols: results,
+    ...(Object.keys(stacked).length > 0 ? { stacked } : {}),
   };
 }
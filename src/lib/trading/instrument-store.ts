@@ -0,0 +1,68 @@
+import { db } from "@/lib/db";
+import {
+  listInstruments,
+  setInstrumentRegistry,
+  type InstrumentSpec,
+} from "./instruments";
+import type { SymbolCode } from "./types";
+
+type StoredInstrument = Omit<InstrumentSpec, "builtin">;
+
+/**
+ * Refresh the in-memory registry from the `Instrument` table. Server entry
+ * points call this before validating symbols; if the database is unavailable
+ * the current registry (built-ins at least) stays in place.
+ */
+export async function loadInstrumentRegistry(): Promise<InstrumentSpec[]> {
+  try {
+    const rows = await db.instrument.findMany({ orderBy: { createdAt: "asc" } });
+    setInstrumentRegistry(
+      rows.map(({ createdAt: _createdAt, updatedAt: _updatedAt, ...spec }) => spec),
+    );
+  } catch (err) {
+    console.error("Failed to load instrument registry, using built-ins:", err);
+  }
+  return listInstruments();
+}
+
+/** Add an instrument or override a built-in one. */
+export async function saveInstrument(
+  spec: StoredInstrument,
+): Promise<InstrumentSpec> {
+  const data = {
+    pipSize: spec.pipSize,
+    digits: spec.digits,
+    riskCap: spec.riskCap,
+    clusterRadius: spec.clusterRadius,
+    slBuffer: spec.slBuffer,
+    contractSize: spec.contractSize,
+    minLot: spec.minLot,
+    lotStep: spec.lotStep,
+    baseCurrency: spec.baseCurrency ?? null,
+    quoteCurrency: spec.quoteCurrency,
+    dataFile: spec.dataFile ?? null,
+    liveTicker: spec.liveTicker ?? null,
+    brokerSymbol: spec.brokerSymbol ?? null,
+    syntheticBasePrice: spec.syntheticBasePrice ?? null,
+    enabled: spec.enabled,
+  };
+
+  await db.instrument.upsert({
+    where: { symbol: spec.symbol },
+    create: { symbol: spec.symbol, ...data },
+    update: data,
+  });
+
+  const instruments = await loadInstrumentRegistry();
+  return instruments.find((i) => i.symbol === spec.symbol)!;
+}
+
+/**
+ * Remove a stored instrument. Built-ins fall back to their defaults.
+ * Returns false when nothing was stored for the symbol.
+ */
+export async function deleteInstrument(symbol: SymbolCode): Promise<boolean> {
+  const { count } = await db.instrument.deleteMany({ where: { symbol } });
+  await loadInstrumentRegistry();
+  return count > 0;
+}
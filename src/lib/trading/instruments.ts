@@ -0,0 +1,199 @@
+import { z } from "zod";
+import type { SymbolCode } from "./types";
+
+/**
+ * Per-instrument metadata used by the engine, data providers and UI.
+ * All distances are in price units (e.g. 0.0005 = 5 pips on EURUSD).
+ */
+export interface InstrumentSpec {
+  symbol: SymbolCode;
+  /** Size of one pip / point in price */
+  pipSize: number;
+  /** Decimals used when displaying prices */
+  digits: number;
+  /** Maximum distance between entry and stop */
+  riskCap: number;
+  /** Band used to cluster daily opens/closes into zones */
+  clusterRadius: number;
+  /** Extra distance placed beyond the structural low/high for stops */
+  slBuffer: number;
+  /** Units of the base asset in one lot (100000 for FX, 100 oz for gold) */
+  contractSize: number;
+  /** Smallest tradable lot and the increment lots are rounded to */
+  minLot: number;
+  lotStep: number;
+  /**
+   * Currencies of the quote (`base`/`quote`, e.g. GBP/JPY). Prices are in the
+   * quote currency; pairs also serve as conversion rates for position sizing.
+   */
+  baseCurrency?: string | null;
+  quoteCurrency: string;
+  /** Broker CSV file under data/ (default `<SYMBOL>_Daily.csv`) */
+  dataFile?: string | null;
+  /** Ticker sent to the live-price API (default: the symbol itself) */
+  liveTicker?: string | null;
+  /** Symbol name in the MetaTrader terminal, e.g. "GOLD" (default: symbol + export suffix) */
+  brokerSymbol?: string | null;
+  /** Starting price for synthetic demo bars */
+  syntheticBasePrice?: number | null;
+  /** Included in scans unless the request names its own symbols */
+  enabled: boolean;
+  /** Shipped with the app; a stored row only overrides its fields */
+  builtin: boolean;
+}
+
+export const BUILTIN_INSTRUMENTS: readonly InstrumentSpec[] = [
+  {
+    symbol: "XAUUSD",
+    pipSize: 0.1,
+    digits: 2,
+    riskCap: 40.0, // ≈ $40 between Entry and SL
+    clusterRadius: 5.0, // $5 band for clustering O/C
+    slBuffer: 2.0, // $2 beyond low/high or PDL/PDH
+    contractSize: 100, // 100 oz per lot
+    minLot: 0.01,
+    lotStep: 0.01,
+    baseCurrency: "XAU",
+    quoteCurrency: "USD",
+    syntheticBasePrice: 2350,
+    enabled: true,
+    builtin: true,
+  },
+  {
+    symbol: "EURUSD",
+    pipSize: 0.0001,
+    digits: 5,
+    riskCap: 0.004, // 40 pips
+    clusterRadius: 0.0005, // 5 pips
+    slBuffer: 0.0005, // 5 pips
+    contractSize: 100_000,
+    minLot: 0.01,
+    lotStep: 0.01,
+    baseCurrency: "EUR",
+    quoteCurrency: "USD",
+    syntheticBasePrice: 1.05,
+    enabled: true,
+    builtin: true,
+  },
+  {
+    symbol: "GBPJPY",
+    pipSize: 0.01,
+    digits: 3,
+    riskCap: 0.004,
+    clusterRadius: 0.0005,
+    slBuffer: 0.0005,
+    contractSize: 100_000,
+    minLot: 0.01,
+    lotStep: 0.01,
+    baseCurrency: "GBP",
+    quoteCurrency: "JPY",
+    syntheticBasePrice: 190,
+    enabled: true,
+    builtin: true,
+  },
+  {
+    symbol: "GBPUSD",
+    pipSize: 0.0001,
+    digits: 5,
+    riskCap: 0.004, // 40 pips
+    clusterRadius: 0.0005, // 5 pips
+    slBuffer: 0.0005, // 5 pips
+    contractSize: 100_000,
+    minLot: 0.01,
+    lotStep: 0.01,
+    baseCurrency: "GBP",
+    quoteCurrency: "USD",
+    syntheticBasePrice: 1.26,
+    enabled: true,
+    builtin: true,
+  },
+];
+
+let registry = new Map<SymbolCode, InstrumentSpec>(
+  BUILTIN_INSTRUMENTS.map((spec) => [spec.symbol, spec]),
+);
+
+/**
+ * Replace the registry with the built-ins merged with `specs`
+ * (stored instruments override built-ins of the same symbol).
+ */
+export function setInstrumentRegistry(
+  specs: readonly Omit<InstrumentSpec, "builtin">[],
+): void {
+  const next = new Map<SymbolCode, InstrumentSpec>(
+    BUILTIN_INSTRUMENTS.map((spec) => [spec.symbol, spec]),
+  );
+  for (const spec of specs) {
+    next.set(spec.symbol, {
+      ...spec,
+      builtin: next.get(spec.symbol)?.builtin ?? false,
+    });
+  }
+  registry = next;
+}
+
+export function listInstruments(): InstrumentSpec[] {
+  return [...registry.values()];
+}
+
+/** Symbols scanned when a request does not name its own */
+export function listEnabledSymbols(): SymbolCode[] {
+  return listInstruments()
+    .filter((spec) => spec.enabled)
+    .map((spec) => spec.symbol);
+}
+
+export function isKnownSymbol(symbol: string): boolean {
+  return registry.has(symbol);
+}
+
+export function getInstrument(symbol: SymbolCode): InstrumentSpec {
+  const spec = registry.get(symbol);
+  if (!spec) {
+    throw new Error(`Unknown symbol ${symbol}: add it to the instrument registry`);
+  }
+  return spec;
+}
+
+/** Request field for a symbol that must exist in the registry */
+export const knownSymbolSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .refine(isKnownSymbol, { message: "Unknown symbol" });
+
+const positive = (field: string) =>
+  z.number({ message: `${field} must be a number` }).finite().positive();
+
+const currencySchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z]{3}$/u, { message: "Currency must be a 3-letter code" });
+
+export const instrumentSpecSchema = z
+  .object({
+    symbol: z
+      .string()
+      .trim()
+      .toUpperCase()
+      .regex(/^[A-Z0-9._-]{2,20}$/u, {
+        message: "Symbol must be 2–20 letters, digits, '.', '_' or '-'",
+      }),
+    pipSize: positive("pipSize"),
+    digits: z.number({ message: "digits must be a number" }).int().min(0).max(8),
+    riskCap: positive("riskCap"),
+    clusterRadius: positive("clusterRadius"),
+    slBuffer: positive("slBuffer"),
+    contractSize: positive("contractSize").default(100_000),
+    minLot: positive("minLot").default(0.01),
+    lotStep: positive("lotStep").default(0.01),
+    baseCurrency: currencySchema.nullish(),
+    quoteCurrency: currencySchema.default("USD"),
+    dataFile: z.string().trim().min(1).nullish(),
+    liveTicker: z.string().trim().min(1).nullish(),
+    brokerSymbol: z.string().trim().min(1).nullish(),
+    syntheticBasePrice: positive("syntheticBasePrice").nullish(),
+    enabled: z.boolean().default(true),
+  })
+  .strict();
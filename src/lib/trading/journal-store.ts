@@ -0,0 +1,116 @@
+import { db } from "@/lib/db";
+import {
+  computeOutcomeR,
+  type JournalCreateInput,
+  type JournalEntry,
+  type JournalFilter,
+  type JournalStatus,
+  type JournalUpdateInput,
+} from "./journal";
+
+type JournalRow = Awaited<ReturnType<typeof db.journalEntry.findMany>>[number];
+
+function toEntry(row: JournalRow): JournalEntry {
+  return {
+    ...row,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+    model: row.model as JournalEntry["model"],
+    direction: row.direction as JournalEntry["direction"],
+    status: row.status as JournalStatus,
+    entryAt: row.entryAt?.toISOString() ?? null,
+    exitAt: row.exitAt?.toISOString() ?? null,
+    screenshots: JSON.parse(row.screenshots),
+  };
+}
+
+const toDate = (value: string | null | undefined) =>
+  value == null ? value : new Date(value);
+
+/** Newest first */
+export async function listJournalEntries(
+  filter: JournalFilter = {},
+): Promise<JournalEntry[]> {
+  const rows = await db.journalEntry.findMany({
+    where: {
+      ...(filter.model ? { model: filter.model } : {}),
+      ...(filter.symbol ? { symbol: filter.symbol } : {}),
+      ...(filter.scenario ? { scenario: filter.scenario } : {}),
+      ...(filter.status ? { status: filter.status } : {}),
+    },
+    orderBy: { createdAt: "desc" },
+  });
+  return rows.map(toEntry);
+}
+
+export async function createJournalEntry(
+  input: JournalCreateInput,
+): Promise<JournalEntry> {
+  const { screenshots, entryAt, exitAt, ...rest } = input;
+  const row = await db.journalEntry.create({
+    data: {
+      ...rest,
+      entryAt: toDate(entryAt),
+      exitAt: toDate(exitAt),
+      screenshots: JSON.stringify(screenshots ?? []),
+      outcomeR:
+        input.outcomeR ??
+        computeOutcomeR({
+          direction: input.direction,
+          plannedStop: input.plannedStop,
+          entryPrice: input.entryPrice ?? null,
+          exitPrice: input.exitPrice ?? null,
+        }),
+    },
+  });
+  return toEntry(row);
+}
+
+/**
+ * Apply fills, exits or notes to an entry. `outcomeR` follows the fills
+ * unless the update sets it explicitly. Returns null for an unknown id.
+ */
+export async function updateJournalEntry(
+  id: string,
+  update: JournalUpdateInput,
+): Promise<JournalEntry | null> {
+  const existing = await db.journalEntry.findUnique({ where: { id } });
+  if (!existing) return null;
+
+  const { screenshots, entryAt, exitAt, ...rest } = update;
+  const fills = {
+    direction: existing.direction as JournalEntry["direction"],
+    plannedStop: existing.plannedStop,
+    entryPrice:
+      update.entryPrice !== undefined ? update.entryPrice : existing.entryPrice,
+    exitPrice:
+      update.exitPrice !== undefined ? update.exitPrice : existing.exitPrice,
+  };
+  const fillsChanged =
+    update.entryPrice !== undefined || update.exitPrice !== undefined;
+
+  const outcomeR =
+    update.outcomeR !== undefined
+      ? (update.outcomeR ?? computeOutcomeR(fills))
+      : fillsChanged
+        ? computeOutcomeR(fills)
+        : existing.outcomeR;
+
+  const row = await db.journalEntry.update({
+    where: { id },
+    data: {
+      ...rest,
+      ...(entryAt !== undefined ? { entryAt: toDate(entryAt) } : {}),
+      ...(exitAt !== undefined ? { exitAt: toDate(exitAt) } : {}),
+      ...(screenshots ? { screenshots: JSON.stringify(screenshots) } : {}),
+      outcomeR,
+    },
+  });
+  return toEntry(row);
+}
+
+/** Returns false when the entry did not exist */
+export async function deleteJournalEntry(id: string): Promise<boolean> {
+  const { count } = await db.journalEntry.deleteMany({ where: { id } });
+  return count > 0;
+}
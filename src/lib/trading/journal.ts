@@ -0,0 +1,196 @@
+import { z } from "zod";
+import { knownSymbolSchema } from "./instruments";
+import { formatScenarioKey } from "./pullback-analysis";
+import type { SymbolScanResult, TradeCandidate } from "./types";
+import { TIMEFRAMES, TRADE_MODELS } from "./types";
+
+export const JOURNAL_STATUSES = ["planned", "open", "closed", "cancelled"] as const;
+
+export type JournalStatus = (typeof JOURNAL_STATUSES)[number];
+
+/**
+ * A trade taken from a scanner candidate: the plan as the scanner proposed it,
+ * the market context it came from, and what actually happened.
+ */
+export interface JournalEntry {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Scan run the candidate came from, when it was stored */
+  scanRunId: string | null;
+  scanDate: string | null;
+
+  symbol: string;
+  timeframe: string;
+  model: TradeCandidate["model"];
+  direction: TradeCandidate["direction"];
+  placement: string | null;
+  stopType: string | null;
+  plannedEntry: number;
+  plannedStop: number;
+  plannedTp1: number;
+  plannedRr: number;
+
+  macroTrend: string | null;
+  trendDay: string | null;
+  alignment: string | null;
+  location: string | null;
+  pullbackBucket: string | null;
+  sweetspotState: string | null;
+  /** Pullback scenario of the previous session, see formatScenarioKey */
+  scenario: string | null;
+
+  status: JournalStatus;
+  lots: number | null;
+  entryPrice: number | null;
+  entryAt: string | null;
+  exitPrice: number | null;
+  exitAt: string | null;
+  /** Result in multiples of the planned risk (entry → planned stop) */
+  outcomeR: number | null;
+  notes: string | null;
+  /** Links to chart screenshots */
+  screenshots: string[];
+}
+
+const price = (field: string) =>
+  z.number({ message: `${field} must be a number` }).finite();
+
+const optionalPrice = (field: string) => price(field).nullish();
+
+const timestamp = z.iso
+  .datetime({ message: "Expected an ISO timestamp" })
+  .nullish();
+
+/** Fills, exits and notes; everything a trader edits after taking the trade */
+export const journalUpdateSchema = z
+  .object({
+    status: z
+      .enum(JOURNAL_STATUSES, {
+        message: `status must be one of ${JOURNAL_STATUSES.join(", ")}`,
+      })
+      .optional(),
+    lots: z.number({ message: "lots must be a number" }).finite().positive().nullish(),
+    entryPrice: optionalPrice("entryPrice"),
+    entryAt: timestamp,
+    exitPrice: optionalPrice("exitPrice"),
+    exitAt: timestamp,
+    /** Overrides the R computed from the fills (e.g. after partial exits) */
+    outcomeR: z.number({ message: "outcomeR must be a number" }).finite().nullish(),
+    notes: z.string().max(10_000).nullish(),
+    screenshots: z
+      .array(z.url({ message: "Screenshots must be URLs" }))
+      .max(20)
+      .optional(),
+  })
+  .strict();
+
+export const journalCreateSchema = journalUpdateSchema
+  .extend({
+    scanRunId: z.string().trim().min(1).nullish(),
+    scanDate: z
+      .string()
+      .regex(/^[0-9]{4}-[0-9]{2}-[0-9]{2}$/u, {
+        message: "Invalid date format (expected yyyy-mm-dd)",
+      })
+      .nullish(),
+    symbol: knownSymbolSchema,
+    timeframe: z.enum(TIMEFRAMES, { message: "Invalid timeframe" }).default("D1"),
+    model: z.enum(TRADE_MODELS, { message: `model must be one of ${TRADE_MODELS.join(", ")}` }),
+    direction: z.enum(["Long", "Short"], { message: "direction must be Long or Short" }),
+    placement: z.string().nullish(),
+    stopType: z.string().nullish(),
+    plannedEntry: price("plannedEntry"),
+    plannedStop: price("plannedStop"),
+    plannedTp1: price("plannedTp1"),
+    plannedRr: price("plannedRr"),
+    macroTrend: z.string().nullish(),
+    trendDay: z.string().nullish(),
+    alignment: z.string().nullish(),
+    location: z.string().nullish(),
+    pullbackBucket: z.string().nullish(),
+    sweetspotState: z.string().nullish(),
+    scenario: z.string().nullish(),
+  })
+  .refine((entry) => entry.plannedEntry !== entry.plannedStop, {
+    message: "plannedStop must differ from plannedEntry",
+    path: ["plannedStop"],
+  });
+
+export type JournalCreateInput = z.infer<typeof journalCreateSchema>;
+export type JournalUpdateInput = z.infer<typeof journalUpdateSchema>;
+
+/** Filters for listing the journal; all optional */
+export const journalFilterSchema = z
+  .object({
+    model: z
+      .enum(TRADE_MODELS, { message: `model must be one of ${TRADE_MODELS.join(", ")}` })
+      .optional(),
+    symbol: z.string().trim().toUpperCase().min(1).optional(),
+    scenario: z.string().trim().min(1).optional(),
+    status: z
+      .enum(JOURNAL_STATUSES, {
+        message: `status must be one of ${JOURNAL_STATUSES.join(", ")}`,
+      })
+      .optional(),
+  })
+  .strict();
+
+export type JournalFilter = z.infer<typeof journalFilterSchema>;
+
+/**
+ * Prefill a journal entry from a Signals row: the candidate's plan plus the
+ * symbol's trend, location, pullback and scenario at scan time.
+ */
+export function journalDraftFromCandidate(
+  result: SymbolScanResult,
+  trade: TradeCandidate,
+  scan: { runId?: string; date: string },
+): JournalCreateInput {
+  return {
+    scanRunId: scan.runId ?? null,
+    scanDate: scan.date,
+    symbol: result.symbol,
+    timeframe: result.timeframe ?? "D1",
+    model: trade.model,
+    direction: trade.direction,
+    placement: trade.placement ?? null,
+    stopType: trade.stopType ?? null,
+    plannedEntry: trade.entry,
+    plannedStop: trade.stop,
+    plannedTp1: trade.tp1,
+    plannedRr: trade.rr,
+    macroTrend: result.macroTrend,
+    trendDay: result.trendDay,
+    alignment: result.alignment,
+    location: result.location,
+    pullbackBucket: result.pullback?.bucket ?? null,
+    sweetspotState: result.sweetspotState ?? null,
+    scenario: result.pullback?.scenario
+      ? formatScenarioKey(result.pullback.scenario)
+      : null,
+    status: "planned",
+    lots: trade.sizing?.lots || null,
+  };
+}
+
+/**
+ * Result of a filled trade in R: the move from the actual entry to the exit
+ * over the planned risk (actual entry to the planned stop). Null until both
+ * fills are known or when the entry sits at the stop.
+ */
+export function computeOutcomeR(entry: {
+  direction: TradeCandidate["direction"];
+  plannedStop: number;
+  entryPrice: number | null;
+  exitPrice: number | null;
+}): number | null {
+  if (entry.entryPrice == null || entry.exitPrice == null) return null;
+  const risk = Math.abs(entry.entryPrice - entry.plannedStop);
+  if (risk === 0) return null;
+  const move =
+    entry.direction === "Long"
+      ? entry.exitPrice - entry.entryPrice
+      : entry.entryPrice - entry.exitPrice;
+  return move / risk;
+}
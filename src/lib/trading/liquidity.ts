@@ -0,0 +1,199 @@
+import { z } from "zod";
+import {
+  CONFIG,
+  type LiquidityLevel,
+  type LiquidityMap,
+  type LiquidityMode,
+  type OhlcBar,
+} from "./types";
+
+export interface SwingStrength {
+  /** Bars before a swing point it must exceed */
+  left: number;
+  /** Bars after it that must not exceed it */
+  right: number;
+}
+
+export interface LiquidityOptions extends Partial<SwingStrength> {
+  mode?: LiquidityMode;
+  /** Swing highs (lows) at most this far apart form an equal-highs (lows) pool */
+  equalTolerance?: number;
+}
+
+/** Zod fields for the liquidity ScanParams, shared by the scan and replay APIs */
+export const liquidityParamsShape = {
+  liquidityMode: z
+    .enum(["raw", "swing"], { message: "liquidityMode must be raw or swing" })
+    .optional(),
+  swingLeft: z
+    .number({ message: "swingLeft must be a number" })
+    .int({ message: "swingLeft must be a whole number" })
+    .min(1, { message: "swingLeft must be at least 1" })
+    .max(10, { message: "swingLeft must be at most 10" })
+    .optional(),
+  swingRight: z
+    .number({ message: "swingRight must be a number" })
+    .int({ message: "swingRight must be a whole number" })
+    .min(1, { message: "swingRight must be at least 1" })
+    .max(10, { message: "swingRight must be at most 10" })
+    .optional(),
+};
+
+/**
+ * Indices of fractal swing highs (lows): bars whose high is above the `left`
+ * bars before it and not below any of the `right` bars after it. The last
+ * `right` bars cannot be confirmed yet.
+ */
+export function findSwingPoints(
+  bars: OhlcBar[],
+  side: "high" | "low",
+  strength: SwingStrength,
+): number[] {
+  const indices: number[] = [];
+  const beats = (a: number, b: number) => (side === "high" ? a > b : a < b);
+
+  for (let i = strength.left; i < bars.length - strength.right; i++) {
+    const value = bars[i][side];
+    let isSwing = true;
+    for (let k = 1; k <= strength.left && isSwing; k++) {
+      isSwing = beats(value, bars[i - k][side]);
+    }
+    for (let k = 1; k <= strength.right && isSwing; k++) {
+      isSwing = !beats(bars[i + k][side], value);
+    }
+    if (isSwing) indices.push(i);
+  }
+  return indices;
+}
+
+/** Highest high (lowest low) of the bars after `index`, per index */
+function extremesAfter(bars: OhlcBar[], side: "high" | "low"): number[] {
+  const result = new Array<number>(bars.length);
+  let extreme = side === "high" ? -Infinity : Infinity;
+  for (let i = bars.length - 1; i >= 0; i--) {
+    result[i] = extreme;
+    extreme =
+      side === "high"
+        ? Math.max(extreme, bars[i].high)
+        : Math.min(extreme, bars[i].low);
+  }
+  return result;
+}
+
+function isSwept(side: "high" | "low", price: number, extremeAfter: number) {
+  return side === "high" ? extremeAfter > price : extremeAfter < price;
+}
+
+function barLevels(bars: OhlcBar[], side: "high" | "low"): LiquidityLevel[] {
+  const after = extremesAfter(bars, side);
+  return bars.map((bar, i) => ({
+    price: bar[side],
+    side,
+    kind: "bar",
+    date: bar.date,
+    touches: 1,
+    swept: isSwept(side, bar[side], after[i]),
+  }));
+}
+
+/**
+ * Swing points of one side, with swing points whose prices chain within
+ * `tolerance` of each other merged into a pool at their outermost price.
+ */
+function swingLevels(
+  bars: OhlcBar[],
+  side: "high" | "low",
+  strength: SwingStrength,
+  tolerance: number,
+): LiquidityLevel[] {
+  const after = extremesAfter(bars, side);
+  const indices = findSwingPoints(bars, side, strength).sort(
+    (a, b) => bars[a][side] - bars[b][side],
+  );
+
+  const clusters: number[][] = [];
+  for (const index of indices) {
+    const last = clusters[clusters.length - 1];
+    const lastPrice = last ? bars[last[last.length - 1]][side] : NaN;
+    if (last && bars[index][side] - lastPrice <= tolerance) last.push(index);
+    else clusters.push([index]);
+  }
+
+  return clusters
+    .map((cluster) => {
+      const prices = cluster.map((i) => bars[i][side]);
+      const price = side === "high" ? Math.max(...prices) : Math.min(...prices);
+      const first = Math.min(...cluster);
+      return {
+        price,
+        side,
+        kind: cluster.length > 1 ? ("equal" as const) : ("swing" as const),
+        date: bars[Math.max(...cluster)].date,
+        touches: cluster.length,
+        swept: isSwept(side, price, after[first]),
+      };
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Liquidity for stops and targets. Raw maps hold every bar's high and low;
+ * swing maps hold the swing points and equal-highs/lows pools that no later
+ * bar has traded through. `levels` keeps every level with its origin.
+ */
+export function createLiquidityMap(
+  bars: OhlcBar[],
+  options?: LiquidityOptions,
+): LiquidityMap {
+  const mode = options?.mode ?? CONFIG.liquidity_mode;
+
+  if (mode === "raw") {
+    return {
+      highs: bars.map((b) => b.high),
+      lows: bars.map((b) => b.low),
+      mode,
+      levels: [...barLevels(bars, "high"), ...barLevels(bars, "low")],
+    };
+  }
+
+  const strength = {
+    left: options?.left ?? CONFIG.swing_strength,
+    right: options?.right ?? CONFIG.swing_strength,
+  };
+  const tolerance = options?.equalTolerance ?? 0;
+  const levels = [
+    ...swingLevels(bars, "high", strength, tolerance),
+    ...swingLevels(bars, "low", strength, tolerance),
+  ];
+  const resting = (side: "high" | "low") =>
+    levels.filter((l) => l.side === side && !l.swept).map((l) => l.price);
+
+  return { highs: resting("high"), lows: resting("low"), mode, levels };
+}
+
+/**
+ * The level a price in `highs`/`lows` was taken from; the latest one when
+ * several bars share it. Swept levels only count on raw maps.
+ */
+export function liquidityLevelAt(
+  liquidity: LiquidityMap,
+  side: "high" | "low",
+  price: number,
+): LiquidityLevel | undefined {
+  const matches = (liquidity.levels ?? []).filter(
+    (level) =>
+      level.side === side &&
+      level.price === price &&
+      (liquidity.mode !== "swing" || !level.swept),
+  );
+  return matches[matches.length - 1];
+}
+
+/** "Swing low · 2025-06-12", "Equal highs ×3 · 2025-06-12 (swept)", … */
+export function describeLiquidityLevel(level: LiquidityLevel): string {
+  const name =
+    level.kind === "equal"
+      ? `Equal ${level.side}s ×${level.touches}`
+      : `${level.kind === "swing" ? "Swing" : "Bar"} ${level.side}`;
+  return `${name} · ${level.date}${level.swept ? " (swept)" : ""}`;
+}
@@ -1,4 +1,5 @@
 import type { LivePriceSnapshot, SymbolCode } from "./types";
+import { getInstrument } from "./instruments";
 
 interface ExtractedQuote {
   bid?: number | null;
@@ -8,17 +9,6 @@ interface ExtractedQuote {
 
 type ProviderJson = Record<string, unknown>;
 
-/**
- * Map our internal symbol codes to whatever the live-price API expects.
- * Adjust these values to match your provider's tickers.
- */
-const SYMBOL_TO_TICKER: Record<SymbolCode, string> = {
-  XAUUSD: "XAUUSD",
-  EURUSD: "EURUSD",
-  GBPUSD: "GBPUSD",
-  GBPJPY: "GBPJPY",
-};
-
 function parseNumber(candidate: unknown): number | null {
   if (typeof candidate === "number" && Number.isFinite(candidate)) {
     return candidate;
@@ -95,7 +85,8 @@ async function fetchWithRetry(url: string, init: RequestInit): Promise<Response>
 export async function getCurrentPrice(
   symbol: SymbolCode,
 ): Promise<LivePriceSnapshot> {
-  const ticker = SYMBOL_TO_TICKER[symbol];
+  // Instruments can map to a different provider ticker in the registry
+  const ticker = getInstrument(symbol).liveTicker ?? symbol;
 
   const apiUrl = process.env.FX_API_URL;
   const apiKey = process.env.FX_API_KEY;
@@ -0,0 +1,289 @@
+import { scanMarket } from "./engine";
+import type {
+  AccountProfile,
+  EconomicEvent,
+  OhlcBar,
+  ScanOptions,
+  ScanResponse,
+  SymbolCode,
+  SymbolNewsContext,
+  SymbolScanEntry,
+} from "./types";
+import { CONFIG, isHistoricalScan, isSymbolScanError } from "./types";
+import { buildCandidateDiagnostics } from "./buildCandidateDiagnostics";
+import { applyNewsContext, buildNewsContext } from "./economic-calendar";
+import { applyCorrelationGuard, buildCorrelationMatrix } from "./correlation";
+import { getCalendarProvider } from "./calendar-provider";
+import { getCurrentPrice } from "./live-prices";
+import { computeNearestZoneInfo } from "./nearest-zone";
+import { getDailyOhlc } from "./data-provider";
+import { getInstrument, listInstruments } from "./instruments";
+import {
+  applyPositionSizing,
+  conversionRate,
+  scanPrices,
+  summarizeOpenRisk,
+} from "./position-sizing";
+
+/**
+ * Run `scanMarket`, then price every symbol (manual close, live quote, or the
+ * latest close as a fallback) and attach the nearest zone and candidate
+ * diagnostics for that price. Latest-session scans also check the economic
+ * calendar and block or downgrade candidates around high-impact releases.
+ */
+export async function scanWithLivePrices(
+  options?: ScanOptions,
+): Promise<ScanResponse> {
+  // 1) Run the structural scan
+  const scan = await scanMarket(options); // expected to return ScanResponse shape
+
+  const symbols = Object.keys(scan.symbols) as SymbolCode[];
+  const symbolsNeedingPrices = symbols.filter((symbol) => {
+    const entry = scan.symbols[symbol];
+    return entry && !isSymbolScanError(entry);
+  });
+
+  if (symbolsNeedingPrices.length === 0) {
+    return scan;
+  }
+
+  // 2) Fetch current prices in parallel. An as-of scan of a past session
+  // must not mix in today's quote, so it falls back to that session's close.
+  const manualCloses = options?.manualCloses ?? {};
+  const historical = isHistoricalScan(options);
+
+  const prices = await Promise.all(
+    symbolsNeedingPrices.map(async (symbol) => {
+      const manual = manualCloses[symbol];
+      const manualEnabled =
+        manual?.enabled &&
+        typeof manual.close === "number" &&
+        Number.isFinite(manual.close);
+
+      if (manualEnabled) {
+        return { spot: manual?.close ?? null, source: "manual" as const };
+      }
+
+      if (historical) {
+        return {
+          spot: null,
+          error: {
+            code: "NO_TICK" as const,
+            message: `As-of scan for ${options?.date}; using that session's daily close`,
+          },
+        };
+      }
+
+      try {
+        const p = await getCurrentPrice(symbol);
+        return p;
+      } catch (err) {
+        console.error("Failed to fetch live price for", symbol, err);
+        return {
+          spot: null,
+          error: { code: "HTTP_ERROR" as const, message: String(err) },
+        };
+      }
+    }),
+  );
+
+  // 3) Calendar releases around now. A past session has no "now" to check
+  // them against, so as-of scans skip the news filter.
+  const now = new Date();
+  const events = historical ? null : await loadCalendarEvents(now);
+
+  // 4) Attach livePrice + nearestZone per symbol, including stacked timeframes
+  symbolsNeedingPrices.forEach((symbol, idx) => {
+    const rawPrice = prices[idx];
+    const news = events
+      ? buildNewsContext(symbol, events, now, {
+          mode: options?.filters?.newsMode,
+          minutesBefore: options?.filters?.newsMinutesBefore,
+          minutesAfter: options?.filters?.newsMinutesAfter,
+        })
+      : undefined;
+    scan.symbols[symbol] = attachLivePrice(scan.symbols[symbol], rawPrice, news);
+
+    const stacked = scan.stacked?.[symbol];
+    if (stacked) {
+      scan.stacked![symbol] = stacked.map(
+        (entry) => attachLivePrice(entry, rawPrice, news)!,
+      );
+    }
+  });
+
+  return scan;
+}
+
+/**
+ * Releases from the widest news window before `now` to the listing horizon.
+ * A missing or broken calendar must not fail the scan, so errors only drop
+ * the news filter.
+ */
+async function loadCalendarEvents(now: Date): Promise<EconomicEvent[] | null> {
+  try {
+    const from = new Date(now.getTime() - 12 * 3_600_000);
+    const to = new Date(now.getTime() + CONFIG.news_horizon_hours * 3_600_000);
+    return await getCalendarProvider().loadEvents(from, to);
+  } catch (err) {
+    console.error("Failed to load the economic calendar:", err);
+    return null;
+  }
+}
+
+function attachLivePrice(
+  entry: SymbolScanEntry | undefined,
+  rawPrice: Awaited<ReturnType<typeof getCurrentPrice>> | undefined,
+  news?: SymbolNewsContext,
+): SymbolScanEntry | undefined {
+  if (!entry || isSymbolScanError(entry)) {
+    return entry;
+  }
+
+  const symbolResult = entry;
+
+  // Without a quote, the latest H1 close beats the last daily close
+  const fallbackClose =
+    symbolResult.partialDailyBar?.close ?? symbolResult.lastClose;
+  const hasLiveQuote =
+    typeof rawPrice?.spot === "number" && Number.isFinite(rawPrice.spot);
+  const hasFallback =
+    !hasLiveQuote &&
+    typeof fallbackClose === "number" &&
+    Number.isFinite(fallbackClose);
+
+  const livePrice =
+    hasLiveQuote
+      ? { ...rawPrice, source: rawPrice?.source ?? "live" }
+      : hasFallback
+        ? {
+            spot: fallbackClose,
+            source: "fallback" as const,
+            error:
+              rawPrice?.error ??
+              ({
+                code: "ENV_MISSING" as const,
+                message:
+                  symbolResult.partialDailyBar
+                    ? "Live prices are not configured; using the latest H1 close as fallback"
+                    : "Live prices are not configured; using last close as fallback",
+              } satisfies Awaited<ReturnType<typeof getCurrentPrice>>["error"]),
+          }
+        : rawPrice;
+
+  const nearestZone =
+    typeof livePrice?.spot === "number" && Number.isFinite(livePrice.spot)
+      ? computeNearestZoneInfo(
+          symbolResult.zones ?? [],
+          livePrice.spot,
+          symbolResult.atr20 ?? null,
+        )
+      : null;
+
+  const trades =
+    news && Array.isArray(symbolResult.trades)
+      ? applyNewsContext(symbolResult.trades, news)
+      : symbolResult.trades;
+
+  const candidateDiagnostics = buildCandidateDiagnostics({
+    trend: symbolResult.trend,
+    location: symbolResult.location,
+    nearestZone,
+    pullback: symbolResult.pullback,
+    hasModelSignal: Array.isArray(trades) ? trades.length > 0 : false,
+    newsBlocked: news?.blocked,
+    sessionAllowed: symbolResult.sessionContext?.allowed,
+  });
+
+  return {
+    ...symbolResult,
+    trades,
+    livePrice,
+    nearestZone,
+    candidateDiagnostics,
+    ...(news ? { news } : {}),
+  };
+}
+
+/**
+ * Size every candidate for `account`. Conversion rates come from the scanned
+ * symbols' prices; when a quote currency cannot be converted with those
+ * (e.g. a GBPJPY-only scan for a USD account), the latest close of the other
+ * registry pairs is loaded to complete the chain.
+ */
+export async function sizeScanPositions(
+  scan: ScanResponse,
+  account: AccountProfile,
+): Promise<ScanResponse> {
+  const prices = scanPrices(scan);
+
+  const needsMorePrices = Object.values(scan.symbols).some(
+    (entry) =>
+      entry &&
+      !isSymbolScanError(entry) &&
+      entry.trades.length > 0 &&
+      conversionRate(
+        getInstrument(entry.symbol).quoteCurrency,
+        account.currency,
+        prices,
+      ) == null,
+  );
+
+  if (needsMorePrices) {
+    const missing = listInstruments().filter(
+      (spec) => spec.baseCurrency && prices[spec.symbol] == null,
+    );
+    await Promise.all(
+      missing.map(async (spec) => {
+        try {
+          const [bar] = await getDailyOhlc(spec.symbol, 1, { asOf: scan.date });
+          if (bar) prices[spec.symbol] = bar.close;
+        } catch (err) {
+          console.error(`No conversion price for ${spec.symbol}:`, err);
+        }
+      }),
+    );
+  }
+
+  return applyPositionSizing(scan, account, prices);
+}
+
+/**
+ * Correlate the scanned symbols' daily returns up to the scan date, tag (or
+ * filter) candidates that stack correlated risk and total the net currency
+ * exposure. Runs on a sized scan; the open risk is re-summed afterwards since
+ * filtered candidates no longer count. A symbol whose history fails to load
+ * is left out of the matrix, which only weakens the guard.
+ */
+export async function guardCorrelatedRisk(
+  scan: ScanResponse,
+  account: AccountProfile,
+  filters?: ScanOptions["filters"],
+): Promise<ScanResponse> {
+  const symbols = (Object.keys(scan.symbols) as SymbolCode[]).filter((symbol) => {
+    const entry = scan.symbols[symbol];
+    return entry && !isSymbolScanError(entry);
+  });
+
+  const history: Partial<Record<SymbolCode, OhlcBar[]>> = {};
+  await Promise.all(
+    symbols.map(async (symbol) => {
+      try {
+        history[symbol] = await getDailyOhlc(symbol, CONFIG.correlation_window + 1, {
+          asOf: scan.date,
+        });
+      } catch (err) {
+        console.error(`No return history for ${symbol}:`, err);
+      }
+    }),
+  );
+
+  const guarded = applyCorrelationGuard(
+    scan,
+    buildCorrelationMatrix(
+      Object.fromEntries(symbols.filter((s) => history[s]).map((s) => [s, history[s]])),
+    ),
+    { mode: filters?.correlationMode, maxCorrelation: filters?.maxCorrelation },
+  );
+  return { ...guarded, openRisk: summarizeOpenRisk(guarded, account) };
+}
@@ -8,7 +8,43 @@ import {
 } from "./types";
 import type { Trend } from "./trend-analysis";
 import { nearestAbove, nearestBelow } from "./zones";
-import type { NearestZoneInfo } from "./types";
+import { liquidityLevelAt } from "./liquidity";
+import { getInstrument } from "./instruments";
+import type { ExitPlan, NearestZoneInfo, TakeProfitTarget } from "./types";
+
+const TARGET_LABELS: TakeProfitTarget["label"][] = ["TP1", "TP2", "TP3"];
+
+// Share of the position closed at each target, by ladder length
+const PARTIAL_EXITS: Record<number, number[]> = {
+  1: [100],
+  2: [60, 40],
+  3: [50, 30, 20],
+};
+
+// Successive targets must be at least this many R beyond the previous one
+const MIN_TARGET_SPACING_R = 0.5;
+
+/**
+ * Levels a candidate's tp1 and swing stop were taken from, so the UI can
+ * show whether they are bar extremes, swing points or equal-highs/lows pools
+ */
+function liquiditySources(
+  liquidity: LiquidityMap,
+  direction: TradeCandidate["direction"],
+  tp1: number,
+  swingStop?: number,
+): Pick<TradeCandidate, "stopLevel" | "targetLevel"> {
+  const isLong = direction === "Long";
+  const targetLevel = liquidityLevelAt(liquidity, isLong ? "high" : "low", tp1);
+  const stopLevel =
+    swingStop != null
+      ? liquidityLevelAt(liquidity, isLong ? "low" : "high", swingStop)
+      : undefined;
+  return {
+    ...(stopLevel ? { stopLevel } : {}),
+    ...(targetLevel ? { targetLevel } : {}),
+  };
+}
 
 export function generateModelATrades(
   trend: Trend,
@@ -20,8 +56,7 @@ export function generateModelATrades(
 ): TradeCandidate[] {
   const trades: TradeCandidate[] = [];
   const currentPrice = bars[bars.length - 1].close;
-  const riskCap = CONFIG.risk_cap[symbol];
-  const slBuffer = CONFIG.sl_buffer[symbol];
+  const { riskCap, slBuffer } = getInstrument(symbol);
   const minRR = options?.minRr ?? CONFIG.min_rr;
   const spreadCap = options?.spreadCap;
   const currentSpread = bars[bars.length - 1]?.spread;
@@ -62,6 +97,7 @@ export function generateModelATrades(
         rr,
         status: "VALID",
         stopType: "Swing",
+        ...liquiditySources(liquidity, "Long", tp1, swingLow),
       });
     }
   } else if (trend === "Bear") {
@@ -95,6 +131,7 @@ export function generateModelATrades(
         rr,
         status: "VALID",
         stopType: "Swing",
+        ...liquiditySources(liquidity, "Short", tp1, swingHigh),
       });
     }
   }
@@ -113,8 +150,7 @@ export function generateModelBTrades(
   const trades: TradeCandidate[] = [];
   const currentPrice = bars[bars.length - 1].close;
   const prevBar = bars[bars.length - 2];
-  const riskCap = CONFIG.risk_cap[symbol];
-  const slBuffer = CONFIG.sl_buffer[symbol];
+  const { riskCap, slBuffer } = getInstrument(symbol);
   const minRR = options?.minRr ?? CONFIG.min_rr;
   const spreadCap = options?.spreadCap;
   const currentSpread = bars[bars.length - 1]?.spread;
@@ -155,6 +191,7 @@ export function generateModelBTrades(
         rr,
         status: "VALID",
         stopType: "PD",
+        ...liquiditySources(liquidity, "Long", tp1),
       });
     }
   } else if (trend === "Bear") {
@@ -184,6 +221,7 @@ export function generateModelBTrades(
         rr,
         status: "VALID",
         stopType: "PD",
+        ...liquiditySources(liquidity, "Short", tp1),
       });
     }
   }
@@ -201,8 +239,7 @@ export function generateModelCTrades(
   const trades: TradeCandidate[] = [];
   const currentBar = bars[bars.length - 1];
   const prevBar = bars[bars.length - 2];
-  const riskCap = CONFIG.risk_cap[symbol];
-  const slBuffer = CONFIG.sl_buffer[symbol];
+  const { riskCap, slBuffer } = getInstrument(symbol);
   const minRR = options?.minRr ?? CONFIG.min_rr;
   const spreadCap = options?.spreadCap;
   const currentSpread = currentBar?.spread;
@@ -242,6 +279,7 @@ export function generateModelCTrades(
             rr,
             status: "VALID",
             stopType: "Swing",
+            ...liquiditySources(liquidity, "Long", tp1, swingLow),
           });
         }
       }
@@ -265,6 +303,7 @@ export function generateModelCTrades(
           rr: pdRr,
           status: "VALID",
           stopType: "PD",
+          ...liquiditySources(liquidity, "Long", tp1),
         });
       }
     }
@@ -297,6 +336,7 @@ export function generateModelCTrades(
             rr,
             status: "VALID",
             stopType: "Swing",
+            ...liquiditySources(liquidity, "Short", tp1, swingHigh),
           });
         }
       }
@@ -320,6 +360,7 @@ export function generateModelCTrades(
           rr: pdRr,
           status: "VALID",
           stopType: "PD",
+          ...liquiditySources(liquidity, "Short", tp1),
         });
       }
     }
@@ -396,8 +437,7 @@ export function generateModelDTrades(
   const currentBar = bars[bars.length - 1];
   const prevBar = bars[bars.length - 2];
   const currentPrice = options.nearestZone?.spot ?? currentBar?.close;
-  const riskCap = CONFIG.risk_cap[symbol];
-  const slBuffer = CONFIG.sl_buffer[symbol];
+  const { riskCap, slBuffer } = getInstrument(symbol);
   const minRR = options.minRr ?? CONFIG.min_rr;
   const spreadCap = options.spreadCap;
   const currentSpread = currentBar?.spread;
@@ -453,6 +493,7 @@ export function generateModelDTrades(
             rr,
             status: "VALID",
             stopType: "Swing",
+            ...liquiditySources(liquidity, "Long", tp1, swingLow),
             placement: "PENDING_LIMIT",
           });
         }
@@ -476,6 +517,7 @@ export function generateModelDTrades(
           rr: pdRr,
           status: "VALID",
           stopType: "PD",
+          ...liquiditySources(liquidity, "Long", tp1),
           placement: "PENDING_LIMIT",
         });
       }
@@ -505,6 +547,7 @@ export function generateModelDTrades(
             rr,
             status: "VALID",
             stopType: "Swing",
+            ...liquiditySources(liquidity, "Short", tp1, swingHigh),
             placement: "PENDING_LIMIT",
           });
         }
@@ -528,6 +571,7 @@ export function generateModelDTrades(
           rr: pdRr,
           status: "VALID",
           stopType: "PD",
+          ...liquiditySources(liquidity, "Short", tp1),
           placement: "PENDING_LIMIT",
         });
       }
@@ -536,3 +580,56 @@ export function generateModelDTrades(
 
   return trades;
 }
+
+/**
+ * Extend a candidate's tp1 into a ladder of up to three targets. TP2/TP3 are
+ * the next prior highs (lows for shorts) or opposing zone edges beyond tp1,
+ * each at least half a risk unit further out. The stop moves to entry once
+ * TP1 fills.
+ */
+export function buildExitPlan(
+  trade: TradeCandidate,
+  liquidity: LiquidityMap,
+  zones: OcZone[],
+): ExitPlan {
+  const isLong = trade.direction === "Long";
+  const beyond = (price: number, ref: number) => (isLong ? price > ref : price < ref);
+
+  const levels = [
+    ...(isLong ? liquidity.highs : liquidity.lows).map((price) => ({
+      price,
+      source: "liquidity" as const,
+    })),
+    ...zones.map((zone) => ({
+      price: isLong ? zone.zone_low : zone.zone_high,
+      source: "zone" as const,
+    })),
+  ]
+    .filter((level) => Number.isFinite(level.price) && beyond(level.price, trade.tp1))
+    .sort((a, b) => (isLong ? a.price - b.price : b.price - a.price));
+
+  const ladder: { price: number; source: TakeProfitTarget["source"] }[] = [
+    { price: trade.tp1, source: "liquidity" },
+  ];
+  const spacing = trade.risk_price * MIN_TARGET_SPACING_R;
+  for (const level of levels) {
+    if (ladder.length === TARGET_LABELS.length) break;
+    const last = ladder[ladder.length - 1].price;
+    if (Math.abs(level.price - last) >= spacing) ladder.push(level);
+  }
+
+  const exits = PARTIAL_EXITS[ladder.length];
+  const targets = ladder.map(({ price, source }, i) => ({
+    label: TARGET_LABELS[i],
+    price,
+    source,
+    rr: Math.abs(price - trade.entry) / trade.risk_price,
+    exitPercent: exits[i],
+  }));
+
+  return {
+    targets,
+    blendedRr: targets.reduce((sum, t) => sum + (t.rr * t.exitPercent) / 100, 0),
+    breakEvenAfter: targets.length > 1 ? "TP1" : null,
+  };
+}
@@ -10,6 +10,7 @@ import type { OcZone, NearestZoneInfo } from "./types";
  *  - zone_mid
  *  - score
  *  - zone_type? (optional)
+ *  - scoreBreakdown? (optional)
  */
 export function computeNearestZoneInfo(
   zones: OcZone[] | undefined,
@@ -82,6 +83,7 @@ export function computeNearestZoneInfo(
     zone_mid: mid,
     score: bestZone.score,
     zone_type: bestZone.zone_type,
+    scoreBreakdown: bestZone.scoreBreakdown,
 
     distance: bestDistance,
     distancePct,
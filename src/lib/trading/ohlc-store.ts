@@ -0,0 +1,112 @@
+import { db } from "@/lib/db";
+import type { OhlcBar, SymbolCode, Timeframe } from "./types";
+
+export interface OhlcImportResult {
+  symbol: SymbolCode;
+  timeframe: Timeframe;
+  /** Distinct sessions received from the import source */
+  received: number;
+  inserted: number;
+  updated: number;
+  firstDate: string | null;
+  lastDate: string | null;
+}
+
+// Upserts are chunked so a multi-year history does not become one huge transaction
+const UPSERT_CHUNK_SIZE = 200;
+
+function toRow(bar: OhlcBar) {
+  return {
+    open: bar.open,
+    high: bar.high,
+    low: bar.low,
+    close: bar.close,
+    spread: bar.spread ?? null,
+    tickVolume: bar.tickVolume ?? null,
+    volume: bar.volume ?? null,
+  };
+}
+
+/**
+ * Upsert bars into the `OhlcBar` table keyed by (symbol, timeframe, date).
+ * Existing bars are overwritten, so re-importing a file that overlaps what is
+ * already stored only appends the new bars and refreshes revised ones.
+ */
+export async function upsertOhlcBars(
+  symbol: SymbolCode,
+  bars: OhlcBar[],
+  timeframe: Timeframe = "D1",
+): Promise<OhlcImportResult> {
+  // Last row wins when a file repeats a session
+  const byDate = new Map(bars.map((bar) => [bar.date, bar]));
+  const sorted = [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+  const firstDate = sorted[0]?.date ?? null;
+  const lastDate = sorted[sorted.length - 1]?.date ?? null;
+
+  if (sorted.length === 0) {
+    return {
+      symbol,
+      timeframe,
+      received: 0,
+      inserted: 0,
+      updated: 0,
+      firstDate,
+      lastDate,
+    };
+  }
+
+  const existing = await db.ohlcBar.findMany({
+    where: { symbol, timeframe, date: { gte: firstDate!, lte: lastDate! } },
+    select: { date: true },
+  });
+  const existingDates = new Set(existing.map((row) => row.date));
+
+  for (let i = 0; i < sorted.length; i += UPSERT_CHUNK_SIZE) {
+    const chunk = sorted.slice(i, i + UPSERT_CHUNK_SIZE);
+    await db.$transaction(
+      chunk.map((bar) =>
+        db.ohlcBar.upsert({
+          where: {
+            symbol_timeframe_date: { symbol, timeframe, date: bar.date },
+          },
+          create: { symbol, timeframe, date: bar.date, ...toRow(bar) },
+          update: toRow(bar),
+        }),
+      ),
+    );
+  }
+
+  const updated = sorted.filter((bar) => existingDates.has(bar.date)).length;
+
+  return {
+    symbol,
+    timeframe,
+    received: sorted.length,
+    inserted: sorted.length - updated,
+    updated,
+    firstDate,
+    lastDate,
+  };
+}
+
+/** All stored bars of one timeframe for a symbol, oldest first. */
+export async function loadStoredOhlc(
+  symbol: SymbolCode,
+  timeframe: Timeframe = "D1",
+): Promise<OhlcBar[]> {
+  const rows = await db.ohlcBar.findMany({
+    where: { symbol, timeframe },
+    orderBy: { date: "asc" },
+  });
+
+  return rows.map((row) => ({
+    date: row.date,
+    open: row.open,
+    high: row.high,
+    low: row.low,
+    close: row.close,
+    spread: row.spread ?? undefined,
+    tickVolume: row.tickVolume ?? undefined,
+    volume: row.volume ?? undefined,
+  }));
+}
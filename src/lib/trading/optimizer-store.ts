@@ -0,0 +1,152 @@
+import { db } from "@/lib/db";
+import {
+  runOptimization,
+  type OptimizationJob,
+  type OptimizationJobRequest,
+  type OptimizationJobStatus,
+} from "./optimizer";
+
+/** Minimum time between two progress writes */
+const PROGRESS_INTERVAL_MS = 1_000;
+
+/**
+ * A running job that has not reported progress for this long was lost, e.g.
+ * with a server restart. Progress is written at least once per replay.
+ */
+const STALE_AFTER_MS = 5 * 60_000;
+
+type OptimizationJobRow = Awaited<
+  ReturnType<typeof db.optimizationJob.findMany>
+>[number];
+
+function toJob(row: OptimizationJobRow): OptimizationJob {
+  return {
+    id: row.id,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+    status: row.status as OptimizationJobStatus,
+    request: JSON.parse(row.request),
+    progress: row.progress,
+    total: row.total,
+    result: row.result ? JSON.parse(row.result) : null,
+    error: row.error,
+  };
+}
+
+/**
+ * Jobs run inside the server process, so a restart leaves their rows
+ * "running" forever. Mark the ones that stopped reporting progress failed
+ * before they are read.
+ */
+async function failStaleJobs(): Promise<void> {
+  await db.optimizationJob.updateMany({
+    where: {
+      status: "running",
+      updatedAt: { lt: new Date(Date.now() - STALE_AFTER_MS) },
+    },
+    data: { status: "failed", error: "Interrupted before it finished" },
+  });
+}
+
+/** Newest first, without their results */
+export async function listOptimizationJobs(
+  limit = 20,
+): Promise<OptimizationJob[]> {
+  await failStaleJobs();
+  const rows = await db.optimizationJob.findMany({
+    orderBy: { createdAt: "desc" },
+    take: limit,
+    omit: { result: true },
+  });
+  return rows.map((row) => toJob({ ...row, result: null }));
+}
+
+export async function getOptimizationJob(
+  id: string,
+): Promise<OptimizationJob | null> {
+  await failStaleJobs();
+  const row = await db.optimizationJob.findUnique({ where: { id } });
+  return row ? toJob(row) : null;
+}
+
+/**
+ * The job that is still running, if any. Jobs that stopped reporting
+ * progress are marked failed first.
+ */
+export async function findRunningOptimizationJob(): Promise<OptimizationJob | null> {
+  await failStaleJobs();
+  const row = await db.optimizationJob.findFirst({
+    where: { status: "running" },
+    omit: { result: true },
+  });
+  return row ? toJob({ ...row, result: null }) : null;
+}
+
+/** Marks a running job cancelled; it stops after the current replay */
+export async function cancelOptimizationJob(
+  id: string,
+): Promise<OptimizationJob | null> {
+  await db.optimizationJob.updateMany({
+    where: { id, status: "running" },
+    data: { status: "cancelled" },
+  });
+  return getOptimizationJob(id);
+}
+
+async function runJob(id: string, request: OptimizationJobRequest) {
+  const controller = new AbortController();
+  let lastWrite = 0;
+
+  try {
+    const result = await runOptimization(request, {
+      signal: controller.signal,
+      onProgress: async (done, total) => {
+        const now = Date.now();
+        if (done > 0 && done < total && now - lastWrite < PROGRESS_INTERVAL_MS) {
+          return;
+        }
+        lastWrite = now;
+        const { status } = await db.optimizationJob.update({
+          where: { id },
+          data: { progress: done, total },
+          select: { status: true },
+        });
+        if (status === "cancelled") controller.abort();
+      },
+    });
+
+    await db.optimizationJob.updateMany({
+      where: { id, status: "running" },
+      data: { status: "completed", result: JSON.stringify(result) },
+    });
+  } catch (err) {
+    if (controller.signal.aborted) return;
+
+    console.error(`Optimization job ${id} failed:`, err);
+    await db.optimizationJob
+      .updateMany({
+        where: { id, status: "running" },
+        data: {
+          status: "failed",
+          error: err instanceof Error ? err.message : String(err),
+        },
+      })
+      .catch((updateErr) =>
+        console.error(`Could not record the failure of job ${id}:`, updateErr),
+      );
+  }
+}
+
+/**
+ * Store a job and start it in the background; the returned job is still
+ * running. Poll getOptimizationJob for progress and the result.
+ */
+export async function startOptimizationJob(
+  request: OptimizationJobRequest,
+): Promise<OptimizationJob> {
+  const row = await db.optimizationJob.create({
+    data: { status: "running", request: JSON.stringify(request) },
+  });
+  void runJob(row.id, request);
+  return toJob(row);
+}
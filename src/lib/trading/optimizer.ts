@@ -0,0 +1,566 @@
+import { z } from "zod";
+import { summarizePerformance, type PerformanceStats } from "./analytics";
+import {
+  backtestRequestSchema,
+  hasValidBacktestRange,
+  resolveBacktestSettings,
+  runBacktestOnBars,
+  toBacktestOptions,
+  type BacktestOptions,
+  type BacktestSettings,
+  type BacktestTrade,
+} from "./backtest";
+import { getDailyOhlcHistory, seededRandom } from "./data-provider";
+import { resolveScanWindow } from "./engine";
+import { knownSymbolSchema } from "./instruments";
+import type { OhlcBar, OhlcDataSource, SymbolCode } from "./types";
+
+/** ScanParams and ScanFilters the sweep can vary */
+export const OPTIMIZABLE_PARAMS = [
+  "atrWindow",
+  "structureLookback",
+  "trendLookback",
+  "pullbackWindow",
+  "minRr",
+  "spreadCap",
+] as const;
+
+export type OptimizableParam = (typeof OPTIMIZABLE_PARAMS)[number];
+
+/** The ones forwarded as ScanFilters; the rest are ScanParams */
+const FILTER_PARAMS: readonly OptimizableParam[] = ["minRr", "spreadCap"];
+
+export type ParameterSet = Partial<Record<OptimizableParam, number>>;
+
+export const OPTIMIZATION_OBJECTIVES = ["avgR", "totalR"] as const;
+
+export type OptimizationObjective = (typeof OPTIMIZATION_OBJECTIVES)[number];
+
+/** Upper bound on parameter sets per job: every set replays every symbol */
+export const MAX_COMBINATIONS = 200;
+
+const MAX_VALUES_PER_PARAM = 20;
+
+const positiveInt = (label: string) =>
+  z
+    .number({ message: `${label} must be a number` })
+    .int({ message: `${label} must be an integer` })
+    .positive({ message: `${label} must be positive` });
+
+const windowValues = (label: string, min: number) =>
+  z
+    .array(
+      z
+        .number({ message: `${label} values must be numbers` })
+        .int({ message: `${label} values must be integers` })
+        .min(min, { message: `${label} values must be at least ${min}` }),
+    )
+    .nonempty({ message: `${label} needs at least one value` })
+    .max(MAX_VALUES_PER_PARAM)
+    .optional();
+
+/** Values to try per parameter; parameters left out keep the base setting */
+export const optimizationGridSchema = z
+  .object({
+    atrWindow: windowValues("atrWindow", 2),
+    structureLookback: windowValues("structureLookback", 1),
+    trendLookback: windowValues("trendLookback", 1),
+    pullbackWindow: windowValues("pullbackWindow", 2),
+    minRr: z
+      .array(
+        z.number({ message: "minRr values must be numbers" }).finite().positive(),
+      )
+      .nonempty({ message: "minRr needs at least one value" })
+      .max(MAX_VALUES_PER_PARAM)
+      .optional(),
+    spreadCap: z
+      .array(
+        z
+          .number({ message: "spreadCap values must be numbers" })
+          .finite()
+          .nonnegative(),
+      )
+      .nonempty({ message: "spreadCap needs at least one value" })
+      .max(MAX_VALUES_PER_PARAM)
+      .optional(),
+  })
+  .strict()
+  .refine((grid) => OPTIMIZABLE_PARAMS.some((key) => grid[key]?.length), {
+    message: "The grid needs values for at least one parameter",
+  });
+
+export type OptimizationGrid = z.infer<typeof optimizationGridSchema>;
+
+/**
+ * A sweep request: the backtest replay settings, the Settings view's
+ * filters/params as the base, and the grid to search around them.
+ */
+export const optimizationRequestSchema = backtestRequestSchema
+  .extend({
+    symbols: z
+      .array(knownSymbolSchema)
+      .nonempty({ message: "At least one symbol is required" })
+      .optional(),
+    grid: optimizationGridSchema,
+    search: z
+      .enum(["grid", "random"], { message: "search must be grid or random" })
+      .default("grid"),
+    /** Parameter sets drawn by a random search */
+    samples: positiveInt("samples")
+      .max(MAX_COMBINATIONS, {
+        message: `samples must be at most ${MAX_COMBINATIONS}`,
+      })
+      .default(30),
+    seed: z.number({ message: "seed must be a number" }).int().default(1),
+    /** Walk-forward folds; the history is split into folds + 1 segments */
+    folds: positiveInt("folds")
+      .max(10, { message: "folds must be at most 10" })
+      .default(3),
+    objective: z
+      .enum(OPTIMIZATION_OBJECTIVES, {
+        message: `objective must be one of ${OPTIMIZATION_OBJECTIVES.join(", ")}`,
+      })
+      .default("avgR"),
+    /** Closed trades a window needs before its score counts */
+    minTrades: z
+      .number({ message: "minTrades must be a number" })
+      .int()
+      .nonnegative()
+      .default(3),
+  })
+  .strict()
+  .refine(hasValidBacktestRange, {
+    message: "from must not be after to",
+    path: ["from"],
+  })
+  .refine(
+    (request) =>
+      request.search === "random" ||
+      countCombinations(request.grid) <= MAX_COMBINATIONS,
+    {
+      message: `The grid has more than ${MAX_COMBINATIONS} combinations; narrow it or use a random search`,
+      path: ["grid"],
+    },
+  );
+
+export type OptimizationRequest = z.infer<typeof optimizationRequestSchema>;
+
+/** Stored job request: the symbols are resolved when the job is queued */
+export type OptimizationJobRequest = OptimizationRequest & {
+  symbols: SymbolCode[];
+};
+
+export const OPTIMIZATION_JOB_STATUSES = [
+  "running",
+  "completed",
+  "failed",
+  "cancelled",
+] as const;
+
+export type OptimizationJobStatus = (typeof OPTIMIZATION_JOB_STATUSES)[number];
+
+export interface OptimizationJob {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  status: OptimizationJobStatus;
+  request: OptimizationJobRequest;
+  /** Replays done out of `total` (parameter sets × symbols) */
+  progress: number;
+  total: number;
+  /** Set once the job completed */
+  result: OptimizationResult | null;
+  error: string | null;
+}
+
+export type OptimizationStats = Omit<PerformanceStats, "equity">;
+
+export interface WalkForwardSegment {
+  from: string;
+  to: string;
+  sessions: number;
+}
+
+export interface OptimizationCandidate {
+  rank: number;
+  /** Readable parameter set, e.g. "atrWindow=14, minRr=2" */
+  key: string;
+  parameters: ParameterSet;
+  /** All trades in the replayed window */
+  overall: OptimizationStats;
+  /** One entry per walk-forward segment */
+  segments: OptimizationStats[];
+  /** Mean objective over the segments with enough trades; null if none */
+  score: number | null;
+  /** Share of scored segments with a positive objective */
+  consistency: number | null;
+}
+
+export interface WalkForwardFold {
+  /** Anchored training window: every segment before the test segment */
+  train: { from: string; to: string };
+  test: WalkForwardSegment;
+  /** Key of the set with the best training score; null if none qualified */
+  selected: string | null;
+  trainScore: number | null;
+  testStats: OptimizationStats | null;
+}
+
+export interface OptimizationResult {
+  symbols: SymbolCode[];
+  from: string;
+  to: string;
+  settings: BacktestSettings;
+  search: OptimizationRequest["search"];
+  objective: OptimizationObjective;
+  minTrades: number;
+  /** Parameters the grid varied, in OPTIMIZABLE_PARAMS order */
+  varied: OptimizableParam[];
+  segments: WalkForwardSegment[];
+  /** Best score first; sets without a score last */
+  ranked: OptimizationCandidate[];
+  walkForward: {
+    folds: WalkForwardFold[];
+    /** Out-of-sample trades of the selected sets, folds combined */
+    overall: OptimizationStats;
+  };
+  dataSources: Partial<Record<SymbolCode, OhlcDataSource>>;
+  errors: Partial<Record<SymbolCode, string>>;
+}
+
+export interface OptimizationHooks {
+  /** Called with (replays done, total) before the first and after every replay */
+  onProgress?: (done: number, total: number) => void | Promise<void>;
+  signal?: AbortSignal;
+}
+
+function gridValues(grid: OptimizationGrid, key: OptimizableParam): number[] {
+  return [...new Set(grid[key] ?? [])];
+}
+
+export function countCombinations(grid: OptimizationGrid): number {
+  return OPTIMIZABLE_PARAMS.reduce(
+    (count, key) => count * Math.max(1, gridValues(grid, key).length),
+    1,
+  );
+}
+
+export function formatParameterSet(parameters: ParameterSet): string {
+  return OPTIMIZABLE_PARAMS.filter((key) => parameters[key] != null)
+    .map((key) => `${key}=${parameters[key]}`)
+    .join(", ");
+}
+
+/** Every combination of the grid values (the cartesian product) */
+export function gridCombinations(grid: OptimizationGrid): ParameterSet[] {
+  return OPTIMIZABLE_PARAMS.reduce<ParameterSet[]>(
+    (sets, key) => {
+      const values = gridValues(grid, key);
+      if (values.length === 0) return sets;
+      return sets.flatMap((set) => values.map((value) => ({ ...set, [key]: value })));
+    },
+    [{}],
+  );
+}
+
+/**
+ * The parameter sets a request replays: the full grid, or for a random search
+ * up to `samples` distinct sets drawn with a seeded generator, so the same
+ * request always sweeps the same sets.
+ */
+export function buildParameterSets(
+  request: Pick<OptimizationRequest, "grid" | "search" | "samples" | "seed">,
+): ParameterSet[] {
+  if (request.search === "grid") return gridCombinations(request.grid);
+
+  const target = Math.min(request.samples, countCombinations(request.grid));
+  const random = seededRandom(request.seed);
+  const sets = new Map<string, ParameterSet>();
+  for (let attempt = 0; sets.size < target && attempt < target * 50; attempt++) {
+    const set: ParameterSet = {};
+    for (const key of OPTIMIZABLE_PARAMS) {
+      const values = gridValues(request.grid, key);
+      if (values.length > 0) {
+        set[key] = values[Math.floor(random() * values.length)];
+      }
+    }
+    sets.set(formatParameterSet(set), set);
+  }
+  return [...sets.values()];
+}
+
+/** Scan filters/params of the base request with one parameter set applied */
+export function applyParameterSet(
+  base: BacktestOptions,
+  parameters: ParameterSet,
+): NonNullable<BacktestOptions["scan"]> {
+  const filters = { ...base.scan?.filters };
+  const params = { ...base.scan?.params };
+  for (const key of OPTIMIZABLE_PARAMS) {
+    const value = parameters[key];
+    if (value == null) continue;
+    if (FILTER_PARAMS.includes(key)) {
+      filters[key as "minRr" | "spreadCap"] = value;
+    } else {
+      params[key as Exclude<OptimizableParam, "minRr" | "spreadCap">] = value;
+    }
+  }
+  return { filters, params };
+}
+
+/**
+ * Split the replayed sessions into `parts` consecutive segments of (nearly)
+ * equal length. Throws when there are fewer sessions than segments.
+ */
+export function splitSessions(
+  sessions: string[],
+  parts: number,
+): WalkForwardSegment[] {
+  if (sessions.length < parts) {
+    throw new Error(
+      `Not enough history for ${parts} walk-forward segments (${sessions.length} sessions)`,
+    );
+  }
+
+  const segments: WalkForwardSegment[] = [];
+  for (let part = 0; part < parts; part++) {
+    const start = Math.floor((part * sessions.length) / parts);
+    const end = Math.floor(((part + 1) * sessions.length) / parts);
+    segments.push({
+      from: sessions[start],
+      to: sessions[end - 1],
+      sessions: end - start,
+    });
+  }
+  return segments;
+}
+
+function withoutEquity(stats: PerformanceStats): OptimizationStats {
+  const { equity: _equity, ...rest } = stats;
+  return rest;
+}
+
+function tradesBetween(
+  trades: BacktestTrade[],
+  from: string,
+  to: string,
+): BacktestTrade[] {
+  return trades.filter((t) => t.signalDate >= from && t.signalDate <= to);
+}
+
+function objectiveScore(
+  stats: OptimizationStats,
+  objective: OptimizationObjective,
+  minTrades: number,
+): number | null {
+  if (stats.trades === 0 || stats.trades < minTrades) return null;
+  return objective === "totalR" ? stats.totalR : stats.avgR;
+}
+
+interface ParameterSetTrades {
+  parameters: ParameterSet;
+  trades: BacktestTrade[];
+}
+
+/**
+ * Rank the replayed parameter sets and run the walk-forward selection.
+ *
+ * A set's score is its mean objective across the segments, so a set that
+ * only shines in one period ranks below one that holds up in all of them.
+ * The walk-forward folds pick the best set on an anchored training window
+ * and report how it did on the next, unseen segment.
+ */
+export function evaluateParameterSets(
+  runs: ParameterSetTrades[],
+  segments: WalkForwardSegment[],
+  options: { objective: OptimizationObjective; minTrades: number },
+): Pick<OptimizationResult, "ranked" | "walkForward"> {
+  const score = (stats: OptimizationStats) =>
+    objectiveScore(stats, options.objective, options.minTrades);
+  const first = segments[0].from;
+  const last = segments[segments.length - 1].to;
+
+  const candidates = runs.map(({ parameters, trades }) => {
+    const key = formatParameterSet(parameters);
+    const segmentStats = segments.map((segment) =>
+      withoutEquity(
+        summarizePerformance(
+          `${segment.from}..${segment.to}`,
+          tradesBetween(trades, segment.from, segment.to),
+        ),
+      ),
+    );
+    const scores = segmentStats
+      .map(score)
+      .filter((value): value is number => value != null);
+
+    return {
+      rank: 0,
+      key,
+      parameters,
+      overall: withoutEquity(
+        summarizePerformance(key, tradesBetween(trades, first, last)),
+      ),
+      segments: segmentStats,
+      score:
+        scores.length > 0
+          ? scores.reduce((sum, value) => sum + value, 0) / scores.length
+          : null,
+      consistency:
+        scores.length > 0
+          ? scores.filter((value) => value > 0).length / scores.length
+          : null,
+    };
+  });
+
+  const ranked = [...candidates]
+    .sort(
+      (a, b) =>
+        (b.score ?? -Infinity) - (a.score ?? -Infinity) ||
+        b.overall.trades - a.overall.trades,
+    )
+    .map((candidate, index) => ({ ...candidate, rank: index + 1 }));
+
+  const outOfSample: BacktestTrade[] = [];
+  const folds = segments.slice(1).map((test, index): WalkForwardFold => {
+    const train = { from: first, to: segments[index].to };
+
+    let best: { run: ParameterSetTrades; score: number } | null = null;
+    for (const run of runs) {
+      const trainScore = score(
+        withoutEquity(
+          summarizePerformance("train", tradesBetween(run.trades, train.from, train.to)),
+        ),
+      );
+      if (trainScore != null && (best == null || trainScore > best.score)) {
+        best = { run, score: trainScore };
+      }
+    }
+
+    if (!best) {
+      return { train, test, selected: null, trainScore: null, testStats: null };
+    }
+
+    const testTrades = tradesBetween(best.run.trades, test.from, test.to);
+    outOfSample.push(...testTrades);
+    return {
+      train,
+      test,
+      selected: formatParameterSet(best.run.parameters),
+      trainScore: best.score,
+      testStats: withoutEquity(summarizePerformance("test", testTrades)),
+    };
+  });
+
+  return {
+    ranked,
+    walkForward: {
+      folds,
+      overall: withoutEquity(summarizePerformance("walk-forward", outOfSample)),
+    },
+  };
+}
+
+/** Sessions every parameter set can replay: after the longest warm-up */
+function replaySessions(
+  histories: { bars: OhlcBar[] }[],
+  neededBars: number,
+  from?: string,
+  to?: string,
+): string[] {
+  const sessions = new Set<string>();
+  for (const { bars } of histories) {
+    // The last bar has no following bar to simulate on
+    for (let i = neededBars - 1; i < bars.length - 1; i++) {
+      const date = bars[i].date;
+      if ((!from || date >= from) && (!to || date <= to)) sessions.add(date);
+    }
+  }
+  return [...sessions].sort();
+}
+
+/** Let the event loop serve requests between two replays */
+const yieldToEventLoop = () =>
+  new Promise<void>((resolve) => setImmediate(resolve));
+
+/**
+ * Replay the engine over each symbol's daily history once per parameter set,
+ * then rank the sets and run the walk-forward selection.
+ *
+ * Replays run one after another and yield between them, so the sweep can run
+ * inside the web server without blocking it; `signal` stops it between two
+ * replays.
+ */
+export async function runOptimization(
+  request: OptimizationJobRequest,
+  hooks: OptimizationHooks = {},
+): Promise<OptimizationResult> {
+  const sets = buildParameterSets(request);
+  const base = toBacktestOptions(request);
+  const dataSources: OptimizationResult["dataSources"] = {};
+  const errors: OptimizationResult["errors"] = {};
+
+  const histories: { symbol: SymbolCode; bars: OhlcBar[] }[] = [];
+  for (const symbol of request.symbols) {
+    try {
+      const { bars, source } = await getDailyOhlcHistory(symbol);
+      histories.push({ symbol, bars });
+      dataSources[symbol] = source;
+    } catch (err) {
+      console.error(`Optimization history failed for ${symbol}:`, err);
+      errors[symbol] = err instanceof Error ? err.message : String(err);
+    }
+  }
+  if (histories.length === 0) {
+    throw new Error("No history could be loaded for the selected symbols");
+  }
+
+  const neededBars = Math.max(
+    ...sets.map((set) => resolveScanWindow(applyParameterSet(base, set)).neededBars),
+  );
+  const segments = splitSessions(
+    replaySessions(histories, neededBars, request.from, request.to),
+    request.folds + 1,
+  );
+  const from = segments[0].from;
+  const to = segments[segments.length - 1].to;
+
+  const total = sets.length * histories.length;
+  let done = 0;
+  await hooks.onProgress?.(done, total);
+
+  const runs: ParameterSetTrades[] = [];
+  for (const parameters of sets) {
+    const trades: BacktestTrade[] = [];
+    for (const { symbol, bars } of histories) {
+      hooks.signal?.throwIfAborted();
+      const report = runBacktestOnBars(symbol, bars, {
+        ...base,
+        from,
+        to,
+        scan: applyParameterSet(base, parameters),
+      });
+      trades.push(...report.trades);
+
+      done++;
+      await hooks.onProgress?.(done, total);
+      await yieldToEventLoop();
+    }
+    runs.push({ parameters, trades });
+  }
+
+  return {
+    symbols: histories.map((h) => h.symbol),
+    from,
+    to,
+    settings: resolveBacktestSettings(base),
+    search: request.search,
+    objective: request.objective,
+    minTrades: request.minTrades,
+    varied: OPTIMIZABLE_PARAMS.filter((key) => gridValues(request.grid, key).length > 1),
+    segments,
+    ...evaluateParameterSets(runs, segments, request),
+    dataSources,
+    errors,
+  };
+}
@@ -0,0 +1,404 @@
+import { z } from "zod";
+import { getInstrument, knownSymbolSchema, type InstrumentSpec } from "./instruments";
+import { sizeTrade } from "./position-sizing";
+import { nextDailyClose, nextSessionEnd, serverUtcOffsetAt } from "./sessions";
+import {
+  TRADE_MODELS,
+  TRADING_SESSIONS,
+  type AccountProfile,
+  type SymbolCode,
+  type TradeCandidate,
+} from "./types";
+
+export const ORDER_EXPORT_FORMATS = ["csv", "mq4", "mq5"] as const;
+
+export type OrderExportFormat = (typeof ORDER_EXPORT_FORMATS)[number];
+
+/** When pending orders expire: the daily close, the end of a session, or never */
+export const ORDER_EXPIRIES = ["daily_close", ...TRADING_SESSIONS, "none"] as const;
+
+export type OrderExpiry = (typeof ORDER_EXPIRIES)[number];
+
+export type MtOrderType = "BUY" | "SELL" | "BUY_LIMIT" | "SELL_LIMIT";
+
+/** One order as the terminal should place it */
+export interface MtOrder {
+  symbol: SymbolCode;
+  /** Symbol name in the terminal */
+  brokerSymbol: string;
+  type: MtOrderType;
+  lots: number;
+  /** Prices rounded to the instrument's digits */
+  price: number;
+  stopLoss: number;
+  takeProfit: number;
+  digits: number;
+  /** Pending orders only; ISO timestamp (UTC) */
+  expiry: string | null;
+  /** The same instant on the broker's clock, "yyyy.mm.dd HH:MM" */
+  expiryServerTime: string | null;
+  magic: number;
+  comment: string;
+}
+
+export interface SkippedOrder {
+  symbol: SymbolCode;
+  model: TradeCandidate["model"];
+  direction: TradeCandidate["direction"];
+  reason: string;
+}
+
+/** MetaTrader 4 truncates order comments to 31 characters */
+const MAX_COMMENT_LENGTH = 31;
+
+const price = (field: string) =>
+  z.number({ message: `${field} must be a number` }).finite().positive();
+
+const orderInputSchema = z
+  .object({
+    symbol: knownSymbolSchema,
+    model: z.enum(TRADE_MODELS, { message: `model must be one of ${TRADE_MODELS.join(", ")}` }),
+    direction: z.enum(["Long", "Short"], { message: "direction must be Long or Short" }),
+    placement: z.enum(["MARKET", "PENDING_LIMIT"]).nullish(),
+    entry: price("entry"),
+    stop: price("stop"),
+    tp1: price("tp1"),
+    /** Account currency per unit of the quote currency, from the candidate's sizing */
+    conversionRate: price("conversionRate").nullish(),
+    /** Account currency the rate converts into; must be the export account's */
+    conversionCurrency: z
+      .string()
+      .trim()
+      .toUpperCase()
+      .regex(/^[A-Z]{3}$/u, { message: "conversionCurrency must be an ISO currency code" })
+      .nullish(),
+  })
+  .strict()
+  .refine((order) => order.entry !== order.stop, {
+    message: "stop must differ from entry",
+    path: ["stop"],
+  })
+  .refine((order) => order.conversionRate == null || order.conversionCurrency != null, {
+    message: "conversionCurrency is required with conversionRate",
+    path: ["conversionCurrency"],
+  });
+
+export type OrderInput = z.infer<typeof orderInputSchema>;
+
+export const orderExportRequestSchema = z
+  .object({
+    format: z.enum(ORDER_EXPORT_FORMATS, { message: "format must be csv, mq4 or mq5" }),
+    orders: z.array(orderInputSchema).nonempty({ message: "Select at least one candidate" }),
+    /** Percent of the balance risked per order (default: the account's) */
+    riskPercent: z
+      .number({ message: "riskPercent must be a number" })
+      .finite()
+      .positive()
+      .max(100, { message: "riskPercent is a percentage (at most 100)" })
+      .optional(),
+    /** Appended to symbols without a MetaTrader name, e.g. ".m" or "pro" */
+    symbolSuffix: z
+      .string()
+      .trim()
+      .regex(/^[A-Za-z0-9._#-]{0,12}$/u, {
+        message: "symbolSuffix may only contain letters, digits, '.', '_', '#' or '-'",
+      })
+      .optional(),
+    expiry: z
+      .enum(ORDER_EXPIRIES, {
+        message: `expiry must be one of ${ORDER_EXPIRIES.join(", ")}`,
+      })
+      .optional(),
+    serverUtcOffset: z
+      .number({ message: "serverUtcOffset must be a number of hours" })
+      .min(-12)
+      .max(14)
+      .nullable()
+      .optional(),
+    magic: z
+      .number({ message: "magic must be a number" })
+      .int()
+      .min(0)
+      .max(2_147_483_647)
+      .optional(),
+    commentPrefix: z.string().trim().max(16).optional(),
+  })
+  .strict();
+
+export type OrderExportRequest = z.infer<typeof orderExportRequestSchema>;
+
+/** Order input for a Signals row; the conversion rate comes from its sizing */
+export function orderInputFromCandidate(
+  symbol: SymbolCode,
+  trade: TradeCandidate,
+): OrderInput {
+  return {
+    symbol,
+    model: trade.model,
+    direction: trade.direction,
+    placement: trade.placement ?? null,
+    entry: trade.entry,
+    stop: trade.stop,
+    tp1: trade.tp1,
+    conversionRate: trade.sizing?.conversionRate ?? null,
+    conversionCurrency: trade.sizing?.currency ?? null,
+  };
+}
+
+/**
+ * One message per order whose conversion rate was computed for another
+ * account currency than `currency` (e.g. the profile changed after the
+ * scan); sizing with it would be wrong by the exchange rate.
+ */
+export function conversionCurrencyMismatches(orders: OrderInput[], currency: string): string[] {
+  return orders
+    .filter((order) => order.conversionRate != null && order.conversionCurrency !== currency)
+    .map(
+      (order) =>
+        `${order.symbol} ${order.model} ${order.direction} was sized in ${order.conversionCurrency}, not the account's ${currency}; rescan before exporting`,
+    );
+}
+
+export function brokerSymbolOf(spec: InstrumentSpec, suffix = ""): string {
+  return spec.brokerSymbol ?? `${spec.symbol}${suffix}`;
+}
+
+function roundPrice(value: number, digits: number): number {
+  return Number(value.toFixed(digits));
+}
+
+/** "yyyy.mm.dd HH:MM" on a clock `offsetHours` ahead of UTC */
+function formatServerTime(at: Date, offsetHours: number): string {
+  const shifted = new Date(at.getTime() + offsetHours * 3_600_000).toISOString();
+  return `${shifted.slice(0, 10).replace(/-/g, ".")} ${shifted.slice(11, 16)}`;
+}
+
+function expiryAt(expiry: OrderExpiry, at: Date): Date | null {
+  if (expiry === "none") return null;
+  if (expiry === "daily_close") return nextDailyClose(at);
+  return nextSessionEnd(expiry, at);
+}
+
+/**
+ * Turn candidates into terminal orders: prices rounded to the instrument's
+ * digits, lots sized for `riskPercent` of the balance on the rounded prices,
+ * and pending orders set to expire at the daily close or a session's end.
+ * Candidates that cannot be sized (no conversion rate, below the minimum
+ * lot) are skipped with a reason.
+ */
+export function buildMtOrders(
+  request: Omit<OrderExportRequest, "format">,
+  account: AccountProfile,
+  at: Date = new Date(),
+): { orders: MtOrder[]; skipped: SkippedOrder[] } {
+  const riskAccount = { ...account, riskPercent: request.riskPercent ?? account.riskPercent };
+  const expiry = expiryAt(request.expiry ?? "daily_close", at);
+  const expiryServerTime = expiry
+    ? formatServerTime(expiry, serverUtcOffsetAt(expiry, request.serverUtcOffset))
+    : null;
+  const prefix = request.commentPrefix ?? "OC";
+
+  const orders: MtOrder[] = [];
+  const skipped: SkippedOrder[] = [];
+
+  for (const input of request.orders) {
+    const spec = getInstrument(input.symbol);
+    const skip = (reason: string) =>
+      skipped.push({ symbol: input.symbol, model: input.model, direction: input.direction, reason });
+
+    const rate =
+      input.conversionRate ?? (spec.quoteCurrency === account.currency ? 1 : null);
+    if (rate == null) {
+      skip(`No ${spec.quoteCurrency} → ${account.currency} conversion rate`);
+      continue;
+    }
+
+    const entry = roundPrice(input.entry, spec.digits);
+    const stop = roundPrice(input.stop, spec.digits);
+    const tp1 = roundPrice(input.tp1, spec.digits);
+    const { lots, belowMinLot } = sizeTrade({ entry, stop, tp1 }, spec, riskAccount, rate);
+    if (belowMinLot || lots <= 0) {
+      skip(`Even ${spec.minLot} lots would risk more than ${riskAccount.riskPercent}%`);
+      continue;
+    }
+
+    const pending = input.placement === "PENDING_LIMIT";
+    const side = input.direction === "Long" ? "BUY" : "SELL";
+    orders.push({
+      symbol: input.symbol,
+      brokerSymbol: brokerSymbolOf(spec, request.symbolSuffix),
+      type: pending ? `${side}_LIMIT` : side,
+      lots,
+      price: entry,
+      stopLoss: stop,
+      takeProfit: tp1,
+      digits: spec.digits,
+      expiry: pending && expiry ? expiry.toISOString() : null,
+      expiryServerTime: pending ? expiryServerTime : null,
+      magic: request.magic ?? 0,
+      comment: `${prefix} ${input.model} ${input.direction}`.trim().slice(0, MAX_COMMENT_LENGTH),
+    });
+  }
+
+  return { orders, skipped };
+}
+
+const CSV_COLUMNS = [
+  "symbol",
+  "type",
+  "lots",
+  "price",
+  "sl",
+  "tp",
+  "expiration",
+  "magic",
+  "comment",
+] as const;
+
+/**
+ * One order per line for an EA to read. Expiration is server time in the
+ * format StringToTime accepts, empty for market orders and GTC pending ones.
+ */
+export function renderOrdersCsv(orders: MtOrder[]): string {
+  const lines = orders.map((order) =>
+    [
+      order.brokerSymbol,
+      order.type,
+      String(order.lots),
+      order.price.toFixed(order.digits),
+      order.stopLoss.toFixed(order.digits),
+      order.takeProfit.toFixed(order.digits),
+      order.expiryServerTime ?? "",
+      String(order.magic),
+      order.comment.replace(/[",]/g, " "),
+    ].join(","),
+  );
+  return [CSV_COLUMNS.join(","), ...lines].join("\n") + "\n";
+}
+
+function mqlString(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+function mqlDatetime(serverTime: string | null): string {
+  return serverTime ? `D'${serverTime}'` : "0";
+}
+
+function mqlHeader(generatedAt: Date, count: number): string[] {
+  return [
+    "//+------------------------------------------------------------------+",
+    `//| O/C scanner orders, generated ${generatedAt.toISOString()}`,
+    `//| ${count} order(s); review before running the script.`,
+    "//+------------------------------------------------------------------+",
+    "#property strict",
+    "#property script_show_inputs",
+    "",
+  ];
+}
+
+const MQ4_TYPES: Record<MtOrderType, string> = {
+  BUY: "OP_BUY",
+  SELL: "OP_SELL",
+  BUY_LIMIT: "OP_BUYLIMIT",
+  SELL_LIMIT: "OP_SELLLIMIT",
+};
+
+const MQ5_TYPES: Record<MtOrderType, string> = {
+  BUY: "ORDER_TYPE_BUY",
+  SELL: "ORDER_TYPE_SELL",
+  BUY_LIMIT: "ORDER_TYPE_BUY_LIMIT",
+  SELL_LIMIT: "ORDER_TYPE_SELL_LIMIT",
+};
+
+function placeCalls(orders: MtOrder[], types: Record<MtOrderType, string>): string[] {
+  return orders.map(
+    (order) =>
+      `   Place(${mqlString(order.brokerSymbol)}, ${types[order.type]}, ${order.lots}, ` +
+      `${order.price.toFixed(order.digits)}, ${order.stopLoss.toFixed(order.digits)}, ` +
+      `${order.takeProfit.toFixed(order.digits)}, ${mqlDatetime(order.expiryServerTime)}, ` +
+      `${order.magic}, ${mqlString(order.comment)});`,
+  );
+}
+
+/** MQL4 script that sends every order with OrderSend */
+export function renderMql4Script(orders: MtOrder[], generatedAt: Date = new Date()): string {
+  return [
+    ...mqlHeader(generatedAt, orders.length),
+    "input int Slippage = 3; // points, market orders only",
+    "",
+    "void Place(string symbol, int type, double lots, double price, double sl, double tp,",
+    "           datetime expiry, int magic, string comment)",
+    "{",
+    "   SymbolSelect(symbol, true);",
+    "   if(type == OP_BUY)  price = MarketInfo(symbol, MODE_ASK);",
+    "   if(type == OP_SELL) price = MarketInfo(symbol, MODE_BID);",
+    "   int ticket = OrderSend(symbol, type, lots, price, Slippage, sl, tp, comment, magic, expiry, clrNONE);",
+    "   if(ticket < 0)",
+    "      Print(\"OrderSend failed for \", symbol, \": error \", GetLastError());",
+    "   else",
+    "      Print(\"Placed #\", ticket, \" \", symbol, \" \", comment);",
+    "}",
+    "",
+    "void OnStart()",
+    "{",
+    ...placeCalls(orders, MQ4_TYPES),
+    "}",
+    "",
+  ].join("\n");
+}
+
+/** MQL5 script that sends every order through CTrade */
+export function renderMql5Script(orders: MtOrder[], generatedAt: Date = new Date()): string {
+  return [
+    ...mqlHeader(generatedAt, orders.length),
+    "#include <Trade\\Trade.mqh>",
+    "",
+    "input ulong Slippage = 3; // points, market orders only",
+    "",
+    "CTrade trade;",
+    "",
+    "void Place(string symbol, ENUM_ORDER_TYPE type, double lots, double price, double sl, double tp,",
+    "           datetime expiry, ulong magic, string comment)",
+    "{",
+    "   SymbolSelect(symbol, true);",
+    "   trade.SetExpertMagicNumber(magic);",
+    "   ENUM_ORDER_TYPE_TIME time = expiry > 0 ? ORDER_TIME_SPECIFIED : ORDER_TIME_GTC;",
+    "   bool ok;",
+    "   switch(type)",
+    "   {",
+    "      case ORDER_TYPE_BUY_LIMIT:  ok = trade.BuyLimit(lots, price, symbol, sl, tp, time, expiry, comment); break;",
+    "      case ORDER_TYPE_SELL_LIMIT: ok = trade.SellLimit(lots, price, symbol, sl, tp, time, expiry, comment); break;",
+    "      case ORDER_TYPE_BUY:        ok = trade.Buy(lots, symbol, 0.0, sl, tp, comment); break;",
+    "      default:                    ok = trade.Sell(lots, symbol, 0.0, sl, tp, comment); break;",
+    "   }",
+    "   if(!ok)",
+    "      Print(\"Order failed for \", symbol, \": \", trade.ResultRetcodeDescription());",
+    "   else",
+    "      Print(\"Placed #\", trade.ResultOrder(), \" \", symbol, \" \", comment);",
+    "}",
+    "",
+    "void OnStart()",
+    "{",
+    "   trade.SetDeviationInPoints(Slippage);",
+    ...placeCalls(orders, MQ5_TYPES),
+    "}",
+    "",
+  ].join("\n");
+}
+
+/** File name and content of an export in `format` */
+export function renderOrderExport(
+  format: OrderExportFormat,
+  orders: MtOrder[],
+  generatedAt: Date = new Date(),
+): { filename: string; content: string } {
+  const stamp = generatedAt.toISOString().slice(0, 16).replace(/[-:]/g, "").replace("T", "_");
+  switch (format) {
+    case "csv":
+      return { filename: `oc_orders_${stamp}.csv`, content: renderOrdersCsv(orders) };
+    case "mq4":
+      return { filename: `OcOrders_${stamp}.mq4`, content: renderMql4Script(orders, generatedAt) };
+    case "mq5":
+      return { filename: `OcOrders_${stamp}.mq5`, content: renderMql5Script(orders, generatedAt) };
+  }
+}
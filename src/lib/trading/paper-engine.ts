@@ -0,0 +1,183 @@
+import { loadAccountProfile } from "./account-store";
+import { getDailyOhlc } from "./data-provider";
+import { getCurrentPrice } from "./live-prices";
+import { guardCorrelatedRisk, scanWithLivePrices, sizeScanPositions } from "./live-scan";
+import {
+  createPaperOrder,
+  listPaperOrders,
+  loadPaperAccount,
+  recordPaperEquity,
+  savePaperOrder,
+} from "./paper-store";
+import {
+  applyPaperBar,
+  applyPaperQuote,
+  cancelPaperOrder,
+  paperOrderFromCandidate,
+  summarizePaperAccount,
+  type PaperAccountSummary,
+  type PaperOrder,
+} from "./paper-trading";
+import { dailyCloseOf } from "./sessions";
+import type { LivePriceSnapshot, ScanResponse, SymbolCode } from "./types";
+import { isSymbolScanError } from "./types";
+
+/** Daily bars loaded per symbol when catching orders up */
+const PAPER_BAR_LOOKBACK = 30;
+
+/** Only a provider quote fills an order; manual closes and fallbacks do not */
+function liveSpot(price: LivePriceSnapshot | undefined): number | null {
+  return price?.source === "live" && price.spot != null && Number.isFinite(price.spot)
+    ? price.spot
+    : null;
+}
+
+export interface PaperCycleResult {
+  ranAt: string;
+  session: string | null;
+  /** Orders placed from this cycle's scan (candidates placed before are not repeated) */
+  placed: PaperOrder[];
+  /** Orders whose status changed: fills, exits and expiries */
+  changed: PaperOrder[];
+  /** Null when paper trading was never started or is paused */
+  account: PaperAccountSummary | null;
+}
+
+/**
+ * Place a simulated order for every actionable primary-timeframe candidate of a
+ * latest-session scan with the default settings, sized on the paper balance
+ * with the account profile's risk settings. Market candidates fill on the
+ * scan's live quote, or wait for the next one. Does nothing unless paper
+ * trading is enabled; a candidate already placed for the session is skipped.
+ */
+export async function placePaperOrders(
+  scan: ScanResponse,
+  at: Date = new Date(),
+): Promise<PaperOrder[]> {
+  const account = await loadPaperAccount();
+  if (!account?.enabled) return [];
+
+  const [profile, orders] = await Promise.all([loadAccountProfile(), listPaperOrders()]);
+  const { balance } = summarizePaperAccount(account, orders);
+  const sizingAccount = { ...profile, balance, currency: account.currency };
+
+  const placed: PaperOrder[] = [];
+  for (const entry of Object.values(scan.symbols)) {
+    if (!entry || isSymbolScanError(entry)) continue;
+    for (const trade of entry.trades) {
+      const draft = paperOrderFromCandidate(entry.symbol, trade, {
+        session: scan.date,
+        scanRunId: scan.runId,
+        account: sizingAccount,
+        spot: liveSpot(entry.livePrice),
+        at,
+      });
+      if (!draft) continue;
+      const order = await createPaperOrder(draft);
+      if (order) placed.push(order);
+    }
+  }
+  return placed;
+}
+
+/**
+ * Bring pending orders and open positions up to date: first with the daily
+ * bars completed after each order's scan session, then with a live quote,
+ * then expire pending orders whose time ran out. A bar still in progress
+ * is left for a later cycle. A symbol whose bars or quote fail to load
+ * keeps its orders as they were.
+ */
+export async function updatePaperOrders(at: Date = new Date()): Promise<PaperOrder[]> {
+  const active = await listPaperOrders({ active: true });
+  const bySymbol = new Map<SymbolCode, PaperOrder[]>();
+  for (const order of active) {
+    bySymbol.set(order.symbol, [...(bySymbol.get(order.symbol) ?? []), order]);
+  }
+
+  const changed: PaperOrder[] = [];
+  for (const [symbol, orders] of bySymbol) {
+    let bars: Awaited<ReturnType<typeof getDailyOhlc>> = [];
+    try {
+      bars = await getDailyOhlc(symbol, PAPER_BAR_LOOKBACK);
+    } catch (err) {
+      console.error(`No daily bars for paper orders on ${symbol}:`, err);
+    }
+
+    let spot: number | null = null;
+    try {
+      spot = liveSpot(await getCurrentPrice(symbol));
+    } catch (err) {
+      console.error(`No quote for paper orders on ${symbol}:`, err);
+    }
+
+    for (const order of orders) {
+      let next = order;
+      for (const bar of bars) {
+        if (next.status !== "pending" && next.status !== "open") break;
+        const date = bar.date.slice(0, 10);
+        if (date <= next.scanDate || (next.lastBar && bar.date <= next.lastBar)) continue;
+        if (dailyCloseOf(date) > at) break;
+        next = applyPaperBar(next, bar);
+      }
+      if (spot != null && (next.status === "pending" || next.status === "open")) {
+        next = applyPaperQuote(next, spot, at);
+      }
+      if (next.status === "pending" && next.expiresAt && at.toISOString() > next.expiresAt) {
+        next = cancelPaperOrder(next, next.expiresAt, "expired");
+      }
+
+      if (JSON.stringify(next) === JSON.stringify(order)) continue;
+      const saved = await savePaperOrder(next);
+      if (saved.status !== order.status) changed.push(saved);
+    }
+  }
+  return changed;
+}
+
+/** Snapshot balance and equity for the account's equity curve */
+export async function recordPaperSnapshot(): Promise<PaperAccountSummary | null> {
+  const account = await loadPaperAccount();
+  if (!account) return null;
+  const summary = summarizePaperAccount(account, await listPaperOrders());
+  await recordPaperEquity({
+    balance: summary.balance,
+    equity: summary.equity,
+    openPositions: summary.openPositions,
+  });
+  return summary;
+}
+
+/**
+ * One broker cycle: update the working orders, scan the latest session for
+ * new candidates, place them and record an equity snapshot.
+ * Callers hydrate the instrument registry first.
+ */
+export async function runPaperTradingCycle(at: Date = new Date()): Promise<PaperCycleResult> {
+  const account = await loadPaperAccount();
+  if (!account?.enabled) {
+    return {
+      ranAt: at.toISOString(),
+      session: null,
+      placed: [],
+      changed: [],
+      account: account ? summarizePaperAccount(account, await listPaperOrders()) : null,
+    };
+  }
+
+  const changed = await updatePaperOrders(at);
+
+  const profile = await loadAccountProfile();
+  const scan = await guardCorrelatedRisk(
+    await sizeScanPositions(await scanWithLivePrices(), profile),
+    profile,
+  );
+  const placed = await placePaperOrders(scan, at);
+
+  return {
+    ranAt: at.toISOString(),
+    session: scan.date,
+    placed,
+    changed,
+    account: await recordPaperSnapshot(),
+  };
+}
@@ -0,0 +1,145 @@
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import type {
+  PaperEquityPoint,
+  PaperExitReason,
+  PaperOrder,
+  PaperOrderDraft,
+  PaperOrderStatus,
+} from "./paper-trading";
+import type { AccountProfile, PlacementKind, SymbolCode } from "./types";
+
+const ACCOUNT_ID = "default";
+
+export interface PaperAccountRecord {
+  startingBalance: number;
+  currency: string;
+  enabled: boolean;
+  createdAt: string;
+}
+
+type PaperOrderRow = Awaited<ReturnType<typeof db.paperOrder.findMany>>[number];
+
+function toOrder(row: PaperOrderRow): PaperOrder {
+  const { updatedAt: _updatedAt, ...rest } = row;
+  return {
+    ...rest,
+    createdAt: row.createdAt.toISOString(),
+    symbol: row.symbol as SymbolCode,
+    model: row.model as PaperOrder["model"],
+    direction: row.direction as PaperOrder["direction"],
+    placement: row.placement as PlacementKind,
+    status: row.status as PaperOrderStatus,
+    exitReason: row.exitReason as PaperExitReason | null,
+    expiresAt: row.expiresAt?.toISOString() ?? null,
+    filledAt: row.filledAt?.toISOString() ?? null,
+    closedAt: row.closedAt?.toISOString() ?? null,
+  };
+}
+
+const toDate = (value: string | null) => (value == null ? null : new Date(value));
+
+function toRowData(order: PaperOrderDraft) {
+  return {
+    ...order,
+    expiresAt: toDate(order.expiresAt),
+    filledAt: toDate(order.filledAt),
+    closedAt: toDate(order.closedAt),
+  };
+}
+
+/** The simulated account, or null before paper trading was started */
+export async function loadPaperAccount(): Promise<PaperAccountRecord | null> {
+  const row = await db.paperAccount.findUnique({ where: { id: ACCOUNT_ID } });
+  return row
+    ? {
+        startingBalance: row.startingBalance,
+        currency: row.currency,
+        enabled: row.enabled,
+        createdAt: row.createdAt.toISOString(),
+      }
+    : null;
+}
+
+/**
+ * Start over with `startingBalance` in the account profile's currency:
+ * every order and the equity history are dropped.
+ */
+export async function resetPaperAccount(
+  profile: AccountProfile,
+  startingBalance: number = profile.balance,
+): Promise<PaperAccountRecord> {
+  const data = { startingBalance, currency: profile.currency, enabled: true };
+  await db.$transaction([
+    db.paperOrder.deleteMany(),
+    db.paperEquitySnapshot.deleteMany(),
+    db.paperAccount.upsert({
+      where: { id: ACCOUNT_ID },
+      create: { id: ACCOUNT_ID, ...data },
+      update: { ...data, createdAt: new Date() },
+    }),
+  ]);
+  return (await loadPaperAccount())!;
+}
+
+export async function setPaperTradingEnabled(enabled: boolean): Promise<void> {
+  await db.paperAccount.update({ where: { id: ACCOUNT_ID }, data: { enabled } });
+}
+
+/** Newest first; `active` limits the list to pending orders and open positions */
+export async function listPaperOrders(filter?: { active?: boolean }): Promise<PaperOrder[]> {
+  const rows = await db.paperOrder.findMany({
+    where: filter?.active ? { status: { in: ["pending", "open"] } } : {},
+    orderBy: { createdAt: "desc" },
+  });
+  return rows.map(toOrder);
+}
+
+export async function getPaperOrder(id: string): Promise<PaperOrder | null> {
+  const row = await db.paperOrder.findUnique({ where: { id } });
+  return row ? toOrder(row) : null;
+}
+
+/**
+ * Store a new order. Returns null when the candidate was already placed,
+ * which is how repeated scans of a session are deduplicated.
+ */
+export async function createPaperOrder(order: PaperOrderDraft): Promise<PaperOrder | null> {
+  try {
+    return toOrder(await db.paperOrder.create({ data: toRowData(order) }));
+  } catch (err) {
+    if (
+      err instanceof Prisma.PrismaClientKnownRequestError &&
+      err.code === "P2002"
+    ) {
+      return null;
+    }
+    throw err;
+  }
+}
+
+export async function savePaperOrder(order: PaperOrder): Promise<PaperOrder> {
+  const { id, createdAt: _createdAt, ...draft } = order;
+  const row = await db.paperOrder.update({ where: { id }, data: toRowData(draft) });
+  return toOrder(row);
+}
+
+export async function recordPaperEquity(
+  point: Omit<PaperEquityPoint, "at">,
+): Promise<void> {
+  await db.paperEquitySnapshot.create({ data: point });
+}
+
+/** Oldest first, the latest `limit` points */
+export async function listPaperEquity(limit = 500): Promise<PaperEquityPoint[]> {
+  const rows = await db.paperEquitySnapshot.findMany({
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+  return rows.reverse().map((row) => ({
+    at: row.createdAt.toISOString(),
+    balance: row.balance,
+    equity: row.equity,
+    openPositions: row.openPositions,
+  }));
+}
@@ -0,0 +1,354 @@
+import { z } from "zod";
+import { getInstrument } from "./instruments";
+import { sizeTrade } from "./position-sizing";
+import { dailyCloseOf, nextDailyClose } from "./sessions";
+import type {
+  AccountProfile,
+  OhlcBar,
+  PlacementKind,
+  SymbolCode,
+  TradeCandidate,
+} from "./types";
+import { isActionableCandidate } from "./types";
+
+export const PAPER_ORDER_STATUSES = ["pending", "open", "closed", "cancelled"] as const;
+
+export type PaperOrderStatus = (typeof PAPER_ORDER_STATUSES)[number];
+
+export type PaperExitReason = "target" | "stop" | "expired" | "manual";
+
+/** Sessions a limit order keeps working, like the backtest's default entry expiry */
+export const PAPER_ENTRY_EXPIRY_SESSIONS = 3;
+
+/**
+ * A simulated order placed from a scan candidate. Pending limit orders fill
+ * at their entry, pending market orders at the next live quote or session
+ * open, and open positions close at their stop or tp1; `pnl` is in the
+ * account currency, realised once closed and floating while open.
+ */
+export interface PaperOrder {
+  id: string;
+  createdAt: string;
+  candidateKey: string;
+  scanRunId: string | null;
+  scanDate: string;
+
+  symbol: SymbolCode;
+  model: TradeCandidate["model"];
+  direction: TradeCandidate["direction"];
+  placement: PlacementKind;
+  entry: number;
+  stop: number;
+  tp1: number;
+  lots: number;
+  riskAmount: number;
+  /** Account currency per unit of the quote currency, fixed at placement */
+  conversionRate: number;
+  contractSize: number;
+
+  status: PaperOrderStatus;
+  expiresAt: string | null;
+  fillPrice: number | null;
+  filledAt: string | null;
+  exitPrice: number | null;
+  closedAt: string | null;
+  exitReason: PaperExitReason | null;
+  lastPrice: number | null;
+  /** Last daily bar the order was checked against */
+  lastBar: string | null;
+  pnl: number | null;
+  rMultiple: number | null;
+}
+
+export type PaperOrderDraft = Omit<PaperOrder, "id" | "createdAt">;
+
+export interface PaperEquityPoint {
+  at: string;
+  balance: number;
+  equity: number;
+  openPositions: number;
+}
+
+export interface PaperAccountSummary {
+  startingBalance: number;
+  currency: string;
+  enabled: boolean;
+  /** Starting balance plus realised P&L */
+  balance: number;
+  /** Balance plus the floating P&L of open positions */
+  equity: number;
+  realisedPnl: number;
+  floatingPnl: number;
+  pendingOrders: number;
+  openPositions: number;
+  closedTrades: number;
+  winRate: number | null;
+  totalR: number;
+}
+
+export const paperAccountUpdateSchema = z
+  .object({
+    enabled: z.boolean({ message: "enabled must be true or false" }).optional(),
+    /** Start over: drop every order and the equity history */
+    reset: z.boolean().optional(),
+    startingBalance: z
+      .number({ message: "startingBalance must be a number" })
+      .finite()
+      .positive()
+      .optional(),
+  })
+  .strict();
+
+export type PaperAccountUpdate = z.infer<typeof paperAccountUpdateSchema>;
+
+/** Identifies a candidate within a session so repeated scans place it once */
+export function paperCandidateKey(
+  session: string,
+  symbol: SymbolCode,
+  trade: TradeCandidate,
+): string {
+  return `${session}:${symbol}:${trade.model}:${trade.direction}:${trade.entry}`;
+}
+
+/** Daily close `sessions` sessions out, counting the one in progress at `at` */
+export function paperEntryExpiry(at: Date, sessions = PAPER_ENTRY_EXPIRY_SESSIONS): Date {
+  let close = nextDailyClose(at);
+  for (let i = 1; i < sessions; i++) {
+    close = nextDailyClose(new Date(close.getTime() + 60_000));
+  }
+  return close;
+}
+
+function signedMove(order: Pick<PaperOrder, "direction">, from: number, to: number): number {
+  return order.direction === "Long" ? to - from : from - to;
+}
+
+/** P&L (account currency) and R of a filled order marked at `price` */
+export function paperResultAt(
+  order: Pick<PaperOrder, "direction" | "fillPrice" | "stop" | "lots" | "contractSize" | "conversionRate">,
+  price: number,
+): { pnl: number; rMultiple: number } {
+  const fill = order.fillPrice ?? price;
+  const move = signedMove(order, fill, price);
+  const risk = Math.abs(fill - order.stop);
+  return {
+    pnl: move * order.lots * order.contractSize * order.conversionRate,
+    rMultiple: risk > 0 ? move / risk : 0,
+  };
+}
+
+/**
+ * New order for a VALID candidate, sized for `account` on the candidate's
+ * conversion rate (when it was sized in the same currency). Market
+ * candidates fill at once on a live quote (`spot`); without one they wait,
+ * like pending limits, for up to PAPER_ENTRY_EXPIRY_SESSIONS sessions. Null
+ * when the candidate is not actionable (FILTERED or downgraded for news) or
+ * cannot be sized.
+ */
+export function paperOrderFromCandidate(
+  symbol: SymbolCode,
+  trade: TradeCandidate,
+  context: {
+    session: string;
+    scanRunId?: string | null;
+    account: AccountProfile;
+    spot: number | null;
+    at: Date;
+  },
+): PaperOrderDraft | null {
+  if (!isActionableCandidate(trade)) return null;
+
+  const spec = getInstrument(symbol);
+  const rate =
+    trade.sizing?.currency === context.account.currency
+      ? trade.sizing.conversionRate
+      : spec.quoteCurrency === context.account.currency
+        ? 1
+        : null;
+  if (rate == null) return null;
+
+  const { lots, riskAmount, belowMinLot } = sizeTrade(trade, spec, context.account, rate);
+  if (belowMinLot || lots <= 0) return null;
+
+  const limit = trade.placement === "PENDING_LIMIT";
+  const fillPrice = limit ? null : context.spot;
+  const pending = fillPrice == null;
+  return {
+    candidateKey: paperCandidateKey(context.session, symbol, trade),
+    scanRunId: context.scanRunId ?? null,
+    scanDate: context.session,
+    symbol,
+    model: trade.model,
+    direction: trade.direction,
+    placement: limit ? "PENDING_LIMIT" : "MARKET",
+    entry: trade.entry,
+    stop: trade.stop,
+    tp1: trade.tp1,
+    lots,
+    riskAmount,
+    conversionRate: rate,
+    contractSize: spec.contractSize,
+    status: pending ? "pending" : "open",
+    expiresAt: pending ? paperEntryExpiry(context.at).toISOString() : null,
+    fillPrice,
+    filledAt: pending ? null : context.at.toISOString(),
+    exitPrice: null,
+    closedAt: null,
+    exitReason: null,
+    lastPrice: fillPrice,
+    lastBar: null,
+    pnl: pending ? null : 0,
+    rMultiple: pending ? null : 0,
+  };
+}
+
+export function closePaperOrder(
+  order: PaperOrder,
+  price: number,
+  at: string,
+  reason: PaperExitReason,
+): PaperOrder {
+  return {
+    ...order,
+    status: "closed",
+    exitPrice: price,
+    closedAt: at,
+    exitReason: reason,
+    lastPrice: price,
+    ...paperResultAt(order, price),
+  };
+}
+
+/** Cancel a pending order (expired or by hand) */
+export function cancelPaperOrder(
+  order: PaperOrder,
+  at: string,
+  reason: PaperExitReason,
+): PaperOrder {
+  return { ...order, status: "cancelled", closedAt: at, exitReason: reason };
+}
+
+function touchesStop(order: PaperOrder, low: number, high: number): boolean {
+  return order.direction === "Long" ? low <= order.stop : high >= order.stop;
+}
+
+function touchesTarget(order: PaperOrder, low: number, high: number): boolean {
+  return order.direction === "Long" ? high >= order.tp1 : low <= order.tp1;
+}
+
+/**
+ * Update an order with a live quote: a pending market order fills at the
+ * quote, a pending limit once the quote reaches its entry (at the quote when
+ * it is better), an open position closes at its stop or tp1 once the quote
+ * crosses it, and otherwise it is marked to the quote. Quotes are samples,
+ * so levels fill at the level, except on the quote that filled the order.
+ */
+export function applyPaperQuote(order: PaperOrder, price: number, at: Date): PaperOrder {
+  const time = at.toISOString();
+  let next = order;
+  let fillQuote = false;
+
+  if (next.status === "pending") {
+    if (next.expiresAt && time > next.expiresAt) return cancelPaperOrder(next, next.expiresAt, "expired");
+    const market = next.placement === "MARKET";
+    if (!market && signedMove(next, price, next.entry) < 0) return { ...next, lastPrice: price };
+    const fill = market || signedMove(next, next.entry, price) < 0 ? price : next.entry;
+    next = { ...next, status: "open", fillPrice: fill, filledAt: time };
+    fillQuote = true;
+  }
+  if (next.status !== "open") return next;
+
+  if (touchesStop(next, price, price)) {
+    return closePaperOrder(next, fillQuote ? price : next.stop, time, "stop");
+  }
+  if (touchesTarget(next, price, price)) {
+    return closePaperOrder(next, fillQuote ? price : next.tp1, time, "target");
+  }
+  return { ...next, lastPrice: price, ...paperResultAt(next, price) };
+}
+
+/** When the daily bar of `day` started: the previous calendar day's close */
+function sessionStartOf(day: string): Date {
+  return dailyCloseOf(
+    new Date(Date.parse(`${day}T12:00:00Z`) - 24 * 3_600_000).toISOString().slice(0, 10),
+  );
+}
+
+/**
+ * Update an order with a completed daily bar, with the backtest's rules: a
+ * pending market order fills at the open, a pending limit when the bar
+ * reaches its entry (at the open after a gap through it), as long as the
+ * bar's session ends before the order expires; on the fill bar only the
+ * stop counts, since the target may have printed before the entry; a later
+ * bar that prints both levels is taken as a stop. A gap through a level
+ * fills at the open.
+ *
+ * A bar whose session started before the order was placed (or, once open,
+ * filled) may have printed its high and low before then, so it only marks
+ * the order to its close; live quotes cover the rest of that session.
+ */
+export function applyPaperBar(order: PaperOrder, bar: OhlcBar): PaperOrder {
+  const day = bar.date.slice(0, 10);
+  const time = dailyCloseOf(day).toISOString();
+  let next: PaperOrder = { ...order, lastBar: bar.date };
+  let fillBar = false;
+
+  if (next.status === "pending" && next.expiresAt && time > next.expiresAt) {
+    return cancelPaperOrder(next, next.expiresAt, "expired");
+  }
+  const since = next.status === "pending" ? next.createdAt : next.filledAt;
+  if (since && since > sessionStartOf(day).toISOString()) {
+    return next.status === "open"
+      ? { ...next, lastPrice: bar.close, ...paperResultAt(next, bar.close) }
+      : { ...next, lastPrice: bar.close };
+  }
+
+  if (next.status === "pending") {
+    const market = next.placement === "MARKET";
+    const reached =
+      market || (next.direction === "Long" ? bar.low <= next.entry : bar.high >= next.entry);
+    if (!reached) return { ...next, lastPrice: bar.close };
+
+    const fill = market || signedMove(next, next.entry, bar.open) < 0 ? bar.open : next.entry;
+    next = { ...next, status: "open", fillPrice: fill, filledAt: time };
+    fillBar = true;
+  }
+  if (next.status !== "open") return next;
+
+  if (touchesStop(next, bar.low, bar.high)) {
+    const gapped = touchesStop(next, bar.open, bar.open);
+    return closePaperOrder(next, gapped ? bar.open : next.stop, time, "stop");
+  }
+  if (!fillBar && touchesTarget(next, bar.low, bar.high)) {
+    const gapped = touchesTarget(next, bar.open, bar.open);
+    return closePaperOrder(next, gapped ? bar.open : next.tp1, time, "target");
+  }
+  return { ...next, lastPrice: bar.close, ...paperResultAt(next, bar.close) };
+}
+
+/** Balance, equity and trade stats of the simulated account */
+export function summarizePaperAccount(
+  account: { startingBalance: number; currency: string; enabled: boolean },
+  orders: PaperOrder[],
+): PaperAccountSummary {
+  const closed = orders.filter((order) => order.status === "closed");
+  const open = orders.filter((order) => order.status === "open");
+  const realisedPnl = closed.reduce((sum, order) => sum + (order.pnl ?? 0), 0);
+  const floatingPnl = open.reduce((sum, order) => sum + (order.pnl ?? 0), 0);
+  const wins = closed.filter((order) => (order.pnl ?? 0) > 0).length;
+
+  return {
+    startingBalance: account.startingBalance,
+    currency: account.currency,
+    enabled: account.enabled,
+    balance: account.startingBalance + realisedPnl,
+    equity: account.startingBalance + realisedPnl + floatingPnl,
+    realisedPnl,
+    floatingPnl,
+    pendingOrders: orders.filter((order) => order.status === "pending").length,
+    openPositions: open.length,
+    closedTrades: closed.length,
+    winRate: closed.length > 0 ? wins / closed.length : null,
+    totalR: closed.reduce((sum, order) => sum + (order.rMultiple ?? 0), 0),
+  };
+}
@@ -0,0 +1,214 @@
+import { z } from "zod";
+import { getInstrument, listInstruments, type InstrumentSpec } from "./instruments";
+import type {
+  AccountProfile,
+  OpenRiskSummary,
+  PositionSizing,
+  ScanResponse,
+  SymbolCode,
+  SymbolScanEntry,
+  TradeCandidate,
+} from "./types";
+import { isActionableCandidate, isSymbolScanError } from "./types";
+
+export const DEFAULT_ACCOUNT_PROFILE: AccountProfile = {
+  balance: 10_000,
+  currency: "USD",
+  riskPercent: 1,
+  maxOpenRiskPercent: 5,
+};
+
+const percent = (field: string) =>
+  z
+    .number({ message: `${field} must be a number` })
+    .finite()
+    .positive()
+    .max(100, { message: `${field} is a percentage (at most 100)` });
+
+export const accountProfileSchema = z
+  .object({
+    balance: z
+      .number({ message: "balance must be a number" })
+      .finite()
+      .positive(),
+    currency: z
+      .string()
+      .trim()
+      .toUpperCase()
+      .regex(/^[A-Z]{3}$/u, { message: "Currency must be a 3-letter code" }),
+    riskPercent: percent("riskPercent"),
+    maxOpenRiskPercent: percent("maxOpenRiskPercent"),
+  })
+  .strict();
+
+/**
+ * Value of one unit of `from` in `to`, chained through the currency pairs in
+ * `prices` (e.g. JPY → GBP → USD via GBPJPY and GBPUSD). Null when no chain
+ * of priced pairs connects the two currencies.
+ */
+export function conversionRate(
+  from: string,
+  to: string,
+  prices: Partial<Record<SymbolCode, number>>,
+  instruments: readonly InstrumentSpec[] = listInstruments(),
+): number | null {
+  if (from === to) return 1;
+
+  // 1 base = price quote, so base → quote multiplies and quote → base divides
+  const edges = new Map<string, { to: string; factor: number }[]>();
+  const addEdge = (a: string, b: string, factor: number) => {
+    edges.set(a, [...(edges.get(a) ?? []), { to: b, factor }]);
+  };
+  for (const spec of instruments) {
+    const price = prices[spec.symbol];
+    if (!spec.baseCurrency || !price || !Number.isFinite(price) || price <= 0) {
+      continue;
+    }
+    addEdge(spec.baseCurrency, spec.quoteCurrency, price);
+    addEdge(spec.quoteCurrency, spec.baseCurrency, 1 / price);
+  }
+
+  // Breadth-first, so the shortest chain of pairs wins
+  const rates = new Map<string, number>([[from, 1]]);
+  const queue = [from];
+  while (queue.length > 0) {
+    const currency = queue.shift()!;
+    for (const edge of edges.get(currency) ?? []) {
+      if (rates.has(edge.to)) continue;
+      const rate = rates.get(currency)! * edge.factor;
+      if (edge.to === to) return rate;
+      rates.set(edge.to, rate);
+      queue.push(edge.to);
+    }
+  }
+  return null;
+}
+
+function roundToStep(value: number, step: number): number {
+  const decimals = Math.max(0, -Math.floor(Math.log10(step)));
+  return Number((Math.floor(value / step + 1e-9) * step).toFixed(decimals));
+}
+
+/**
+ * Lots that risk at most `account.riskPercent` of the balance between entry
+ * and stop. `rate` converts the instrument's quote currency to the account's.
+ */
+export function sizeTrade(
+  trade: Pick<TradeCandidate, "entry" | "stop" | "tp1">,
+  spec: InstrumentSpec,
+  account: AccountProfile,
+  rate: number,
+): PositionSizing {
+  const riskPerLot = Math.abs(trade.entry - trade.stop) * spec.contractSize * rate;
+  const rewardPerLot = Math.abs(trade.tp1 - trade.entry) * spec.contractSize * rate;
+  const budget = (account.balance * account.riskPercent) / 100;
+
+  let lots = riskPerLot > 0 ? roundToStep(budget / riskPerLot, spec.lotStep) : 0;
+  const belowMinLot = lots < spec.minLot;
+  if (belowMinLot) lots = 0;
+
+  const riskAmount = lots * riskPerLot;
+  return {
+    lots,
+    riskAmount,
+    rewardAmount: lots * rewardPerLot,
+    riskPercent: (riskAmount / account.balance) * 100,
+    currency: account.currency,
+    conversionRate: rate,
+    ...(belowMinLot ? { belowMinLot } : {}),
+  };
+}
+
+/** Spot (or latest close) of every priced symbol in the scan */
+export function scanPrices(scan: ScanResponse): Partial<Record<SymbolCode, number>> {
+  const prices: Partial<Record<SymbolCode, number>> = {};
+  for (const [symbol, entry] of Object.entries(scan.symbols)) {
+    if (!entry || isSymbolScanError(entry)) continue;
+    const price = entry.livePrice?.spot ?? entry.lastClose;
+    if (typeof price === "number" && Number.isFinite(price)) prices[symbol] = price;
+  }
+  return prices;
+}
+
+/**
+ * Combined risk of the actionable candidates on the primary timeframe
+ * (stacked timeframes repeat the same symbols, so they do not add to it;
+ * candidates downgraded for news are not taken). Symbols
+ * with candidates but no sizing are listed as unsized.
+ */
+export function summarizeOpenRisk(
+  scan: ScanResponse,
+  account: AccountProfile,
+): OpenRiskSummary {
+  const unsized = new Set<SymbolCode>();
+  let riskAmount = 0;
+
+  for (const entry of Object.values(scan.symbols)) {
+    if (!entry || isSymbolScanError(entry)) continue;
+    for (const trade of entry.trades) {
+      if (!trade.sizing) unsized.add(entry.symbol);
+      else if (isActionableCandidate(trade)) riskAmount += trade.sizing.riskAmount;
+    }
+  }
+  for (const entries of Object.values(scan.stacked ?? {})) {
+    for (const entry of entries ?? []) {
+      if (isSymbolScanError(entry)) continue;
+      if (entry.trades.some((trade) => !trade.sizing)) unsized.add(entry.symbol);
+    }
+  }
+
+  const riskPercent = (riskAmount / account.balance) * 100;
+  return {
+    riskAmount,
+    riskPercent,
+    capPercent: account.maxOpenRiskPercent,
+    exceeded: riskPercent > account.maxOpenRiskPercent,
+    currency: account.currency,
+    unsized: [...unsized],
+  };
+}
+
+/**
+ * Attach `sizing` to every candidate in the scan, primary and stacked
+ * timeframes alike, and summarize the open risk.
+ */
+export function applyPositionSizing(
+  scan: ScanResponse,
+  account: AccountProfile,
+  prices: Partial<Record<SymbolCode, number>> = scanPrices(scan),
+): ScanResponse {
+  const sizeEntry = (entry: SymbolScanEntry): SymbolScanEntry => {
+    if (isSymbolScanError(entry) || entry.trades.length === 0) return entry;
+
+    const spec = getInstrument(entry.symbol);
+    const rate = conversionRate(spec.quoteCurrency, account.currency, prices);
+    if (rate == null) return entry;
+
+    const trades = entry.trades.map((trade) => ({
+      ...trade,
+      sizing: sizeTrade(trade, spec, account, rate),
+    }));
+    return { ...entry, trades };
+  };
+
+  const symbols: ScanResponse["symbols"] = {};
+  for (const [symbol, entry] of Object.entries(scan.symbols)) {
+    symbols[symbol] = entry && sizeEntry(entry);
+  }
+
+  let stacked: ScanResponse["stacked"];
+  if (scan.stacked) {
+    stacked = {};
+    for (const [symbol, entries] of Object.entries(scan.stacked)) {
+      stacked[symbol] = entries?.map(sizeEntry);
+    }
+  }
+
+  const sized: ScanResponse = {
+    ...scan,
+    symbols,
+    ...(stacked ? { stacked } : {}),
+    account,
+  };
+  return { ...sized, openRisk: summarizeOpenRisk(sized, account) };
+}
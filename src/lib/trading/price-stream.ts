@@ -0,0 +1,120 @@
+import { buildCandidateDiagnostics } from "./buildCandidateDiagnostics";
+import { computeNearestZoneInfo } from "./nearest-zone";
+import { classifySweetspotState } from "./pullback-analysis";
+import type {
+  LivePriceSnapshot,
+  ScanResponse,
+  SymbolCode,
+  SymbolScanEntry,
+} from "./types";
+import { isSymbolScanError } from "./types";
+
+/** Port of the Socket.IO price stream (`npm run price-stream`) */
+export const PRICE_STREAM_PORT = Number(process.env.PRICE_STREAM_PORT ?? 3003);
+
+/** Socket.IO path shared by the stream server and the dashboard client */
+export const PRICE_STREAM_PATH = "/socket.io";
+
+/** A quote pushed to subscribed dashboards */
+export interface PriceTick extends LivePriceSnapshot {
+  symbol: SymbolCode;
+  /** ISO timestamp of when the quote was fetched */
+  at: string;
+}
+
+/** Events the stream server emits */
+export interface PriceStreamServerEvents {
+  /** Latest quote for a subscribed symbol */
+  tick: (tick: PriceTick) => void;
+}
+
+/** Events dashboards send to the stream server */
+export interface PriceStreamClientEvents {
+  /** Replace the socket's subscriptions */
+  subscribe: (payload: { symbols: string[] }) => void;
+}
+
+/**
+ * Re-price a scan entry with a streamed quote: the session range is extended
+ * by the tick, then nearest zone, sweet-spot state and candidate diagnostics
+ * are recomputed exactly as the scan route does for its one-off quote.
+ * Errors and ticks without a price leave the entry unchanged.
+ */
+export function applyPriceTick<T extends SymbolScanEntry>(
+  entry: T,
+  tick: PriceTick,
+): T {
+  if (
+    isSymbolScanError(entry) ||
+    entry.symbol !== tick.symbol ||
+    tick.spot == null ||
+    !Number.isFinite(tick.spot)
+  ) {
+    return entry;
+  }
+
+  const spot = tick.spot;
+  const sessionRange = {
+    high: Math.max(entry.sessionRange?.high ?? spot, spot),
+    low: Math.min(entry.sessionRange?.low ?? spot, spot),
+  };
+
+  const nearestZone = computeNearestZoneInfo(
+    entry.zones ?? [],
+    spot,
+    entry.atr20 ?? null,
+  );
+
+  const sweetspotState = classifySweetspotState(
+    nearestZone?.zone_low ?? NaN,
+    nearestZone?.zone_high ?? NaN,
+    sessionRange.high,
+    sessionRange.low,
+    spot,
+  );
+
+  const candidateDiagnostics = buildCandidateDiagnostics({
+    trend: entry.trend,
+    location: entry.location,
+    nearestZone,
+    pullback: entry.pullback,
+    hasModelSignal: Array.isArray(entry.trades) ? entry.trades.length > 0 : false,
+    newsBlocked: entry.news?.blocked,
+    sessionAllowed: entry.sessionContext?.allowed,
+  });
+
+  return {
+    ...entry,
+    livePrice: { spot, source: tick.source ?? "live" },
+    sessionRange,
+    nearestZone,
+    sweetspotState,
+    candidateDiagnostics,
+  };
+}
+
+/** Apply a tick to a symbol's primary and stacked entries in a scan */
+export function applyPriceTickToScan(
+  scan: ScanResponse,
+  tick: PriceTick,
+): ScanResponse {
+  const entry = scan.symbols[tick.symbol];
+  const stacked = scan.stacked?.[tick.symbol];
+  if (!entry && !stacked) return scan;
+
+  return {
+    ...scan,
+    symbols: {
+      ...scan.symbols,
+      ...(entry ? { [tick.symbol]: applyPriceTick(entry, tick) } : {}),
+    },
+    ...(stacked
+      ? {
+          stacked: {
+            ...scan.stacked,
+            [tick.symbol]: stacked.map((e) => applyPriceTick(e, tick)),
+          },
+        }
+      : {}),
+  };
+}
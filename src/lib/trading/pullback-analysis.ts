@@ -1,4 +1,10 @@
-import { classifyTrend, type MacroTrend, type TrendAlignment, type TrendDayDirection } from "./trend-analysis";
+import {
+  classifyTrend,
+  type MacroTrend,
+  type TrendAlignment,
+  type TrendDayDirection,
+  type TrendOptions,
+} from "./trend-analysis";
 import type { OhlcBar, SymbolCode } from "./types";
 
 export type PullbackBucket =
@@ -165,7 +171,7 @@ export function classifySweetspotState(
 export function buildCandlePairPullbacks(
   symbol: SymbolCode,
   bars: OhlcBar[],
-  trendLookback: number,
+  trendOptions: TrendOptions,
   lookbackDays: number,
 ): CandlePairPullbackRecord[] {
   if (bars.length < 2) return [];
@@ -180,7 +186,7 @@ export function buildCandlePairPullbacks(
 
     const { macroTrend, trendDay, alignment } = classifyTrend(
       bars.slice(0, prevIndex + 1),
-      { trendLookback },
+      trendOptions,
     );
 
     const depthIntoPrevPct = computeDepthIntoPrevious(prev, curr, macroTrend);
@@ -221,6 +227,11 @@ function initializeBucketCounts(): Record<PullbackBucket, number> {
   };
 }
 
+/** Stable string form of a scenario, e.g. "Bull|Bear|Counter" */
+export function formatScenarioKey(key: PullbackScenarioKey): string {
+  return `${key.macroTrendPrev}|${key.trendDayPrev}|${key.alignmentPrev}`;
+}
+
 export function buildPullbackScenarioStats(
   records: CandlePairPullbackRecord[],
   lookbackDays: number,
@@ -228,7 +239,7 @@ export function buildPullbackScenarioStats(
   const groups = new Map<string, CandlePairPullbackRecord[]>();
 
   for (const record of records) {
-    const key = `${record.scenario.macroTrendPrev}|${record.scenario.trendDayPrev}|${record.scenario.alignmentPrev}`;
+    const key = formatScenarioKey(record.scenario);
     if (!groups.has(key)) {
       groups.set(key, []);
     }
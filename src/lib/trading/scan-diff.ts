@@ -0,0 +1,114 @@
+import type {
+  ScanResponse,
+  SymbolCode,
+  SymbolScanEntry,
+  TradeCandidate,
+} from "./types";
+import { isSymbolScanError } from "./types";
+
+export interface FieldChange {
+  field: string;
+  before: string | null;
+  after: string | null;
+}
+
+export interface SymbolScanDiff {
+  symbol: SymbolCode;
+  /** Symbol only present in one of the two scans */
+  presence: "both" | "added" | "removed";
+  changes: FieldChange[];
+  addedCandidates: TradeCandidate[];
+  removedCandidates: TradeCandidate[];
+}
+
+export interface ScanDiff {
+  beforeDate: string;
+  afterDate: string;
+  symbols: SymbolScanDiff[];
+}
+
+// Fields compared between two scans of the same symbol
+const TRACKED_FIELDS: {
+  field: string;
+  read: (entry: SymbolScanEntry) => string | null;
+}[] = [
+  { field: "status", read: (e) => (isSymbolScanError(e) ? `error: ${e.error}` : "ok") },
+  { field: "macroTrend", read: (e) => (isSymbolScanError(e) ? null : e.macroTrend) },
+  { field: "trendDay", read: (e) => (isSymbolScanError(e) ? null : e.trendDay) },
+  { field: "alignment", read: (e) => (isSymbolScanError(e) ? null : e.alignment) },
+  { field: "location", read: (e) => (isSymbolScanError(e) ? null : e.location) },
+  {
+    field: "nearestZone",
+    read: (e) => (isSymbolScanError(e) ? null : e.nearestZone?.status ?? null),
+  },
+  {
+    field: "pullbackBucket",
+    read: (e) => (isSymbolScanError(e) ? null : e.pullback?.bucket ?? null),
+  },
+  {
+    field: "sweetspotState",
+    read: (e) => (isSymbolScanError(e) ? null : e.sweetspotState ?? null),
+  },
+];
+
+export function candidateKey(trade: TradeCandidate): string {
+  return [
+    trade.model,
+    trade.direction,
+    trade.stopType ?? "-",
+    trade.entry.toPrecision(8),
+    trade.stop.toPrecision(8),
+    trade.tp1.toPrecision(8),
+  ].join("|");
+}
+
+function tradesOf(entry: SymbolScanEntry | undefined): TradeCandidate[] {
+  if (!entry || isSymbolScanError(entry)) return [];
+  return entry.trades ?? [];
+}
+
+/**
+ * Compare two scan responses symbol by symbol: regime/location fields that
+ * changed and the trade candidates that appeared or disappeared.
+ */
+export function diffScans(before: ScanResponse, after: ScanResponse): ScanDiff {
+  const symbols = Array.from(
+    new Set([
+      ...Object.keys(before.symbols),
+      ...Object.keys(after.symbols),
+    ]),
+  ).sort() as SymbolCode[];
+
+  const diffs: SymbolScanDiff[] = symbols.map((symbol) => {
+    const prev = before.symbols[symbol];
+    const next = after.symbols[symbol];
+
+    const changes: FieldChange[] = [];
+    if (prev && next) {
+      for (const { field, read } of TRACKED_FIELDS) {
+        const a = read(prev);
+        const b = read(next);
+        if (a !== b) changes.push({ field, before: a, after: b });
+      }
+    }
+
+    const prevTrades = tradesOf(prev);
+    const nextTrades = tradesOf(next);
+    const prevKeys = new Set(prevTrades.map(candidateKey));
+    const nextKeys = new Set(nextTrades.map(candidateKey));
+
+    return {
+      symbol,
+      presence: prev && next ? "both" : next ? "added" : "removed",
+      changes,
+      addedCandidates: nextTrades.filter((t) => !prevKeys.has(candidateKey(t))),
+      removedCandidates: prevTrades.filter((t) => !nextKeys.has(candidateKey(t))),
+    };
+  });
+
+  return {
+    beforeDate: before.date,
+    afterDate: after.date,
+    symbols: diffs,
+  };
+}
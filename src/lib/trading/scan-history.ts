@@ -0,0 +1,199 @@
+import { db } from "@/lib/db";
+import type {
+  LivePriceSnapshot,
+  ScanOptions,
+  ScanResponse,
+  SymbolCode,
+  SymbolScanEntry,
+} from "./types";
+import { isSymbolScanError } from "./types";
+
+export type ScanDataSource = NonNullable<LivePriceSnapshot["source"]> | "mixed" | "none";
+
+export interface ScanRunSummary {
+  id: string;
+  createdAt: string;
+  scanDate: string;
+  dataSource: string;
+  symbols: SymbolCode[];
+  candidateCount: number;
+  errorCount: number;
+}
+
+export interface ScanRunDetail extends Omit<ScanRunSummary, "symbols"> {
+  options: ScanOptions;
+  scan: ScanResponse;
+}
+
+function resolveDataSource(scan: ScanResponse): ScanDataSource {
+  const sources = new Set<string>();
+  for (const entry of Object.values(scan.symbols)) {
+    if (!entry || isSymbolScanError(entry)) continue;
+    sources.add(entry.livePrice?.source ?? "fallback");
+  }
+
+  if (sources.size === 0) return "none";
+  if (sources.size > 1) return "mixed";
+  return [...sources][0] as ScanDataSource;
+}
+
+function symbolResultRow(
+  symbol: SymbolCode,
+  entry: SymbolScanEntry,
+  primary = true,
+) {
+  const timeframe = entry.timeframe ?? "D1";
+
+  if (isSymbolScanError(entry)) {
+    return {
+      symbol,
+      timeframe,
+      primary,
+      kind: "error",
+      error: entry.error,
+      payload: JSON.stringify(entry),
+    };
+  }
+
+  return {
+    symbol,
+    timeframe,
+    primary,
+    kind: "ok",
+    macroTrend: entry.macroTrend,
+    trendDay: entry.trendDay,
+    alignment: entry.alignment,
+    location: entry.location,
+    atr20: entry.atr20,
+    lastClose: entry.lastClose,
+    spot: entry.livePrice?.spot ?? null,
+    priceSource: entry.livePrice?.source ?? null,
+    nearestZoneStatus: entry.nearestZone?.status ?? null,
+    sweetspotState: entry.sweetspotState ?? null,
+    pullbackBucket: entry.pullback?.bucket ?? null,
+    payload: JSON.stringify(entry),
+    candidates: {
+      create: entry.trades.map((trade) => ({
+        symbol,
+        model: trade.model,
+        direction: trade.direction,
+        entry: trade.entry,
+        stop: trade.stop,
+        tp1: trade.tp1,
+        riskPrice: trade.risk_price,
+        rewardPrice: trade.reward_price,
+        rr: trade.rr,
+        status: trade.status,
+        stopType: trade.stopType ?? null,
+        placement: trade.placement ?? null,
+      })),
+    },
+  };
+}
+
+/**
+ * Persist a scan response with its per-symbol results and candidates.
+ * Returns the id of the stored run.
+ */
+export async function saveScanRun(
+  scan: ScanResponse,
+  options?: ScanOptions,
+): Promise<string> {
+  const symbols = Object.entries(scan.symbols) as [SymbolCode, SymbolScanEntry][];
+  const stacked = Object.entries(scan.stacked ?? {}) as [
+    SymbolCode,
+    SymbolScanEntry[],
+  ][];
+
+  const run = await db.scanRun.create({
+    data: {
+      scanDate: scan.date,
+      options: JSON.stringify(options ?? {}),
+      dataSource: resolveDataSource(scan),
+      results: {
+        create: [
+          ...symbols.map(([symbol, entry]) => symbolResultRow(symbol, entry)),
+          ...stacked.flatMap(([symbol, entries]) =>
+            entries.map((entry) => symbolResultRow(symbol, entry, false)),
+          ),
+        ],
+      },
+    },
+    select: { id: true },
+  });
+
+  return run.id;
+}
+
+export async function listScanRuns(params?: {
+  limit?: number;
+  symbol?: SymbolCode;
+}): Promise<ScanRunSummary[]> {
+  const runs = await db.scanRun.findMany({
+    where: params?.symbol
+      ? { results: { some: { symbol: params.symbol } } }
+      : undefined,
+    orderBy: { createdAt: "desc" },
+    take: params?.limit ?? 50,
+    include: {
+      results: {
+        select: {
+          symbol: true,
+          kind: true,
+          primary: true,
+          _count: { select: { candidates: true } },
+        },
+      },
+    },
+  });
+
+  return runs.map((run) => ({
+    id: run.id,
+    createdAt: run.createdAt.toISOString(),
+    scanDate: run.scanDate,
+    dataSource: run.dataSource,
+    symbols: run.results.filter((r) => r.primary).map((r) => r.symbol),
+    candidateCount: run.results.reduce((sum, r) => sum + r._count.candidates, 0),
+    errorCount: run.results.filter((r) => r.kind === "error").length,
+  }));
+}
+
+export async function getScanRun(id: string): Promise<ScanRunDetail | null> {
+  const run = await db.scanRun.findUnique({
+    where: { id },
+    include: { results: true },
+  });
+  if (!run) return null;
+
+  const symbols: ScanResponse["symbols"] = {};
+  const stacked: NonNullable<ScanResponse["stacked"]> = {};
+  let candidateCount = 0;
+  let errorCount = 0;
+
+  for (const result of run.results) {
+    const entry = JSON.parse(result.payload) as SymbolScanEntry;
+    if (result.primary) {
+      symbols[result.symbol] = entry;
+    } else {
+      (stacked[result.symbol] ??= []).push(entry);
+    }
+    if (isSymbolScanError(entry)) errorCount++;
+    else candidateCount += entry.trades.length;
+  }
+
+  return {
+    id: run.id,
+    createdAt: run.createdAt.toISOString(),
+    scanDate: run.scanDate,
+    dataSource: run.dataSource,
+    candidateCount,
+    errorCount,
+    options: JSON.parse(run.options) as ScanOptions,
+    scan: {
+      date: run.scanDate,
+      symbols,
+      ...(Object.keys(stacked).length > 0 ? { stacked } : {}),
+      runId: run.id,
+    },
+  };
+}
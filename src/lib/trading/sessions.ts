@@ -0,0 +1,218 @@
+import { z } from "zod";
+import {
+  TRADING_SESSIONS,
+  type OhlcBar,
+  type SessionContext,
+  type SessionWindow,
+  type TradeCandidate,
+  type TradingSession,
+} from "./types";
+
+interface SessionDefinition {
+  session: TradingSession;
+  /** IANA zone the local open/close times follow, DST included */
+  timeZone: string;
+  open: string;
+  close: string;
+}
+
+/** Sessions in the order they open within a trading day */
+export const SESSION_DEFINITIONS: readonly SessionDefinition[] = [
+  { session: "asia", timeZone: "Asia/Tokyo", open: "09:00", close: "18:00" },
+  { session: "london", timeZone: "Europe/London", open: "08:00", close: "17:00" },
+  { session: "new_york", timeZone: "America/New_York", open: "08:00", close: "17:00" },
+];
+
+/** The FX day rolls over at 17:00 New York time */
+const DAILY_CLOSE = { timeZone: "America/New_York", time: "17:00" };
+
+/** Server clocks under the New York close convention run 7 hours ahead of New York */
+const NY_CLOSE_SERVER_LEAD_HOURS = 7;
+
+/** Zod fields for the session ScanParams, shared by the scan and replay APIs */
+export const sessionParamsShape = {
+  serverUtcOffset: z
+    .number({ message: "serverUtcOffset must be a number of hours" })
+    .min(-12, { message: "serverUtcOffset must be at least -12" })
+    .max(14, { message: "serverUtcOffset must be at most 14" })
+    .nullable()
+    .optional(),
+};
+
+/** Zod fields for the session ScanFilters */
+export const sessionFilterShape = {
+  sessions: z
+    .array(z.enum(TRADING_SESSIONS, { message: "sessions must be asia, london or new_york" }))
+    .optional(),
+};
+
+const HOUR = 3_600_000;
+
+/** Minutes `timeZone` is ahead of UTC at `at` */
+export function zoneOffsetMinutes(timeZone: string, at: Date): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value);
+
+  const asUtc = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute"),
+    part("second"),
+  );
+  return Math.round((asUtc - at.getTime()) / 60_000);
+}
+
+/** The instant `date` `time` (yyyy-mm-dd, HH:MM) is on the clocks of `timeZone` */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const naive = Date.parse(`${date}T${time}:00Z`);
+  const offset = zoneOffsetMinutes(timeZone, new Date(naive));
+  const utc = naive - offset * 60_000;
+  // Across a DST change the offset at the result can differ from the guess
+  const corrected = zoneOffsetMinutes(timeZone, new Date(utc));
+  return new Date(corrected === offset ? utc : naive - corrected * 60_000);
+}
+
+/** Calendar date (yyyy-mm-dd) in `timeZone` at `at` */
+function zonedDate(at: Date, timeZone: string): string {
+  return new Date(at.getTime() + zoneOffsetMinutes(timeZone, at) * 60_000)
+    .toISOString()
+    .slice(0, 10);
+}
+
+/** Broker server time offset from UTC at `at`, in hours (null: New York close) */
+export function serverUtcOffsetAt(at: Date, serverUtcOffset?: number | null): number {
+  if (serverUtcOffset != null) return serverUtcOffset;
+  return zoneOffsetMinutes(DAILY_CLOSE.timeZone, at) / 60 + NY_CLOSE_SERVER_LEAD_HOURS;
+}
+
+/** UTC instant of a broker bar time ("yyyy-mm-dd HH:MM" server time) */
+export function serverTimeToUtc(stamp: string, serverUtcOffset?: number | null): Date {
+  const naive = Date.parse(`${stamp.slice(0, 10)}T${stamp.slice(11, 16) || "00:00"}:00Z`);
+  if (serverUtcOffset != null) return new Date(naive - serverUtcOffset * HOUR);
+
+  const newYork = new Date(naive - NY_CLOSE_SERVER_LEAD_HOURS * HOUR).toISOString();
+  return zonedTimeToUtc(newYork.slice(0, 10), newYork.slice(11, 16), DAILY_CLOSE.timeZone);
+}
+
+/**
+ * First daily close (17:00 New York) at or after `at`. The market is shut
+ * over the weekend, so after Friday's close the next one is Monday's.
+ */
+export function nextDailyClose(at: Date): Date {
+  let date = zonedDate(at, DAILY_CLOSE.timeZone);
+  let close = zonedTimeToUtc(date, DAILY_CLOSE.time, DAILY_CLOSE.timeZone);
+
+  while (close < at || [0, 6].includes(new Date(`${date}T12:00:00Z`).getUTCDay())) {
+    date = new Date(Date.parse(`${date}T12:00:00Z`) + 24 * HOUR).toISOString().slice(0, 10);
+    close = zonedTimeToUtc(date, DAILY_CLOSE.time, DAILY_CLOSE.timeZone);
+  }
+  return close;
+}
+
+/**
+ * Trading session `at` falls in, named by the New York date of its 17:00
+ * close: the evening after a close already belongs to the next day, and the
+ * weekend to Monday.
+ */
+export function tradingSessionOf(at: Date): string {
+  return zonedDate(nextDailyClose(at), DAILY_CLOSE.timeZone);
+}
+
+/** Daily close of the session dated `date` (yyyy-mm-dd), e.g. for as-of scans */
+export function dailyCloseOf(date: string): Date {
+  return zonedTimeToUtc(date, DAILY_CLOSE.time, DAILY_CLOSE.timeZone);
+}
+
+/** First end of `session` after `at`, on the current trading day or a later one */
+export function nextSessionEnd(session: TradingSession, at: Date): Date {
+  const def = SESSION_DEFINITIONS.find((d) => d.session === session)!;
+  let close = nextDailyClose(at);
+
+  for (;;) {
+    const day = zonedDate(new Date(close.getTime() - HOUR), DAILY_CLOSE.timeZone);
+    const end = zonedTimeToUtc(day, def.close, def.timeZone);
+    if (end > at) return end;
+    close = nextDailyClose(new Date(close.getTime() + 60_000));
+  }
+}
+
+/**
+ * Sessions of the trading day ending at the next daily close after `at`,
+ * with the high/low of the H1 bars (server time) opened in each, and the
+ * sessions open at `at`.
+ */
+export function buildSessionContext(
+  hourly: OhlcBar[],
+  at: Date,
+  serverUtcOffset?: number | null,
+): SessionContext {
+  const dailyClose = nextDailyClose(at);
+  // Sessions are dated by the day the trading day ends on
+  const day = zonedDate(new Date(dailyClose.getTime() - HOUR), DAILY_CLOSE.timeZone);
+  const hourlyUtc = hourly.map((bar) => ({
+    bar,
+    time: serverTimeToUtc(bar.date, serverUtcOffset).getTime(),
+  }));
+
+  const sessions: SessionWindow[] = SESSION_DEFINITIONS.map((def) => {
+    const start = zonedTimeToUtc(day, def.open, def.timeZone);
+    const end = zonedTimeToUtc(day, def.close, def.timeZone);
+    const bars = hourlyUtc
+      .filter(({ time }) => time >= start.getTime() && time < end.getTime() && time <= at.getTime())
+      .map(({ bar }) => bar);
+
+    return {
+      session: def.session,
+      start: start.toISOString(),
+      end: end.toISOString(),
+      status: at < start ? "upcoming" : at < end ? "open" : "closed",
+      high: bars.length > 0 ? Math.max(...bars.map((b) => b.high)) : null,
+      low: bars.length > 0 ? Math.min(...bars.map((b) => b.low)) : null,
+    };
+  });
+
+  return {
+    at: at.toISOString(),
+    current: sessions.filter((s) => s.status === "open").map((s) => s.session),
+    sessions,
+    dailyClose: dailyClose.toISOString(),
+    minutesToDailyClose: Math.round((dailyClose.getTime() - at.getTime()) / 60_000),
+    serverUtcOffset: serverUtcOffsetAt(at, serverUtcOffset),
+  };
+}
+
+/**
+ * Apply a session filter: with no allowed session open, VALID candidates
+ * become FILTERED and are tagged `offSession`. An empty filter allows all.
+ */
+export function applySessionFilter(
+  trades: TradeCandidate[],
+  context: SessionContext,
+  allowed: TradingSession[] | undefined,
+): { trades: TradeCandidate[]; context: SessionContext } {
+  if (!allowed || allowed.length === 0) return { trades, context };
+
+  const open = context.current.some((session) => allowed.includes(session));
+  return {
+    context: { ...context, allowed: open },
+    trades: open
+      ? trades
+      : trades.map((trade) =>
+          trade.status === "VALID"
+            ? { ...trade, status: "FILTERED" as const, offSession: true }
+            : trade,
+        ),
+  };
+}
@@ -1,4 +1,20 @@
-import { CONFIG, type MacroTrendDiagnostics, type OhlcBar } from "./types";
+import { z } from "zod";
+import {
+  CONFIG,
+  MACRO_TREND_CLASSIFIERS,
+  type MacroDominanceRule,
+  type MacroTrendClassifier,
+  type MacroTrendDiagnostics,
+  type MacroTrendVerdict,
+  type OhlcBar,
+} from "./types";
+import {
+  adxClassifier,
+  maSlopeClassifier,
+  swingStructureClassifier,
+  type ResolvedMacroTrendOptions,
+  type TrendClassifier,
+} from "./trend-classifiers";
 
 export type MacroTrend = "Bull" | "Bear" | "Neutral";
 export type TrendDayDirection = "Bull" | "Bear" | "Neutral";
@@ -48,71 +64,232 @@ function classifyTrendDay(prevBar: OhlcBar, currentBar: OhlcBar): Trend {
 export interface MacroTrendResult {
   macroTrend: Trend; // Bull / Bear / Neutral
   latestTrendDay: Trend; // latest daily breakout classification
-  rollingScore: number; // average score over the window
+  rollingScore: number; // classifier score, -1..1
+  diagnostics: MacroTrendDiagnostics;
+}
+
+export interface MacroTrendOptions {
+  /** Sessions in the rolling window (default CONFIG.trend_lookback) */
+  window?: number;
+  bullThreshold?: number;
+  bearThreshold?: number;
+  dominance?: MacroDominanceRule;
+}
+
+export function resolveMacroTrendOptions(
+  options?: MacroTrendOptions,
+): ResolvedMacroTrendOptions {
+  return {
+    window: Math.max(1, options?.window ?? CONFIG.trend_lookback),
+    bullThreshold: options?.bullThreshold ?? CONFIG.macro_trend_bull_threshold,
+    bearThreshold: options?.bearThreshold ?? CONFIG.macro_trend_bear_threshold,
+    dominance: options?.dominance ?? CONFIG.macro_trend_dominance,
+  };
 }
 
 export function computeMacroTrend(
   bars: OhlcBar[],
-  options?: {
-    window?: number;
-    bullThreshold?: number;
-    bearThreshold?: number;
-  },
+  options?: MacroTrendOptions,
 ): MacroTrendResult {
-  const windowSize = options?.window ?? CONFIG.macro_trend_window;
-  const bullThreshold = options?.bullThreshold ?? CONFIG.macro_trend_bull_threshold;
-  const bearThreshold = options?.bearThreshold ?? CONFIG.macro_trend_bear_threshold;
+  const {
+    window: windowSize,
+    bullThreshold,
+    bearThreshold,
+    dominance,
+  } = resolveMacroTrendOptions(options);
 
-  if (bars.length < 2) {
-    return {
-      macroTrend: "Neutral",
-      latestTrendDay: "Neutral",
-      rollingScore: 0,
-    };
+  let bullDays = 0;
+  let bearDays = 0;
+  const startIndex = Math.max(1, bars.length - windowSize);
+  for (let i = startIndex; i < bars.length; i++) {
+    const dayTrend = classifyTrendDay(bars[i - 1], bars[i]);
+    if (dayTrend === "Bull") bullDays++;
+    else if (dayTrend === "Bear") bearDays++;
   }
 
-  const trendDays: Trend[] = [];
-  const scores: number[] = [];
+  const latestTrendDay =
+    bars.length >= 2
+      ? classifyTrendDay(bars[bars.length - 2], bars[bars.length - 1])
+      : "Neutral";
 
-  for (let i = 1; i < bars.length; i++) {
-    const prev = bars[i - 1];
-    const curr = bars[i];
+  const counted =
+    dominance === "trend_days"
+      ? bullDays + bearDays
+      : Math.max(0, bars.length - startIndex);
+  const rollingScore = counted > 0 ? (bullDays - bearDays) / counted : 0;
 
-    const dayTrend = classifyTrendDay(prev, curr);
-    trendDays.push(dayTrend);
+  const macroTrend: Trend =
+    counted > 0
+      ? macroTrendFromScore(rollingScore, bullThreshold, bearThreshold)
+      : "Neutral";
 
-    const score = dayTrend === "Bull" ? 1 : dayTrend === "Bear" ? -1 : 0;
-    scores.push(score);
-  }
+  // The lead the currently leading side needs (small epsilon: 0.3 * 20 is
+  // not exactly 6 in floating point)
+  const leadThreshold =
+    bullDays >= bearDays ? bullThreshold : Math.abs(bearThreshold);
 
-  const latestTrendDay = trendDays[trendDays.length - 1] ?? "Neutral";
+  return {
+    macroTrend,
+    latestTrendDay,
+    rollingScore,
+    diagnostics: {
+      bullDays,
+      bearDays,
+      totalTrendDays: bullDays + bearDays,
+      dominanceThreshold: Math.max(0, Math.ceil(leadThreshold * counted - 1e-9)),
+      lookback: windowSize,
+      score: rollingScore,
+      bullThreshold,
+      bearThreshold,
+      dominance,
+      classifier: "breakout",
+      detail: `${bullDays} bull vs ${bearDays} bear trend days over ${counted} ${
+        dominance === "trend_days" ? "trend days" : "sessions"
+      }`,
+    },
+  };
+}
 
-  const windowScores = scores.slice(-windowSize);
-  const total = windowScores.reduce((sum, v) => sum + v, 0);
-  const rollingScore = windowScores.length > 0 ? total / windowScores.length : 0;
+export function macroTrendFromScore(
+  score: number,
+  bullThreshold: number,
+  bearThreshold: number,
+): Trend {
+  if (score >= bullThreshold) return "Bull";
+  if (score <= bearThreshold) return "Bear";
+  return "Neutral";
+}
 
-  let macroTrend: Trend = "Neutral";
-  if (rollingScore >= bullThreshold) {
-    macroTrend = "Bull";
-  } else if (rollingScore <= bearThreshold) {
-    macroTrend = "Bear";
-  }
+/** Net breakout closes over the window, see computeMacroTrend */
+export const breakoutClassifier: TrendClassifier = {
+  id: "breakout",
+  classify(bars, options) {
+    const { rollingScore, diagnostics } = computeMacroTrend(bars, options);
+    return { score: rollingScore, detail: diagnostics.detail };
+  },
+};
+
+export const TREND_CLASSIFIERS: Record<MacroTrendClassifier, TrendClassifier> = {
+  breakout: breakoutClassifier,
+  ma_slope: maSlopeClassifier,
+  swing_structure: swingStructureClassifier,
+  adx: adxClassifier,
+};
+
+/**
+ * Macro trend picked by `classifier`. The trend-day counts in the
+ * diagnostics and the latest trend day always come from the breakout
+ * closes; score, detail and the regime come from the classifier.
+ */
+export function runTrendClassifier(
+  classifier: MacroTrendClassifier,
+  bars: OhlcBar[],
+  options?: MacroTrendOptions,
+): MacroTrendResult {
+  const breakout = computeMacroTrend(bars, options);
+  if (classifier === "breakout") return breakout;
+
+  const resolved = resolveMacroTrendOptions(options);
+  const { score, detail } =
+    bars.length >= 2
+      ? TREND_CLASSIFIERS[classifier].classify(bars, resolved)
+      : { score: 0, detail: "Not enough bars" };
+
+  return {
+    macroTrend: macroTrendFromScore(
+      score,
+      resolved.bullThreshold,
+      resolved.bearThreshold,
+    ),
+    latestTrendDay: breakout.latestTrendDay,
+    rollingScore: score,
+    diagnostics: { ...breakout.diagnostics, score, classifier, detail },
+  };
+}
+
+/** Every classifier's verdict on the same bars, in MACRO_TREND_CLASSIFIERS order */
+export function compareTrendClassifiers(
+  bars: OhlcBar[],
+  options?: MacroTrendOptions,
+): MacroTrendVerdict[] {
+  return MACRO_TREND_CLASSIFIERS.map((classifier) => {
+    const { macroTrend, rollingScore, diagnostics } = runTrendClassifier(
+      classifier,
+      bars,
+      options,
+    );
+    return {
+      classifier,
+      macroTrend,
+      score: rollingScore,
+      detail: diagnostics.detail,
+    };
+  });
+}
+
+/** Zod fields for the macro-trend ScanParams, shared by the scan and replay APIs */
+export const macroTrendParamsShape = {
+  macroBullThreshold: z
+    .number({ message: "macroBullThreshold must be a number" })
+    .gt(0, { message: "macroBullThreshold must be above 0" })
+    .max(1, { message: "macroBullThreshold must be at most 1" })
+    .optional(),
+  macroBearThreshold: z
+    .number({ message: "macroBearThreshold must be a number" })
+    .min(-1, { message: "macroBearThreshold must be at least -1" })
+    .lt(0, { message: "macroBearThreshold must be below 0" })
+    .optional(),
+  macroDominance: z
+    .enum(["window", "trend_days"], {
+      message: "macroDominance must be window or trend_days",
+    })
+    .optional(),
+  macroClassifier: z
+    .enum(MACRO_TREND_CLASSIFIERS, {
+      message: `macroClassifier must be one of ${MACRO_TREND_CLASSIFIERS.join(", ")}`,
+    })
+    .optional(),
+};
+
+export interface TrendOptions {
+  lookbackDays?: number;
+  atrWindow?: number;
+  /** Sessions in the macro-trend window */
+  trendLookback?: number;
+  macroBullThreshold?: number;
+  macroBearThreshold?: number;
+  macroDominance?: MacroDominanceRule;
+  /** Default CONFIG.macro_trend_classifier */
+  macroClassifier?: MacroTrendClassifier;
+}
 
-  return { macroTrend, latestTrendDay, rollingScore };
+/** The MacroTrendOptions part of classifyTrend options */
+export function macroTrendOptionsOf(options?: TrendOptions): MacroTrendOptions {
+  return {
+    window: options?.trendLookback,
+    bullThreshold: options?.macroBullThreshold,
+    bearThreshold: options?.macroBearThreshold,
+    dominance: options?.macroDominance,
+  };
 }
 
 export function classifyTrend(
   bars: OhlcBar[],
-  options?: {
-    lookbackDays?: number;
-    atrWindow?: number;
-    trendLookback?: number;
-  },
+  options?: TrendOptions,
 ): TrendAnalysis {
   const lookbackDays = options?.lookbackDays ?? CONFIG.lookback_days;
   const atrWindow = options?.atrWindow ?? 20;
-  const trendLookback = options?.trendLookback ?? CONFIG.trend_lookback;
-  const macroWindow = CONFIG.macro_trend_window;
+
+  const {
+    macroTrend,
+    latestTrendDay,
+    rollingScore,
+    diagnostics: macroTrendDiagnostics,
+  } = runTrendClassifier(
+    options?.macroClassifier ?? CONFIG.macro_trend_classifier,
+    bars,
+    macroTrendOptionsOf(options),
+  );
 
   if (bars.length < 2) {
     return {
@@ -124,13 +301,7 @@ export function classifyTrend(
       trendDay: "Neutral",
       macroTrendScore: 0,
       alignment: "Neutral",
-      macroTrendDiagnostics: {
-        bullDays: 0,
-        bearDays: 0,
-        totalTrendDays: 0,
-        dominanceThreshold: 0,
-        lookback: macroWindow,
-      },
+      macroTrendDiagnostics,
     };
   }
 
@@ -149,8 +320,6 @@ export function classifyTrend(
     pos = (lastClose - minLow) / (maxHigh - minLow);
   }
 
-  const { macroTrend, latestTrendDay, rollingScore } = computeMacroTrend(bars);
-
   const alignment = computeTrendAlignment(macroTrend, latestTrendDay);
 
   // Determine location (unchanged)
@@ -175,8 +344,6 @@ export function classifyTrend(
 
   const trend = macroTrend; // macro regime retained for backwards compatibility
 
-  const macroTrendDiagnostics = computeMacroTrendDiagnostics(bars, macroWindow);
-
   return {
     trend,
     location,
@@ -190,46 +357,6 @@ export function classifyTrend(
   };
 }
 
-function computeMacroTrendDiagnostics(
-  bars: OhlcBar[],
-  windowSize: number,
-): MacroTrendDiagnostics {
-  if (bars.length < 2) {
-    return {
-      bullDays: 0,
-      bearDays: 0,
-      totalTrendDays: 0,
-      dominanceThreshold: 0,
-      lookback: windowSize,
-    };
-  }
-
-  let bullDays = 0;
-  let bearDays = 0;
-
-  const startIndex = Math.max(1, bars.length - windowSize);
-  for (let i = startIndex; i < bars.length; i++) {
-    const prev = bars[i - 1];
-    const curr = bars[i];
-    const dayTrend = classifyTrendDay(prev, curr);
-    if (dayTrend === "Bull") bullDays++;
-    else if (dayTrend === "Bear") bearDays++;
-  }
-
-  const totalTrendDays = bullDays + bearDays;
-  const dominanceThreshold = Math.ceil(
-    windowSize * Math.max(CONFIG.macro_trend_bull_threshold, Math.abs(CONFIG.macro_trend_bear_threshold)),
-  );
-
-  return {
-    bullDays,
-    bearDays,
-    totalTrendDays,
-    dominanceThreshold,
-    lookback: windowSize,
-  };
-}
-
 function computeTrendAlignment(macro: MacroTrend, trendDay: TrendDayDirection): TrendAlignment {
   if (macro === "Bull" && trendDay === "Bull") return "AlignedLong";
   if (macro === "Bear" && trendDay === "Bear") return "AlignedShort";
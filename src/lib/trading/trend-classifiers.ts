@@ -0,0 +1,192 @@
+import type { MacroTrendClassifier, OhlcBar } from "./types";
+import { findSwingPoints } from "./liquidity";
+import type { MacroTrendOptions } from "./trend-analysis";
+
+/** Macro-trend options with every default filled in */
+export type ResolvedMacroTrendOptions = Required<MacroTrendOptions>;
+
+export interface TrendClassifierReading {
+  /** Signed regime strength, -1 (bear) .. 1 (bull) */
+  score: number;
+  /** What the score was read from, for tooltips and the comparison table */
+  detail: string;
+}
+
+/**
+ * A macro-regime model. `classify` scores the regime as of the last bar; the
+ * bull/bear thresholds are applied to the score by the caller, so every
+ * classifier is tuned with the same two settings.
+ */
+export interface TrendClassifier {
+  id: MacroTrendClassifier;
+  classify(
+    bars: OhlcBar[],
+    options: ResolvedMacroTrendOptions,
+  ): TrendClassifierReading;
+}
+
+/** Bars on each side a swing high/low must exceed */
+const SWING_STRENGTH = 2;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function formatSigned(value: number, digits = 2): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(digits)}`;
+}
+
+function trueRange(prev: OhlcBar, bar: OhlcBar): number {
+  return Math.max(
+    bar.high - bar.low,
+    Math.abs(bar.high - prev.close),
+    Math.abs(bar.low - prev.close),
+  );
+}
+
+function mean(values: number[]): number {
+  return values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : 0;
+}
+
+// ---------------------------------------------------------------------------
+// Moving-average slope
+// ---------------------------------------------------------------------------
+
+/**
+ * How far the simple moving average of the window's closes moved over the
+ * last quarter window, in ATRs of the same window (clamped to -1..1).
+ */
+export const maSlopeClassifier: TrendClassifier = {
+  id: "ma_slope",
+  classify(bars, { window }) {
+    const lag = Math.max(1, Math.round(window / 4));
+    const period = Math.min(window, bars.length - lag - 1);
+    if (period < 2) {
+      return { score: 0, detail: "Not enough bars for the moving average" };
+    }
+
+    const closes = bars.map((b) => b.close);
+    const smaNow = mean(closes.slice(-period));
+    const smaThen = mean(closes.slice(-period - lag, -lag));
+
+    const atrBars = bars.slice(-period - 1);
+    const atr = mean(
+      atrBars.slice(1).map((bar, i) => trueRange(atrBars[i], bar)),
+    );
+    const moveAtr = atr > 0 ? (smaNow - smaThen) / atr : 0;
+
+    return {
+      score: clamp(moveAtr, -1, 1),
+      detail: `SMA(${period}) moved ${formatSigned(moveAtr)} ATR over ${lag} sessions`,
+    };
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Swing structure
+// ---------------------------------------------------------------------------
+
+function swingPoints(bars: OhlcBar[], side: "high" | "low"): number[] {
+  return findSwingPoints(bars, side, {
+    left: SWING_STRENGTH,
+    right: SWING_STRENGTH,
+  }).map((i) => bars[i][side]);
+}
+
+/** Direction of the last swing against the one before it: 1, -1 or 0 */
+function lastSwingDirection(points: number[]): number {
+  if (points.length < 2) return 0;
+  return Math.sign(points[points.length - 1] - points[points.length - 2]);
+}
+
+function describeSwing(direction: number, side: "highs" | "lows"): string {
+  if (direction > 0) return `higher ${side}`;
+  if (direction < 0) return `lower ${side}`;
+  return `no new ${side}`;
+}
+
+/**
+ * Higher highs and higher lows inside the window score 1, lower highs and
+ * lower lows -1; one side confirming while the other is flat scores ±0.5.
+ */
+export const swingStructureClassifier: TrendClassifier = {
+  id: "swing_structure",
+  classify(bars, { window }) {
+    const windowBars = bars.slice(-window);
+    const highs = lastSwingDirection(swingPoints(windowBars, "high"));
+    const lows = lastSwingDirection(swingPoints(windowBars, "low"));
+    const detail = `${describeSwing(highs, "highs")}, ${describeSwing(lows, "lows")}`;
+
+    return {
+      score: (highs + lows) / 2,
+      detail: detail.charAt(0).toUpperCase() + detail.slice(1),
+    };
+  },
+};
+
+// ---------------------------------------------------------------------------
+// ADX directional strength
+// ---------------------------------------------------------------------------
+
+/** Wilder smoothing: a sum over the first period, then a running update */
+function wilderSmooth(values: number[], period: number): number[] {
+  if (values.length < period) return [];
+  let current = values.slice(0, period).reduce((sum, v) => sum + v, 0);
+  const smoothed = [current];
+  for (let i = period; i < values.length; i++) {
+    current = current - current / period + values[i];
+    smoothed.push(current);
+  }
+  return smoothed;
+}
+
+/**
+ * Wilder's ADX over the window: the sign of +DI - -DI times ADX / 100, so the
+ * default ±0.25 thresholds mean ADX 25 in the direction of the stronger DI.
+ */
+export const adxClassifier: TrendClassifier = {
+  id: "adx",
+  classify(bars, { window }) {
+    const period = Math.min(window, bars.length - 1);
+    if (period < 2) {
+      return { score: 0, detail: "Not enough bars for ADX" };
+    }
+
+    const plusDm: number[] = [];
+    const minusDm: number[] = [];
+    const ranges: number[] = [];
+    for (let i = 1; i < bars.length; i++) {
+      const up = bars[i].high - bars[i - 1].high;
+      const down = bars[i - 1].low - bars[i].low;
+      plusDm.push(up > down && up > 0 ? up : 0);
+      minusDm.push(down > up && down > 0 ? down : 0);
+      ranges.push(trueRange(bars[i - 1], bars[i]));
+    }
+
+    const smoothedTr = wilderSmooth(ranges, period);
+    const smoothedPlus = wilderSmooth(plusDm, period);
+    const smoothedMinus = wilderSmooth(minusDm, period);
+
+    let plusDi = 0;
+    let minusDi = 0;
+    const dx = smoothedTr.map((tr, i) => {
+      plusDi = tr > 0 ? (100 * smoothedPlus[i]) / tr : 0;
+      minusDi = tr > 0 ? (100 * smoothedMinus[i]) / tr : 0;
+      const total = plusDi + minusDi;
+      return total > 0 ? (100 * Math.abs(plusDi - minusDi)) / total : 0;
+    });
+
+    // ADX is the Wilder average of DX; short histories fall back to the mean
+    let adx = mean(dx.slice(0, period));
+    for (let i = period; i < dx.length; i++) {
+      adx = (adx * (period - 1) + dx[i]) / period;
+    }
+
+    return {
+      score: (Math.sign(plusDi - minusDi) * adx) / 100,
+      detail: `ADX ${adx.toFixed(1)}, +DI ${plusDi.toFixed(1)} vs -DI ${minusDi.toFixed(1)}`,
+    };
+  },
+};
@@ -4,15 +4,11 @@ import type {
   SweetspotState,
 } from "./pullback-analysis";
 
-// All supported symbols in the scanner
-export const SYMBOLS = [
-  "XAUUSD",
-  "EURUSD",
-  "GBPJPY",
-  "GBPUSD",
-] as const;
-
-export type SymbolCode = (typeof SYMBOLS)[number];
+/**
+ * Instrument code, e.g. "XAUUSD". Valid codes come from the instrument
+ * registry (built-ins plus instruments added in Settings), see instruments.ts.
+ */
+export type SymbolCode = string;
 
 export interface LivePriceError {
   code: "ENV_MISSING" | "HTTP_ERROR" | "PARSE_ERROR" | "NO_TICK";
@@ -27,32 +23,265 @@ export interface LivePriceSnapshot {
   error?: LivePriceError;
 }
 
+/** Backend that served a symbol's daily bars */
+export type OhlcProviderKind = "csv" | "db" | "synthetic" | "memory";
+
+export interface OhlcDataSource {
+  provider: OhlcProviderKind;
+  timeframe: Timeframe;
+  /** First and last bar of the window that was analysed */
+  firstDate: string;
+  lastDate: string;
+  bars: number;
+  /** Calendar days between the last bar and the scan date */
+  ageDays: number;
+  /** Last bar is too old for the scan date (missed sessions / stale export) */
+  stale: boolean;
+}
+
 // Scan request payload coming from the dashboard
 export interface ScanFilters {
   minRr?: number;
   spreadCap?: number;
+  /** What happens to candidates around high-impact news (default block) */
+  newsMode?: NewsFilterMode;
+  /** Minutes before / after a high-impact release that count as news risk */
+  newsMinutesBefore?: number;
+  newsMinutesAfter?: number;
+  /**
+   * Only keep candidates VALID while one of these sessions is open
+   * (latest-session scans; as-of scans and replays ignore it). Unset or
+   * empty: any time.
+   */
+  sessions?: TradingSession[];
+  /** What happens to candidates that stack correlated risk (default flag) */
+  correlationMode?: CorrelationMode;
+  /** Direction-adjusted return correlation from which risk counts as stacked */
+  maxCorrelation?: number;
+}
+
+/**
+ * Candidates whose risk moves with a better candidate on another symbol are
+ * FILTERED ("filter"), kept VALID but tagged ("flag"), or left alone ("off").
+ */
+export const CORRELATION_MODES = ["flag", "filter", "off"] as const;
+
+export type CorrelationMode = (typeof CORRELATION_MODES)[number];
+
+/** Pairwise correlation of daily log returns between the scanned symbols */
+export interface CorrelationMatrix {
+  symbols: SymbolCode[];
+  /** values[i][j] for symbols[i] and symbols[j]; null with too little shared history */
+  values: (number | null)[][];
+  /** Returns per pair, at most */
+  window: number;
+}
+
+/** Net risk on one currency across the VALID candidates, in percent of the balance */
+export interface CurrencyExposure {
+  currency: string;
+  long: number;
+  short: number;
+  /** long − short */
+  net: number;
+}
+
+/** Candidate whose risk another one would stack on */
+export interface CorrelatedRisk {
+  symbol: SymbolCode;
+  model: TradeCandidate["model"];
+  direction: TradeCandidate["direction"];
+  /** Return correlation, negated when the two trades face opposite ways */
+  correlation: number;
 }
 
+export interface ExposureSummary {
+  mode: CorrelationMode;
+  maxCorrelation: number;
+  correlation: CorrelationMatrix;
+  currencies: CurrencyExposure[];
+  /** Candidates tagged `correlatedWith` */
+  stackedCount: number;
+}
+
+export const TRADING_SESSIONS = ["asia", "london", "new_york"] as const;
+
+export type TradingSession = (typeof TRADING_SESSIONS)[number];
+
+export const TRADING_SESSION_LABELS: Record<TradingSession, string> = {
+  asia: "Asia",
+  london: "London",
+  new_york: "New York",
+};
+
+/** One session of the current trading day, with its range so far */
+export interface SessionWindow {
+  session: TradingSession;
+  /** ISO timestamps (UTC) */
+  start: string;
+  end: string;
+  status: "upcoming" | "open" | "closed";
+  /** High/low of the H1 bars opened in the session; null without any */
+  high: number | null;
+  low: number | null;
+}
+
+/** Where the scan sits in the trading day */
+export interface SessionContext {
+  /** ISO timestamp (UTC) the context was built for */
+  at: string;
+  /** Sessions open at `at` (London and New York overlap) */
+  current: TradingSession[];
+  sessions: SessionWindow[];
+  /** Next daily close (17:00 New York) */
+  dailyClose: string;
+  minutesToDailyClose: number;
+  /** Broker server time offset from UTC at `at`, in hours */
+  serverUtcOffset: number;
+  /** Whether the session filter lets candidates through; absent without one */
+  allowed?: boolean;
+}
+
+/**
+ * Candidates inside a high-impact news window are FILTERED ("block"), kept
+ * on the card but no longer actionable ("downgrade"), or left alone ("off").
+ */
+export const NEWS_FILTER_MODES = ["block", "downgrade", "off"] as const;
+
+export type NewsFilterMode = (typeof NEWS_FILTER_MODES)[number];
+
+export type EventImpact = "low" | "medium" | "high";
+
+/** One release of an economic calendar */
+export interface EconomicEvent {
+  id: string;
+  /** ISO timestamp (UTC) of the release */
+  time: string;
+  /** ISO currency the release moves, e.g. "USD" */
+  currency: string;
+  title: string;
+  impact: EventImpact;
+}
+
+/** Calendar releases relevant to a symbol at scan time */
+export interface SymbolNewsContext {
+  mode: NewsFilterMode;
+  /** Releases for the symbol's currencies in the next CONFIG.news_horizon_hours */
+  upcoming: EconomicEvent[];
+  /** High-impact releases whose window contains the scan time */
+  active: EconomicEvent[];
+  /** Candidates were FILTERED because of `active` */
+  blocked: boolean;
+}
+
+/**
+ * What the macro-trend score is measured against: every session in the
+ * window ("window") or only its trend days ("trend_days"), so quiet sessions
+ * do not dilute the lead of the dominant side.
+ */
+export type MacroDominanceRule = "window" | "trend_days";
+
+/**
+ * Models that read the macro regime from daily bars: breakout-close counts,
+ * moving-average slope, swing highs/lows and ADX directional strength.
+ */
+export const MACRO_TREND_CLASSIFIERS = [
+  "breakout",
+  "ma_slope",
+  "swing_structure",
+  "adx",
+] as const;
+
+export type MacroTrendClassifier = (typeof MACRO_TREND_CLASSIFIERS)[number];
+
+export const MACRO_TREND_CLASSIFIER_LABELS: Record<MacroTrendClassifier, string> = {
+  breakout: "Breakout closes",
+  ma_slope: "MA slope",
+  swing_structure: "Swing structure",
+  adx: "ADX",
+};
+
 export interface ScanParams {
   atrWindow?: number;
   structureLookback?: number;
+  /** Sessions in the macro-trend window */
   trendLookback?: number;
   pullbackWindow?: number;
+  /** Score at or above which the macro trend is Bull (0..1) */
+  macroBullThreshold?: number;
+  /** Score at or below which the macro trend is Bear (-1..0) */
+  macroBearThreshold?: number;
+  macroDominance?: MacroDominanceRule;
+  /** Classifier that picks the macro trend (default breakout) */
+  macroClassifier?: MacroTrendClassifier;
+  /** Default raw */
+  liquidityMode?: LiquidityMode;
+  /** Bars left/right of a swing point it must exceed (swing mode) */
+  swingLeft?: number;
+  swingRight?: number;
+  /**
+   * Enter from fresh zones only, falling back to tested and flipped ones when
+   * none is fresh; broken zones are skipped
+   */
+  preferFreshZones?: boolean;
+  /**
+   * Broker server time in hours from UTC, used to read intraday bar times.
+   * Unset or null: the New York close convention (UTC+2, UTC+3 while New
+   * York observes DST), which most MetaTrader brokers use.
+   */
+  serverUtcOffset?: number | null;
+  /** Weights of the zone score components (unset ones keep the CONFIG weight) */
+  zoneWeights?: Partial<ZoneScoreWeights>;
+  /** Sessions after which a touch counts half towards the recency score */
+  zoneRecencyHalfLife?: number;
 }
 
 export interface ScanOptions {
   symbols?: SymbolCode[];
   filters?: ScanFilters;
   params?: ScanParams;
+  /** Scan as of this session (yyyy-mm-dd); later bars are ignored */
   date?: string;
+  /** Timeframe zones and trend are computed on (default D1) */
+  timeframe?: Timeframe;
+  /**
+   * Per-symbol timeframes to scan. The first one fills `ScanResponse.symbols`,
+   * the rest are returned in `ScanResponse.stacked`.
+   */
+  timeframes?: Partial<Record<SymbolCode, Timeframe[]>>;
+  /**
+   * Manual overrides of the latest 1h close. Without one, D1 scans take the
+   * running session from the H1 series when it is available.
+   */
   manualCloses?: Partial<
     Record<SymbolCode, { enabled: boolean; close?: number }>
   >;
+  /**
+   * Zones tracked by earlier scans. Their lifecycle continues from where it
+   * stopped; without them it is rebuilt from the bars of the scan.
+   */
+  trackedZones?: TrackedZone[];
+}
+
+/**
+ * The current session's daily bar so far, aggregated from H1 bars: open of the
+ * first hour, running high/low, close of the latest hour.
+ */
+export interface PartialDailyBar extends OhlcBar {
+  /** Open time ("yyyy-mm-dd HH:MM") of the latest H1 bar included */
+  lastHour: string;
+  /** Number of H1 bars aggregated */
+  hourlyBars: number;
 }
 
-// Single OHLC bar (daily in your current setup)
+/** Bar timeframes the loaders and engine understand */
+export const TIMEFRAMES = ["D1", "H4", "H1"] as const;
+
+export type Timeframe = (typeof TIMEFRAMES)[number];
+
+// Single OHLC bar of any timeframe
 export interface OhlcBar {
-  date: string; // ISO yyyy-mm-dd (UTC is fine)
+  date: string; // ISO yyyy-mm-dd for daily bars, "yyyy-mm-dd HH:MM" (bar open) intraday
   open: number;
   high: number;
   low: number;
@@ -73,19 +302,123 @@ export interface OcZone {
   // Optional semantic tag if you start classifying zones
   // e.g. "Demand", "Supply", "Resistance", etc.
   zone_type?: string;
+  /** Lifecycle of the zone, set by the engine (see TrackedZone) */
+  id?: string;
+  state?: ZoneState;
+  touches?: number;
+  firstFormed?: string;
+  lastTested?: string | null;
+  /** Weighted components adding up to `score` */
+  scoreBreakdown?: ZoneScoreBreakdown;
+}
+
+export const ZONE_SCORE_COMPONENTS = [
+  "touches",
+  "volume",
+  "recency",
+  "rejection",
+  "confluence",
+] as const;
+
+export type ZoneScoreComponent = (typeof ZONE_SCORE_COMPONENTS)[number];
+
+/**
+ * Raw zone score components, each multiplied by its weight:
+ *  - touches: 2 per close and 1 per open inside the zone
+ *  - volume: tick volume of the bars opening or closing inside the zone,
+ *    relative to the window average (1 per average bar)
+ *  - recency: the touch points decayed by age, halving every
+ *    `zoneRecencyHalfLife` sessions
+ *  - rejection: wick share of the range of bars that poked into the zone and
+ *    closed back out with their body clear of it
+ *  - confluence: 1 for each of the prior day's high and low inside the zone
+ */
+export type ZoneScoreWeights = Record<ZoneScoreComponent, number>;
+
+export type ZoneScoreBreakdown = Record<ZoneScoreComponent, number>;
+
+export const ZONE_SCORE_COMPONENT_LABELS: Record<ZoneScoreComponent, string> = {
+  touches: "Touches",
+  volume: "Tick volume",
+  recency: "Recency",
+  rejection: "Wick rejection",
+  confluence: "PDH/PDL confluence",
+};
+
+/**
+ * Where a zone is in its life: untouched since it formed, revisited, closed
+ * through, or broken and then rejected from the other side.
+ */
+export const ZONE_STATES = ["fresh", "tested", "broken", "flipped"] as const;
+
+export type ZoneState = (typeof ZONE_STATES)[number];
+
+/** Demand zones sit below price and support it, supply zones above */
+export type ZoneRole = "Demand" | "Supply";
+
+export interface ZoneEvent {
+  /** Bar the event happened on */
+  date: string;
+  kind: "formed" | "tested" | "broken" | "flipped";
+}
+
+/** A zone followed across scans; stored per symbol and timeframe */
+export interface TrackedZone {
+  id: string;
+  symbol: SymbolCode;
+  timeframe: Timeframe;
+  zone_low: number;
+  zone_high: number;
+  role: ZoneRole;
+  state: ZoneState;
+  /** Bars that traded into the zone after it formed */
+  touches: number;
+  firstFormed: string;
+  lastTested: string | null;
+  /** Last bar folded into the lifecycle */
+  lastBar: string;
+  /** Latest events, oldest first */
+  history: ZoneEvent[];
+}
+
+/**
+ * Where stops and targets look for liquidity: every bar's high/low ("raw") or
+ * confirmed swing points and equal-highs/lows pools that are not swept yet
+ * ("swing").
+ */
+export type LiquidityMode = "raw" | "swing";
+
+export interface LiquidityLevel {
+  price: number;
+  side: "high" | "low";
+  /** A bar's high/low, a swing point, or a pool of equal highs/lows */
+  kind: "bar" | "swing" | "equal";
+  /** Bar the level was set on (the latest member for pools) */
+  date: string;
+  /** Swing points in the pool; 1 for single levels */
+  touches: number;
+  /** A later bar traded through the level */
+  swept: boolean;
 }
 
 // Map of highs/lows used for liquidity sweep logic
 export interface LiquidityMap {
-  highs: number[]; // all daily highs
-  lows: number[]; // all daily lows
+  highs: number[]; // level prices stops and targets are taken from
+  lows: number[];
+  mode?: LiquidityMode;
+  /** Every detected level, swept ones included (absent on hand-built maps) */
+  levels?: LiquidityLevel[];
 }
 
 // Single trade candidate generated by the engine
 export type PlacementKind = "MARKET" | "PENDING_LIMIT";
 
+export const TRADE_MODELS = ["A", "B", "C1", "C2", "D"] as const;
+
+export type TradeModel = (typeof TRADE_MODELS)[number];
+
 export interface TradeCandidate {
-  model: "A" | "B" | "C1" | "C2" | "D";
+  model: TradeModel;
   direction: "Long" | "Short";
   entry: number;
   stop: number;
@@ -95,7 +428,76 @@ export interface TradeCandidate {
   rr: number;
   status: "VALID" | "FILTERED";
   stopType?: "Swing" | "PD";
+  /** Liquidity level behind a Swing stop */
+  stopLevel?: LiquidityLevel;
+  /** Liquidity level tp1 was taken from */
+  targetLevel?: LiquidityLevel;
   placement?: PlacementKind;
+  /** Lot size and money at stake for the account profile (scan route only) */
+  sizing?: PositionSizing;
+  /** Target ladder starting at tp1, with partial exits and break-even rule */
+  exitPlan?: ExitPlan;
+  /** High-impact release the candidate was blocked or downgraded for */
+  newsEvent?: EconomicEvent;
+  /** FILTERED because none of the allowed sessions was open */
+  offSession?: boolean;
+  /** Stacks correlated risk on this better candidate (flagged or FILTERED) */
+  correlatedWith?: CorrelatedRisk;
+}
+
+export interface TakeProfitTarget {
+  label: "TP1" | "TP2" | "TP3";
+  price: number;
+  /** Prior daily high/low, or the near edge of an opposing O/C zone */
+  source: "liquidity" | "zone";
+  rr: number;
+  /** Share of the position closed at this target, in percent */
+  exitPercent: number;
+}
+
+export interface ExitPlan {
+  targets: TakeProfitTarget[];
+  /** R:R of the whole position when every target fills (exit-weighted) */
+  blendedRr: number;
+  /** Target after which the stop moves to entry; null with a single target */
+  breakEvenAfter: TakeProfitTarget["label"] | null;
+}
+
+/** Trading account the scan sizes positions for */
+export interface AccountProfile {
+  balance: number;
+  /** ISO currency code of the balance, e.g. "USD" */
+  currency: string;
+  /** Balance risked per trade, in percent */
+  riskPercent: number;
+  /** Cap on the combined risk of all VALID candidates, in percent */
+  maxOpenRiskPercent: number;
+}
+
+export interface PositionSizing {
+  /** Rounded down to the instrument's lot step; 0 when below its minimum lot */
+  lots: number;
+  /** Money lost at the stop / made at TP1, in the account currency */
+  riskAmount: number;
+  rewardAmount: number;
+  /** riskAmount as a percent of the balance */
+  riskPercent: number;
+  currency: string;
+  /** Account currency per unit of the instrument's quote currency */
+  conversionRate: number;
+  /** Even the minimum lot would risk more than the per-trade budget */
+  belowMinLot?: boolean;
+}
+
+/** Combined risk of the scan's VALID candidates against the account cap */
+export interface OpenRiskSummary {
+  riskAmount: number;
+  riskPercent: number;
+  capPercent: number;
+  exceeded: boolean;
+  currency: string;
+  /** Symbols whose quote currency could not be converted to the account's */
+  unsized: SymbolCode[];
 }
 
 export interface CandidateCondition {
@@ -116,10 +518,29 @@ export interface MacroTrendDiagnostics {
   bearDays: number;
   /** Total non-neutral trend days evaluated */
   totalTrendDays: number;
-  /** Minimum dominant side count required to call a macro trend */
+  /** Lead over the other side (in trend days) the leading side needs */
   dominanceThreshold: number;
   /** Lookback window (in sessions) used for the calculation */
   lookback: number;
+  /**
+   * Score of the classifier, -1..1; for breakout (bullDays - bearDays) over
+   * the sessions or trend days counted
+   */
+  score: number;
+  bullThreshold: number;
+  bearThreshold: number;
+  dominance: MacroDominanceRule;
+  classifier: MacroTrendClassifier;
+  /** Reading behind the score, e.g. "ADX 31.2, +DI 27.5 vs -DI 14.1" */
+  detail: string;
+}
+
+/** One classifier's macro trend for a symbol, for comparing classifiers */
+export interface MacroTrendVerdict {
+  classifier: MacroTrendClassifier;
+  macroTrend: "Bull" | "Bear" | "Neutral";
+  score: number;
+  detail: string;
 }
 
 // Live price vs nearest zone snapshot for UI / decision support
@@ -133,6 +554,7 @@ export interface NearestZoneInfo {
   zone_mid: number;
   score: number;
   zone_type?: string; // if present on OcZone
+  scoreBreakdown?: ZoneScoreBreakdown;
 
   /** Absolute distance in price units (from spot to zone_mid) */
   distance: number;
@@ -148,9 +570,30 @@ export interface NearestZoneInfo {
 }
 
 // Per-symbol scan result
+/** Daily structure an intraday scan is read against */
+export interface DailyStructureContext {
+  macroTrend: SymbolScanResult["macroTrend"];
+  trendDay: SymbolScanResult["trendDay"];
+  alignment: SymbolScanResult["alignment"];
+  location: SymbolScanResult["location"];
+  atr20: number;
+  zones: OcZone[];
+  /** Last completed daily bar the context was built from */
+  lastDate: string;
+}
+
 export interface SymbolScanResult {
   kind: "ok";
   symbol: SymbolCode;
+  /** Timeframe of the bars behind zones/trend (absent on older stored scans = D1) */
+  timeframe?: Timeframe;
+  /** Daily trend, location and zones, set on H4/H1 scans */
+  dailyStructure?: DailyStructureContext;
+  /**
+   * Every zone followed for this symbol and timeframe, including those no
+   * longer among the top zones
+   */
+  trackedZones?: TrackedZone[];
   trend: "Bull" | "Bear" | "Neutral"; // macro regime
   macroTrend: "Bull" | "Bear" | "Neutral"; // alias for clarity
   latestTrendDay: "Bull" | "Bear" | "Neutral";
@@ -158,6 +601,11 @@ export interface SymbolScanResult {
   macroTrendScore: number;
   /** Breakdown of bullish vs bearish trend days used to pick macroTrend */
   macroTrendDiagnostics?: MacroTrendDiagnostics;
+  /**
+   * Every classifier's macro trend on the same bars and thresholds (absent
+   * on older stored scans)
+   */
+  macroTrendComparison?: MacroTrendVerdict[];
   /** Alias for latest trend day (kept for UI backwards compatibility) */
   trendDay: "Bull" | "Bear" | "Neutral";
   alignment:
@@ -182,6 +630,9 @@ export interface SymbolScanResult {
 
   sweetspotState?: SweetspotState | null;
 
+  /** High/low of the current session so far (streamed ticks extend it) */
+  sessionRange?: { high: number; low: number };
+
   pullbackScenarioStats?: PullbackScenarioStats[];
 
   /** Simplified pullback summary for sweet-spot evaluation */
@@ -195,11 +646,27 @@ export interface SymbolScanResult {
 
   /** Checklist of filters explaining why a symbol is or isn't a candidate */
   candidateDiagnostics?: CandidateDiagnostics;
+
+  /** Economic calendar around the scan (latest-session scans only) */
+  news?: SymbolNewsContext;
+
+  /** Trading sessions at scan time; ranges need the H1 series */
+  sessionContext?: SessionContext;
+
+  /** Where the daily bars behind this result came from */
+  dataSource?: OhlcDataSource;
+
+  /**
+   * Today's bar built from H1 data, used for the live pullback depth and
+   * sweet-spot state when no manual close overrides it
+   */
+  partialDailyBar?: PartialDailyBar;
 }
 
 export interface SymbolScanError {
   kind: "error";
   symbol: SymbolCode;
+  timeframe?: Timeframe;
   error: string;
 }
 
@@ -207,8 +674,17 @@ export type SymbolScanEntry = SymbolScanResult | SymbolScanError;
 
 // Top-level scan response returned by /api/scan
 export interface ScanResponse {
-  date: string; // echo of query param or today
+  date: string; // as-of session from the query param, or today
   symbols: Partial<Record<SymbolCode, SymbolScanEntry>>;
+  /** Additional timeframes per symbol when `ScanOptions.timeframes` stacks them */
+  stacked?: Partial<Record<SymbolCode, SymbolScanEntry[]>>;
+  /** Id of the persisted scan run (absent if it could not be stored) */
+  runId?: string;
+  /** Account the candidates were sized for, and their combined risk */
+  account?: AccountProfile;
+  openRisk?: OpenRiskSummary;
+  /** Return correlations and net currency exposure across the symbols */
+  exposure?: ExposureSummary;
 }
 
 export function isSymbolScanError(
@@ -217,32 +693,56 @@ export function isSymbolScanError(
   return !!entry && entry.kind === "error";
 }
 
+/**
+ * A candidate to act on: VALID and not downgraded for a high-impact release.
+ * Only these count as open risk and correlated exposure, are paper-placed
+ * and fire alerts.
+ */
+export function isActionableCandidate(
+  trade: Pick<TradeCandidate, "status" | "newsEvent">,
+): boolean {
+  return trade.status === "VALID" && !trade.newsEvent;
+}
+
+/**
+ * An as-of scan of a past session (UTC date). A scan dated today is read
+ * like a latest-session scan: live quotes, news and session filters apply.
+ */
+export function isHistoricalScan(
+  options: Pick<ScanOptions, "date"> | undefined,
+  now: Date = new Date(),
+): boolean {
+  return !!options?.date && options.date < now.toISOString().slice(0, 10);
+}
+
 // Static configuration for the scanner
 export const CONFIG = {
   lookback_days: 20, // window for zones & liquidity
-  trend_lookback: 10, // days to classify trend
-  macro_trend_window: 20, // number of completed days in the rolling window
+  trend_lookback: 20, // completed days in the macro-trend window
   macro_trend_bull_threshold: 0.25, // min avg score for Bull regime
   macro_trend_bear_threshold: -0.25, // max avg score for Bear regime
-  risk_cap: {
-    XAUUSD: 40.0, // ≈ $40 between Entry and SL
-    EURUSD: 0.0040, // 40 pips (0.0040 in price)
-    GBPJPY: 0.0040, // 40 pips (0.0040 in price) - JPY pairs
-    GBPUSD: 0.0040, // 40 pips (0.0040 in price)
-  } as Record<SymbolCode, number>,
+  macro_trend_dominance: "window" as MacroDominanceRule,
+  macro_trend_classifier: "breakout" as MacroTrendClassifier,
+  liquidity_mode: "raw" as LiquidityMode,
+  swing_strength: 2, // bars each side of a swing point
+  equal_level_tolerance_atr: 0.1, // swing highs/lows this close form a pool
+  // Zone score weights; the defaults score touches only (2 per close, 1 per open)
+  zone_score_weights: {
+    touches: 1,
+    volume: 0,
+    recency: 0,
+    rejection: 0,
+    confluence: 0,
+  } as ZoneScoreWeights,
+  zone_recency_half_life: 5, // sessions
+  news_minutes_before: 30, // high-impact news window around a release
+  news_minutes_after: 30,
+  news_horizon_hours: 48, // upcoming releases listed per symbol
+  correlation_window: 60, // daily returns per correlation
+  max_correlation: 0.7, // direction-adjusted correlation that stacks risk
   min_rr: 2.0, // minimum Reward:Risk
-  oc_cluster_radius: {
-    XAUUSD: 5.0, // $5 band for clustering O/C
-    EURUSD: 0.0005, // 5 pips
-    GBPJPY: 0.0005, // 5 pips - JPY pairs
-    GBPUSD: 0.0005, // 5 pips
-  } as Record<SymbolCode, number>,
-  sl_buffer: {
-    XAUUSD: 2.0, // $2 beyond low/high or PDL/PDH
-    EURUSD: 0.0005, // 5 pips
-    GBPJPY: 0.0005, // 5 pips - JPY pairs
-    GBPUSD: 0.0005, // 5 pips
-  } as Record<SymbolCode, number>,
+  // Per-instrument risk cap, O/C cluster radius and SL buffer live in the
+  // instrument registry (instruments.ts)
   pullback_history_window: 60,
   pullback_lookback_days: 60,
 };
@@ -0,0 +1,205 @@
+import { z } from "zod";
+import type {
+  OcZone,
+  OhlcBar,
+  SymbolCode,
+  Timeframe,
+  TrackedZone,
+  ZoneEvent,
+  ZoneRole,
+  ZoneState,
+} from "./types";
+
+/** Events kept per zone; older ones are dropped */
+const MAX_HISTORY = 20;
+
+/** Zod fields for the zone ScanParams, shared by the scan and replay APIs */
+export const zoneParamsShape = {
+  preferFreshZones: z
+    .boolean({ message: "preferFreshZones must be a boolean" })
+    .optional(),
+};
+
+function overlaps(
+  a: Pick<OcZone, "zone_low" | "zone_high">,
+  b: Pick<OcZone, "zone_low" | "zone_high">,
+): boolean {
+  return a.zone_low <= b.zone_high && b.zone_low <= a.zone_high;
+}
+
+function withEvent(zone: TrackedZone, event: ZoneEvent): TrackedZone {
+  return { ...zone, history: [...zone.history, event].slice(-MAX_HISTORY) };
+}
+
+function opposite(role: ZoneRole): ZoneRole {
+  return role === "Demand" ? "Supply" : "Demand";
+}
+
+/**
+ * Fold one bar into a zone's lifecycle. A bar reaching into an intact zone
+ * is a touch (fresh → tested); a close through its far side breaks it. A
+ * broken zone that price comes back to and closes away from again has
+ * flipped to the opposite role.
+ */
+export function applyZoneBar(zone: TrackedZone, bar: OhlcBar): TrackedZone {
+  const isDemand = zone.role === "Demand";
+  const closedBelow = bar.close < zone.zone_low;
+  const closedAbove = bar.close > zone.zone_high;
+  const next = { ...zone, lastBar: bar.date };
+
+  if (zone.state === "broken") {
+    // Price is on the far side: a demand zone broken downwards is retested
+    // from below and must reject it with a close below
+    const retested = isDemand ? bar.high >= zone.zone_low : bar.low <= zone.zone_high;
+    const rejected = isDemand ? closedBelow : closedAbove;
+    if (!retested || !rejected) return next;
+
+    return withEvent(
+      {
+        ...next,
+        role: opposite(zone.role),
+        state: "flipped",
+        touches: zone.touches + 1,
+        lastTested: bar.date,
+      },
+      { date: bar.date, kind: "flipped" },
+    );
+  }
+
+  if (isDemand ? closedBelow : closedAbove) {
+    return withEvent({ ...next, state: "broken" }, { date: bar.date, kind: "broken" });
+  }
+
+  const reached = isDemand ? bar.low <= zone.zone_high : bar.high >= zone.zone_low;
+  if (!reached) return next;
+
+  return withEvent(
+    {
+      ...next,
+      state: zone.state === "fresh" ? "tested" : zone.state,
+      touches: zone.touches + 1,
+      lastTested: bar.date,
+    },
+    { date: bar.date, kind: "tested" },
+  );
+}
+
+/**
+ * Lifecycle of a zone seen for the first time, rebuilt from `bars`: it forms
+ * on the first bar opening or closing inside it, takes its role from the
+ * first later close outside it (above: demand, below: supply) and is then
+ * replayed bar by bar.
+ */
+export function startZoneLifecycle(
+  symbol: SymbolCode,
+  timeframe: Timeframe,
+  zone: OcZone,
+  bars: OhlcBar[],
+): TrackedZone {
+  const inside = (price: number) => price >= zone.zone_low && price <= zone.zone_high;
+  const formedIndex = Math.max(
+    0,
+    bars.findIndex((b) => inside(b.open) || inside(b.close)),
+  );
+  const formed = bars[formedIndex]?.date ?? "";
+
+  let roleIndex = formedIndex + 1;
+  while (roleIndex < bars.length && inside(bars[roleIndex].close)) roleIndex++;
+
+  const lastClose = bars[bars.length - 1]?.close ?? zone.zone_mid;
+  const roleBar = bars[roleIndex];
+  const role: ZoneRole = roleBar
+    ? roleBar.close > zone.zone_high
+      ? "Demand"
+      : "Supply"
+    : lastClose >= zone.zone_mid
+      ? "Demand"
+      : "Supply";
+
+  const start: TrackedZone = {
+    id: `${symbol}:${timeframe}:${formed}:${zone.zone_mid.toPrecision(6)}`,
+    symbol,
+    timeframe,
+    zone_low: zone.zone_low,
+    zone_high: zone.zone_high,
+    role,
+    state: "fresh",
+    touches: 0,
+    firstFormed: formed,
+    lastTested: null,
+    lastBar: (roleBar ?? bars[bars.length - 1])?.date ?? formed,
+    history: [{ date: formed, kind: "formed" }],
+  };
+
+  return bars.slice(roleIndex + 1).reduce(applyZoneBar, start);
+}
+
+/**
+ * Carry the tracked zones of a symbol and timeframe forward to the latest
+ * bar and attach their lifecycle to the scan's zones. Scan zones overlapping
+ * a tracked zone keep its identity; new ones start a lifecycle from the
+ * bars. Tracked zones no scan zone matched are kept while anything happened
+ * to them within `bars`.
+ */
+export function trackZones(
+  symbol: SymbolCode,
+  timeframe: Timeframe,
+  zones: OcZone[],
+  bars: OhlcBar[],
+  tracked: TrackedZone[] = [],
+): { zones: OcZone[]; tracked: TrackedZone[] } {
+  const advanced = tracked
+    .filter((t) => t.symbol === symbol && t.timeframe === timeframe)
+    .map((t) => bars.filter((b) => b.date > t.lastBar).reduce(applyZoneBar, t));
+
+  const matched = new Set<string>();
+  const annotated = zones.map((zone) => {
+    let lifecycle = advanced.find((t) => !matched.has(t.id) && overlaps(t, zone));
+    if (!lifecycle) {
+      lifecycle = startZoneLifecycle(symbol, timeframe, zone, bars);
+      advanced.push(lifecycle);
+    }
+    matched.add(lifecycle.id);
+
+    return {
+      ...zone,
+      zone_type: lifecycle.role,
+      id: lifecycle.id,
+      state: lifecycle.state,
+      touches: lifecycle.touches,
+      firstFormed: lifecycle.firstFormed,
+      lastTested: lifecycle.lastTested,
+    };
+  });
+
+  const windowStart = bars[0]?.date ?? "";
+  return {
+    zones: annotated,
+    tracked: advanced.filter(
+      (t) =>
+        matched.has(t.id) ||
+        (t.history[t.history.length - 1]?.date ?? "") >= windowStart,
+    ),
+  };
+}
+
+const STATE_PREFERENCE: Record<ZoneState, number> = {
+  fresh: 0,
+  tested: 1,
+  flipped: 1,
+  broken: 2,
+};
+
+/**
+ * Zones the models may enter from. With `preferFresh`, only the fresh ones,
+ * or the tested and flipped ones when no zone is fresh; zones without a
+ * lifecycle count as fresh.
+ */
+export function selectTradeZones(zones: OcZone[], preferFresh?: boolean): OcZone[] {
+  if (!preferFresh) return zones;
+
+  const rank = (zone: OcZone) => STATE_PREFERENCE[zone.state ?? "fresh"];
+  const usable = zones.filter((zone) => rank(zone) < STATE_PREFERENCE.broken);
+  const best = Math.min(...usable.map(rank));
+  return usable.filter((zone) => rank(zone) === best);
+}
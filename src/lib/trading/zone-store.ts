@@ -0,0 +1,93 @@
+import { db } from "@/lib/db";
+import {
+  isSymbolScanError,
+  type ScanResponse,
+  type SymbolCode,
+  type Timeframe,
+  type TrackedZone,
+  type ZoneRole,
+  type ZoneState,
+} from "./types";
+
+type TrackedZoneRow = Awaited<
+  ReturnType<typeof db.trackedZone.findMany>
+>[number];
+
+function toTrackedZone(row: TrackedZoneRow): TrackedZone {
+  return {
+    id: row.id,
+    symbol: row.symbol as SymbolCode,
+    timeframe: row.timeframe as Timeframe,
+    zone_low: row.zoneLow,
+    zone_high: row.zoneHigh,
+    role: row.role as ZoneRole,
+    state: row.state as ZoneState,
+    touches: row.touches,
+    firstFormed: row.firstFormed,
+    lastTested: row.lastTested,
+    lastBar: row.lastBar,
+    history: JSON.parse(row.history),
+  };
+}
+
+/** Tracked zones, optionally of some symbols / one timeframe, newest first */
+export async function listTrackedZones(filter?: {
+  symbols?: SymbolCode[];
+  timeframe?: Timeframe;
+}): Promise<TrackedZone[]> {
+  const rows = await db.trackedZone.findMany({
+    where: {
+      ...(filter?.symbols ? { symbol: { in: filter.symbols } } : {}),
+      ...(filter?.timeframe ? { timeframe: filter.timeframe } : {}),
+    },
+    orderBy: [{ symbol: "asc" }, { firstFormed: "desc" }],
+  });
+  return rows.map(toTrackedZone);
+}
+
+/**
+ * Replace the stored zones of every symbol and timeframe in the scan with the
+ * ones it tracked; zones the scan dropped are deleted.
+ */
+export async function saveTrackedZones(scan: ScanResponse): Promise<void> {
+  const entries = Object.values(scan.symbols).flatMap((entry) =>
+    entry ? [entry, ...(scan.stacked?.[entry.symbol] ?? [])] : [],
+  );
+
+  await db.$transaction(
+    entries.flatMap((entry) => {
+      if (isSymbolScanError(entry) || !entry.trackedZones) return [];
+      const zones = entry.trackedZones;
+
+      return [
+        db.trackedZone.deleteMany({
+          where: {
+            symbol: entry.symbol,
+            timeframe: entry.timeframe ?? "D1",
+            id: { notIn: zones.map((zone) => zone.id) },
+          },
+        }),
+        ...zones.map((zone) => {
+          const data = {
+            symbol: zone.symbol,
+            timeframe: zone.timeframe,
+            zoneLow: zone.zone_low,
+            zoneHigh: zone.zone_high,
+            role: zone.role,
+            state: zone.state,
+            touches: zone.touches,
+            firstFormed: zone.firstFormed,
+            lastTested: zone.lastTested,
+            lastBar: zone.lastBar,
+            history: JSON.stringify(zone.history),
+          };
+          return db.trackedZone.upsert({
+            where: { id: zone.id },
+            create: { id: zone.id, ...data },
+            update: data,
+          });
+        }),
+      ];
+    }),
+  );
+}
@@ -1,4 +1,49 @@
-import { OhlcBar, OcZone, LiquidityMap, SymbolCode, CONFIG } from './types';
+import { z } from 'zod';
+import {
+  OhlcBar,
+  OcZone,
+  SymbolCode,
+  CONFIG,
+  ZONE_SCORE_COMPONENTS,
+  ZoneScoreBreakdown,
+  ZoneScoreWeights,
+} from './types';
+import { getInstrument } from './instruments';
+
+export interface ZoneScoreOptions {
+  /** Unset weights fall back to CONFIG.zone_score_weights */
+  weights?: Partial<ZoneScoreWeights>;
+  /** Sessions after which a touch counts half (recency component) */
+  recencyHalfLife?: number;
+  /** How far outside the zone the prior day's high/low still counts */
+  confluenceTolerance?: number;
+}
+
+const zoneWeight = (name: string) =>
+  z
+    .number({ message: `zoneWeights.${name} must be a number` })
+    .min(0, { message: `zoneWeights.${name} must not be negative` })
+    .max(10, { message: `zoneWeights.${name} must be at most 10` })
+    .optional();
+
+/** Zod fields for the zone score ScanParams, shared by the scan and replay APIs */
+export const zoneScoreParamsShape = {
+  zoneWeights: z
+    .object({
+      touches: zoneWeight('touches'),
+      volume: zoneWeight('volume'),
+      recency: zoneWeight('recency'),
+      rejection: zoneWeight('rejection'),
+      confluence: zoneWeight('confluence'),
+    })
+    .strict()
+    .optional(),
+  zoneRecencyHalfLife: z
+    .number({ message: 'zoneRecencyHalfLife must be a number' })
+    .positive({ message: 'zoneRecencyHalfLife must be positive' })
+    .max(250, { message: 'zoneRecencyHalfLife must be at most 250' })
+    .optional(),
+};
 
 export function nearestAbove(list: number[], price: number): number | null {
   const filtered = list.filter(p => p > price);
@@ -12,17 +57,11 @@ export function nearestBelow(list: number[], price: number): number | null {
   return Math.max(...filtered);
 }
 
-export function createLiquidityMap(bars: OhlcBar[]): LiquidityMap {
-  return {
-    highs: bars.map(b => b.high),
-    lows: bars.map(b => b.low)
-  };
-}
-
 export function findStructuralZones(
   bars: OhlcBar[],
   symbol: SymbolCode,
   lookbackDays?: number,
+  scoring?: ZoneScoreOptions,
 ): OcZone[] {
   const zoneLookback = lookbackDays ?? CONFIG.lookback_days;
 
@@ -32,7 +71,7 @@ export function findStructuralZones(
 
   // Use last lookback_days for zone analysis
   const analysisBars = bars.slice(-zoneLookback);
-  const clusterRadius = CONFIG.oc_cluster_radius[symbol];
+  const { clusterRadius } = getInstrument(symbol);
   
   // Collect all Opens and Closes
   const points: number[] = [];
@@ -78,19 +117,81 @@ export function findStructuralZones(
   
   // Score zones
   for (const zone of zones) {
-    let score = 0;
-    for (const bar of analysisBars) {
-      if (bar.close >= zone.zone_low && bar.close <= zone.zone_high) {
-        score += 2;
-      }
-      if (bar.open >= zone.zone_low && bar.open <= zone.zone_high) {
-        score += 1;
-      }
-    }
-    zone.score = score;
+    Object.assign(
+      zone,
+      scoreZone(zone, analysisBars, {
+        confluenceTolerance: clusterRadius,
+        ...scoring,
+      }),
+    );
   }
   
   // Sort by score descending and keep top 5
   zones.sort((a, b) => b.score - a.score);
   return zones.slice(0, 5);
-}
\ No newline at end of file
+}
+
+/**
+ * Score a zone against the bars it was found in: each component of
+ * ZoneScoreBreakdown times its weight. The prior day is the bar before the
+ * last one.
+ */
+export function scoreZone(
+  zone: Pick<OcZone, 'zone_low' | 'zone_high'>,
+  bars: OhlcBar[],
+  options?: ZoneScoreOptions,
+): { score: number; scoreBreakdown: ZoneScoreBreakdown } {
+  const weights = { ...CONFIG.zone_score_weights, ...options?.weights };
+  const halfLife = options?.recencyHalfLife ?? CONFIG.zone_recency_half_life;
+  const tolerance = options?.confluenceTolerance ?? 0;
+  const inside = (price: number) => price >= zone.zone_low && price <= zone.zone_high;
+
+  const volumes = bars
+    .map(b => b.tickVolume)
+    .filter((v): v is number => v != null && Number.isFinite(v));
+  const avgVolume =
+    volumes.length > 0 ? volumes.reduce((sum, v) => sum + v, 0) / volumes.length : 0;
+
+  const raw: ZoneScoreBreakdown = {
+    touches: 0,
+    volume: 0,
+    recency: 0,
+    rejection: 0,
+    confluence: 0,
+  };
+
+  bars.forEach((bar, i) => {
+    const points = (inside(bar.close) ? 2 : 0) + (inside(bar.open) ? 1 : 0);
+    raw.touches += points;
+    raw.recency += points * 0.5 ** ((bars.length - 1 - i) / halfLife);
+    if (points > 0 && avgVolume > 0 && bar.tickVolume != null) {
+      raw.volume += bar.tickVolume / avgVolume;
+    }
+
+    // A wick into the zone with the whole body back out of it
+    const range = bar.high - bar.low;
+    const bodyLow = Math.min(bar.open, bar.close);
+    const bodyHigh = Math.max(bar.open, bar.close);
+    if (range <= 0) return;
+    if (bar.low <= zone.zone_high && bodyLow > zone.zone_high) {
+      raw.rejection += (bodyLow - bar.low) / range;
+    } else if (bar.high >= zone.zone_low && bodyHigh < zone.zone_low) {
+      raw.rejection += (bar.high - bodyHigh) / range;
+    }
+  });
+
+  const prior = bars[bars.length - 2];
+  if (prior) {
+    raw.confluence = [prior.high, prior.low].filter(
+      price => price >= zone.zone_low - tolerance && price <= zone.zone_high + tolerance,
+    ).length;
+  }
+
+  const scoreBreakdown = { ...raw };
+  let score = 0;
+  for (const component of ZONE_SCORE_COMPONENTS) {
+    scoreBreakdown[component] = raw[component] * weights[component];
+    score += scoreBreakdown[component];
+  }
+  return { score, scoreBreakdown };
+}
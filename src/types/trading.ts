@@ -1,5 +1,14 @@
 import type React from "react";
-import type { CandidateDiagnostics } from "@/lib/trading/types";
+import type {
+  CandidateDiagnostics,
+  DailyStructureContext,
+  MacroTrendClassifier,
+  OhlcDataSource,
+  SessionContext,
+  SymbolNewsContext,
+  Timeframe,
+  ZoneScoreBreakdown,
+} from "@/lib/trading/types";
 import type { SweetspotState } from "@/lib/trading/pullback-analysis";
 
 export type TrendDirection = "bull" | "bear" | "range";
@@ -21,6 +30,9 @@ export interface NearestZoneInfo {
   label: ZoneProximityLabel;
   distancePoints: number;
   distancePercent: number;
+  score?: number;
+  /** Weighted score components of the zone, shown in its tooltip */
+  scoreBreakdown?: ZoneScoreBreakdown;
 }
 
 export type PullbackBucket =
@@ -63,6 +75,12 @@ export interface MacroTrendDiagnostics {
   totalTrendDays: number;
   dominanceThreshold: number;
   lookback: number;
+  score?: number;
+  bullThreshold?: number;
+  bearThreshold?: number;
+  dominance?: "window" | "trend_days";
+  classifier?: MacroTrendClassifier;
+  detail?: string;
 }
 
 export interface SymbolCardProps {
@@ -89,5 +107,15 @@ export interface SymbolCardProps {
   priceFormatter?: (price: number) => string;
   children?: React.ReactNode;
   candidateDiagnostics?: CandidateDiagnostics;
+  /** Provider and date range of the daily bars; synthetic/stale data is flagged */
+  dataSource?: OhlcDataSource;
+  /** Bars the card was scanned on (default D1) */
+  timeframe?: Timeframe;
+  /** Daily structure behind an intraday card */
+  dailyStructure?: DailyStructureContext;
+  /** Economic calendar around the scan; absent on as-of scans */
+  news?: SymbolNewsContext;
+  /** Trading sessions at scan time */
+  sessionContext?: SessionContext;
   defaultCollapsed?: boolean;
 }